@@ -1,4 +1,13 @@
 import { denoEnv } from '@/shared-deno-env';
+import {
+  createLLMProvider,
+  type LLMFeature,
+  type LLMMessage,
+  type LLMRequestOptions,
+  resolveLLMConfig,
+} from '../utils/llm-provider.ts';
+import type { ChunkableSegment } from '../utils/transcript-chunker.ts';
+import { summarizeTranscript, type SummaryType } from '../utils/transcript-summarizer.ts';
 import type { ContentAnalysis, Definition, VideoSummaryContent } from './types.ts';
 
 /**
@@ -183,142 +192,48 @@ export async function getWordPronunciation(word: string): Promise<string | undef
 }
 
 // ============================================
-// OpenAI Integration
+// LLM Integration
 // ============================================
 
-export async function callOpenAI(
-  messages: Array<{ role: string; content: string }>,
-  options: {
-    temperature?: number;
-    maxTokens?: number;
-    model?: string;
-    responseFormat?: { type: 'json_object' };
-  } = {}
-): Promise<{ response: string; tokensUsed: number }> {
-  const apiKey = denoEnv.get('OPENAI_API_KEY');
-  if (!apiKey) {
-    throw new Error('OpenAI API key not configured');
-  }
+export async function callLLM(
+  feature: LLMFeature,
+  messages: LLMMessage[],
+  options: LLMRequestOptions = {}
+): Promise<{ response: string; tokensUsed: number; model: string }> {
+  // Provider, model and credentials come from the feature's LLM_* config
+  const provider = createLLMProvider(resolveLLMConfig(feature, key => denoEnv.get(key)));
+  const { response, tokensUsed, model } = await provider.complete(messages, options);
 
-  const model = options.model || denoEnv.get('OPENAI_MODEL') || 'gpt-4o-mini';
-  const maxTokens = options.maxTokens || parseInt(denoEnv.get('OPENAI_MAX_TOKENS') || '2000');
-  const temperature = options.temperature || parseFloat(denoEnv.get('OPENAI_TEMPERATURE') || '0.7');
-
-  const body: any = {
-    model,
-    messages,
-    temperature,
-    max_tokens: maxTokens,
-  };
-
-  if (options.responseFormat) {
-    body.response_format = options.responseFormat;
-  }
-
-  const response = await fetch('https://api.openai.com/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      Authorization: `Bearer ${apiKey}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify(body),
-  });
-
-  if (!response.ok) {
-    const error = await response.json();
-    throw new Error(`OpenAI API error: ${error.error?.message || response.statusText}`);
-  }
-
-  const data = await response.json();
-
-  return {
-    response: data.choices[0].message.content,
-    tokensUsed: data.usage?.total_tokens || 0,
-  };
+  return { response, tokensUsed, model };
 }
 
 // ============================================
 // Summarization
 // ============================================
 
-export async function summarizeWithOpenAI(
+export async function summarizeWithLLM(
   title: string,
-  transcript: string,
-  summaryType: 'brief' | 'detailed' | 'bullet_points',
-  language: string = 'en'
-): Promise<{ summary: VideoSummaryContent; tokensUsed: number }> {
-  const languageName = language === 'vi' ? 'Vietnamese' : 'English';
-
-  const systemPrompt = `You are an expert video content summarizer. Create summaries in ${languageName}.
-Always respond with valid JSON matching this structure:
-{
-  "summary": "main summary text",
-  "key_points": ["point 1", "point 2", ...],
-  "topics": ["topic1", "topic2", ...],
-  "duration_estimate": <reading time in minutes>
-}
-
-${summaryType === 'brief' ? 'Create a concise 2-3 sentence summary capturing the main idea.' : ''}
-${
-  summaryType === 'detailed'
-    ? 'Create a comprehensive summary with context and important details.'
-    : ''
-}
-${
-  summaryType === 'bullet_points'
-    ? 'Focus on creating detailed bullet points for key_points field.'
-    : ''
-}`;
-
-  const maxLength = summaryType === 'brief' ? 5000 : 10000;
-  const truncatedTranscript =
-    transcript.length > maxLength
-      ? transcript.substring(0, maxLength) + '...[truncated]'
-      : transcript;
-
-  const userPrompt = `Video Title: "${title}"
-
-Transcript:
-${truncatedTranscript}
-
-Create a ${summaryType} summary of this video content.`;
-
-  const { response, tokensUsed } = await callOpenAI(
-    [
-      { role: 'system', content: systemPrompt },
-      { role: 'user', content: userPrompt },
-    ],
-    {
-      temperature: 0.5,
-      maxTokens: summaryType === 'brief' ? 500 : 2000,
-      responseFormat: { type: 'json_object' },
-    }
-  );
-
-  try {
-    const parsed = JSON.parse(response);
-
-    const summary: VideoSummaryContent = {
-      summary: parsed.summary || '',
-      key_points: parsed.key_points || [],
-      topics: parsed.topics || [],
-      duration_estimate:
-        parsed.duration_estimate || Math.ceil(parsed.summary.split(' ').length / 200),
-      generated_at: new Date().toISOString(),
-    };
-
-    return { summary, tokensUsed };
-  } catch (error: any) {
-    console.error('Failed to parse summary response:', error);
-    throw new Error('Failed to parse AI summary response');
-  }
+  segments: ChunkableSegment[],
+  summaryType: SummaryType,
+  language: string = 'en',
+  customPrompt?: string,
+  youtubeId?: string
+): Promise<{ summary: VideoSummaryContent; tokensUsed: number; model: string }> {
+  return summarizeTranscript((messages, options) => callLLM('summarize', messages, options), {
+    title,
+    segments,
+    summaryType,
+    language,
+    customPrompt,
+    youtubeId,
+  });
 }
 
 // ============================================
 // Content Analysis
 // ============================================
 
-export async function analyzeContentWithOpenAI(
+export async function analyzeContentWithLLM(
   transcript: string,
   analysisType: 'fact_opinion' | 'sentiment' | 'bias',
   segments?: number[]
@@ -368,7 +283,8 @@ ${systemPrompts[analysisType]}`;
     content = content.substring(0, maxLength) + '...[truncated]';
   }
 
-  const { response, tokensUsed } = await callOpenAI(
+  const { response, tokensUsed } = await callLLM(
+    'analyze',
     [
       { role: 'system', content: systemPrompt },
       {
@@ -53,11 +53,25 @@ export interface SummarizeResponse {
   model: string;
 }
 
+export interface KeyPointSource {
+  start_seconds: number;
+  end_seconds: number;
+}
+
+export interface KeyPoint {
+  text: string;
+  start_seconds: number | null;
+  end_seconds: number | null;
+  segment_indices: number[];
+  url: string | null;
+}
+
 export interface VideoSummaryContent {
   summary: string;
-  key_points?: string[];
+  key_points?: KeyPoint[];
   topics?: string[];
   duration_estimate?: number;
+  chunk_count?: number;
   generated_at: string;
 }
 
@@ -150,6 +164,7 @@ export interface VideoSummaryRecord {
   user_id: string;
   summary_type: string;
   language: string;
+  prompt_hash: string; // SHA-256 of the custom prompt, empty without one
   content: VideoSummaryContent;
   model: string;
   tokens_used?: number;
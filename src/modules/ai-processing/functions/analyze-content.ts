@@ -246,15 +246,15 @@ serve(
 
       transcriptText = selectedSegments.map((segment: any) => segment.text).join(' ');
 
-      // Perform content analysis using OpenAI
-      logger.info('Analyzing content with OpenAI', {
+      // Perform content analysis with the configured LLM provider
+      logger.info('Analyzing content', {
         video_id,
         analysis_type,
         transcript_length: transcriptText.length,
         segment_count: selectedSegments.length,
       });
 
-      const { analysis, tokensUsed } = await openAIClient.analyzeContent(
+      const { analysis, tokensUsed, model } = await openAIClient.analyzeContent(
         transcriptText,
         analysis_type,
         segments
@@ -285,7 +285,7 @@ serve(
           analysis_type,
           analysis,
           analysis.confidence_score,
-          denoEnv.get('OPENAI_MODEL') || 'gpt-4o-mini',
+          model,
           segments,
           tokensUsed
         );
@@ -309,7 +309,7 @@ serve(
         suggestions,
         tokens_used: tokensUsed,
         cached: false,
-        model: denoEnv.get('OPENAI_MODEL') || 'gpt-4o-mini',
+        model,
       };
 
       return new Response(JSON.stringify({ success: true, data: response }), {
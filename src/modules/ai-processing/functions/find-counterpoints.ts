@@ -217,15 +217,15 @@ serve(async request => {
     // Extract text from transcript segments
     const transcriptText = transcript.segments.map((segment: any) => segment.text).join(' ');
 
-    // Find counter-perspectives using OpenAI
-    logger.info('Finding counter-perspectives with OpenAI', {
+    // Find counter-perspectives with the configured LLM provider
+    logger.info('Finding counter-perspectives', {
       video_id,
       transcript_length: transcriptText.length,
       main_topics_provided: !!main_topics,
       original_perspective_provided: !!original_perspective,
     });
 
-    const { counterPerspectives, searchKeywords, tokensUsed } =
+    const { counterPerspectives, searchKeywords, tokensUsed, model } =
       await openAIClient.findCounterPerspectives(
         video.title,
         transcriptText,
@@ -249,7 +249,7 @@ serve(async request => {
       extractedOriginalPerspective,
       counterPerspectives,
       searchKeywords,
-      denoEnv.get('OPENAI_MODEL') || 'gpt-4o-mini',
+      model,
       tokensUsed
     );
 
@@ -268,7 +268,7 @@ serve(async request => {
       search_keywords: searchKeywords,
       tokens_used: tokensUsed,
       cached: false,
-      model: denoEnv.get('OPENAI_MODEL') || 'gpt-4o-mini',
+      model,
     };
 
     return new Response(JSON.stringify({ success: true, data: response }), {
@@ -0,0 +1,321 @@
+import { AuthService } from '@/auth';
+import { createAppError, ErrorType } from '@/errors';
+import { Logger } from '@/logging';
+import { createRateLimiter } from '@/rate-limiting';
+import { denoEnv } from '@/shared-deno-env';
+import { createClient } from '@supabase/supabase-js';
+import { serve } from 'std/http/server.ts';
+import { z } from 'zod';
+import type { VideoSummaryContent } from '../types';
+import { aiCacheManager } from '../utils/cache-manager.ts';
+import { isSupportedLanguage } from '../utils/languages.ts';
+import { openAIClient } from '../utils/openai-client.ts';
+import { findPromptInjection, hashPrompt, normalizeCustomPrompt } from '../utils/prompt-safety.ts';
+import { createSSEResponse, type SSESend } from '../utils/sse.ts';
+
+const logger = new Logger({ service: 'summarize-stream-function' });
+
+// Rate limiting configuration, shared with the non-streaming summarize function
+const rateLimiterFree = createRateLimiter({
+  windowMs: 24 * 60 * 60 * 1000, // 24 hours
+  maxRequests: parseInt(denoEnv.get('SUMMARY_RATE_LIMIT_FREE') || '5'),
+  keyGenerator: request => {
+    const auth = request.headers.get('authorization');
+    return auth ? `summarize:${auth}` : `summarize:${request.headers.get('x-real-ip')}`;
+  },
+});
+
+const rateLimiterPremium = createRateLimiter({
+  windowMs: 24 * 60 * 60 * 1000, // 24 hours
+  maxRequests: parseInt(denoEnv.get('SUMMARY_RATE_LIMIT_PREMIUM') || '50'),
+  keyGenerator: request => {
+    const auth = request.headers.get('authorization');
+    return auth ? `summarize:${auth}` : `summarize:${request.headers.get('x-real-ip')}`;
+  },
+});
+
+const requestSchema = z.object({
+  video_id: z.string().uuid(),
+  summary_type: z.enum(['brief', 'detailed', 'bullet_points']),
+  language: z.string().length(2).default('en'),
+  custom_prompt: z.string().max(500).optional(),
+});
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-api-key, content-type',
+};
+
+function jsonError(status: number, code: string, message: string, details?: unknown): Response {
+  return new Response(JSON.stringify({ success: false, error: { code, message, details } }), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+/**
+ * Error code, status and client message for a summarization failure, matching
+ * the non-streaming summarize function
+ */
+function describeError(error: any): { code: string; status: number; message: string } {
+  if (error.type === ErrorType.NOT_FOUND) {
+    return {
+      code: error.message.includes('transcript') ? 'TRANSCRIPT_NOT_FOUND' : 'VIDEO_NOT_FOUND',
+      status: 404,
+      message: error.message,
+    };
+  }
+  if (error.type === ErrorType.AUTHORIZATION_ERROR) {
+    return { code: 'UNAUTHORIZED', status: 403, message: error.message };
+  }
+  if (error.type === ErrorType.EXTERNAL_SERVICE_ERROR) {
+    return {
+      code: 'MODEL_ERROR',
+      status: 503,
+      message: 'AI service temporarily unavailable. Please try again later.',
+    };
+  }
+  if (error.message?.includes('quota')) {
+    return {
+      code: 'QUOTA_EXCEEDED',
+      status: 503,
+      message: 'AI service quota exceeded. Please try again later.',
+    };
+  }
+  return {
+    code: 'SUMMARIZATION_FAILED',
+    status: 500,
+    message: error.message || 'Failed to generate summary',
+  };
+}
+
+/**
+ * Send a finished summary as the key_points and topics events
+ */
+function sendSummaryParts(send: SSESend, summary: VideoSummaryContent) {
+  send('key_points', { key_points: summary.key_points });
+  send('topics', { topics: summary.topics });
+}
+
+serve(
+  async request => {
+    // Handle CORS preflight
+    if (request.method === 'OPTIONS') {
+      return new Response(null, {
+        status: 204,
+        headers: corsHeaders,
+      });
+    }
+
+    if (request.method !== 'POST') {
+      return jsonError(405, 'METHOD_NOT_ALLOWED', 'Only POST method allowed');
+    }
+
+    // Authenticate user
+    const authService = new AuthService();
+    const { user } = await authService.authenticateRequest(request);
+
+    if (!user) {
+      return jsonError(401, 'UNAUTHORIZED', 'Authentication required');
+    }
+
+    // Parse and validate request
+    const body = await request.json();
+    const validation = requestSchema.safeParse(body);
+
+    if (!validation.success) {
+      return jsonError(400, 'VALIDATION_ERROR', 'Invalid request data', validation.error.errors);
+    }
+
+    const { video_id, summary_type, custom_prompt } = validation.data;
+    const language = validation.data.language.toLowerCase();
+
+    if (!isSupportedLanguage(language)) {
+      return jsonError(
+        400,
+        'INVALID_LANGUAGE',
+        `Unsupported language: ${language}. Use an ISO 639-1 code.`
+      );
+    }
+
+    // Same custom prompt handling as the summarize function
+    const customPrompt = normalizeCustomPrompt(custom_prompt);
+    if (findPromptInjection(customPrompt)) {
+      return jsonError(
+        400,
+        'INVALID_PROMPT',
+        'custom_prompt may only describe what the summary should focus on, not change how it is generated'
+      );
+    }
+    const promptHash = await hashPrompt(customPrompt);
+
+    // Apply rate limiting based on user tier
+    const isPremium = user.subscription_tier === 'premium' || user.subscription_tier === 'pro';
+    const rateLimiter = isPremium ? rateLimiterPremium : rateLimiterFree;
+
+    try {
+      await rateLimiter(request);
+    } catch {
+      return jsonError(
+        429,
+        'RATE_LIMIT_EXCEEDED',
+        isPremium
+          ? `Premium rate limit exceeded: ${denoEnv.get(
+              'SUMMARY_RATE_LIMIT_PREMIUM'
+            )} summaries per day`
+          : `Free rate limit exceeded: ${denoEnv.get(
+              'SUMMARY_RATE_LIMIT_FREE'
+            )} summaries per day. Upgrade to premium for more.`
+      );
+    }
+
+    const supabase = createClient();
+
+    try {
+      // Cached summaries are replayed as the same events
+      const cachedSummary = await aiCacheManager.getCachedSummary(
+        video_id,
+        summary_type,
+        language,
+        promptHash
+      );
+
+      if (cachedSummary) {
+        logger.info('Streaming cached summary', { video_id, summary_type, language });
+
+        return createSSEResponse(async send => {
+          const content = cachedSummary.content as VideoSummaryContent;
+          send('summary', { text: content.summary });
+          sendSummaryParts(send, content);
+          send('done', {
+            tokens_used: cachedSummary.tokens_used || 0,
+            cached: true,
+            model: cachedSummary.model,
+            chunk_count: content.chunk_count,
+          });
+        }, corsHeaders);
+      }
+
+      // Lookups happen before the stream opens so failures keep their status codes
+      const { data: video, error: videoError } = await supabase
+        .from('youtube_videos')
+        .select('*')
+        .eq('id', video_id)
+        .single();
+
+      if (videoError || !video) {
+        throw createAppError(ErrorType.NOT_FOUND, 'Video not found', { video_id });
+      }
+
+      // Check if user has access to this video
+      const { data: userHistory } = await supabase
+        .from('user_video_history')
+        .select('id')
+        .eq('video_id', video_id)
+        .eq('user_id', user.id)
+        .single();
+
+      if (!userHistory) {
+        throw createAppError(
+          ErrorType.AUTHORIZATION_ERROR,
+          'You do not have access to this video. Please analyze the video first.',
+          { video_id }
+        );
+      }
+
+      // Fetch transcript, falling back to English
+      let { data: transcript } = await supabase
+        .from('video_transcripts')
+        .select('*')
+        .eq('video_id', video_id)
+        .eq('language', language)
+        .single();
+
+      if (!transcript) {
+        ({ data: transcript } = await supabase
+          .from('video_transcripts')
+          .select('*')
+          .eq('video_id', video_id)
+          .eq('language', 'en')
+          .single());
+      }
+
+      if (!transcript) {
+        throw createAppError(ErrorType.NOT_FOUND, 'No transcript available for this video', {
+          video_id,
+          language,
+        });
+      }
+
+      logger.info('Streaming summary', {
+        video_id,
+        summary_type,
+        language,
+        segment_count: transcript.segments.length,
+      });
+
+      return createSSEResponse(async send => {
+        try {
+          const { summary, tokensUsed, model } = await openAIClient.summarizeVideoStream(
+            video.title,
+            transcript.segments,
+            summary_type,
+            language,
+            customPrompt,
+            video.video_id,
+            {
+              onSummaryText: text => send('summary', { text }),
+              onProgress: (completed, total) => send('progress', { completed, total }),
+            }
+          );
+
+          sendSummaryParts(send, summary);
+
+          // Cached even if the client has disconnected
+          await aiCacheManager.cacheSummary(
+            video_id,
+            user.id,
+            summary_type,
+            language,
+            summary,
+            model,
+            tokensUsed,
+            promptHash
+          );
+
+          logger.info('Summary streamed', {
+            video_id,
+            summary_type,
+            language,
+            tokensUsed,
+            estimatedCost: openAIClient.estimateCost(tokensUsed),
+          });
+
+          send('done', {
+            tokens_used: tokensUsed,
+            cached: false,
+            model,
+            chunk_count: summary.chunk_count,
+          });
+        } catch (error: any) {
+          logger.error('Summary stream error:', error);
+          const { code, message } = describeError(error);
+          send('error', { code, message });
+        }
+      }, corsHeaders);
+    } catch (error: any) {
+      logger.error('Summarization error:', error);
+      const { code, status, message } = describeError(error);
+      return jsonError(status, code, message, error.details);
+    }
+  },
+  {
+    name: 'summarize-stream',
+    version: 'v1',
+    schema: requestSchema,
+    middleware: [],
+    rateLimit: {
+      enabled: false, // We handle rate limiting internally based on user tier
+    },
+  }
+);
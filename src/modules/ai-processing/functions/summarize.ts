@@ -8,7 +8,9 @@ import { serve } from 'std/http/server.ts';
 import { z } from 'zod';
 import { type SummarizeResponse } from '../types';
 import { aiCacheManager } from '../utils/cache-manager.ts';
+import { isSupportedLanguage } from '../utils/languages.ts';
 import { openAIClient } from '../utils/openai-client.ts';
+import { findPromptInjection, hashPrompt, normalizeCustomPrompt } from '../utils/prompt-safety.ts';
 
 const logger = new Logger({ service: 'summarize-function' });
 
@@ -110,7 +112,45 @@ serve(
       );
     }
 
-    const { video_id, summary_type, language, custom_prompt } = validation.data;
+    const { video_id, summary_type, custom_prompt } = validation.data;
+    const language = validation.data.language.toLowerCase();
+
+    if (!isSupportedLanguage(language)) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: {
+            code: 'INVALID_LANGUAGE',
+            message: `Unsupported language: ${language}. Use an ISO 639-1 code.`,
+          },
+        }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    // Custom instructions go to the model in a delimited section; attempts to
+    // override the system prompt are rejected outright
+    const customPrompt = normalizeCustomPrompt(custom_prompt);
+    if (findPromptInjection(customPrompt)) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: {
+            code: 'INVALID_PROMPT',
+            message:
+              'custom_prompt may only describe what the summary should focus on, not change how it is generated',
+          },
+        }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        }
+      );
+    }
+    const promptHash = await hashPrompt(customPrompt);
 
     // Apply rate limiting based on user tier
     const isPremium = user.subscription_tier === 'premium' || user.subscription_tier === 'pro';
@@ -144,7 +184,12 @@ serve(
 
     try {
       // Check cache first
-      const cachedSummary = await aiCacheManager.getCachedSummary(video_id, summary_type, language);
+      const cachedSummary = await aiCacheManager.getCachedSummary(
+        video_id,
+        summary_type,
+        language,
+        promptHash
+      );
 
       if (cachedSummary) {
         const response: SummarizeResponse = {
@@ -224,22 +269,21 @@ serve(
         transcript.segments = englishTranscript.segments;
       }
 
-      // Extract text from transcript segments
-      const transcriptText = transcript.segments.map((segment: any) => segment.text).join(' ');
-
-      // Generate summary using OpenAI
-      logger.info('Generating summary with OpenAI', {
+      // Generate summary with the configured LLM provider
+      logger.info('Generating summary', {
         video_id,
         summary_type,
         language,
-        transcript_length: transcriptText.length,
+        segment_count: transcript.segments.length,
       });
 
-      const { summary, tokensUsed } = await openAIClient.summarizeVideo(
+      const { summary, tokensUsed, model } = await openAIClient.summarizeVideo(
         video.title,
-        transcriptText,
+        transcript.segments,
         summary_type,
-        language
+        language,
+        customPrompt,
+        video.video_id
       );
 
       // Cache the summary
@@ -249,8 +293,9 @@ serve(
         summary_type,
         language,
         summary,
-        denoEnv.get('OPENAI_MODEL') || 'gpt-4o-mini',
-        tokensUsed
+        model,
+        tokensUsed,
+        promptHash
       );
 
       // Log cost estimation
@@ -270,7 +315,7 @@ serve(
         content: summary,
         tokens_used: tokensUsed,
         cached: false,
-        model: denoEnv.get('OPENAI_MODEL') || 'gpt-4o-mini',
+        model,
       };
 
       return new Response(JSON.stringify({ success: true, data: response }), {
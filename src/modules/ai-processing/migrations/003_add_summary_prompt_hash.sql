@@ -0,0 +1,7 @@
+-- Cache summaries per custom prompt
+ALTER TABLE video_summaries
+ADD COLUMN prompt_hash TEXT NOT NULL DEFAULT '';
+-- Summaries without a custom prompt keep the empty hash
+ALTER TABLE video_summaries DROP CONSTRAINT IF EXISTS video_summaries_video_id_summary_type_language_key;
+ALTER TABLE video_summaries
+ADD CONSTRAINT video_summaries_video_id_summary_type_language_prompt_hash_key UNIQUE(video_id, summary_type, language, prompt_hash);
@@ -19,6 +19,7 @@ vi.mock('../../utils/openai-client', () => ({
       ],
       searchKeywords: ['alternative viewpoint', 'opposing argument'],
       tokensUsed: 1500,
+      model: 'gpt-4o-mini',
     }),
     estimateCost: vi.fn().mockReturnValue(0.0015),
   },
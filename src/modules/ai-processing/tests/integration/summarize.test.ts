@@ -9,9 +9,9 @@ const FUNCTION_URL = `${BASE_URL}/functions/v1/ai_summarize`;
 const mockSummaryResponse = {
   summary: "This video explains the basics of TypeScript and its benefits for JavaScript developers.",
   key_points: [
-    "TypeScript adds static typing to JavaScript",
-    "Helps catch errors at compile time",
-    "Improves IDE support and code completion"
+    { text: "TypeScript adds static typing to JavaScript", start_seconds: 0, end_seconds: 5, segment_indices: [0], url: "https://youtu.be/test123?t=0" },
+    { text: "Helps catch errors at compile time", start_seconds: 5, end_seconds: 9, segment_indices: [1], url: "https://youtu.be/test123?t=5" },
+    { text: "Improves IDE support and code completion", start_seconds: null, end_seconds: null, segment_indices: [], url: null }
   ],
   topics: ["TypeScript", "JavaScript", "Static Typing", "Development Tools"],
   duration_estimate: 3,
@@ -84,7 +84,8 @@ describe('Summarization API Integration Tests', () => {
       openAIClient: {
         summarizeVideo: vi.fn().mockResolvedValue({
           summary: mockSummaryResponse,
-          tokensUsed: 500
+          tokensUsed: 500,
+          model: 'gpt-4o-mini'
         }),
         estimateCost: vi.fn().mockReturnValue(0.0001)
       }
@@ -0,0 +1,129 @@
+// Unit tests for aligning summary key points to transcript segments
+
+import { describe, expect, it } from 'vitest';
+import {
+  alignKeyPoints,
+  hasLegacyKeyPoints,
+  keyPointUrl,
+  toKeyPoints,
+  upgradeKeyPoints,
+} from '../utils/key-point-alignment';
+
+const segments = [
+  { start: 0, duration: 4, text: 'Hi everyone, welcome to the course.' },
+  { start: 4, duration: 6, text: 'First we install the compiler and set up the editor.' },
+  { start: 10, duration: 5, text: 'Variables hold values that your program can change.' },
+  { start: 15, duration: 5, text: 'Functions group statements so you can reuse them,' },
+  { start: 20, duration: 5, text: 'and they can return a result to the caller.' },
+  { start: 25, duration: 5, text: 'Next time we cover loops.' },
+  { start: 30, duration: 5, text: 'Remember: functions can return a result.' },
+];
+
+describe('alignKeyPoints', () => {
+  it('matches paraphrased points despite different word forms', () => {
+    const [alignment] = alignKeyPoints(
+      [{ text: 'Installing a compiler and setting up an editor comes first', source: null }],
+      segments
+    );
+
+    expect(alignment).toEqual({ start_seconds: 4, end_seconds: 10, segment_indices: [1] });
+  });
+
+  it('spans consecutive segments when the point is spread over them', () => {
+    const [alignment] = alignKeyPoints(
+      [{ text: 'Functions let you reuse statements and return results to callers', source: null }],
+      segments
+    );
+
+    expect(alignment).toEqual({ start_seconds: 15, end_seconds: 25, segment_indices: [3, 4] });
+  });
+
+  it('prefers the match near the time the model gave', () => {
+    const point = { text: 'Functions can return a result' };
+
+    const [early, late] = alignKeyPoints(
+      [
+        { ...point, source: { start_seconds: 18, end_seconds: 24 } },
+        { ...point, source: { start_seconds: 31, end_seconds: 33 } },
+      ],
+      segments
+    );
+
+    expect(early?.segment_indices).toEqual([3, 4]);
+    expect(late?.segment_indices).toEqual([6]);
+  });
+
+  it('falls back to the given time range, or null, without a good match', () => {
+    const alignments = alignKeyPoints(
+      [
+        { text: 'The instructor is friendly', source: { start_seconds: 10, end_seconds: 20 } },
+        { text: 'The instructor is friendly', source: null },
+      ],
+      segments
+    );
+
+    expect(alignments).toEqual([
+      { start_seconds: 10, end_seconds: 20, segment_indices: [2, 3] },
+      null,
+    ]);
+  });
+
+  it('matches text in scripts written without spaces', () => {
+    const [alignment] = alignKeyPoints(
+      [{ text: '関数は結果を返す', source: null }],
+      [
+        { start: 0, duration: 5, text: 'こんにちは、講座へようこそ。' },
+        { start: 5, duration: 5, text: '関数は呼び出し元に結果を返します。' },
+      ]
+    );
+
+    expect(alignment?.segment_indices).toEqual([1]);
+  });
+});
+
+describe('toKeyPoints', () => {
+  it('adds links at the start of each aligned point', () => {
+    const keyPoints = toKeyPoints(
+      [
+        { text: 'Variables hold values the program changes', source: null },
+        { text: 'Unrelated remark', source: null },
+      ],
+      segments,
+      'abc123DEF45'
+    );
+
+    expect(keyPoints.map(point => point.url)).toEqual(['https://youtu.be/abc123DEF45?t=10', null]);
+    expect(keyPointUrl('abc123DEF45', 75.8)).toBe('https://youtu.be/abc123DEF45?t=75');
+  });
+});
+
+describe('upgradeKeyPoints', () => {
+  it('converts string key points with their parallel sources', () => {
+    const legacy = {
+      key_points: ['Setup', 'Wrap-up'],
+      key_point_sources: [{ start_seconds: 4, end_seconds: 10 }, null],
+    };
+
+    expect(hasLegacyKeyPoints(legacy)).toBe(true);
+    expect(upgradeKeyPoints(legacy, 'abc123DEF45')).toEqual([
+      {
+        text: 'Setup',
+        start_seconds: 4,
+        end_seconds: 10,
+        segment_indices: [],
+        url: 'https://youtu.be/abc123DEF45?t=4',
+      },
+      { text: 'Wrap-up', start_seconds: null, end_seconds: null, segment_indices: [], url: null },
+    ]);
+  });
+
+  it('leaves current key points alone', () => {
+    const current = {
+      key_points: toKeyPoints([{ text: 'Loops next time', source: null }], segments),
+    };
+
+    expect(hasLegacyKeyPoints(current)).toBe(false);
+    expect(hasLegacyKeyPoints({})).toBe(false);
+    expect(upgradeKeyPoints(current)).toEqual(current.key_points);
+  });
+});
@@ -0,0 +1,399 @@
+// Unit tests for the LLM provider layer, run against a local stub server
+
+import { createServer, type IncomingMessage, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import {
+  createLLMProvider,
+  LLMProviderError,
+  type LLMProviderConfig,
+  resolveLLMConfig,
+} from '../utils/llm-provider';
+
+interface StubRequest {
+  method?: string;
+  url?: string;
+  headers: IncomingMessage['headers'];
+  body: any;
+}
+
+let server: Server;
+let baseUrl: string;
+let requests: StubRequest[];
+// A string body is sent as an event stream, as is
+let reply: { status: number; body: any };
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    let raw = '';
+    req.on('data', chunk => (raw += chunk));
+    req.on('end', () => {
+      requests.push({
+        method: req.method,
+        url: req.url,
+        headers: req.headers,
+        body: raw ? JSON.parse(raw) : undefined,
+      });
+      if (typeof reply.body === 'string') {
+        res.writeHead(reply.status, { 'Content-Type': 'text/event-stream' });
+        res.end(reply.body);
+        return;
+      }
+      res.writeHead(reply.status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(reply.body));
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+beforeEach(() => {
+  requests = [];
+});
+
+function config(overrides: Partial<LLMProviderConfig>): LLMProviderConfig {
+  return {
+    provider: 'openai-compatible',
+    model: 'stub-model',
+    baseUrl,
+    temperature: 0.7,
+    maxTokens: 2000,
+    ...overrides,
+  };
+}
+
+function events(...data: unknown[]): string {
+  return data
+    .map(item => `data: ${typeof item === 'string' ? item : JSON.stringify(item)}\n\n`)
+    .join('');
+}
+
+function env(values: Record<string, string>) {
+  return (key: string) => values[key];
+}
+
+const messages = [
+  { role: 'system' as const, content: 'Respond with JSON.' },
+  { role: 'user' as const, content: 'Summarize this.' },
+];
+
+describe('resolveLLMConfig', () => {
+  it('defaults to OpenAI with the existing OPENAI_* settings', () => {
+    const resolved = resolveLLMConfig(
+      'summarize',
+      env({ OPENAI_API_KEY: 'sk-test', OPENAI_MODEL: 'gpt-4o', OPENAI_TEMPERATURE: '0.2' })
+    );
+
+    expect(resolved).toEqual({
+      provider: 'openai',
+      model: 'gpt-4o',
+      baseUrl: 'https://api.openai.com/v1',
+      apiKey: 'sk-test',
+      temperature: 0.2,
+      maxTokens: 2000,
+    });
+  });
+
+  it('keeps a temperature of zero', () => {
+    const resolved = resolveLLMConfig(
+      'summarize',
+      env({ OPENAI_API_KEY: 'sk-test', LLM_TEMPERATURE: '0', LLM_MAX_TOKENS: 'many' })
+    );
+
+    expect(resolved.temperature).toBe(0);
+    expect(resolved.maxTokens).toBe(2000);
+  });
+
+  it('prefers feature settings over global ones', () => {
+    const getEnv = env({
+      LLM_PROVIDER: 'anthropic',
+      LLM_MODEL: 'claude-3-5-sonnet-latest',
+      ANTHROPIC_API_KEY: 'ak-test',
+      LLM_SUMMARIZE_MODEL: 'claude-3-5-haiku-latest',
+    });
+
+    expect(resolveLLMConfig('summarize', getEnv).model).toBe('claude-3-5-haiku-latest');
+    expect(resolveLLMConfig('analyze', getEnv).model).toBe('claude-3-5-sonnet-latest');
+  });
+
+  it('does not apply global settings to a feature with its own provider', () => {
+    const resolved = resolveLLMConfig(
+      'counterpoints',
+      env({
+        LLM_PROVIDER: 'openai-compatible',
+        LLM_BASE_URL: 'http://localhost:11434/v1',
+        LLM_MODEL: 'llama3.1',
+        LLM_COUNTERPOINTS_PROVIDER: 'gemini',
+        GEMINI_API_KEY: 'gk-test',
+      })
+    );
+
+    expect(resolved.provider).toBe('gemini');
+    expect(resolved.model).toBe('gemini-1.5-flash');
+    expect(resolved.baseUrl).toBe('https://generativelanguage.googleapis.com');
+  });
+
+  it('requires a base URL and model for OpenAI-compatible servers, but no key', () => {
+    expect(() => resolveLLMConfig('chapters', env({ LLM_PROVIDER: 'openai-compatible' }))).toThrow(
+      /LLM_BASE_URL/
+    );
+
+    const resolved = resolveLLMConfig(
+      'chapters',
+      env({
+        LLM_PROVIDER: 'openai-compatible',
+        LLM_BASE_URL: 'http://localhost:8000/v1/',
+        LLM_MODEL: 'qwen2.5',
+      })
+    );
+    expect(resolved.baseUrl).toBe('http://localhost:8000/v1');
+    expect(resolved.apiKey).toBeUndefined();
+  });
+
+  it('rejects unknown providers and missing keys', () => {
+    expect(() => resolveLLMConfig('summarize', env({ LLM_PROVIDER: 'cohere' }))).toThrow(
+      /Unknown LLM provider/
+    );
+    expect(() => resolveLLMConfig('summarize', env({ LLM_PROVIDER: 'anthropic' }))).toThrow(
+      'Anthropic API key not configured'
+    );
+  });
+});
+
+describe('OpenAI-compatible provider', () => {
+  it('posts chat completions and reads the usage', async () => {
+    reply = {
+      status: 200,
+      body: {
+        model: 'stub-model',
+        choices: [{ message: { content: '{"summary":"ok"}' }, finish_reason: 'stop' }],
+        usage: { total_tokens: 42 },
+      },
+    };
+
+    const provider = createLLMProvider(config({ apiKey: 'local-key' }));
+    const completion = await provider.complete(messages, {
+      temperature: 0.3,
+      responseFormat: { type: 'json_object' },
+    });
+
+    expect(completion).toEqual({
+      response: '{"summary":"ok"}',
+      tokensUsed: 42,
+      model: 'stub-model',
+      provider: 'openai-compatible',
+    });
+    expect(requests[0].url).toBe('/chat/completions');
+    expect(requests[0].headers.authorization).toBe('Bearer local-key');
+    expect(requests[0].body).toEqual({
+      model: 'stub-model',
+      messages,
+      temperature: 0.3,
+      max_tokens: 2000,
+      response_format: { type: 'json_object' },
+    });
+  });
+
+  it('omits the Authorization header without a key', async () => {
+    reply = { status: 200, body: { choices: [{ message: { content: 'hi' } }] } };
+
+    await createLLMProvider(config({})).complete(messages);
+
+    expect(requests[0].headers.authorization).toBeUndefined();
+  });
+
+  it('raises provider errors with the HTTP status', async () => {
+    reply = { status: 429, body: { error: { message: 'Rate limit reached' } } };
+
+    const error = await createLLMProvider(config({}))
+      .complete(messages)
+      .catch(err => err);
+
+    expect(error).toBeInstanceOf(LLMProviderError);
+    expect(error.status).toBe(429);
+    expect(error.message).toBe('OpenAI-compatible API error: Rate limit reached');
+  });
+
+  it('streams deltas and reads the usage from the final chunk', async () => {
+    reply = {
+      status: 200,
+      body: events(
+        { model: 'stub-model', choices: [{ delta: { role: 'assistant' } }] },
+        { choices: [{ delta: { content: '{"summary":' } }] },
+        { choices: [{ delta: { content: '"ok"}' } }] },
+        { choices: [], usage: { total_tokens: 42 } },
+        '[DONE]'
+      ),
+    };
+
+    const deltas: string[] = [];
+    const completion = await createLLMProvider(config({})).stream(messages, {}, text =>
+      deltas.push(text)
+    );
+
+    expect(deltas).toEqual(['{"summary":', '"ok"}']);
+    expect(completion).toEqual({
+      response: '{"summary":"ok"}',
+      tokensUsed: 42,
+      model: 'stub-model',
+      provider: 'openai-compatible',
+    });
+    expect(requests[0].body).toMatchObject({
+      stream: true,
+      stream_options: { include_usage: true },
+    });
+  });
+});
+
+describe('Anthropic provider', () => {
+  it('moves system prompts out of the messages and prefills JSON responses', async () => {
+    reply = {
+      status: 200,
+      body: {
+        model: 'claude-3-5-haiku-20241022',
+        content: [{ type: 'text', text: '"summary":"ok"}' }],
+        usage: { input_tokens: 30, output_tokens: 12 },
+      },
+    };
+
+    const provider = createLLMProvider(
+      config({ provider: 'anthropic', model: 'claude-3-5-haiku-latest', apiKey: 'ak-test' })
+    );
+    const completion = await provider.complete(messages, {
+      maxTokens: 500,
+      responseFormat: { type: 'json_object' },
+    });
+
+    expect(completion).toEqual({
+      response: '{"summary":"ok"}',
+      tokensUsed: 42,
+      model: 'claude-3-5-haiku-20241022',
+      provider: 'anthropic',
+    });
+    expect(requests[0].url).toBe('/v1/messages');
+    expect(requests[0].headers['x-api-key']).toBe('ak-test');
+    expect(requests[0].headers['anthropic-version']).toBe('2023-06-01');
+    expect(requests[0].body).toEqual({
+      model: 'claude-3-5-haiku-latest',
+      system: 'Respond with JSON.',
+      messages: [
+        { role: 'user', content: 'Summarize this.' },
+        { role: 'assistant', content: '{' },
+      ],
+      temperature: 0.7,
+      max_tokens: 500,
+    });
+  });
+
+  it('streams text deltas after the prefill', async () => {
+    reply = {
+      status: 200,
+      body: [
+        'event: message_start',
+        `data: ${JSON.stringify({ type: 'message_start', message: { model: 'claude-3-5-haiku-20241022', usage: { input_tokens: 30 } } })}`,
+        '',
+        ': ping',
+        '',
+        'event: content_block_delta',
+        `data: ${JSON.stringify({ type: 'content_block_delta', delta: { type: 'text_delta', text: '"summary":"ok"}' } })}`,
+        '',
+        'event: message_delta',
+        `data: ${JSON.stringify({ type: 'message_delta', usage: { output_tokens: 12 } })}`,
+        '',
+        '',
+      ].join('\n'),
+    };
+
+    const deltas: string[] = [];
+    const completion = await createLLMProvider(
+      config({ provider: 'anthropic', apiKey: 'ak-test' })
+    ).stream(messages, { responseFormat: { type: 'json_object' } }, text => deltas.push(text));
+
+    expect(deltas).toEqual(['{', '"summary":"ok"}']);
+    expect(completion.response).toBe('{"summary":"ok"}');
+    expect(completion.tokensUsed).toBe(42);
+    expect(completion.model).toBe('claude-3-5-haiku-20241022');
+    expect(requests[0].body.stream).toBe(true);
+  });
+});
+
+describe('Gemini provider', () => {
+  it('sends generateContent requests with a JSON response type', async () => {
+    reply = {
+      status: 200,
+      body: {
+        candidates: [{ content: { parts: [{ text: '{"summary":' }, { text: '"ok"}' }] } }],
+        usageMetadata: { totalTokenCount: 42 },
+        modelVersion: 'gemini-1.5-flash-002',
+      },
+    };
+
+    const provider = createLLMProvider(
+      config({ provider: 'gemini', model: 'gemini-1.5-flash', apiKey: 'gk-test' })
+    );
+    const completion = await provider.complete(messages, {
+      responseFormat: { type: 'json_object' },
+    });
+
+    expect(completion).toEqual({
+      response: '{"summary":"ok"}',
+      tokensUsed: 42,
+      model: 'gemini-1.5-flash-002',
+      provider: 'gemini',
+    });
+    expect(requests[0].url).toBe('/v1beta/models/gemini-1.5-flash:generateContent');
+    expect(requests[0].headers['x-goog-api-key']).toBe('gk-test');
+    expect(requests[0].body).toEqual({
+      systemInstruction: { parts: [{ text: 'Respond with JSON.' }] },
+      contents: [{ role: 'user', parts: [{ text: 'Summarize this.' }] }],
+      generationConfig: {
+        temperature: 0.7,
+        maxOutputTokens: 2000,
+        responseMimeType: 'application/json',
+      },
+    });
+  });
+
+  it('fails when a response was blocked', async () => {
+    reply = { status: 200, body: { candidates: [{ finishReason: 'SAFETY' }] } };
+
+    const provider = createLLMProvider(config({ provider: 'gemini', apiKey: 'gk-test' }));
+
+    await expect(provider.complete(messages)).rejects.toThrow(
+      'Gemini returned no content (SAFETY)'
+    );
+  });
+
+  it('streams with the SSE variant of generateContent', async () => {
+    reply = {
+      status: 200,
+      body: events(
+        { candidates: [{ content: { parts: [{ text: '{"summary":' }] } }] },
+        {
+          candidates: [{ content: { parts: [{ text: '"ok"}' }] } }],
+          usageMetadata: { totalTokenCount: 42 },
+          modelVersion: 'gemini-1.5-flash-002',
+        }
+      ),
+    };
+
+    const deltas: string[] = [];
+    const completion = await createLLMProvider(
+      config({ provider: 'gemini', model: 'gemini-1.5-flash', apiKey: 'gk-test' })
+    ).stream(messages, {}, text => deltas.push(text));
+
+    expect(deltas).toEqual(['{"summary":', '"ok"}']);
+    expect(completion).toEqual({
+      response: '{"summary":"ok"}',
+      tokensUsed: 42,
+      model: 'gemini-1.5-flash-002',
+      provider: 'gemini',
+    });
+    expect(requests[0].url).toBe('/v1beta/models/gemini-1.5-flash:streamGenerateContent?alt=sse');
+  });
+});
@@ -0,0 +1,92 @@
+// Unit tests for Server-Sent Events reading and writing
+
+import { describe, expect, it } from 'vitest';
+import { createSSEResponse, formatSSE, readSSE } from '../utils/sse';
+
+/**
+ * Body delivering the text in the given pieces, to exercise chunk boundaries
+ */
+function body(...pieces: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    start(controller) {
+      pieces.forEach(piece => controller.enqueue(encoder.encode(piece)));
+      controller.close();
+    },
+  });
+}
+
+async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+  const items: T[] = [];
+  for await (const item of iterable) items.push(item);
+  return items;
+}
+
+describe('formatSSE', () => {
+  it('encodes the data as one JSON line', () => {
+    expect(formatSSE('summary', { text: 'line one\nline two' })).toBe(
+      'event: summary\ndata: {"text":"line one\\nline two"}\n\n'
+    );
+  });
+});
+
+describe('readSSE', () => {
+  it('parses events split across chunks', async () => {
+    const messages = await collect(
+      readSSE(body('event: up', 'date\ndata: {"a"', ':1}\r\n\r\n: keep-alive\n\ndata: [DONE]\n\n'))
+    );
+
+    expect(messages).toEqual([{ event: 'update', data: '{"a":1}' }, { data: '[DONE]' }]);
+  });
+
+  it('joins multi-line data and dispatches an unterminated final event', async () => {
+    const messages = await collect(readSSE(body('data: first\ndata: second\n\ndata:last')));
+
+    expect(messages).toEqual([{ data: 'first\nsecond' }, { data: 'last' }]);
+  });
+});
+
+describe('createSSEResponse', () => {
+  it('streams the events sent while running', async () => {
+    const response = createSSEResponse(
+      async send => {
+        send('summary', { text: 'Hello' });
+        send('done', { cached: false });
+      },
+      { 'Access-Control-Allow-Origin': '*' }
+    );
+
+    expect(response.headers.get('Content-Type')).toBe('text/event-stream');
+    expect(response.headers.get('Access-Control-Allow-Origin')).toBe('*');
+    expect(await collect(readSSE(response.body!))).toEqual([
+      { event: 'summary', data: '{"text":"Hello"}' },
+      { event: 'done', data: '{"cached":false}' },
+    ]);
+  });
+
+  it('reports failures as an error event', async () => {
+    const response = createSSEResponse(async send => {
+      send('summary', { text: 'Partial' });
+      throw Object.assign(new Error('Provider went away'), { code: 'MODEL_ERROR' });
+    });
+
+    const messages = await collect(readSSE(response.body!));
+    expect(messages[1]).toEqual({
+      event: 'error',
+      data: '{"code":"MODEL_ERROR","message":"Provider went away"}',
+    });
+  });
+
+  it('keeps running after the client disconnects', async () => {
+    let finished = false;
+    const response = createSSEResponse(async send => {
+      await new Promise(resolve => setTimeout(resolve, 10));
+      send('done', {});
+      finished = true;
+    });
+
+    await response.body!.cancel();
+    await new Promise(resolve => setTimeout(resolve, 30));
+    expect(finished).toBe(true);
+  });
+});
@@ -0,0 +1,102 @@
+// Unit tests for token-budgeted transcript chunking
+
+import { describe, expect, it } from 'vitest';
+import {
+  chunkTranscript,
+  estimateTokens,
+  formatTimestamp,
+  parseTimestamp,
+} from '../utils/transcript-chunker';
+
+function segments(count: number, words = 20, duration = 5) {
+  return Array.from({ length: count }, (_, index) => ({
+    start: index * duration,
+    duration,
+    text: Array.from({ length: words }, (_, word) => `word${index}_${word}`).join(' '),
+  }));
+}
+
+describe('formatTimestamp / parseTimestamp', () => {
+  it('formats minutes and hours', () => {
+    expect(formatTimestamp(0)).toBe('0:00');
+    expect(formatTimestamp(75.9)).toBe('1:15');
+    expect(formatTimestamp(3725)).toBe('1:02:05');
+  });
+
+  it('parses the formats models return', () => {
+    expect(parseTimestamp('1:15')).toBe(75);
+    expect(parseTimestamp('[1:02:05]')).toBe(3725);
+    expect(parseTimestamp(42)).toBe(42);
+    expect(parseTimestamp('42.5')).toBe(42.5);
+    expect(parseTimestamp('soon')).toBeNull();
+    expect(parseTimestamp('')).toBeNull();
+    expect(parseTimestamp(-3)).toBeNull();
+  });
+});
+
+describe('chunkTranscript', () => {
+  it('keeps a short transcript in one chunk with timestamped lines', () => {
+    const chunks = chunkTranscript([
+      { start: 0, duration: 4, text: 'Welcome back.' },
+      { start: 65, duration: 5, text: '  Today  we look at   chunking. ' },
+      { start: 70, duration: 2, text: '' },
+    ]);
+
+    expect(chunks).toEqual([
+      {
+        index: 0,
+        start_seconds: 0,
+        end_seconds: 70,
+        first_segment: 0,
+        last_segment: 1,
+        text: '[0:00] Welcome back.\n[1:05] Today we look at chunking.',
+        tokens:
+          estimateTokens('[0:00] Welcome back.') +
+          estimateTokens('[1:05] Today we look at chunking.'),
+      },
+    ]);
+  });
+
+  it('splits at segment boundaries within the token budget', () => {
+    const chunks = chunkTranscript(segments(100), 500);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(chunk.tokens).toBeLessThanOrEqual(500);
+    }
+
+    // Chunks are consecutive and cover every segment once
+    expect(chunks[0].first_segment).toBe(0);
+    expect(chunks[chunks.length - 1].last_segment).toBe(99);
+    chunks.slice(1).forEach((chunk, index) => {
+      expect(chunk.first_segment).toBe(chunks[index].last_segment + 1);
+      expect(chunk.start_seconds).toBe(chunks[index].end_seconds);
+    });
+  });
+
+  it('grows chunks instead of exceeding the chunk limit', () => {
+    const chunks = chunkTranscript(segments(400), 200, 10);
+
+    expect(chunks.length).toBeLessThanOrEqual(11);
+    expect(chunks[chunks.length - 1].last_segment).toBe(399);
+  });
+
+  it('splits a single oversized segment with interpolated times', () => {
+    const text = Array.from({ length: 600 }, (_, index) => `w${index}`).join(' ');
+    const chunks = chunkTranscript([{ start: 100, duration: 600, text }], 300);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks[0].start_seconds).toBe(100);
+    expect(chunks[chunks.length - 1].end_seconds).toBe(700);
+    for (const chunk of chunks) {
+      expect(chunk.first_segment).toBe(0);
+      expect(chunk.start_seconds).toBeGreaterThanOrEqual(100);
+    }
+    expect(chunks.map(chunk => chunk.text.replace(/^\[[\d:]+\] /gm, '')).join(' ')).toBe(text);
+  });
+
+  it('returns no chunks for an empty transcript', () => {
+    expect(chunkTranscript([])).toEqual([]);
+    expect(chunkTranscript([{ start: 0, duration: 1, text: '  ' }])).toEqual([]);
+  });
+});
@@ -0,0 +1,282 @@
+// Unit tests for map-reduce transcript summarization
+
+import { describe, expect, it } from 'vitest';
+import type { LLMMessage, LLMRequestOptions } from '../utils/llm-provider';
+import {
+  parseFinalSummary,
+  partialJsonString,
+  summarizeTranscript,
+} from '../utils/transcript-summarizer';
+
+interface Call {
+  messages: LLMMessage[];
+  options: LLMRequestOptions;
+}
+
+/**
+ * Completion stub answering chunk requests with one timestamped key point
+ * each and the merge request with the given final response
+ */
+function stubCompletion(finalResponse: object) {
+  const calls: Call[] = [];
+  const complete = async (messages: LLMMessage[], options: LLMRequestOptions) => {
+    calls.push({ messages, options });
+    const user = messages[messages.length - 1].content;
+    const part = user.match(/^Part (\d+) of \d+ \(([\d:]+)-/m);
+
+    const response = part
+      ? {
+          summary: `Summary of part ${part[1]}`,
+          key_points: [{ text: `Point from part ${part[1]}`, start: part[2], end: part[2] }],
+          topics: [`topic${part[1]}`],
+        }
+      : finalResponse;
+
+    return { response: JSON.stringify(response), tokensUsed: 100, model: 'stub-model' };
+  };
+
+  return { calls, complete };
+}
+
+function lecture(minutes: number) {
+  return Array.from({ length: minutes * 6 }, (_, index) => ({
+    start: index * 10,
+    duration: 10,
+    text: `Sentence number ${index} of the lecture explains one more detail about the topic.`,
+  }));
+}
+
+describe('summarizeTranscript', () => {
+  it('summarizes a short transcript in a single request', async () => {
+    const { calls, complete } = stubCompletion({
+      summary: 'A short talk.',
+      key_points: [{ text: 'Opening remark', start: '0:10', end: '0:20' }],
+      topics: ['talks'],
+      duration_estimate: 1,
+    });
+
+    const { summary, tokensUsed, model } = await summarizeTranscript(complete, {
+      title: 'Short talk',
+      segments: lecture(2),
+      summaryType: 'brief',
+    });
+
+    expect(calls).toHaveLength(1);
+    expect(calls[0].options.maxTokens).toBe(500);
+    expect(calls[0].messages[1].content).toContain('[1:50] Sentence number 11');
+    expect(summary).toMatchObject({
+      summary: 'A short talk.',
+      key_points: [
+        {
+          text: 'Opening remark',
+          start_seconds: 10,
+          end_seconds: 20,
+          segment_indices: [1],
+          url: null,
+        },
+      ],
+      topics: ['talks'],
+      chunk_count: 1,
+    });
+    expect(tokensUsed).toBe(100);
+    expect(model).toBe('stub-model');
+  });
+
+  it('summarizes every chunk of a long transcript and merges them', async () => {
+    const { calls, complete } = stubCompletion({
+      summary: 'An hour-long lecture.',
+      key_points: [
+        { text: 'Start', start: '0:00', end: '0:30' },
+        { text: 'End', start: '59:00', end: '59:50' },
+      ],
+      topics: ['lectures'],
+    });
+
+    const { summary, tokensUsed } = await summarizeTranscript(complete, {
+      title: 'Lecture',
+      segments: lecture(60),
+      summaryType: 'detailed',
+      chunkTokens: 1000,
+    });
+
+    const chunkCount = summary.chunk_count!;
+    expect(chunkCount).toBeGreaterThan(1);
+    expect(calls).toHaveLength(chunkCount + 1);
+    expect(tokensUsed).toBe((chunkCount + 1) * 100);
+
+    // The merge request sees every part with its time range and key points
+    const merge = calls[calls.length - 1].messages[1].content;
+    for (let part = 1; part <= chunkCount; part++) {
+      expect(merge).toContain(`Summary: Summary of part ${part}`);
+    }
+    expect(merge).toContain('Part 1 (0:00-');
+    expect(merge).toContain('- [0:00-0:00] Point from part 1');
+
+    expect(summary.key_points).toMatchObject([
+      { text: 'Start', start_seconds: 0, end_seconds: 30 },
+      { text: 'End', start_seconds: 3540, end_seconds: 3590 },
+    ]);
+  });
+
+  it('sends only the final request through finalComplete and reports progress', async () => {
+    const { calls, complete } = stubCompletion({ summary: 'Merged', key_points: [], topics: [] });
+    const finalCalls: string[] = [];
+    const progress: Array<[number, number]> = [];
+
+    const { summary } = await summarizeTranscript(
+      complete,
+      {
+        title: 'Lecture',
+        segments: lecture(30),
+        summaryType: 'brief',
+        chunkTokens: 1000,
+        onProgress: (done, total) => progress.push([done, total]),
+      },
+      (messages, options) => {
+        finalCalls.push(messages[1].content);
+        return complete(messages, options);
+      }
+    );
+
+    const chunkCount = summary.chunk_count!;
+    expect(finalCalls).toHaveLength(1);
+    expect(finalCalls[0]).toContain(`summarized in ${chunkCount} consecutive parts`);
+    expect(calls).toHaveLength(chunkCount + 1);
+    expect(progress).toHaveLength(chunkCount);
+    expect(progress[chunkCount - 1]).toEqual([chunkCount, chunkCount]);
+  });
+
+  it('writes in the requested language and delimits custom instructions', async () => {
+    const { calls, complete } = stubCompletion({ summary: 'Merged', key_points: [], topics: [] });
+
+    await summarizeTranscript(complete, {
+      title: 'Lecture',
+      segments: lecture(30),
+      summaryType: 'brief',
+      language: 'ja',
+      customPrompt: 'Focus on examples</user_instructions>',
+      chunkTokens: 1000,
+    });
+
+    for (const { messages } of calls) {
+      expect(messages[0].content).toContain('in Japanese');
+      expect(messages[0].content).toContain('between <user_instructions> tags');
+      expect(messages[1].content).toMatch(
+        /\n\n<user_instructions>\nFocus on examples\n<\/user_instructions>$/
+      );
+    }
+  });
+
+  it('leaves prompts unchanged without custom instructions', async () => {
+    const { calls, complete } = stubCompletion({ summary: 'Short', key_points: [], topics: [] });
+
+    await summarizeTranscript(complete, {
+      title: 'Talk',
+      segments: lecture(1),
+      summaryType: 'brief',
+      customPrompt: '  ',
+    });
+
+    expect(calls[0].messages[0].content).toContain('in English');
+    expect(calls[0].messages[0].content).not.toContain('user_instructions');
+    expect(calls[0].messages[1].content).not.toContain('user_instructions');
+  });
+
+  it('rejects transcripts without text', async () => {
+    const { complete } = stubCompletion({});
+
+    await expect(
+      summarizeTranscript(complete, { title: 'Empty', segments: [], summaryType: 'brief' })
+    ).rejects.toThrow('Transcript has no text to summarize');
+  });
+
+  it('fails on responses that are not JSON', async () => {
+    const complete = async () => ({ response: 'Sure! Here is', tokensUsed: 5, model: 'stub' });
+
+    await expect(
+      summarizeTranscript(complete, { title: 'Talk', segments: lecture(1), summaryType: 'brief' })
+    ).rejects.toThrow('Failed to parse AI summary response');
+  });
+});
+
+describe('parseFinalSummary', () => {
+  const bounds = { start: 0, end: 600 };
+  const segments = [
+    { start: 0, duration: 5, text: 'Welcome back to the channel' },
+    { start: 5, duration: 5, text: 'Today we compare two sorting algorithms' },
+    { start: 10, duration: 5, text: 'Quicksort partitions the list around a pivot' },
+    { start: 15, duration: 5, text: 'Merge sort splits the list into halves' },
+  ];
+
+  it('aligns plain string key points to the transcript and links them', () => {
+    const summary = parseFinalSummary(
+      JSON.stringify({
+        summary: 'one two three',
+        key_points: ['Quicksort picks a pivot to partition', 'Thanks for watching'],
+      }),
+      bounds,
+      segments,
+      'dQw4w9WgXcQ'
+    );
+
+    expect(summary.key_points).toEqual([
+      {
+        text: 'Quicksort picks a pivot to partition',
+        start_seconds: 10,
+        end_seconds: 15,
+        segment_indices: [2],
+        url: 'https://youtu.be/dQw4w9WgXcQ?t=10',
+      },
+      {
+        text: 'Thanks for watching',
+        start_seconds: null,
+        end_seconds: null,
+        segment_indices: [],
+        url: null,
+      },
+    ]);
+    expect(summary.duration_estimate).toBe(1);
+  });
+
+  it('clamps the timestamps the model gave and falls back to them', () => {
+    const summary = parseFinalSummary(
+      JSON.stringify({
+        summary: 'Mixed',
+        key_points: [
+          { text: 'Late', start: '12:00', end: '13:00' },
+          'No timestamp',
+          { text: 'Reversed', start: '0:17', end: '0:12' },
+          { text: '' },
+        ],
+      }),
+      { start: 0, end: 20 },
+      segments
+    );
+
+    expect(summary.key_points).toEqual([
+      { text: 'Late', start_seconds: 20, end_seconds: 20, segment_indices: [], url: null },
+      {
+        text: 'No timestamp',
+        start_seconds: null,
+        end_seconds: null,
+        segment_indices: [],
+        url: null,
+      },
+      { text: 'Reversed', start_seconds: 17, end_seconds: 17, segment_indices: [3], url: null },
+    ]);
+  });
+});
+
+describe('partialJsonString', () => {
+  it('decodes a string field that is still arriving', () => {
+    const json = '{"summary": "Line one\\nsays \\"hi\\" \\u00e9t\\u00e9", "topics": []}';
+
+    expect(partialJsonString('{"summ', 'summary')).toBe('');
+    expect(partialJsonString(json.slice(0, 21), 'summary')).toBe('Line one');
+    // Escapes are held back until complete
+    expect(partialJsonString(json.slice(0, 22), 'summary')).toBe('Line one');
+    expect(partialJsonString(json.slice(0, 23), 'summary')).toBe('Line one\n');
+    expect(partialJsonString(json.slice(0, 38), 'summary')).toBe('Line one\nsays "hi" ');
+    expect(partialJsonString(json, 'summary')).toBe('Line one\nsays "hi" été');
+  });
+});
@@ -46,11 +46,25 @@ export const SummarizeRequestSchema = z.object({
 
 export type SummarizeRequest = z.infer<typeof SummarizeRequestSchema>;
 
+export interface KeyPointSource {
+  start_seconds: number;
+  end_seconds: number;
+}
+
+export interface KeyPoint {
+  text: string;
+  start_seconds: number | null; // Null when the point could not be placed in the transcript
+  end_seconds: number | null;
+  segment_indices: number[]; // Transcript segments the point was matched to
+  url: string | null; // youtu.be link starting at start_seconds
+}
+
 export interface VideoSummaryContent {
   summary: string;
-  key_points?: string[];
+  key_points?: KeyPoint[];
   topics?: string[];
   duration_estimate?: number; // Reading time in minutes
+  chunk_count?: number; // Transcript chunks summarized separately, then merged
   generated_at: string;
 }
 
@@ -190,6 +204,7 @@ export interface VideoSummaryRecord {
   user_id: string;
   summary_type: 'brief' | 'detailed' | 'bullet_points';
   language: string;
+  prompt_hash: string; // SHA-256 of the custom prompt, empty without one
   content: VideoSummaryContent;
   model: string;
   tokens_used?: number;
@@ -216,7 +231,7 @@ export interface ContentAnalysisRecord {
 
 export interface AIProcessingError {
   code: 'TRANSLATION_FAILED' | 'SUMMARIZATION_FAILED' | 'ANALYSIS_FAILED' | 
-        'COUNTERPOINTS_FAILED' | 'QUOTA_EXCEEDED' | 'INVALID_LANGUAGE' | 
+        'COUNTERPOINTS_FAILED' | 'QUOTA_EXCEEDED' | 'INVALID_LANGUAGE' | 'INVALID_PROMPT' |
         'VIDEO_NOT_FOUND' | 'TRANSCRIPT_NOT_FOUND' | 'MODEL_ERROR';
   message: string;
   details?: any;
@@ -11,6 +11,8 @@ export type {
   SummarizeRequest,
   SummarizeResponse,
   VideoSummaryContent,
+  KeyPoint,
+  KeyPointSource,
   
   // Content Analysis
   AnalyzeContentRequest,
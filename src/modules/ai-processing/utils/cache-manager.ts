@@ -7,6 +7,7 @@ import type {
   CounterPerspectiveRecord,
   VideoSummaryRecord,
 } from '../types';
+import { hasLegacyKeyPoints, upgradeKeyPoints } from './key-point-alignment.ts';
 
 const logger = new Logger({ service: 'ai-cache-manager' });
 
@@ -135,10 +136,14 @@ export class AICacheManager {
   // Summary Cache
   // ============================================
 
+  /**
+   * Summaries are cached per custom prompt; promptHash is empty without one
+   */
   async getCachedSummary(
     videoId: string,
     summaryType: string,
-    language: string
+    language: string,
+    promptHash: string = ''
   ): Promise<VideoSummaryRecord | null> {
     try {
       const { data, error } = await this.supabase
@@ -147,6 +152,7 @@ export class AICacheManager {
         .eq('video_id', videoId)
         .eq('summary_type', summaryType)
         .eq('language', language)
+        .eq('prompt_hash', promptHash)
         .single();
 
       if (error) {
@@ -172,9 +178,19 @@ export class AICacheManager {
         videoId,
         summaryType,
         language,
+        promptHash,
         cacheAge: Math.round(ageInSeconds / 3600) + ' hours',
       });
 
+      // Summaries cached before key points had timestamps and links
+      if (hasLegacyKeyPoints(data.content)) {
+        const { key_point_sources: _sources, ...content } = data.content;
+        data.content = {
+          ...content,
+          key_points: upgradeKeyPoints(data.content, await this.getYoutubeId(videoId)),
+        };
+      }
+
       return data;
     } catch (error: any) {
       logger.error('Summary cache lookup error', { error });
@@ -189,7 +205,8 @@ export class AICacheManager {
     language: string,
     content: any,
     model: string,
-    tokensUsed?: number
+    tokensUsed?: number,
+    promptHash: string = ''
   ): Promise<void> {
     try {
       // First, try to update existing cache entry
@@ -204,7 +221,8 @@ export class AICacheManager {
         })
         .eq('video_id', videoId)
         .eq('summary_type', summaryType)
-        .eq('language', language);
+        .eq('language', language)
+        .eq('prompt_hash', promptHash);
 
       if (updateError) {
         // If update failed, insert new record
@@ -213,6 +231,7 @@ export class AICacheManager {
           user_id: userId,
           summary_type: summaryType,
           language,
+          prompt_hash: promptHash,
           content,
           model,
           tokens_used: tokensUsed,
@@ -227,6 +246,7 @@ export class AICacheManager {
         videoId,
         summaryType,
         language,
+        promptHash,
         model,
         tokensUsed,
       });
@@ -235,6 +255,16 @@ export class AICacheManager {
     }
   }
 
+  private async getYoutubeId(videoId: string): Promise<string | undefined> {
+    const { data } = await this.supabase
+      .from('youtube_videos')
+      .select('video_id')
+      .eq('id', videoId)
+      .single();
+
+    return data?.video_id;
+  }
+
   private async deleteCachedSummary(id: string): Promise<void> {
     await this.supabase.from('video_summaries').delete().eq('id', id);
   }
@@ -0,0 +1,236 @@
+// Placing summary key points on the transcript timeline
+
+import type { KeyPoint, KeyPointSource } from '../types/ai-processing.ts';
+import type { ChunkableSegment } from './transcript-chunker.ts';
+
+/**
+ * Key point as the model returned it, with the time range it claimed
+ */
+export interface KeyPointCandidate {
+  text: string;
+  source: KeyPointSource | null;
+}
+
+export interface KeyPointAlignment {
+  start_seconds: number;
+  end_seconds: number;
+  segment_indices: number[];
+}
+
+/**
+ * Share of a key point's weighted terms a transcript window must contain to
+ * count as the place the point is made
+ */
+export const MIN_MATCH_SCORE = 0.35;
+
+/**
+ * Most consecutive segments one key point is matched to
+ */
+export const MAX_WINDOW_SEGMENTS = 4;
+
+/**
+ * Score bonus for windows near the time range the model gave, which breaks
+ * ties between repeated phrases without overriding a clearly better match
+ */
+const SOURCE_BONUS = 0.1;
+const SOURCE_SLACK_SECONDS = 5;
+
+/**
+ * A window only starts or grows at a segment adding at least this much score
+ */
+const MIN_WINDOW_GAIN = 0.2;
+const WINDOW_LENGTH_PENALTY = 0.01;
+
+// Scripts written without spaces between words
+const UNSPACED_SCRIPT = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Thai}]/u;
+
+/**
+ * Comparable terms of a text. Words are cut to six characters as a crude,
+ * language-independent stemmer; unspaced scripts use character pairs.
+ */
+function terms(text: string): Set<string> {
+  const result = new Set<string>();
+  const words =
+    text
+      .toLowerCase()
+      .normalize('NFKC')
+      .match(/[\p{L}\p{N}]+/gu) || [];
+
+  for (const word of words) {
+    if (UNSPACED_SCRIPT.test(word)) {
+      const chars = Array.from(word);
+      if (chars.length === 1) result.add(word);
+      for (let i = 0; i < chars.length - 1; i++) result.add(chars[i] + chars[i + 1]);
+    } else if (word.length >= 3 || /^\p{N}+$/u.test(word)) {
+      result.add(Array.from(word).slice(0, 6).join(''));
+    }
+  }
+
+  return result;
+}
+
+function segmentEnd(segments: ChunkableSegment[], index: number): number {
+  const segment = segments[index];
+  if (segment.duration !== undefined) return segment.start + segment.duration;
+  return segments[index + 1]?.start ?? segment.start;
+}
+
+/**
+ * Find the transcript segments each key point was taken from. Terms are
+ * weighted by rarity across the transcript, so filler words barely count,
+ * and the best run of up to MAX_WINDOW_SEGMENTS segments wins. Points
+ * without a good match fall back to the range the model gave, or null.
+ */
+export function alignKeyPoints(
+  points: KeyPointCandidate[],
+  segments: ChunkableSegment[]
+): Array<KeyPointAlignment | null> {
+  const segmentTerms = segments.map(segment => terms(segment.text));
+
+  // Inverse document frequency over segments
+  const frequency = new Map<string, number>();
+  for (const set of segmentTerms) {
+    for (const term of set) frequency.set(term, (frequency.get(term) || 0) + 1);
+  }
+  const weight = (term: string) => Math.log(1 + segments.length / (frequency.get(term) || 1));
+
+  return points.map(point => {
+    // Terms missing from the transcript count fully against the match
+    const allTerms = [...terms(point.text)];
+    const total = allTerms.reduce((sum, term) => sum + weight(term), 0);
+    const pointTerms = allTerms.filter(term => frequency.has(term));
+
+    let best: { score: number; first: number; last: number } | null = null;
+
+    if (total > 0) {
+      for (let first = 0; first < segments.length; first++) {
+        const matched = new Set<string>();
+        let score = 0;
+        let last = first;
+        const limit = Math.min(first + MAX_WINDOW_SEGMENTS, segments.length);
+
+        // Grow the window while each added segment contributes enough
+        for (let index = first; index < limit; index++) {
+          for (const term of pointTerms) {
+            if (segmentTerms[index].has(term)) matched.add(term);
+          }
+          const windowScore = [...matched].reduce((sum, term) => sum + weight(term), 0) / total;
+
+          if (windowScore - score < MIN_WINDOW_GAIN) break;
+          score = windowScore;
+          last = index;
+        }
+
+        if (score === 0) continue;
+
+        const nearSource =
+          point.source &&
+          segments[first].start <= point.source.end_seconds + SOURCE_SLACK_SECONDS &&
+          segmentEnd(segments, last) >= point.source.start_seconds - SOURCE_SLACK_SECONDS;
+        // Of equally good windows, the shortest wins
+        const ranked =
+          score + (nearSource ? SOURCE_BONUS : 0) - WINDOW_LENGTH_PENALTY * (last - first);
+
+        if (score >= MIN_MATCH_SCORE && (!best || ranked > best.score)) {
+          best = { score: ranked, first, last };
+        }
+      }
+    }
+
+    if (best) {
+      return {
+        start_seconds: segments[best.first].start,
+        end_seconds: segmentEnd(segments, best.last),
+        segment_indices: range(best.first, best.last),
+      };
+    }
+
+    return point.source ? sourceAlignment(point.source, segments) : null;
+  });
+}
+
+/**
+ * Alignment to the segments overlapping the range the model gave
+ */
+function sourceAlignment(source: KeyPointSource, segments: ChunkableSegment[]): KeyPointAlignment {
+  const indices = segments
+    .map((_, index) => index)
+    .filter(
+      index =>
+        (segments[index].start < source.end_seconds ||
+          segments[index].start <= source.start_seconds) &&
+        segmentEnd(segments, index) > source.start_seconds
+    );
+
+  return {
+    start_seconds: source.start_seconds,
+    end_seconds: source.end_seconds,
+    segment_indices: indices,
+  };
+}
+
+function range(first: number, last: number): number[] {
+  return Array.from({ length: last - first + 1 }, (_, offset) => first + offset);
+}
+
+/**
+ * Link to a YouTube video starting at the given second
+ */
+export function keyPointUrl(youtubeId: string, seconds: number): string {
+  return `https://youtu.be/${encodeURIComponent(youtubeId)}?t=${Math.floor(seconds)}`;
+}
+
+/**
+ * Key points with their transcript alignment and, given the YouTube video
+ * ID, a link to the moment each one is made
+ */
+export function toKeyPoints(
+  points: KeyPointCandidate[],
+  segments: ChunkableSegment[],
+  youtubeId?: string
+): KeyPoint[] {
+  const alignments = alignKeyPoints(points, segments);
+
+  return points.map((point, index) => {
+    const alignment = alignments[index];
+    return {
+      text: point.text,
+      start_seconds: alignment?.start_seconds ?? null,
+      end_seconds: alignment?.end_seconds ?? null,
+      segment_indices: alignment?.segment_indices ?? [],
+      url: alignment && youtubeId ? keyPointUrl(youtubeId, alignment.start_seconds) : null,
+    };
+  });
+}
+
+/**
+ * Whether stored summary content predates timestamped key points: plain
+ * strings, with time ranges in a parallel key_point_sources array
+ */
+export function hasLegacyKeyPoints(content: { key_points?: unknown }): boolean {
+  return (
+    Array.isArray(content.key_points) && content.key_points.some(point => typeof point === 'string')
+  );
+}
+
+/**
+ * Convert legacy key points to the current shape. Their time ranges are
+ * kept; segment indices are unknown without the transcript.
+ */
+export function upgradeKeyPoints(
+  content: { key_points?: unknown[]; key_point_sources?: Array<KeyPointSource | null> },
+  youtubeId?: string
+): KeyPoint[] {
+  return (content.key_points || []).map((point, index) => {
+    if (typeof point !== 'string') return point as KeyPoint;
+
+    const source = content.key_point_sources?.[index] ?? null;
+    return {
+      text: point,
+      start_seconds: source?.start_seconds ?? null,
+      end_seconds: source?.end_seconds ?? null,
+      segment_indices: [],
+      url: source && youtubeId ? keyPointUrl(youtubeId, source.start_seconds) : null,
+    };
+  });
+}
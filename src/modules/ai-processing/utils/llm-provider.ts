@@ -0,0 +1,537 @@
+// Provider-agnostic chat completions for OpenAI, Anthropic, Gemini and OpenAI-compatible servers
+
+import { readSSE } from './sse.ts';
+
+/**
+ * Supported LLM providers. `openai-compatible` covers any server exposing
+ * /chat/completions, such as Ollama, vLLM or a local test stub.
+ */
+export type LLMProviderName = 'openai' | 'openai-compatible' | 'anthropic' | 'gemini';
+
+export const LLM_PROVIDER_NAMES: LLMProviderName[] = [
+  'openai',
+  'openai-compatible',
+  'anthropic',
+  'gemini',
+];
+
+/**
+ * Features that choose their provider through config
+ */
+export type LLMFeature = 'summarize' | 'analyze' | 'counterpoints' | 'punctuation' | 'chapters';
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface LLMRequestOptions {
+  temperature?: number;
+  maxTokens?: number;
+  responseFormat?: { type: 'json_object' };
+}
+
+export interface LLMCompletion {
+  response: string;
+  tokensUsed: number;
+  model: string;
+  provider: LLMProviderName;
+}
+
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  readonly model: string;
+  complete(messages: LLMMessage[], options?: LLMRequestOptions): Promise<LLMCompletion>;
+  /**
+   * Stream a completion, passing text to onText as it arrives. Resolves with
+   * the full response once the stream ends.
+   */
+  stream(
+    messages: LLMMessage[],
+    options: LLMRequestOptions,
+    onText: (text: string) => void
+  ): Promise<LLMCompletion>;
+}
+
+/**
+ * Resolved provider settings for a feature
+ */
+export interface LLMProviderConfig {
+  provider: LLMProviderName;
+  model: string;
+  baseUrl: string;
+  apiKey?: string;
+  temperature: number;
+  maxTokens: number;
+}
+
+/**
+ * Provider request failure; status is the HTTP status when the provider
+ * answered
+ */
+export class LLMProviderError extends Error {
+  constructor(
+    message: string,
+    public provider: LLMProviderName,
+    public status?: number,
+    public details?: any
+  ) {
+    super(message);
+    this.name = 'LLMProviderError';
+  }
+}
+
+const PROVIDER_DEFAULTS: Record<
+  LLMProviderName,
+  { baseUrl?: string; model?: string; envPrefix?: string; label: string }
+> = {
+  openai: {
+    baseUrl: 'https://api.openai.com/v1',
+    model: 'gpt-4o-mini',
+    envPrefix: 'OPENAI',
+    label: 'OpenAI',
+  },
+  'openai-compatible': { label: 'OpenAI-compatible' },
+  anthropic: {
+    baseUrl: 'https://api.anthropic.com',
+    model: 'claude-3-5-haiku-latest',
+    envPrefix: 'ANTHROPIC',
+    label: 'Anthropic',
+  },
+  gemini: {
+    baseUrl: 'https://generativelanguage.googleapis.com',
+    model: 'gemini-1.5-flash',
+    envPrefix: 'GEMINI',
+    label: 'Gemini',
+  },
+};
+
+const DEFAULT_TEMPERATURE = 0.7;
+const DEFAULT_MAX_TOKENS = 2000;
+const ANTHROPIC_VERSION = '2023-06-01';
+
+/**
+ * Read the provider settings of a feature. Each setting is looked up as
+ * LLM_<FEATURE>_<SETTING>, then LLM_<SETTING>, then the provider's own
+ * variables (OPENAI_API_KEY, ANTHROPIC_MODEL, ...). A feature that names its
+ * own provider does not inherit the global LLM_ model, URL or key.
+ */
+export function resolveLLMConfig(
+  feature: LLMFeature,
+  getEnv: (key: string) => string | undefined
+): LLMProviderConfig {
+  const featurePrefix = `LLM_${feature.toUpperCase()}_`;
+  const ownProvider = !!getEnv(`${featurePrefix}PROVIDER`);
+  const setting = (name: string): string | undefined =>
+    getEnv(`${featurePrefix}${name}`) || (ownProvider ? undefined : getEnv(`LLM_${name}`));
+
+  const provider = (getEnv(`${featurePrefix}PROVIDER`) || getEnv('LLM_PROVIDER') || 'openai')
+    .trim()
+    .toLowerCase() as LLMProviderName;
+  if (!LLM_PROVIDER_NAMES.includes(provider)) {
+    throw new Error(
+      `Unknown LLM provider "${provider}"; expected one of ${LLM_PROVIDER_NAMES.join(', ')}`
+    );
+  }
+
+  const defaults = PROVIDER_DEFAULTS[provider];
+  const providerSetting = (name: string): string | undefined =>
+    defaults.envPrefix ? getEnv(`${defaults.envPrefix}_${name}`) : undefined;
+
+  const baseUrl = setting('BASE_URL') || providerSetting('BASE_URL') || defaults.baseUrl;
+  if (!baseUrl) {
+    throw new Error(`${featurePrefix}BASE_URL or LLM_BASE_URL is required for ${provider}`);
+  }
+
+  const model = setting('MODEL') || providerSetting('MODEL') || defaults.model;
+  if (!model) {
+    throw new Error(`${featurePrefix}MODEL or LLM_MODEL is required for ${provider}`);
+  }
+
+  const apiKey = setting('API_KEY') || providerSetting('API_KEY') || undefined;
+  if (!apiKey && provider !== 'openai-compatible') {
+    throw new Error(`${defaults.label} API key not configured`);
+  }
+
+  // A temperature of 0 is valid, so only unset or unparsable values fall back
+  const temperature = parseFloat(getEnv('LLM_TEMPERATURE') || getEnv('OPENAI_TEMPERATURE') || '');
+  const maxTokens = parseInt(getEnv('LLM_MAX_TOKENS') || getEnv('OPENAI_MAX_TOKENS') || '', 10);
+
+  return {
+    provider,
+    model,
+    baseUrl: baseUrl.replace(/\/+$/, ''),
+    apiKey,
+    temperature: Number.isNaN(temperature) ? DEFAULT_TEMPERATURE : temperature,
+    maxTokens: maxTokens > 0 ? maxTokens : DEFAULT_MAX_TOKENS,
+  };
+}
+
+/**
+ * Create the provider for a resolved config
+ */
+export function createLLMProvider(
+  config: LLMProviderConfig,
+  fetchFn: typeof fetch = (input, init) => fetch(input, init)
+): LLMProvider {
+  switch (config.provider) {
+    case 'anthropic':
+      return new AnthropicProvider(config, fetchFn);
+    case 'gemini':
+      return new GeminiProvider(config, fetchFn);
+    default:
+      return new OpenAICompatibleProvider(config, fetchFn);
+  }
+}
+
+/**
+ * Parse a provider response, turning HTTP errors into LLMProviderError
+ */
+async function readResponse(response: Response, provider: LLMProviderName): Promise<any> {
+  const data = await response.json().catch(() => null);
+
+  if (!response.ok) {
+    const message = data?.error?.message || data?.message || response.statusText;
+    throw new LLMProviderError(
+      `${PROVIDER_DEFAULTS[provider].label} API error: ${message || response.status}`,
+      provider,
+      response.status,
+      data
+    );
+  }
+
+  if (!data) {
+    throw new LLMProviderError(
+      `${PROVIDER_DEFAULTS[provider].label} API returned an invalid response`,
+      provider,
+      response.status
+    );
+  }
+
+  return data;
+}
+
+/**
+ * Check a streaming response and return its body
+ */
+async function streamBody(
+  response: Response,
+  provider: LLMProviderName
+): Promise<ReadableStream<Uint8Array>> {
+  if (!response.ok) {
+    await readResponse(response, provider);
+  }
+  if (!response.body) {
+    throw new LLMProviderError(
+      `${PROVIDER_DEFAULTS[provider].label} API returned an empty stream`,
+      provider,
+      response.status
+    );
+  }
+  return response.body;
+}
+
+/**
+ * OpenAI and servers implementing its /chat/completions API
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name: LLMProviderName;
+  readonly model: string;
+
+  constructor(
+    private config: LLMProviderConfig,
+    private fetchFn: typeof fetch
+  ) {
+    this.name = config.provider;
+    this.model = config.model;
+  }
+
+  async complete(messages: LLMMessage[], options: LLMRequestOptions = {}): Promise<LLMCompletion> {
+    const response = await this.request(messages, options, false);
+    const data = await readResponse(response, this.name);
+    const content = data.choices?.[0]?.message?.content;
+    if (typeof content !== 'string') {
+      throw new LLMProviderError('Completion response has no message content', this.name);
+    }
+
+    return {
+      response: content,
+      tokensUsed: data.usage?.total_tokens || 0,
+      model: data.model || this.model,
+      provider: this.name,
+    };
+  }
+
+  async stream(
+    messages: LLMMessage[],
+    options: LLMRequestOptions,
+    onText: (text: string) => void
+  ): Promise<LLMCompletion> {
+    const response = await this.request(messages, options, true);
+    let text = '';
+    let tokensUsed = 0;
+    let model = this.model;
+
+    for await (const message of readSSE(await streamBody(response, this.name))) {
+      if (message.data === '[DONE]') break;
+
+      const chunk = JSON.parse(message.data);
+      if (chunk.error) {
+        throw new LLMProviderError(
+          `${PROVIDER_DEFAULTS[this.name].label} API error: ${chunk.error.message}`,
+          this.name,
+          response.status,
+          chunk
+        );
+      }
+
+      const delta = chunk.choices?.[0]?.delta?.content;
+      if (delta) {
+        text += delta;
+        onText(delta);
+      }
+      // Usage arrives in a final chunk without choices
+      tokensUsed = chunk.usage?.total_tokens || tokensUsed;
+      model = chunk.model || model;
+    }
+
+    return { response: text, tokensUsed, model, provider: this.name };
+  }
+
+  private request(
+    messages: LLMMessage[],
+    options: LLMRequestOptions,
+    stream: boolean
+  ): Promise<Response> {
+    const body: any = {
+      model: this.model,
+      messages,
+      temperature: options.temperature ?? this.config.temperature,
+      max_tokens: options.maxTokens ?? this.config.maxTokens,
+    };
+
+    if (options.responseFormat) {
+      body.response_format = options.responseFormat;
+    }
+    if (stream) {
+      body.stream = true;
+      body.stream_options = { include_usage: true };
+    }
+
+    return this.fetchFn(`${this.config.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        ...(this.config.apiKey && { Authorization: `Bearer ${this.config.apiKey}` }),
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(body),
+    });
+  }
+}
+
+/**
+ * Anthropic Messages API. There is no JSON mode, so JSON requests prefill
+ * the assistant turn with "{" and the brace is added back to the response.
+ */
+export class AnthropicProvider implements LLMProvider {
+  readonly name: LLMProviderName = 'anthropic';
+  readonly model: string;
+
+  constructor(
+    private config: LLMProviderConfig,
+    private fetchFn: typeof fetch
+  ) {
+    this.model = config.model;
+  }
+
+  async complete(messages: LLMMessage[], options: LLMRequestOptions = {}): Promise<LLMCompletion> {
+    const prefill = options.responseFormat ? '{' : '';
+    const response = await this.request(messages, options, prefill, false);
+    const data = await readResponse(response, this.name);
+    const text = (data.content || [])
+      .filter((block: any) => block.type === 'text')
+      .map((block: any) => block.text)
+      .join('');
+
+    return {
+      response: prefill + text,
+      tokensUsed: (data.usage?.input_tokens || 0) + (data.usage?.output_tokens || 0),
+      model: data.model || this.model,
+      provider: this.name,
+    };
+  }
+
+  async stream(
+    messages: LLMMessage[],
+    options: LLMRequestOptions,
+    onText: (text: string) => void
+  ): Promise<LLMCompletion> {
+    const prefill = options.responseFormat ? '{' : '';
+    const response = await this.request(messages, options, prefill, true);
+    let text = prefill;
+    let inputTokens = 0;
+    let outputTokens = 0;
+    let model = this.model;
+
+    if (prefill) onText(prefill);
+
+    for await (const message of readSSE(await streamBody(response, this.name))) {
+      const event = JSON.parse(message.data);
+
+      if (event.type === 'message_start') {
+        model = event.message?.model || model;
+        inputTokens = event.message?.usage?.input_tokens || 0;
+      } else if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta') {
+        text += event.delta.text;
+        onText(event.delta.text);
+      } else if (event.type === 'message_delta') {
+        outputTokens = event.usage?.output_tokens || outputTokens;
+      } else if (event.type === 'error') {
+        throw new LLMProviderError(
+          `Anthropic API error: ${event.error?.message || 'stream failed'}`,
+          this.name,
+          response.status,
+          event
+        );
+      }
+    }
+
+    return { response: text, tokensUsed: inputTokens + outputTokens, model, provider: this.name };
+  }
+
+  private request(
+    messages: LLMMessage[],
+    options: LLMRequestOptions,
+    prefill: string,
+    stream: boolean
+  ): Promise<Response> {
+    const system = messages
+      .filter(message => message.role === 'system')
+      .map(message => message.content)
+      .join('\n\n');
+    const turns = messages
+      .filter(message => message.role !== 'system')
+      .map(message => ({ role: message.role, content: message.content }));
+
+    if (prefill) {
+      turns.push({ role: 'assistant', content: prefill });
+    }
+
+    return this.fetchFn(`${this.config.baseUrl}/v1/messages`, {
+      method: 'POST',
+      headers: {
+        'x-api-key': this.config.apiKey || '',
+        'anthropic-version': ANTHROPIC_VERSION,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model: this.model,
+        ...(system && { system }),
+        messages: turns,
+        temperature: options.temperature ?? this.config.temperature,
+        max_tokens: options.maxTokens ?? this.config.maxTokens,
+        ...(stream && { stream: true }),
+      }),
+    });
+  }
+}
+
+/**
+ * Gemini generateContent API
+ */
+export class GeminiProvider implements LLMProvider {
+  readonly name: LLMProviderName = 'gemini';
+  readonly model: string;
+
+  constructor(
+    private config: LLMProviderConfig,
+    private fetchFn: typeof fetch
+  ) {
+    this.model = config.model;
+  }
+
+  async complete(messages: LLMMessage[], options: LLMRequestOptions = {}): Promise<LLMCompletion> {
+    const response = await this.request(messages, options, 'generateContent');
+    const data = await readResponse(response, this.name);
+    const candidate = data.candidates?.[0];
+    if (!candidate?.content?.parts) {
+      throw new LLMProviderError(
+        `Gemini returned no content${candidate?.finishReason ? ` (${candidate.finishReason})` : ''}`,
+        this.name,
+        response.status,
+        data
+      );
+    }
+
+    return {
+      response: candidate.content.parts.map((part: any) => part.text || '').join(''),
+      tokensUsed: data.usageMetadata?.totalTokenCount || 0,
+      model: data.modelVersion || this.model,
+      provider: this.name,
+    };
+  }
+
+  async stream(
+    messages: LLMMessage[],
+    options: LLMRequestOptions,
+    onText: (text: string) => void
+  ): Promise<LLMCompletion> {
+    const response = await this.request(messages, options, 'streamGenerateContent?alt=sse');
+    let text = '';
+    let tokensUsed = 0;
+    let model = this.model;
+
+    for await (const message of readSSE(await streamBody(response, this.name))) {
+      const chunk = JSON.parse(message.data);
+      const delta = (chunk.candidates?.[0]?.content?.parts || [])
+        .map((part: any) => part.text || '')
+        .join('');
+
+      if (delta) {
+        text += delta;
+        onText(delta);
+      }
+      tokensUsed = chunk.usageMetadata?.totalTokenCount || tokensUsed;
+      model = chunk.modelVersion || model;
+    }
+
+    return { response: text, tokensUsed, model, provider: this.name };
+  }
+
+  private request(
+    messages: LLMMessage[],
+    options: LLMRequestOptions,
+    method: string
+  ): Promise<Response> {
+    const system = messages
+      .filter(message => message.role === 'system')
+      .map(message => message.content)
+      .join('\n\n');
+    const contents = messages
+      .filter(message => message.role !== 'system')
+      .map(message => ({
+        role: message.role === 'assistant' ? 'model' : 'user',
+        parts: [{ text: message.content }],
+      }));
+
+    return this.fetchFn(
+      `${this.config.baseUrl}/v1beta/models/${encodeURIComponent(this.model)}:${method}`,
+      {
+        method: 'POST',
+        headers: {
+          'x-goog-api-key': this.config.apiKey || '',
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          ...(system && { systemInstruction: { parts: [{ text: system }] } }),
+          contents,
+          generationConfig: {
+            temperature: options.temperature ?? this.config.temperature,
+            maxOutputTokens: options.maxTokens ?? this.config.maxTokens,
+            ...(options.responseFormat && { responseMimeType: 'application/json' }),
+          },
+        }),
+      }
+    );
+  }
+}
@@ -2,106 +2,96 @@ import { createAppError, ErrorType } from '@/errors';
 import { Logger } from '@/logging';
 import { denoEnv } from '@/shared-deno-env';
 import type { ContentAnalysis, VideoSummaryContent } from '../types';
+import {
+  createLLMProvider,
+  type LLMFeature,
+  type LLMMessage,
+  type LLMProvider,
+  LLMProviderError,
+  type LLMRequestOptions,
+  resolveLLMConfig,
+} from './llm-provider.ts';
+import type { ChunkableSegment } from './transcript-chunker.ts';
+import {
+  partialJsonString,
+  summarizeTranscript,
+  type SummaryType,
+} from './transcript-summarizer.ts';
 
 const logger = new Logger({
   service: 'openai-client',
   enablePerformanceTracking: true,
 });
 
-// Configuration
-const OPENAI_API_KEY = denoEnv.get('OPENAI_API_KEY');
-const OPENAI_MODEL = denoEnv.get('OPENAI_MODEL') || 'gpt-4o-mini';
-const OPENAI_MAX_TOKENS = parseInt(denoEnv.get('OPENAI_MAX_TOKENS') || '2000');
-const OPENAI_TEMPERATURE = parseFloat(denoEnv.get('OPENAI_TEMPERATURE') || '0.7');
-
-interface OpenAIMessage {
-  role: 'system' | 'user' | 'assistant';
-  content: string;
-}
-
-interface OpenAIResponse {
-  choices: Array<{
-    message: {
-      content: string;
-    };
-    finish_reason: string;
-  }>;
-  usage?: {
-    prompt_tokens: number;
-    completion_tokens: number;
-    total_tokens: number;
-  };
-}
-
+/**
+ * AI client for the processing features. Despite the name, each feature
+ * sends its requests to the provider configured for it (see llm-provider.ts).
+ */
 export class OpenAIClient {
-  private apiKey: string;
-  private model: string;
-  private baseUrl = 'https://api.openai.com/v1/chat/completions';
-
-  constructor() {
-    this.apiKey = OPENAI_API_KEY;
-    this.model = OPENAI_MODEL;
+  private providers = new Map<LLMFeature, LLMProvider>();
+
+  constructor(
+    private providerFactory: (feature: LLMFeature) => LLMProvider = feature =>
+      createLLMProvider(resolveLLMConfig(feature, key => denoEnv.get(key)))
+  ) {}
+
+  /**
+   * Provider configured for a feature, created on first use
+   */
+  getProvider(feature: LLMFeature): LLMProvider {
+    let provider = this.providers.get(feature);
+    if (!provider) {
+      provider = this.providerFactory(feature);
+      this.providers.set(feature, provider);
+    }
+    return provider;
   }
 
   // ============================================
   // Core API Methods
   // ============================================
 
+  /**
+   * Send a request to the feature's provider. With onText the response is
+   * streamed and passed to it as it arrives.
+   */
   private async makeRequest(
-    messages: OpenAIMessage[],
-    options: {
-      temperature?: number;
-      maxTokens?: number;
-      responseFormat?: { type: 'json_object' };
-    } = {}
-  ): Promise<{ response: string; tokensUsed: number }> {
+    feature: LLMFeature,
+    messages: LLMMessage[],
+    options: LLMRequestOptions = {},
+    onText?: (text: string) => void
+  ): Promise<{ response: string; tokensUsed: number; model: string }> {
     const timer = logger.startTimer();
+    const provider = this.getProvider(feature);
 
     try {
-      const body: any = {
-        model: this.model,
-        messages,
-        temperature: options.temperature || OPENAI_TEMPERATURE,
-        max_tokens: options.maxTokens || OPENAI_MAX_TOKENS,
-      };
-
-      if (options.responseFormat) {
-        body.response_format = options.responseFormat;
-      }
-
-      const response = await fetch(this.baseUrl, {
-        method: 'POST',
-        headers: {
-          Authorization: `Bearer ${this.apiKey}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(body),
-      });
-
-      if (!response.ok) {
-        const error = await response.json();
-        throw createAppError(
-          ErrorType.EXTERNAL_SERVICE_ERROR,
-          `OpenAI API error: ${error.error?.message || 'Unknown error'}`,
-          { status: response.status, error }
-        );
-      }
-
-      const data: OpenAIResponse = await response.json();
-
-      logger.endTimer(timer, 'openai_request', {
-        model: this.model,
-        promptTokens: data.usage?.prompt_tokens,
-        completionTokens: data.usage?.completion_tokens,
-        totalTokens: data.usage?.total_tokens,
+      const completion = onText
+        ? await provider.stream(messages, options, onText)
+        : await provider.complete(messages, options);
+
+      logger.endTimer(timer, 'llm_request', {
+        feature,
+        provider: completion.provider,
+        model: completion.model,
+        totalTokens: completion.tokensUsed,
+        streamed: !!onText,
       });
 
       return {
-        response: data.choices[0].message.content,
-        tokensUsed: data.usage?.total_tokens || 0,
+        response: completion.response,
+        tokensUsed: completion.tokensUsed,
+        model: completion.model,
       };
     } catch (error: any) {
-      logger.error('OpenAI API error', { error, model: this.model });
+      logger.error('LLM API error', { error, feature, provider: provider.name });
+
+      if (error instanceof LLMProviderError) {
+        throw createAppError(ErrorType.EXTERNAL_SERVICE_ERROR, error.message, {
+          provider: error.provider,
+          status: error.status,
+          error: error.details,
+        });
+      }
       throw error;
     }
   }
@@ -112,84 +102,92 @@ export class OpenAIClient {
 
   async summarizeVideo(
     title: string,
-    transcript: string,
-    summaryType: 'brief' | 'detailed' | 'bullet_points',
-    language: string = 'en'
-  ): Promise<{ summary: VideoSummaryContent; tokensUsed: number }> {
-    logger.info('Generating video summary', { title, summaryType, language });
-
-    const systemPrompt = this.getSummarizationSystemPrompt(summaryType, language);
-    const userPrompt = this.getSummarizationUserPrompt(title, transcript, summaryType);
-
-    const messages: OpenAIMessage[] = [
-      { role: 'system', content: systemPrompt },
-      { role: 'user', content: userPrompt },
-    ];
-
-    const { response, tokensUsed } = await this.makeRequest(messages, {
-      temperature: 0.5, // Lower temperature for more consistent summaries
-      maxTokens: summaryType === 'brief' ? 500 : 2000,
-      responseFormat: { type: 'json_object' },
+    segments: ChunkableSegment[],
+    summaryType: SummaryType,
+    language: string = 'en',
+    customPrompt?: string,
+    youtubeId?: string
+  ): Promise<{ summary: VideoSummaryContent; tokensUsed: number; model: string }> {
+    logger.info('Generating video summary', {
+      title,
+      summaryType,
+      language,
+      customPrompt: !!customPrompt,
+      segmentCount: segments.length,
     });
 
-    try {
-      const parsed = JSON.parse(response);
-
-      // Ensure all required fields are present
-      const summary: VideoSummaryContent = {
-        summary: parsed.summary || '',
-        key_points: parsed.key_points || [],
-        topics: parsed.topics || [],
-        duration_estimate:
-          parsed.duration_estimate || Math.ceil(parsed.summary.split(' ').length / 200),
-        generated_at: new Date().toISOString(),
-      };
-
-      return { summary, tokensUsed };
-    } catch (error: any) {
-      logger.error('Failed to parse summary response', { error, response });
-      throw createAppError(ErrorType.INTERNAL_ERROR, 'Failed to parse AI summary response');
-    }
-  }
-
-  private getSummarizationSystemPrompt(summaryType: string, language: string): string {
-    const languageName = language === 'vi' ? 'Vietnamese' : 'English';
+    // Long transcripts are summarized in chunks and merged instead of truncated
+    const result = await summarizeTranscript(
+      (messages, options) => this.makeRequest('summarize', messages, options),
+      { title, segments, summaryType, language, customPrompt, youtubeId }
+    );
 
-    const basePrompt = `You are an expert video content summarizer. Create summaries in ${languageName}.
-Always respond with valid JSON matching this structure:
-{
-  "summary": "main summary text",
-  "key_points": ["point 1", "point 2", ...],
-  "topics": ["topic1", "topic2", ...],
-  "duration_estimate": <reading time in minutes>
-}`;
-
-    const typeSpecific = {
-      brief: 'Create a concise 2-3 sentence summary capturing the main idea.',
-      detailed: 'Create a comprehensive summary with context and important details.',
-      bullet_points: 'Focus on creating detailed bullet points for key_points field.',
-    };
+    logger.info('Video summary generated', {
+      title,
+      chunkCount: result.summary.chunk_count,
+      tokensUsed: result.tokensUsed,
+    });
 
-    return `${basePrompt}\n${typeSpecific[summaryType as keyof typeof typeSpecific]}`;
+    return result;
   }
 
-  private getSummarizationUserPrompt(
+  /**
+   * Summarize like summarizeVideo, streaming the final summary text. Chunk
+   * summaries of long transcripts are not streamed; onProgress reports them.
+   */
+  async summarizeVideoStream(
     title: string,
-    transcript: string,
-    summaryType: string
-  ): string {
-    const maxTranscriptLength = summaryType === 'brief' ? 5000 : 10000;
-    const truncatedTranscript =
-      transcript.length > maxTranscriptLength
-        ? transcript.substring(0, maxTranscriptLength) + '...[truncated]'
-        : transcript;
+    segments: ChunkableSegment[],
+    summaryType: SummaryType,
+    language: string,
+    customPrompt: string | undefined,
+    youtubeId: string | undefined,
+    handlers: {
+      onSummaryText: (text: string) => void;
+      onProgress?: (completedChunks: number, totalChunks: number) => void;
+    }
+  ): Promise<{ summary: VideoSummaryContent; tokensUsed: number; model: string }> {
+    logger.info('Streaming video summary', {
+      title,
+      summaryType,
+      language,
+      customPrompt: !!customPrompt,
+      segmentCount: segments.length,
+    });
 
-    return `Video Title: "${title}"
+    const result = await summarizeTranscript(
+      (messages, options) => this.makeRequest('summarize', messages, options),
+      {
+        title,
+        segments,
+        summaryType,
+        language,
+        customPrompt,
+        youtubeId,
+        onProgress: handlers.onProgress,
+      },
+      (messages, options) => {
+        // The response is JSON; pass on the summary field as it grows
+        let buffer = '';
+        let sent = 0;
+        return this.makeRequest('summarize', messages, options, text => {
+          buffer += text;
+          const summary = partialJsonString(buffer, 'summary');
+          if (summary.length > sent) {
+            handlers.onSummaryText(summary.slice(sent));
+            sent = summary.length;
+          }
+        });
+      }
+    );
 
-Transcript:
-${truncatedTranscript}
+    logger.info('Video summary streamed', {
+      title,
+      chunkCount: result.summary.chunk_count,
+      tokensUsed: result.tokensUsed,
+    });
 
-Create a ${summaryType} summary of this video content.`;
+    return result;
   }
 
   // ============================================
@@ -200,7 +198,7 @@ Create a ${summaryType} summary of this video content.`;
     transcript: string,
     analysisType: 'fact_opinion' | 'sentiment' | 'bias',
     segments?: number[]
-  ): Promise<{ analysis: ContentAnalysis; tokensUsed: number }> {
+  ): Promise<{ analysis: ContentAnalysis; tokensUsed: number; model: string }> {
     logger.info('Analyzing content', {
       analysisType,
       segmentCount: segments?.length,
@@ -209,12 +207,12 @@ Create a ${summaryType} summary of this video content.`;
     const systemPrompt = this.getAnalysisSystemPrompt(analysisType);
     const userPrompt = this.getAnalysisUserPrompt(transcript, analysisType, segments);
 
-    const messages: OpenAIMessage[] = [
+    const messages: LLMMessage[] = [
       { role: 'system', content: systemPrompt },
       { role: 'user', content: userPrompt },
     ];
 
-    const { response, tokensUsed } = await this.makeRequest(messages, {
+    const { response, tokensUsed, model } = await this.makeRequest('analyze', messages, {
       temperature: 0.3, // Lower temperature for analytical tasks
       maxTokens: 3000,
       responseFormat: { type: 'json_object' },
@@ -232,7 +230,7 @@ Create a ${summaryType} summary of this video content.`;
         confidence_score: parsed.confidence_score || 0.7,
       };
 
-      return { analysis, tokensUsed };
+      return { analysis, tokensUsed, model };
     } catch (error: any) {
       logger.error('Failed to parse analysis response', { error, response });
       throw createAppError(ErrorType.INTERNAL_ERROR, 'Failed to parse AI analysis response');
@@ -306,7 +304,7 @@ Response structure:
     topic: string,
     currentPerspective: string
   ): Promise<{ suggestions: string[]; tokensUsed: number }> {
-    const messages: OpenAIMessage[] = [
+    const messages: LLMMessage[] = [
       {
         role: 'system',
         content: `You are a critical thinking assistant helping users explore different perspectives.
@@ -319,7 +317,7 @@ Respond with a JSON array of strings.`,
       },
     ];
 
-    const { response, tokensUsed } = await this.makeRequest(messages, {
+    const { response, tokensUsed } = await this.makeRequest('analyze', messages, {
       temperature: 0.8, // Higher temperature for creative suggestions
       maxTokens: 500,
       responseFormat: { type: 'json_object' },
@@ -344,6 +342,7 @@ Respond with a JSON array of strings.`,
     counterPerspectives: any[];
     searchKeywords: string[];
     tokensUsed: number;
+    model: string;
   }> {
     logger.info('Finding counter-perspectives', {
       videoTitle,
@@ -395,12 +394,12 @@ Always respond with valid JSON matching this structure:
 Focus on academic, journalistic, or expert sources that would offer balanced alternative viewpoints.
 If no clear perspective is detected, suggest diverse viewpoints on the main topics.`;
 
-    const messages: OpenAIMessage[] = [
+    const messages: LLMMessage[] = [
       { role: 'system', content: systemPrompt },
       { role: 'user', content: userPrompt },
     ];
 
-    const { response, tokensUsed } = await this.makeRequest(messages, {
+    const { response, tokensUsed, model } = await this.makeRequest('counterpoints', messages, {
       temperature: 0.7,
       maxTokens: 2000,
       responseFormat: { type: 'json_object' },
@@ -414,6 +413,7 @@ If no clear perspective is detected, suggest diverse viewpoints on the main topi
         counterPerspectives: parsed.counter_perspectives || [],
         searchKeywords: parsed.search_keywords || [],
         tokensUsed,
+        model,
       };
     } catch (error: any) {
       logger.error('Failed to parse counter-perspectives response', {
@@ -427,6 +427,103 @@ If no clear perspective is detected, suggest diverse viewpoints on the main topi
     }
   }
 
+  // ============================================
+  // Transcript Punctuation
+  // ============================================
+
+  async restorePunctuation(
+    chunks: string[],
+    language: string = 'en'
+  ): Promise<{ chunks: string[]; tokensUsed: number }> {
+    logger.info('Restoring transcript punctuation', {
+      chunkCount: chunks.length,
+      language,
+    });
+
+    const messages: LLMMessage[] = [
+      {
+        role: 'system',
+        content: `You restore punctuation and capitalization in auto-generated video captions (language: ${language}).
+Do not add, remove, reorder, translate or correct words; only change punctuation and letter case.
+Respond with JSON: {"chunks": ["..."]} containing exactly one restored string per input chunk, in the same order.`,
+      },
+      {
+        role: 'user',
+        content: JSON.stringify({ chunks }),
+      },
+    ];
+
+    const inputLength = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+    const { response, tokensUsed } = await this.makeRequest('punctuation', messages, {
+      temperature: 0.1, // Deterministic output keeps words aligned
+      maxTokens: Math.max(500, Math.ceil(inputLength / 2)),
+      responseFormat: { type: 'json_object' },
+    });
+
+    try {
+      const parsed = JSON.parse(response);
+      const restored = Array.isArray(parsed.chunks) ? parsed.chunks : [];
+
+      // Chunks the model dropped or mangled fall back to the original text
+      return {
+        chunks: chunks.map((chunk, index) =>
+          typeof restored[index] === 'string' ? restored[index] : chunk
+        ),
+        tokensUsed,
+      };
+    } catch (error: any) {
+      logger.error('Failed to parse punctuation response', { error, response });
+      throw createAppError(ErrorType.INTERNAL_ERROR, 'Failed to parse AI punctuation response');
+    }
+  }
+
+  // ============================================
+  // Topic Segmentation
+  // ============================================
+
+  async segmentTopics(
+    title: string,
+    outline: string,
+    language: string = 'en'
+  ): Promise<{ chapters: Array<{ title?: unknown; start?: unknown }>; tokensUsed: number }> {
+    logger.info('Segmenting transcript into chapters', {
+      title,
+      outlineLength: outline.length,
+      language,
+    });
+
+    const messages: LLMMessage[] = [
+      {
+        role: 'system',
+        content: `You split video transcripts into chapters at topic changes.
+Each transcript line starts with its [m:ss] timestamp. Create 3-12 chapters with short, descriptive titles in the transcript's language (${language}).
+Chapter starts must be timestamps taken from the transcript, and the first chapter starts at 0:00.
+Respond with JSON: {"chapters": [{"title": "...", "start": "m:ss"}]}`,
+      },
+      {
+        role: 'user',
+        content: `Video Title: "${title}"\n\nTranscript:\n${outline}`,
+      },
+    ];
+
+    const { response, tokensUsed } = await this.makeRequest('chapters', messages, {
+      temperature: 0.3,
+      maxTokens: 1000,
+      responseFormat: { type: 'json_object' },
+    });
+
+    try {
+      const parsed = JSON.parse(response);
+      return {
+        chapters: Array.isArray(parsed.chapters) ? parsed.chapters : [],
+        tokensUsed,
+      };
+    } catch (error: any) {
+      logger.error('Failed to parse chapters response', { error, response });
+      throw createAppError(ErrorType.INTERNAL_ERROR, 'Failed to parse AI chapters response');
+    }
+  }
+
   // ============================================
   // Cost Estimation
   // ============================================
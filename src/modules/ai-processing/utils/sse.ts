@@ -0,0 +1,120 @@
+// Server-Sent Events: reading provider streams and writing client streams
+
+export interface SSEMessage {
+  event?: string;
+  data: string;
+}
+
+export type SSESend = (event: string, data: unknown) => void;
+
+/**
+ * Encode one event. Data is sent as a single JSON line.
+ */
+export function formatSSE(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Parse an event stream into messages. Comment lines are skipped and
+ * multi-line data fields are joined with newlines, per the SSE spec.
+ */
+export async function* readSSE(body: ReadableStream<Uint8Array>): AsyncGenerator<SSEMessage> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let event: string | undefined;
+  let data: string[] = [];
+
+  const dispatch = (): SSEMessage | null => {
+    const message = data.length > 0 ? { ...(event && { event }), data: data.join('\n') } : null;
+    event = undefined;
+    data = [];
+    return message;
+  };
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+      const lines = buffer.split('\n');
+      // The last line is incomplete until a newline arrives
+      buffer = done ? '' : lines.pop()!;
+
+      for (const rawLine of lines) {
+        const line = rawLine.replace(/\r$/, '');
+        if (line === '') {
+          const message = dispatch();
+          if (message) yield message;
+          continue;
+        }
+        if (line.startsWith(':')) continue;
+
+        const colon = line.indexOf(':');
+        const field = colon === -1 ? line : line.slice(0, colon);
+        const value = colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '');
+
+        if (field === 'event') event = value;
+        else if (field === 'data') data.push(value);
+      }
+
+      if (done) {
+        const message = dispatch();
+        if (message) yield message;
+        return;
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Stream events to the client while `run` works. Failures after the stream
+ * has started are reported as an `error` event, since the status code has
+ * already been sent.
+ */
+export function createSSEResponse(
+  run: (send: SSESend) => Promise<void>,
+  headers: Record<string, string> = {}
+): Response {
+  const encoder = new TextEncoder();
+  let open = true;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send: SSESend = (event, data) => {
+        if (open) controller.enqueue(encoder.encode(formatSSE(event, data)));
+      };
+
+      try {
+        await run(send);
+      } catch (error: any) {
+        send('error', {
+          code: error?.code || 'STREAM_FAILED',
+          message: error?.message || 'Streaming failed',
+        });
+      } finally {
+        if (open) {
+          open = false;
+          controller.close();
+        }
+      }
+    },
+    cancel() {
+      // Client disconnected; keep running so the result can still be cached
+      open = false;
+    },
+  });
+
+  return new Response(stream, {
+    status: 200,
+    headers: {
+      ...headers,
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    },
+  });
+}
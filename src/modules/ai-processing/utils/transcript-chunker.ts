@@ -0,0 +1,184 @@
+// Token-budgeted transcript chunking for map-reduce summarization
+
+/**
+ * Transcript segment as stored in video_transcripts.segments
+ */
+export interface ChunkableSegment {
+  start: number; // Seconds
+  duration?: number;
+  text: string;
+}
+
+/**
+ * Consecutive transcript segments that fit one model request
+ */
+export interface TranscriptChunk {
+  index: number;
+  start_seconds: number;
+  end_seconds: number;
+  first_segment: number; // Index into the transcript segments
+  last_segment: number;
+  text: string; // One "[m:ss] text" line per segment
+  tokens: number;
+}
+
+/**
+ * Rough token estimate; English averages about four characters per token
+ */
+export const CHARS_PER_TOKEN = 4;
+
+/**
+ * Default chunk budget, leaving room for the prompt and the partial summary
+ * within small context windows
+ */
+export const DEFAULT_CHUNK_TOKENS = 3000;
+
+/**
+ * Chunks grow beyond the default budget rather than exceeding this count, so
+ * the merged partial summaries still fit the final request
+ */
+export const MAX_SUMMARY_CHUNKS = 24;
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Format seconds as m:ss, or h:mm:ss from one hour
+ */
+export function formatTimestamp(seconds: number): string {
+  const total = Math.max(0, Math.floor(seconds));
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = String(total % 60).padStart(2, '0');
+
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${secs}` : `${minutes}:${secs}`;
+}
+
+/**
+ * Parse a timestamp the model returned: seconds, "m:ss" or "h:mm:ss"
+ */
+export function parseTimestamp(value: unknown): number | null {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) && value >= 0 ? value : null;
+  }
+  if (typeof value !== 'string') return null;
+
+  const match = value.trim().match(/^\[?(?:(\d+):)?(\d{1,2}):(\d{2})\]?$/);
+  if (!match) {
+    const seconds = Number(value);
+    return value.trim() && Number.isFinite(seconds) && seconds >= 0 ? seconds : null;
+  }
+
+  return (
+    parseInt(match[1] || '0', 10) * 3600 + parseInt(match[2], 10) * 60 + parseInt(match[3], 10)
+  );
+}
+
+/**
+ * Split transcript segments into chunks of about maxTokens each. Segments are
+ * kept whole unless a single one exceeds the budget, as auto-generated
+ * transcripts without punctuation sometimes do.
+ */
+export function chunkTranscript(
+  segments: ChunkableSegment[],
+  maxTokens = DEFAULT_CHUNK_TOKENS,
+  maxChunks = MAX_SUMMARY_CHUNKS
+): TranscriptChunk[] {
+  const lines = splitOversizedSegments(segments, Number.POSITIVE_INFINITY);
+  const totalTokens = lines.reduce((sum, line) => sum + line.tokens, 0);
+  const budget = Math.max(maxTokens, Math.ceil(totalTokens / maxChunks));
+
+  const chunks: TranscriptChunk[] = [];
+  let current: TranscriptLine[] = [];
+  let currentTokens = 0;
+
+  const flush = () => {
+    if (current.length === 0) return;
+
+    const first = current[0];
+    const last = current[current.length - 1];
+    chunks.push({
+      index: chunks.length,
+      start_seconds: first.start,
+      end_seconds: last.end,
+      first_segment: first.segment,
+      last_segment: last.segment,
+      text: current.map(line => line.text).join('\n'),
+      tokens: currentTokens,
+    });
+    current = [];
+    currentTokens = 0;
+  };
+
+  for (const line of splitOversizedSegments(segments, budget)) {
+    if (currentTokens > 0 && currentTokens + line.tokens > budget) {
+      flush();
+    }
+    current.push(line);
+    currentTokens += line.tokens;
+  }
+  flush();
+
+  return chunks;
+}
+
+interface TranscriptLine {
+  segment: number;
+  start: number;
+  end: number;
+  text: string;
+  tokens: number;
+}
+
+/**
+ * Turn segments into timestamped lines, splitting segments over the budget
+ * at word boundaries with interpolated start times
+ */
+function splitOversizedSegments(segments: ChunkableSegment[], budget: number): TranscriptLine[] {
+  const lines: TranscriptLine[] = [];
+
+  segments.forEach((segment, index) => {
+    const text = (segment.text || '').replace(/\s+/g, ' ').trim();
+    if (!text) return;
+
+    const start = segment.start || 0;
+    const end = start + (segment.duration || 0);
+    const pieces = estimateTokens(text) > budget ? splitWords(text, budget) : [text];
+
+    let offset = 0;
+    for (const piece of pieces) {
+      const pieceStart = start + (end - start) * (offset / text.length);
+      offset += piece.length + 1;
+      const pieceEnd = start + (end - start) * Math.min(1, offset / text.length);
+      const line = `[${formatTimestamp(pieceStart)}] ${piece}`;
+
+      lines.push({
+        segment: index,
+        start: pieceStart,
+        end: pieceEnd,
+        text: line,
+        tokens: estimateTokens(line),
+      });
+    }
+  });
+
+  return lines;
+}
+
+function splitWords(text: string, budget: number): string[] {
+  const maxChars = Math.max(1, budget * CHARS_PER_TOKEN);
+  const pieces: string[] = [];
+  let piece = '';
+
+  for (const word of text.split(' ')) {
+    if (piece && piece.length + 1 + word.length > maxChars) {
+      pieces.push(piece);
+      piece = '';
+    }
+    piece = piece ? `${piece} ${word}` : word;
+  }
+  if (piece) pieces.push(piece);
+
+  return pieces;
+}
@@ -0,0 +1,376 @@
+// Map-reduce summarization of long transcripts
+
+import type { VideoSummaryContent } from '../types/ai-processing.ts';
+import { type KeyPointCandidate, toKeyPoints } from './key-point-alignment.ts';
+import { languageName } from './languages.ts';
+import type { LLMMessage, LLMRequestOptions } from './llm-provider.ts';
+import { CUSTOM_PROMPT_RULE, customPromptSection, normalizeCustomPrompt } from './prompt-safety.ts';
+import {
+  type ChunkableSegment,
+  chunkTranscript,
+  formatTimestamp,
+  parseTimestamp,
+  type TranscriptChunk,
+} from './transcript-chunker.ts';
+
+export type SummaryType = 'brief' | 'detailed' | 'bullet_points';
+
+/**
+ * Sends one request to the summarize feature's LLM provider
+ */
+export type SummaryCompletion = (
+  messages: LLMMessage[],
+  options: LLMRequestOptions
+) => Promise<{ response: string; tokensUsed: number; model: string }>;
+
+export interface TranscriptSummaryInput {
+  title: string;
+  segments: ChunkableSegment[];
+  summaryType: SummaryType;
+  language?: string;
+  customPrompt?: string; // User instructions, added in a delimited section
+  youtubeId?: string; // Used for key point links
+  chunkTokens?: number;
+  onProgress?: (completedChunks: number, totalChunks: number) => void;
+}
+
+/**
+ * Chunk summaries requested in parallel
+ */
+export const MAP_CONCURRENCY = 4;
+
+interface PartialSummary {
+  chunk: TranscriptChunk;
+  summary: string;
+  keyPoints: KeyPointCandidate[];
+  topics: string[];
+}
+
+/**
+ * Summarize a transcript of any length. Transcripts that fit one chunk are
+ * summarized directly; longer ones are summarized chunk by chunk and the
+ * partial summaries merged. Key points keep the time ranges they came from.
+ * The request producing the final summary goes through finalComplete, which
+ * lets callers stream it.
+ */
+export async function summarizeTranscript(
+  complete: SummaryCompletion,
+  input: TranscriptSummaryInput,
+  finalComplete: SummaryCompletion = complete
+): Promise<{ summary: VideoSummaryContent; tokensUsed: number; model: string }> {
+  const language = input.language || 'en';
+  const customPrompt = normalizeCustomPrompt(input.customPrompt);
+  const chunks = chunkTranscript(input.segments, input.chunkTokens);
+  if (chunks.length === 0) {
+    throw new Error('Transcript has no text to summarize');
+  }
+
+  const bounds = {
+    start: chunks[0].start_seconds,
+    end: chunks[chunks.length - 1].end_seconds,
+  };
+
+  if (chunks.length === 1) {
+    const result = await finalComplete(
+      [
+        { role: 'system', content: finalSystemPrompt(input.summaryType, language, customPrompt) },
+        {
+          role: 'user',
+          content: withCustomPrompt(
+            `Video Title: "${input.title}"
+
+Transcript:
+${chunks[0].text}
+
+Create a ${input.summaryType} summary of this video content.`,
+            customPrompt
+          ),
+        },
+      ],
+      finalRequestOptions(input.summaryType)
+    );
+
+    return {
+      summary: {
+        ...parseFinalSummary(result.response, bounds, input.segments, input.youtubeId),
+        chunk_count: 1,
+      },
+      tokensUsed: result.tokensUsed,
+      model: result.model,
+    };
+  }
+
+  // Map: summarize each chunk with its own timestamps
+  let tokensUsed = 0;
+  let completed = 0;
+  const partials = await mapWithConcurrency(chunks, MAP_CONCURRENCY, async chunk => {
+    const result = await complete(
+      [
+        { role: 'system', content: chunkSystemPrompt(language, customPrompt) },
+        {
+          role: 'user',
+          content: withCustomPrompt(
+            `Video Title: "${input.title}"
+Part ${chunk.index + 1} of ${chunks.length} (${formatTimestamp(chunk.start_seconds)}-${formatTimestamp(chunk.end_seconds)})
+
+Transcript:
+${chunk.text}`,
+            customPrompt
+          ),
+        },
+      ],
+      { temperature: 0.3, maxTokens: 800, responseFormat: { type: 'json_object' } }
+    );
+
+    tokensUsed += result.tokensUsed;
+    input.onProgress?.(++completed, chunks.length);
+    return parsePartialSummary(result.response, chunk);
+  });
+
+  // Reduce: merge the partial summaries into the requested summary type
+  const result = await finalComplete(
+    [
+      { role: 'system', content: finalSystemPrompt(input.summaryType, language, customPrompt) },
+      {
+        role: 'user',
+        content: withCustomPrompt(
+          `Video Title: "${input.title}"
+
+The transcript was summarized in ${partials.length} consecutive parts:
+
+${partials.map(formatPartialSummary).join('\n\n')}
+
+Merge these into one ${input.summaryType} summary of the whole video. Keep the timestamps of the key points you use.`,
+          customPrompt
+        ),
+      },
+    ],
+    finalRequestOptions(input.summaryType)
+  );
+  tokensUsed += result.tokensUsed;
+
+  return {
+    summary: {
+      ...parseFinalSummary(result.response, bounds, input.segments, input.youtubeId),
+      chunk_count: chunks.length,
+    },
+    tokensUsed,
+    model: result.model,
+  };
+}
+
+/**
+ * Decoded value of a string field in a JSON object that is still being
+ * streamed, so far as it has arrived. Empty until the field starts.
+ */
+export function partialJsonString(buffer: string, key: string): string {
+  const start = buffer.match(new RegExp(`"${key}"\\s*:\\s*"`));
+  if (!start || start.index === undefined) return '';
+
+  let value = '';
+  for (let i = start.index + start[0].length; i < buffer.length; i++) {
+    const char = buffer[i];
+    if (char === '"') break;
+    if (char !== '\\') {
+      value += char;
+      continue;
+    }
+
+    const escape = buffer[i + 1];
+    if (escape === undefined) break; // Escape sequence not complete yet
+    if (escape === 'u') {
+      const hex = buffer.slice(i + 2, i + 6);
+      if (!/^[0-9a-fA-F]{4}$/.test(hex)) break;
+      value += String.fromCharCode(parseInt(hex, 16));
+      i += 5;
+      continue;
+    }
+
+    value += JSON_ESCAPES[escape] ?? escape;
+    i++;
+  }
+
+  return value;
+}
+
+const JSON_ESCAPES: Record<string, string> = {
+  n: '\n',
+  r: '\r',
+  t: '\t',
+  b: '\b',
+  f: '\f',
+};
+
+/**
+ * Append the user's delimited instructions after the content to summarize
+ */
+function withCustomPrompt(content: string, customPrompt: string): string {
+  return customPrompt ? `${content}\n\n${customPromptSection(customPrompt)}` : content;
+}
+
+function finalSystemPrompt(
+  summaryType: SummaryType,
+  language: string,
+  customPrompt: string
+): string {
+  const typeSpecific = {
+    brief: 'Create a concise 2-3 sentence summary capturing the main idea.',
+    detailed: 'Create a comprehensive summary with context and important details.',
+    bullet_points: 'Focus on creating detailed bullet points for key_points field.',
+  };
+
+  return `You are an expert video content summarizer. Create summaries in ${languageName(language)}.
+Always respond with valid JSON matching this structure:
+{
+  "summary": "main summary text",
+  "key_points": [{"text": "point 1", "start": "m:ss", "end": "m:ss"}, ...],
+  "topics": ["topic1", "topic2", ...],
+  "duration_estimate": <reading time in minutes>
+}
+Key point start and end are the transcript timestamps where the point is made.
+${typeSpecific[summaryType]}${customPrompt ? `\n${CUSTOM_PROMPT_RULE}` : ''}`;
+}
+
+function chunkSystemPrompt(language: string, customPrompt: string): string {
+  return `You summarize one part of a longer video transcript in ${languageName(language)}.
+Each transcript line starts with its [m:ss] timestamp.
+Always respond with valid JSON matching this structure:
+{
+  "summary": "3-5 sentence summary of this part",
+  "key_points": [{"text": "point", "start": "m:ss", "end": "m:ss"}],
+  "topics": ["topic1", ...]
+}
+List up to 6 key points with the timestamps where each one is made.${
+    customPrompt ? `\n${CUSTOM_PROMPT_RULE}` : ''
+  }`;
+}
+
+function finalRequestOptions(summaryType: SummaryType): LLMRequestOptions {
+  return {
+    temperature: 0.5, // Lower temperature for more consistent summaries
+    maxTokens: summaryType === 'brief' ? 500 : 2000,
+    responseFormat: { type: 'json_object' },
+  };
+}
+
+function formatPartialSummary(partial: PartialSummary): string {
+  const range = `${formatTimestamp(partial.chunk.start_seconds)}-${formatTimestamp(
+    partial.chunk.end_seconds
+  )}`;
+  const keyPoints = partial.keyPoints.map(point =>
+    point.source
+      ? `- [${formatTimestamp(point.source.start_seconds)}-${formatTimestamp(
+          point.source.end_seconds
+        )}] ${point.text}`
+      : `- ${point.text}`
+  );
+
+  return [
+    `Part ${partial.chunk.index + 1} (${range})`,
+    `Summary: ${partial.summary}`,
+    ...(keyPoints.length > 0 ? ['Key points:', ...keyPoints] : []),
+    ...(partial.topics.length > 0 ? [`Topics: ${partial.topics.join(', ')}`] : []),
+  ].join('\n');
+}
+
+function parseJson(response: string): any {
+  try {
+    return JSON.parse(response);
+  } catch {
+    throw new Error('Failed to parse AI summary response');
+  }
+}
+
+function parsePartialSummary(response: string, chunk: TranscriptChunk): PartialSummary {
+  const parsed = parseJson(response);
+  const bounds = { start: chunk.start_seconds, end: chunk.end_seconds };
+
+  return {
+    chunk,
+    summary: typeof parsed.summary === 'string' ? parsed.summary : '',
+    keyPoints: parseKeyPoints(parsed.key_points, bounds),
+    topics: stringList(parsed.topics),
+  };
+}
+
+/**
+ * Parse the final summary and place its key points on the transcript. The
+ * timestamps the model gave are only a hint; see alignKeyPoints.
+ */
+export function parseFinalSummary(
+  response: string,
+  bounds: { start: number; end: number },
+  segments: ChunkableSegment[],
+  youtubeId?: string
+): VideoSummaryContent {
+  const parsed = parseJson(response);
+  const summary = typeof parsed.summary === 'string' ? parsed.summary : '';
+
+  return {
+    summary,
+    key_points: toKeyPoints(parseKeyPoints(parsed.key_points, bounds), segments, youtubeId),
+    topics: stringList(parsed.topics),
+    duration_estimate:
+      parsed.duration_estimate || Math.max(1, Math.ceil(summary.split(/\s+/).length / 200)),
+    generated_at: new Date().toISOString(),
+  };
+}
+
+/**
+ * Key points as objects with timestamps, or plain strings when the model
+ * ignored the requested structure. Times are clamped to the summarized range.
+ */
+function parseKeyPoints(
+  value: unknown,
+  bounds: { start: number; end: number }
+): KeyPointCandidate[] {
+  if (!Array.isArray(value)) return [];
+
+  return value
+    .map(point => {
+      if (typeof point === 'string') return { text: point.trim(), source: null };
+      if (!point || typeof point.text !== 'string') return null;
+
+      const start = parseTimestamp(point.start);
+      if (start === null) return { text: point.text.trim(), source: null };
+
+      const clampedStart = Math.min(Math.max(start, bounds.start), bounds.end);
+      const end = parseTimestamp(point.end);
+      return {
+        text: point.text.trim(),
+        source: {
+          start_seconds: clampedStart,
+          end_seconds: Math.min(Math.max(end ?? clampedStart, clampedStart), bounds.end),
+        },
+      };
+    })
+    .filter((point): point is KeyPointCandidate => !!point?.text);
+}
+
+function stringList(value: unknown): string[] {
+  return Array.isArray(value)
+    ? value.filter((item): item is string => typeof item === 'string')
+    : [];
+}
+
+/**
+ * Map items with at most `limit` promises in flight, keeping order
+ */
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const workers = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  });
+
+  await Promise.all(workers);
+  return results;
+}
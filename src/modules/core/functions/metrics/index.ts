@@ -3,6 +3,11 @@
 import { denoEnv } from '@/shared-deno-env';
 import { createClient } from '@supabase/supabase-js';
 import { serve } from 'std/http/server.ts';
+import {
+  createQuotaBudgetFromEnv,
+  getQuotaLevel,
+  QuotaLevel,
+} from '../../../youtube/utils/quota-ledger.ts';
 
 /**
  * System metrics interface
@@ -114,6 +119,20 @@ interface ApiUsageMetrics {
   };
 }
 
+/**
+ * YouTube Data API quota metrics interface
+ */
+interface YouTubeQuotaMetrics {
+  usedUnits: number;
+  dailyLimit: number;
+  softLimit: number;
+  hardLimit: number;
+  remainingUnits: number;
+  percentage: number;
+  level: QuotaLevel;
+  byOperation: Record<string, { units: number; calls: number }>;
+}
+
 /**
  * Complete metrics response interface
  */
@@ -124,6 +143,7 @@ interface MetricsResponse {
   cache: CacheMetrics;
   errors: ErrorMetrics;
   api: ApiUsageMetrics;
+  youtubeQuota: YouTubeQuotaMetrics;
   health: {
     overallStatus: 'healthy' | 'degraded' | 'unhealthy';
     services: Record<string, 'up' | 'down' | 'degraded'>;
@@ -468,6 +488,39 @@ class MetricsService {
     }
   }
 
+  /**
+   * Collect YouTube Data API quota usage for the current quota day
+   */
+  async collectYouTubeQuotaMetrics(): Promise<YouTubeQuotaMetrics> {
+    const budget = createQuotaBudgetFromEnv(key => denoEnv.get(key));
+
+    let usedUnits = 0;
+    const byOperation: Record<string, { units: number; calls: number }> = {};
+
+    try {
+      const { data: usage, error } = await this.supabase.rpc('get_youtube_quota_usage');
+      if (error) {
+        throw error;
+      }
+
+      usage?.forEach((row: any) => {
+        byOperation[row.operation] = { units: row.units, calls: row.calls };
+        usedUnits += row.units;
+      });
+    } catch (error: any) {
+      console.error('Failed to collect YouTube quota metrics:', error);
+    }
+
+    return {
+      usedUnits,
+      ...budget,
+      remainingUnits: Math.max(0, budget.dailyLimit - usedUnits),
+      percentage: budget.dailyLimit > 0 ? Math.round((usedUnits / budget.dailyLimit) * 100) : 0,
+      level: getQuotaLevel(usedUnits, budget),
+      byOperation,
+    };
+  }
+
   /**
    * Calculate overall health score
    */
@@ -520,12 +573,13 @@ class MetricsService {
 
     try {
       // Collect all metrics in parallel for better performance
-      const [system, database, cache, errors, api] = await Promise.all([
+      const [system, database, cache, errors, api, youtubeQuota] = await Promise.all([
         this.collectSystemMetrics(),
         this.collectDatabaseMetrics(),
         this.collectCacheMetrics(),
         this.collectErrorMetrics(),
         this.collectApiUsageMetrics(),
+        this.collectYouTubeQuotaMetrics(),
       ]);
 
       // Update system metrics with current response time
@@ -546,6 +600,12 @@ class MetricsService {
           database: database.connectionHealth.status === 'healthy' ? 'up' : ('down' as const),
           cache: cache.global.totalCaches > 0 ? 'up' : ('degraded' as const),
           errors: errors.rates.last15m < 10 ? 'up' : ('degraded' as const),
+          youtubeQuota:
+            youtubeQuota.level === 'ok'
+              ? 'up'
+              : youtubeQuota.level === 'soft'
+                ? 'degraded'
+                : ('down' as const),
         },
         score: healthScore,
       };
@@ -557,6 +617,7 @@ class MetricsService {
         cache,
         errors,
         api,
+        youtubeQuota,
         health,
       };
     } catch (error: any) {
@@ -616,6 +677,25 @@ class MetricsService {
     lines.push(`# TYPE cache_hit_rate_percentage gauge`);
     lines.push(`cache_hit_rate_percentage ${metrics.cache.global.totalHitRate * 100}`);
 
+    // YouTube quota metrics
+    lines.push(`# HELP youtube_quota_used_units YouTube Data API units used today (Pacific Time)`);
+    lines.push(`# TYPE youtube_quota_used_units gauge`);
+    lines.push(`youtube_quota_used_units ${metrics.youtubeQuota.usedUnits}`);
+
+    lines.push(`# HELP youtube_quota_limit_units YouTube Data API budget thresholds in units`);
+    lines.push(`# TYPE youtube_quota_limit_units gauge`);
+    lines.push(`youtube_quota_limit_units{limit="daily"} ${metrics.youtubeQuota.dailyLimit}`);
+    lines.push(`youtube_quota_limit_units{limit="soft"} ${metrics.youtubeQuota.softLimit}`);
+    lines.push(`youtube_quota_limit_units{limit="hard"} ${metrics.youtubeQuota.hardLimit}`);
+
+    lines.push(
+      `# HELP youtube_quota_operation_units YouTube Data API units used today by operation`
+    );
+    lines.push(`# TYPE youtube_quota_operation_units gauge`);
+    Object.entries(metrics.youtubeQuota.byOperation).forEach(([operation, usage]) => {
+      lines.push(`youtube_quota_operation_units{operation="${operation}"} ${usage.units}`);
+    });
+
     return lines.join('\n') + '\n';
   }
 }
@@ -15,6 +15,7 @@ export interface VocabularyEntry {
   context?: string;
   video_id?: string;
   timestamp?: number;
+  transcript_language?: string; // Transcript the timestamp refers to
   difficulty?: 'beginner' | 'intermediate' | 'advanced';
   part_of_speech?: string;
   learned_at: string;
@@ -31,6 +32,7 @@ export interface CreateVocabularyRequest {
   context?: string;
   video_id?: string;
   timestamp?: number;
+  transcript_language?: string; // Transcript the timestamp refers to
   difficulty?: 'beginner' | 'intermediate' | 'advanced';
   part_of_speech?: string;
 }
@@ -60,6 +62,28 @@ export interface VocabularyListResponse {
   has_more: boolean;
 }
 
+export interface VocabularySuggestionsRequest {
+  video_id: string;
+  language?: string;
+  limit?: number;
+}
+
+// Key term of a video the user has not saved yet, from the transcript keyphrase index
+export interface VocabularySuggestion {
+  word: string;
+  kind: 'word' | 'phrase';
+  score: number; // TF-IDF against the transcripts in the user's watch history
+  occurrences: number;
+  language: string;
+  context?: string; // Transcript segment of the first occurrence
+  timestamp?: number; // Start of that segment, in seconds
+}
+
+export interface VocabularySuggestionsResponse {
+  video_id: string;
+  suggestions: VocabularySuggestion[];
+}
+
 // ============================================
 // Learning Session Types
 // ============================================
@@ -116,6 +140,7 @@ export interface VideoNote {
   video_id: string;
   content: string;
   timestamp: number;
+  transcript_language?: string; // Transcript the timestamp refers to
   tags: string[];
   is_private: boolean;
   formatting?: {
@@ -130,6 +155,7 @@ export interface CreateNoteRequest {
   video_id: string;
   content: string;
   timestamp: number;
+  transcript_language?: string; // Transcript the timestamp refers to
   tags?: string[];
   is_private?: boolean;
   formatting?: {
@@ -15,6 +15,7 @@ export const CreateVocabularySchema = z.object({
   context: z.string().max(500).optional(),
   video_id: z.string().uuid().optional(),
   timestamp: z.number().min(0).optional(),
+  transcript_language: z.string().regex(/^[a-z]{2}(-[A-Z]{2})?$/).optional(),
   difficulty: z.enum(['beginner', 'intermediate', 'advanced']).optional(),
   part_of_speech: z.string().max(50).optional(),
 });
@@ -39,6 +40,12 @@ export const VocabularyListSchema = z.object({
   order: z.enum(['asc', 'desc']).default('desc'),
 });
 
+export const VocabularySuggestionsSchema = z.object({
+  video_id: z.string().uuid(),
+  language: z.string().regex(/^[a-z]{2}(-[A-Z]{2})?$/).optional(),
+  limit: z.number().int().min(1).max(50).default(20),
+});
+
 // ============================================
 // Session Validators
 // ============================================
@@ -80,6 +87,7 @@ export const CreateNoteSchema = z.object({
   video_id: z.string().uuid(),
   content: z.string().min(1).max(5000).trim(),
   timestamp: z.number().min(0),
+  transcript_language: z.string().regex(/^[a-z]{2}(-[A-Z]{2})?$/).optional(),
   tags: z.array(z.string().max(50)).max(10).optional(),
   is_private: z.boolean().default(true),
   formatting: z.object({
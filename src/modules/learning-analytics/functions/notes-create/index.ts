@@ -180,6 +180,7 @@ serve(async req => {
         video_id: data.video_id,
         content: data.content,
         timestamp: data.timestamp,
+        transcript_language: data.transcript_language,
         tags: sanitizedTags,
         is_private: data.is_private ?? true,
         formatting: data.formatting || { type: 'plain' },
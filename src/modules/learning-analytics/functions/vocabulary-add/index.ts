@@ -1,8 +1,18 @@
 import { denoEnv } from '@/shared-deno-env';
 import { createClient } from '@supabase/supabase-js';
 import { getInitialState, getNextReviewDate } from '_shared/spaced-repetition.ts';
-import type { CreateVocabularyRequest, ErrorResponse, SuccessResponse } from '_shared/types.ts';
-import { CreateVocabularySchema, validateRequest } from '_shared/validators.ts';
+import type {
+  CreateVocabularyRequest,
+  ErrorResponse,
+  SuccessResponse,
+  VocabularySuggestion,
+  VocabularySuggestionsRequest,
+} from '_shared/types.ts';
+import {
+  CreateVocabularySchema,
+  validateRequest,
+  VocabularySuggestionsSchema,
+} from '_shared/validators.ts';
 import { serve } from 'std/http/server.ts';
 
 // Response headers
@@ -75,6 +85,89 @@ async function checkDuplicate(
   return !error && data !== null;
 }
 
+// Suggest words from a video's keyphrase index that the user has not saved yet
+async function handleSuggestions(req: Request, userId: string): Promise<Response> {
+  const url = new URL(req.url);
+  const queryParams: any = {};
+
+  const videoId = url.searchParams.get('video_id');
+  const language = url.searchParams.get('language');
+  const limit = url.searchParams.get('limit');
+  if (videoId) queryParams.video_id = videoId;
+  if (language) queryParams.language = language;
+  if (limit) queryParams.limit = parseInt(limit);
+
+  const validation = validateRequest(VocabularySuggestionsSchema, queryParams);
+
+  if (!validation.isValid) {
+    const errorResponse: ErrorResponse = {
+      success: false,
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: 'Invalid query parameters',
+        details: validation.errors?.errors,
+      },
+    };
+
+    return new Response(JSON.stringify(errorResponse), {
+      status: 400,
+      headers: { ...corsHeaders, ...securityHeaders },
+    });
+  }
+
+  const params = validation.data as VocabularySuggestionsRequest;
+
+  const supabase = createClient(
+    denoEnv.get('SUPABASE_URL') || '',
+    denoEnv.get('SUPABASE_SERVICE_ROLE_KEY') || ''
+  );
+
+  const { data, error } = await supabase.rpc('suggest_video_vocabulary', {
+    p_user_id: userId,
+    p_video_id: params.video_id,
+    p_language_code: params.language ?? null,
+    p_limit: params.limit,
+  });
+
+  if (error) {
+    console.error('Database error:', error);
+
+    const errorResponse: ErrorResponse = {
+      success: false,
+      error: {
+        code: 'DATABASE_ERROR',
+        message: 'Failed to load vocabulary suggestions',
+        details: error,
+      },
+    };
+
+    return new Response(JSON.stringify(errorResponse), {
+      status: 500,
+      headers: { ...corsHeaders, ...securityHeaders },
+    });
+  }
+
+  const suggestions: VocabularySuggestion[] = (data || []).map((row: any) => ({
+    word: row.term,
+    kind: row.kind,
+    score: Number(row.score),
+    occurrences: row.occurrences,
+    language: row.language_code,
+    context: row.context ?? undefined,
+    timestamp: row.first_start !== null ? Number(row.first_start) : undefined,
+  }));
+
+  const successResponse: SuccessResponse = {
+    success: true,
+    data: { video_id: params.video_id, suggestions },
+  };
+
+  return new Response(JSON.stringify(successResponse), {
+    status: 200,
+    headers: { ...corsHeaders, ...securityHeaders },
+  });
+}
+
 // Main handler
 serve(async req => {
   // Handle CORS
@@ -85,12 +178,12 @@ serve(async req => {
     });
   }
 
-  if (req.method !== 'POST') {
+  if (req.method !== 'POST' && req.method !== 'GET') {
     const errorResponse: ErrorResponse = {
       success: false,
       error: {
         code: 'METHOD_NOT_ALLOWED',
-        message: 'Only POST method allowed',
+        message: 'Only GET and POST methods allowed',
       },
     };
 
@@ -118,6 +211,11 @@ serve(async req => {
       });
     }
 
+    // GET lists words to learn from a video
+    if (req.method === 'GET') {
+      return await handleSuggestions(req, user.id);
+    }
+
     // Parse and validate request
     const body = await req.json();
     const validation = validateRequest(CreateVocabularySchema, body);
@@ -179,6 +277,7 @@ serve(async req => {
         context: data.context,
         video_id: data.video_id,
         timestamp: data.timestamp,
+        transcript_language: data.transcript_language,
         difficulty: data.difficulty || 'intermediate',
         part_of_speech: data.part_of_speech,
         next_review_at: nextReviewDate,
@@ -6,16 +6,36 @@ import { AppError, createAppError, ErrorType, handleUnknownError } from '@/share
 import { validateRequestBody, ValidationSchema } from '@/shared-validation';
 import { createClient } from '@supabase/supabase-js';
 import { serve } from 'std/http/server.ts';
+import type { VideoChapter, VideoKeyphrase, VideoLiveDetails } from '../../types/youtube.ts';
+import {
+  getStoredChapters,
+  getStoredTranscriptSegments,
+  saveChapters,
+} from '../../utils/chapter-store.ts';
+import { attachSegments, parseDescriptionChapters } from '../../utils/chapters.ts';
+import { getStoredKeyphrases } from '../../utils/keyphrase-store.ts';
+import {
+  isAwaitingBroadcast,
+  resolveLiveDetails,
+  toLiveStateColumns,
+} from '../../utils/live-state.ts';
+import { createQuotaLedger, YouTubeQuotaLedger } from '../../utils/quota-ledger.ts';
+import { upsertVideos } from '../../utils/video-records.ts';
+import { youtubeAPI } from '../../utils/youtube-api.ts';
+import { ParsedYouTubeUrl, parseYouTubeUrl } from '../../utils/youtube-url.ts';
 
 /**
  * Request interface for video analysis
  */
 interface AnalyzeVideoRequest {
-  videoUrl: string;
+  videoUrl?: string;
+  videoUrls?: string[]; // Batch mode, up to MAX_BATCH_URLS
   options?: {
     includeStatistics?: boolean;
     includeTags?: boolean;
     cacheResult?: boolean;
+    includeChapters?: boolean;
+    includeKeyphrases?: boolean;
   };
 }
 
@@ -34,6 +54,7 @@ interface VideoMetadata {
   viewCount?: number;
   likeCount?: number;
   tags?: string[];
+  live?: VideoLiveDetails; // Upcoming premieres and running livestreams have no duration yet
 }
 
 /**
@@ -43,7 +64,11 @@ interface AnalyzeVideoResponse {
   success: boolean;
   data?: {
     video: VideoMetadata;
+    link: ParsedYouTubeUrl; // How the video was linked (start offset, playlist)
+    chapters?: VideoChapter[];
+    keyphrases?: VideoKeyphrase[];
     cached: boolean;
+    stale?: boolean; // Served from an expired cache entry because the quota budget is low
     processedAt: string;
   };
   error?: {
@@ -54,39 +79,40 @@ interface AnalyzeVideoResponse {
 }
 
 /**
- * YouTube URL validation patterns
+ * Result for one URL in batch mode
  */
-const YOUTUBE_URL_PATTERNS = [
-  /(?:youtube\.com\/watch\?v=|youtu\.be\/|youtube\.com\/embed\/)([a-zA-Z0-9_-]{11})/,
-  /youtube\.com\/shorts\/([a-zA-Z0-9_-]{11})/,
-];
+interface BatchAnalyzeItem {
+  input: string;
+  success: boolean;
+  videoId?: string;
+  link?: ParsedYouTubeUrl;
+  video?: VideoMetadata;
+  cached?: boolean;
+  stale?: boolean;
+  error?: {
+    code: string;
+    message: string;
+  };
+}
 
 /**
- * Extract video ID from YouTube URL
+ * Batch mode response interface
  */
-function extractVideoId(url: string): string | null {
-  try {
-    const cleanUrl = url.trim();
-
-    for (const pattern of YOUTUBE_URL_PATTERNS) {
-      const match = cleanUrl.match(pattern);
-      if (match && match[1]) {
-        return match[1];
-      }
-    }
-
-    // Check if it's already just a video ID
-    if (/^[a-zA-Z0-9_-]{11}$/.test(cleanUrl)) {
-      return cleanUrl;
-    }
-
-    return null;
-  } catch (error: any) {
-    console.error('Failed to extract video ID:', error);
-    return null;
-  }
+interface BatchAnalyzeResponse {
+  success: boolean;
+  data: {
+    results: BatchAnalyzeItem[];
+    succeeded: number;
+    failed: number;
+    processedAt: string;
+  };
 }
 
+/**
+ * Most URLs accepted in one batch, matching one videos.list call
+ */
+const MAX_BATCH_URLS = 50;
+
 /**
  * Parse ISO 8601 duration to seconds
  */
@@ -114,10 +140,31 @@ function validateYoutubeUrl(value: unknown): { isValid: boolean; errors: string[
     return { isValid: false, errors: ['Must be a string'] };
   }
 
-  if (!extractVideoId(value)) {
+  const link = parseYouTubeUrl(value);
+  if (!link) {
     return { isValid: false, errors: ['Invalid YouTube URL format'] };
   }
 
+  if (!link.videoId) {
+    return { isValid: false, errors: ['URL points to a playlist, not a video'] };
+  }
+
+  return { isValid: true, errors: [] };
+}
+
+/**
+ * Validate batch URL list. Individual URLs are checked per item so one bad
+ * link does not fail the batch.
+ */
+function validateYoutubeUrls(value: unknown): { isValid: boolean; errors: string[] } {
+  if (!Array.isArray(value) || value.length === 0) {
+    return { isValid: false, errors: ['Must be a non-empty array'] };
+  }
+
+  if (value.length > MAX_BATCH_URLS) {
+    return { isValid: false, errors: [`At most ${MAX_BATCH_URLS} URLs are allowed`] };
+  }
+
   return { isValid: true, errors: [] };
 }
 
@@ -126,11 +173,16 @@ function validateYoutubeUrl(value: unknown): { isValid: boolean; errors: string[
  */
 const analyzeVideoSchema: ValidationSchema<AnalyzeVideoRequest> = {
   videoUrl: {
-    required: true,
+    required: false,
     type: 'string',
     validate: validateYoutubeUrl,
     sanitize: value => (typeof value === 'string' ? value.trim() : value),
   },
+  videoUrls: {
+    required: false,
+    type: 'array',
+    validate: validateYoutubeUrls,
+  },
   options: {
     required: false,
     type: 'object',
@@ -142,9 +194,19 @@ const analyzeVideoSchema: ValidationSchema<AnalyzeVideoRequest> = {
  */
 function validateRequest(data: any): { isValid: boolean; errors: string[] } {
   const result = validateRequestBody<AnalyzeVideoRequest>(data, analyzeVideoSchema);
+  const errors = [...result.errors];
+
+  if (
+    data &&
+    typeof data === 'object' &&
+    (data.videoUrl === undefined) === (data.videoUrls === undefined)
+  ) {
+    errors.push('Exactly one of videoUrl or videoUrls is required');
+  }
+
   return {
-    isValid: result.isValid,
-    errors: result.errors,
+    isValid: errors.length === 0,
+    errors,
   };
 }
 
@@ -164,7 +226,11 @@ async function checkRateLimit(identifier: string): Promise<boolean> {
 /**
  * Get video from cache
  */
-async function getCachedVideo(supabase: any, videoId: string): Promise<VideoMetadata | null> {
+async function getCachedVideo(
+  supabase: any,
+  videoId: string,
+  maxAgeHours = 24
+): Promise<VideoMetadata | null> {
   try {
     const { data, error } = await supabase
       .from('youtube_videos')
@@ -174,34 +240,114 @@ async function getCachedVideo(supabase: any, videoId: string): Promise<VideoMeta
 
     if (error || !data) return null;
 
-    // Check if cache is still valid (24 hours)
+    // Check if cache is still valid (24 hours by default)
     const lastRefreshed = new Date(data.last_refreshed_at || data.created_at);
     const now = new Date();
     const hoursSinceRefresh = (now.getTime() - lastRefreshed.getTime()) / (1000 * 60 * 60);
 
-    if (hoursSinceRefresh > 24) {
+    if (hoursSinceRefresh > maxAgeHours || isLiveCheckDue(data)) {
       return null; // Cache expired
     }
 
-    return {
-      videoId: data.video_id,
-      title: data.title,
-      description: data.description,
-      channelId: data.channel_id,
-      channelName: data.channel_name,
-      publishedAt: data.published_at,
-      durationSeconds: data.duration_seconds,
-      thumbnailUrl: data.thumbnail_url,
-      viewCount: data.view_count,
-      likeCount: data.like_count,
-      tags: data.metadata?.tags,
-    };
+    return toVideoMetadata(data);
   } catch (error: any) {
     console.error('Cache lookup failed:', error);
     return null;
   }
 }
 
+/**
+ * Get cached videos in one query, keyed by video ID, with whether each
+ * entry is older than the cache lifetime
+ */
+async function getCachedVideos(
+  supabase: any,
+  videoIds: string[],
+  maxAgeHours = 24
+): Promise<Map<string, { metadata: VideoMetadata; expired: boolean }>> {
+  const cachedVideos = new Map<string, { metadata: VideoMetadata; expired: boolean }>();
+  if (videoIds.length === 0) return cachedVideos;
+
+  const { data, error } = await supabase
+    .from('youtube_videos')
+    .select('*')
+    .in('video_id', videoIds);
+
+  if (error) {
+    console.error('Cache lookup failed:', error);
+    return cachedVideos;
+  }
+
+  const now = Date.now();
+  for (const row of data || []) {
+    const lastRefreshed = new Date(row.last_refreshed_at || row.created_at).getTime();
+    cachedVideos.set(row.video_id, {
+      metadata: toVideoMetadata(row),
+      expired: (now - lastRefreshed) / (1000 * 60 * 60) > maxAgeHours || isLiveCheckDue(row),
+    });
+  }
+
+  return cachedVideos;
+}
+
+/**
+ * Upcoming and live videos are refetched once their next live check is due,
+ * so a finished broadcast is not served with a zero duration for a day
+ */
+function isLiveCheckDue(row: any): boolean {
+  return (
+    isAwaitingBroadcast(row.live_state) &&
+    (!row.next_live_check_at || new Date(row.next_live_check_at).getTime() <= Date.now())
+  );
+}
+
+/**
+ * Live details stored on a youtube_videos row; undefined for regular uploads
+ */
+function toLiveDetails(row: any): VideoLiveDetails | undefined {
+  if (!row.live_state || row.live_state === 'none') return undefined;
+
+  return {
+    state: row.live_state,
+    ...(row.scheduled_start_at && { scheduledStartAt: row.scheduled_start_at }),
+    ...(row.actual_start_at && { actualStartAt: row.actual_start_at }),
+    ...(row.actual_end_at && { actualEndAt: row.actual_end_at }),
+  };
+}
+
+/**
+ * Map a youtube_videos row to the response shape
+ */
+function toVideoMetadata(row: any): VideoMetadata {
+  return {
+    videoId: row.video_id,
+    title: row.title,
+    description: row.description,
+    channelId: row.channel_id,
+    channelName: row.channel_name,
+    publishedAt: row.published_at,
+    durationSeconds: row.duration_seconds,
+    thumbnailUrl: row.thumbnail_url,
+    viewCount: row.view_count,
+    likeCount: row.like_count,
+    tags: row.metadata?.tags,
+    live: toLiveDetails(row),
+  };
+}
+
+/**
+ * Drop the fields the request did not ask for
+ */
+function filterMetadata(metadata: VideoMetadata, options: AnalyzeVideoRequest['options']): void {
+  if (!options?.includeStatistics) {
+    delete metadata.viewCount;
+    delete metadata.likeCount;
+  }
+  if (!options?.includeTags) {
+    delete metadata.tags;
+  }
+}
+
 /**
  * Save video to cache
  */
@@ -222,6 +368,7 @@ async function cacheVideo(supabase: any, metadata: VideoMetadata): Promise<void>
         metadata: {
           tags: metadata.tags,
         },
+        ...toLiveStateColumns(metadata.live || { state: 'none' }),
         last_refreshed_at: new Date().toISOString(),
       },
       {
@@ -237,17 +384,88 @@ async function cacheVideo(supabase: any, metadata: VideoMetadata): Promise<void>
   }
 }
 
+/**
+ * Get chapters for a video: stored chapters if any, otherwise chapters parsed
+ * from the description, mapped onto a stored transcript and saved. AI topic
+ * segmentation is left to the video-chapters endpoint.
+ */
+async function getVideoChapters(supabase: any, metadata: VideoMetadata): Promise<VideoChapter[]> {
+  try {
+    const { data: video } = await supabase
+      .from('youtube_videos')
+      .select('id')
+      .eq('video_id', metadata.videoId)
+      .single();
+
+    if (!video) {
+      return attachSegments(
+        parseDescriptionChapters(metadata.description, metadata.durationSeconds)
+      );
+    }
+
+    const stored = await getStoredChapters(supabase, video.id);
+    if (stored) {
+      return stored.chapters;
+    }
+
+    const boundaries = parseDescriptionChapters(metadata.description, metadata.durationSeconds);
+    if (boundaries.length === 0) {
+      return [];
+    }
+
+    const transcript = await getStoredTranscriptSegments(supabase, video.id);
+    const chapters = attachSegments(boundaries, transcript?.segments);
+    await saveChapters(supabase, video.id, {
+      source: 'description',
+      language: transcript?.language,
+      chapters,
+    });
+
+    return chapters;
+  } catch (error: any) {
+    console.error('Chapter lookup failed:', error);
+    return [];
+  }
+}
+
+/**
+ * Get the keyphrase index of the video's stored transcript; empty until a
+ * transcript has been extracted
+ */
+async function getVideoKeyphrases(supabase: any, videoId: string): Promise<VideoKeyphrase[]> {
+  try {
+    const { data: video } = await supabase
+      .from('youtube_videos')
+      .select('id')
+      .eq('video_id', videoId)
+      .single();
+
+    if (!video) {
+      return [];
+    }
+
+    const stored = await getStoredKeyphrases(supabase, video.id);
+    return stored?.keyphrases || [];
+  } catch (error: any) {
+    console.error('Keyphrase lookup failed:', error);
+    return [];
+  }
+}
+
 /**
  * Fetch video metadata from YouTube API
  */
-async function fetchVideoMetadata(videoId: string): Promise<VideoMetadata> {
+async function fetchVideoMetadata(
+  videoId: string,
+  quotaLedger: YouTubeQuotaLedger
+): Promise<VideoMetadata> {
   const apiKey = denoEnv.get('YOUTUBE_API_KEY');
   if (!apiKey) {
     throw new Error('YouTube API key not configured');
   }
 
   const params = new URLSearchParams({
-    part: 'snippet,contentDetails,statistics',
+    part: 'snippet,contentDetails,statistics,liveStreamingDetails',
     id: videoId,
     key: apiKey,
   });
@@ -257,6 +475,7 @@ async function fetchVideoMetadata(videoId: string): Promise<VideoMetadata> {
       Accept: 'application/json',
     },
   });
+  await quotaLedger.record('videos.list');
 
   if (!response.ok) {
     const error = await response.text();
@@ -291,6 +510,147 @@ async function fetchVideoMetadata(videoId: string): Promise<VideoMetadata> {
     viewCount: statistics?.viewCount ? parseInt(statistics.viewCount, 10) : undefined,
     likeCount: statistics?.likeCount ? parseInt(statistics.likeCount, 10) : undefined,
     tags: snippet.tags,
+    live: liveDetailsOrUndefined(resolveLiveDetails(video)),
+  };
+}
+
+/**
+ * Leave live details out of responses for regular uploads
+ */
+function liveDetailsOrUndefined(live: VideoLiveDetails | undefined): VideoLiveDetails | undefined {
+  return live && live.state !== 'none' ? live : undefined;
+}
+
+/**
+ * Analyze up to MAX_BATCH_URLS videos. Known videos are served from
+ * youtube_videos and the rest are fetched with a single videos.list call.
+ * Each URL gets its own success or error result. Chapters and keyphrases are
+ * not included in batch mode.
+ */
+async function analyzeBatch(
+  supabase: any,
+  requestData: AnalyzeVideoRequest
+): Promise<BatchAnalyzeResponse> {
+  const options = requestData.options;
+  const shouldCache = options?.cacheResult !== false;
+
+  const results: BatchAnalyzeItem[] = requestData.videoUrls!.map(input => {
+    const link = typeof input === 'string' ? parseYouTubeUrl(input) : null;
+    if (!link?.videoId) {
+      return {
+        input,
+        success: false,
+        error: { code: 'INVALID_URL', message: 'Invalid YouTube video URL' },
+      };
+    }
+    return { input, success: true, videoId: link.videoId, link };
+  });
+
+  const videoIds = [...new Set(results.filter(item => item.videoId).map(item => item.videoId!))];
+  const resolved = new Map<string, { metadata: VideoMetadata; cached: boolean; stale?: boolean }>();
+  const failures = new Map<string, { code: string; message: string }>();
+
+  const cachedVideos = shouldCache
+    ? await getCachedVideos(supabase, videoIds)
+    : new Map<string, { metadata: VideoMetadata; expired: boolean }>();
+  for (const [videoId, entry] of cachedVideos) {
+    if (!entry.expired) {
+      resolved.set(videoId, { metadata: entry.metadata, cached: true });
+    }
+  }
+
+  let missing = videoIds.filter(videoId => !resolved.has(videoId));
+
+  if (missing.length > 0) {
+    const quotaLedger = createQuotaLedger(supabase, key => denoEnv.get(key));
+    const quota = await quotaLedger.check('videos.list');
+
+    // Past the soft budget expired cache entries beat a new API call
+    if (quota.preferCache) {
+      for (const videoId of missing) {
+        const entry = cachedVideos.get(videoId);
+        if (entry) {
+          resolved.set(videoId, { metadata: entry.metadata, cached: true, stale: true });
+        }
+      }
+      missing = missing.filter(videoId => !resolved.has(videoId));
+    }
+
+    if (missing.length > 0 && !quota.allowed) {
+      for (const videoId of missing) {
+        failures.set(videoId, {
+          code: 'QUOTA_BUDGET_EXCEEDED',
+          message: 'YouTube API quota budget reached. Please try again later.',
+        });
+      }
+    } else if (missing.length > 0) {
+      try {
+        const fetched = await youtubeAPI.withQuotaLedger(quotaLedger).getVideosMetadata(missing);
+        if (shouldCache) {
+          await upsertVideos(supabase, fetched);
+        }
+
+        for (const video of fetched) {
+          resolved.set(video.videoId, {
+            metadata: {
+              videoId: video.videoId,
+              title: video.title,
+              description: video.description,
+              channelId: video.channelId,
+              channelName: video.channelName,
+              publishedAt: video.publishedAt,
+              durationSeconds: video.durationSeconds,
+              thumbnailUrl: video.thumbnails.high?.url || video.thumbnails.default?.url,
+              viewCount: video.statistics?.viewCount,
+              likeCount: video.statistics?.likeCount,
+              tags: video.tags,
+              live: liveDetailsOrUndefined(video.live),
+            },
+            cached: false,
+          });
+        }
+      } catch (error: any) {
+        console.error('Batch metadata fetch failed:', error);
+        for (const videoId of missing) {
+          failures.set(videoId, {
+            code: 'FETCH_FAILED',
+            message: 'Failed to fetch video metadata from YouTube',
+          });
+        }
+      }
+    }
+  }
+
+  for (const item of results) {
+    if (!item.videoId) continue;
+
+    const entry = resolved.get(item.videoId);
+    if (!entry) {
+      item.success = false;
+      item.error = failures.get(item.videoId) || {
+        code: 'VIDEO_NOT_FOUND',
+        message: 'Video not found, private or deleted',
+      };
+      continue;
+    }
+
+    // Duplicate URLs get their own copy, since fields are filtered in place
+    item.video = { ...entry.metadata };
+    filterMetadata(item.video, options);
+    item.cached = entry.cached;
+    if (entry.stale) item.stale = true;
+  }
+
+  const succeeded = results.filter(item => item.success).length;
+
+  return {
+    success: true,
+    data: {
+      results,
+      succeeded,
+      failed: results.length - succeeded,
+      processedAt: new Date().toISOString(),
+    },
   };
 }
 
@@ -338,9 +698,6 @@ serve(async req => {
       );
     }
 
-    // Extract video ID
-    const videoId = extractVideoId(requestData.videoUrl)!;
-
     // Check rate limit
     const rateLimitKey = req.headers.get('CF-Connecting-IP') || 'anonymous';
     const isAllowed = await checkRateLimit(rateLimitKey);
@@ -368,6 +725,15 @@ serve(async req => {
 
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
+    // Batch mode reports errors per URL instead of failing the request
+    if (requestData.videoUrls) {
+      return createCorsSuccessResponse(await analyzeBatch(supabase, requestData), 200, requestId);
+    }
+
+    // Extract video ID, start offset and playlist context
+    const link = parseYouTubeUrl(requestData.videoUrl!)!;
+    const videoId = link.videoId!;
+
     // Check cache first
     const shouldCache = requestData.options?.cacheResult !== false;
     let cached = false;
@@ -380,9 +746,31 @@ serve(async req => {
       }
     }
 
+    // Past the soft quota budget an expired cache entry beats a new API call
+    let stale = false;
+    const quotaLedger = createQuotaLedger(supabase, key => denoEnv.get(key));
+
+    if (!metadata) {
+      const quota = await quotaLedger.check('videos.list');
+
+      if (quota.preferCache) {
+        metadata = await getCachedVideo(supabase, videoId, Infinity);
+        stale = cached = !!metadata;
+      }
+
+      if (!metadata && !quota.allowed) {
+        throw createAppError(
+          ErrorType.RATE_LIMIT_ERROR,
+          'YouTube API quota budget reached. Please try again later.',
+          { code: 'QUOTA_BUDGET_EXCEEDED', level: quota.level },
+          requestId
+        );
+      }
+    }
+
     // Fetch from YouTube if not cached
     if (!metadata) {
-      metadata = await fetchVideoMetadata(videoId);
+      metadata = await fetchVideoMetadata(videoId, quotaLedger);
 
       // Cache the result
       if (shouldCache) {
@@ -390,14 +778,16 @@ serve(async req => {
       }
     }
 
+    // Chapters are resolved before the description-dependent fields are filtered
+    const chapters = requestData.options?.includeChapters
+      ? await getVideoChapters(supabase, metadata)
+      : undefined;
+    const keyphrases = requestData.options?.includeKeyphrases
+      ? await getVideoKeyphrases(supabase, metadata.videoId)
+      : undefined;
+
     // Filter response based on options
-    if (!requestData.options?.includeStatistics) {
-      delete metadata.viewCount;
-      delete metadata.likeCount;
-    }
-    if (!requestData.options?.includeTags) {
-      delete metadata.tags;
-    }
+    filterMetadata(metadata, requestData.options);
 
     // Return success response
     return createCorsSuccessResponse(
@@ -405,7 +795,11 @@ serve(async req => {
         success: true,
         data: {
           video: metadata,
+          link,
+          ...(chapters && { chapters }),
+          ...(keyphrases && { keyphrases }),
           cached,
+          ...(stale && { stale }),
           processedAt: new Date().toISOString(),
         },
       },
@@ -427,7 +821,7 @@ serve(async req => {
         const appError = createAppError(
           ErrorType.NOT_FOUND_ERROR,
           'The requested video was not found',
-          { videoId: extractVideoId(requestData?.videoUrl || '') },
+          { videoId: parseYouTubeUrl(requestData?.videoUrl || '')?.videoId },
           requestId
         );
         return appError.toHttpResponse();
@@ -0,0 +1,347 @@
+// Bilingual (dual-subtitle) transcript endpoint
+
+import { createCorsErrorResponse, createCorsResponse, createCorsSuccessResponse } from '@/cors';
+import { denoEnv } from '@/shared-deno-env';
+import { AppError, createAppError, ErrorType, handleUnknownError } from '@/shared-errors';
+import { validateRequestBody, ValidationSchema } from '@/shared-validation';
+import { createClient } from '@supabase/supabase-js';
+import { serve } from 'std/http/server.ts';
+import { TranslationClient } from '../../../ai-processing/utils/translation-client.ts';
+import type {
+  BilingualTranscriptRequest,
+  BilingualTranscriptResponse,
+} from '../../types/youtube.ts';
+import {
+  BilingualTranscriptBuilder,
+  BilingualTranscriptResult,
+} from '../../utils/bilingual-transcript.ts';
+import { transcriptExtractor } from '../../utils/youtube-transcript.ts';
+
+/**
+ * Cached translations are reused for 30 days
+ */
+const CACHE_TTL_DAYS = 30;
+
+/**
+ * Validate YouTube video ID
+ */
+function validateVideoId(value: unknown): { isValid: boolean; errors: string[] } {
+  if (typeof value !== 'string') {
+    return { isValid: false, errors: ['Must be a string'] };
+  }
+
+  if (!/^[a-zA-Z0-9_-]{11}$/.test(value)) {
+    return { isValid: false, errors: ['Invalid YouTube video ID format'] };
+  }
+
+  return { isValid: true, errors: [] };
+}
+
+/**
+ * Validate language code
+ */
+function validateLanguageCode(value: unknown): { isValid: boolean; errors: string[] } {
+  if (typeof value !== 'string') {
+    return { isValid: false, errors: ['Must be a string'] };
+  }
+
+  if (!/^[a-z]{2}(-[A-Z]{2})?$/.test(value)) {
+    return {
+      isValid: false,
+      errors: ['Must be a valid ISO 639-1 code (e.g., en, vi)'],
+    };
+  }
+
+  return { isValid: true, errors: [] };
+}
+
+/**
+ * Request validation schema
+ */
+const bilingualRequestSchema: ValidationSchema<BilingualTranscriptRequest> = {
+  videoId: {
+    required: true,
+    type: 'string',
+    validate: validateVideoId,
+  },
+  targetLanguage: {
+    required: true,
+    type: 'string',
+    validate: validateLanguageCode,
+  },
+  sourceLanguage: {
+    required: false,
+    type: 'string',
+    validate: validateLanguageCode,
+  },
+  forceRefresh: {
+    required: false,
+    type: 'boolean',
+  },
+};
+
+/**
+ * Look up the internal video record ID
+ */
+async function getVideoRecordId(supabase: any, videoId: string): Promise<string | null> {
+  const { data: video, error } = await supabase
+    .from('youtube_videos')
+    .select('id')
+    .eq('video_id', videoId)
+    .single();
+
+  if (error || !video) {
+    return null;
+  }
+
+  return video.id;
+}
+
+/**
+ * Get cached bilingual transcript from database, keyed by the requested
+ * source language
+ */
+async function getCachedBilingualTranscript(
+  supabase: any,
+  videoRecordId: string,
+  requestedSourceLanguage: string,
+  targetLanguage: string
+): Promise<any | null> {
+  try {
+    const { data, error } = await supabase
+      .from('bilingual_transcripts')
+      .select('*')
+      .eq('video_id', videoRecordId)
+      .eq('requested_source_language', requestedSourceLanguage)
+      .eq('target_language', targetLanguage)
+      .single();
+
+    if (error || !data) {
+      return null;
+    }
+
+    const ageDays = (Date.now() - new Date(data.updated_at).getTime()) / (1000 * 60 * 60 * 24);
+    if (ageDays > CACHE_TTL_DAYS) {
+      return null; // Cache expired
+    }
+
+    return data;
+  } catch (error: any) {
+    console.error('Bilingual cache lookup failed:', error);
+    return null;
+  }
+}
+
+/**
+ * Save bilingual transcript to database under the requested source language,
+ * so the next request for the same pair finds it
+ */
+async function saveBilingualTranscript(
+  supabase: any,
+  videoRecordId: string,
+  requestedSourceLanguage: string,
+  result: BilingualTranscriptResult
+): Promise<void> {
+  try {
+    const { error } = await supabase.from('bilingual_transcripts').upsert(
+      {
+        video_id: videoRecordId,
+        requested_source_language: requestedSourceLanguage,
+        source_language: result.sourceLanguage.code,
+        source_language_name: result.sourceLanguage.name,
+        target_language: result.targetLanguage,
+        segments: result.segments,
+        segment_count: result.segments.length,
+        translation_provider: result.provider,
+      },
+      {
+        onConflict: 'video_id,requested_source_language,target_language',
+      }
+    );
+
+    if (error) {
+      console.error('Failed to save bilingual transcript:', error);
+    }
+  } catch (error: any) {
+    console.error('Save bilingual transcript failed:', error);
+  }
+}
+
+/**
+ * Main serve function
+ */
+serve(async req => {
+  // Generate a request ID for tracking
+  const requestId = crypto.randomUUID();
+
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return createCorsResponse();
+  }
+
+  // Only allow POST requests
+  if (req.method !== 'POST') {
+    return createCorsErrorResponse('Only POST method is allowed', 405, requestId, {
+      code: 'METHOD_NOT_ALLOWED',
+      allowedMethods: ['POST'],
+    });
+  }
+
+  try {
+    // Parse request body
+    let requestData: BilingualTranscriptRequest;
+    try {
+      requestData = await req.json();
+    } catch (error: any) {
+      throw createAppError(
+        ErrorType.VALIDATION_ERROR,
+        'Invalid JSON in request body',
+        { code: 'INVALID_REQUEST' },
+        requestId
+      );
+    }
+
+    // Validate request
+    const validation = validateRequestBody<BilingualTranscriptRequest>(
+      requestData,
+      bilingualRequestSchema
+    );
+    if (!validation.isValid) {
+      throw createAppError(
+        ErrorType.VALIDATION_ERROR,
+        'Invalid request parameters',
+        {
+          code: 'VALIDATION_ERROR',
+          details: validation.errors,
+        },
+        requestId
+      );
+    }
+
+    const { videoId, targetLanguage } = requestData;
+    const sourceLanguage = requestData.sourceLanguage || 'en';
+
+    if (sourceLanguage === targetLanguage) {
+      throw createAppError(
+        ErrorType.VALIDATION_ERROR,
+        'Source and target languages must differ',
+        { code: 'VALIDATION_ERROR' },
+        requestId
+      );
+    }
+
+    // Initialize Supabase client
+    const supabaseUrl = denoEnv.get('SUPABASE_URL');
+    const supabaseServiceKey = denoEnv.get('SUPABASE_SERVICE_ROLE_KEY');
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      throw new Error('Supabase configuration missing');
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const videoRecordId = await getVideoRecordId(supabase, videoId);
+
+    // Check cache first
+    if (videoRecordId && !requestData.forceRefresh) {
+      const cached = await getCachedBilingualTranscript(
+        supabase,
+        videoRecordId,
+        sourceLanguage,
+        targetLanguage
+      );
+
+      if (cached) {
+        return createCorsSuccessResponse(
+          {
+            success: true,
+            data: {
+              videoId,
+              sourceLanguage: cached.source_language,
+              sourceLanguageName: cached.source_language_name,
+              targetLanguage: cached.target_language,
+              segments: cached.segments,
+              segmentCount: cached.segment_count,
+              translationProvider: cached.translation_provider,
+              cached: true,
+              processedAt: cached.updated_at,
+            },
+          } as BilingualTranscriptResponse,
+          200,
+          requestId
+        );
+      }
+    }
+
+    // Configure translation provider
+    let translator: TranslationClient;
+    try {
+      translator = new TranslationClient();
+    } catch (error: any) {
+      console.error('Translation provider unavailable:', error);
+      return createCorsErrorResponse('Translation service is not configured', 503, requestId, {
+        code: 'TRANSLATION_NOT_CONFIGURED',
+      });
+    }
+
+    // Extract and translate
+    const builder = new BilingualTranscriptBuilder(transcriptExtractor, translator);
+    const result = await builder.build(videoId, targetLanguage, sourceLanguage);
+
+    // Keyed by the requested source language; the row also records the one
+    // actually used, which differs when the extractor falls back to another track
+    if (videoRecordId) {
+      await saveBilingualTranscript(supabase, videoRecordId, sourceLanguage, result);
+    }
+
+    return createCorsSuccessResponse(
+      {
+        success: true,
+        data: {
+          videoId,
+          sourceLanguage: result.sourceLanguage.code,
+          sourceLanguageName: result.sourceLanguage.name,
+          targetLanguage: result.targetLanguage,
+          segments: result.segments,
+          segmentCount: result.segments.length,
+          translationProvider: result.provider,
+          cached: false,
+          processedAt: new Date().toISOString(),
+        },
+      } as BilingualTranscriptResponse,
+      200,
+      requestId
+    );
+  } catch (error: any) {
+    console.error('Request failed:', error);
+
+    // If it's already an AppError, return it directly
+    if (error instanceof AppError) {
+      return error.toHttpResponse();
+    }
+
+    // Map specific error messages to appropriate error types
+    if (error instanceof Error) {
+      if (error.message.includes('No transcripts available')) {
+        return createCorsErrorResponse('No transcripts available for this video', 404, requestId, {
+          code: 'NO_TRANSCRIPTS',
+        });
+      }
+
+      if (error.message.includes('Unsupported')) {
+        return createCorsErrorResponse(error.message, 400, requestId, {
+          code: 'UNSUPPORTED_LANGUAGE',
+        });
+      }
+
+      if (error.message.includes('Failed to extract transcript')) {
+        return createCorsErrorResponse('Failed to fetch transcript from YouTube', 502, requestId, {
+          code: 'TRANSCRIPT_FETCH_FAILED',
+        });
+      }
+    }
+
+    // For any other unknown errors
+    const appError = handleUnknownError(error, requestId);
+    return appError.toHttpResponse();
+  }
+});
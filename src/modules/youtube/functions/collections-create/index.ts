@@ -0,0 +1,235 @@
+// Create a video collection
+
+import { corsHeaders } from '@/cors';
+import { denoEnv } from '@/shared-deno-env';
+import { createClient } from '@supabase/supabase-js';
+import { serve } from 'std/http/server.ts';
+import type { CreateCollectionRequest, VideoCollection } from '../../types/youtube.ts';
+import {
+  COLLECTION_COLUMNS,
+  loadCollections,
+  resolveVideoRecordIds,
+  setCollectionVideos,
+} from '../../utils/collection-store.ts';
+import { validateCollectionFields } from '../../utils/collections.ts';
+
+/**
+ * Response interface
+ */
+interface CollectionResponse {
+  success: boolean;
+  data?: VideoCollection;
+  error?: {
+    code: string;
+    message: string;
+    details?: any;
+  };
+}
+
+/**
+ * Security headers
+ */
+const securityHeaders = {
+  'Content-Type': 'application/json',
+  'X-Content-Type-Options': 'nosniff',
+  'X-Frame-Options': 'DENY',
+  'X-XSS-Protection': '1; mode=block',
+  'Strict-Transport-Security': 'max-age=63072000; includeSubDomains; preload',
+  'Cache-Control': 'no-cache, no-store, must-revalidate',
+};
+
+/**
+ * Create a JSON response
+ */
+function jsonResponse(body: CollectionResponse, status: number): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...securityHeaders, ...corsHeaders },
+  });
+}
+
+/**
+ * Extract user from JWT token
+ */
+async function extractUserFromRequest(request: Request): Promise<string | null> {
+  try {
+    const authHeader = request.headers.get('Authorization');
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return null;
+    }
+
+    const token = authHeader.substring(7);
+
+    const supabase = createClient(
+      denoEnv.get('SUPABASE_URL') || '',
+      denoEnv.get('SUPABASE_ANON_KEY') || ''
+    );
+
+    const {
+      data: { user },
+      error,
+    } = await supabase.auth.getUser(token);
+    if (error || !user) {
+      return null;
+    }
+
+    return user.id;
+  } catch (error: any) {
+    console.error('Error extracting user from request:', error);
+    return null;
+  }
+}
+
+/**
+ * Main serve function
+ */
+serve(async req => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 200,
+      headers: {
+        ...securityHeaders,
+        ...corsHeaders,
+      },
+    });
+  }
+
+  // Only allow POST requests
+  if (req.method !== 'POST') {
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: {
+          code: 'METHOD_NOT_ALLOWED',
+          message: 'Only POST method is allowed',
+        },
+      }),
+      {
+        status: 405,
+        headers: {
+          ...securityHeaders,
+          ...corsHeaders,
+          Allow: 'POST, OPTIONS',
+        },
+      }
+    );
+  }
+
+  try {
+    // Extract user ID from JWT
+    const userId = await extractUserFromRequest(req);
+    if (!userId) {
+      return jsonResponse(
+        {
+          success: false,
+          error: {
+            code: 'AUTHENTICATION_ERROR',
+            message: 'Authentication required',
+          },
+        },
+        401
+      );
+    }
+
+    // Parse request body
+    let requestData: CreateCollectionRequest;
+    try {
+      requestData = await req.json();
+    } catch (error: any) {
+      return jsonResponse(
+        {
+          success: false,
+          error: {
+            code: 'INVALID_REQUEST',
+            message: 'Invalid JSON in request body',
+          },
+        },
+        400
+      );
+    }
+
+    // Validate request
+    const errors = validateCollectionFields(requestData);
+    if (errors.length > 0) {
+      return jsonResponse(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid request parameters',
+            details: errors,
+          },
+        },
+        400
+      );
+    }
+
+    // Initialize Supabase client
+    const supabaseUrl = denoEnv.get('SUPABASE_URL');
+    const supabaseServiceKey = denoEnv.get('SUPABASE_SERVICE_ROLE_KEY');
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      throw new Error('Supabase configuration missing');
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Videos must have been analyzed before they can be collected
+    const { recordIds, missing } = await resolveVideoRecordIds(
+      supabase,
+      requestData.videoIds || []
+    );
+    if (missing.length > 0) {
+      return jsonResponse(
+        {
+          success: false,
+          error: {
+            code: 'VIDEO_NOT_FOUND',
+            message: 'Some videos have not been analyzed yet',
+            details: { videoIds: missing },
+          },
+        },
+        404
+      );
+    }
+
+    const { data: collection, error: insertError } = await supabase
+      .from('video_collections')
+      .insert({
+        user_id: userId,
+        name: requestData.name.trim(),
+        description: requestData.description || null,
+        is_shared: requestData.isShared ?? false,
+      })
+      .select(COLLECTION_COLUMNS)
+      .single();
+
+    if (insertError) {
+      console.error('Failed to create collection:', insertError);
+      throw insertError;
+    }
+
+    if (recordIds.length > 0) {
+      await setCollectionVideos(supabase, collection.id, recordIds);
+    }
+
+    const [created] = await loadCollections(supabase, [collection], userId, true);
+
+    return jsonResponse({ success: true, data: created }, 201);
+  } catch (error: any) {
+    console.error('Request failed:', error);
+
+    return jsonResponse(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'An unexpected error occurred',
+          details: error instanceof Error ? error.message : undefined,
+        },
+      },
+      500
+    );
+  }
+});
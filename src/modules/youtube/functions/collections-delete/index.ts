@@ -0,0 +1,218 @@
+// Delete a video collection
+
+import { corsHeaders } from '@/cors';
+import { denoEnv } from '@/shared-deno-env';
+import { createClient } from '@supabase/supabase-js';
+import { serve } from 'std/http/server.ts';
+
+/**
+ * Response interface
+ */
+interface CollectionResponse {
+  success: boolean;
+  data?: {
+    message: string;
+    collectionId: string;
+  };
+  error?: {
+    code: string;
+    message: string;
+    details?: any;
+  };
+}
+
+/**
+ * Security headers
+ */
+const securityHeaders = {
+  'Content-Type': 'application/json',
+  'X-Content-Type-Options': 'nosniff',
+  'X-Frame-Options': 'DENY',
+  'X-XSS-Protection': '1; mode=block',
+  'Strict-Transport-Security': 'max-age=63072000; includeSubDomains; preload',
+  'Cache-Control': 'no-cache, no-store, must-revalidate',
+};
+
+/**
+ * Create a JSON response
+ */
+function jsonResponse(body: CollectionResponse, status: number): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...securityHeaders, ...corsHeaders },
+  });
+}
+
+/**
+ * Extract user from JWT token
+ */
+async function extractUserFromRequest(request: Request): Promise<string | null> {
+  try {
+    const authHeader = request.headers.get('Authorization');
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return null;
+    }
+
+    const token = authHeader.substring(7);
+
+    const supabase = createClient(
+      denoEnv.get('SUPABASE_URL') || '',
+      denoEnv.get('SUPABASE_ANON_KEY') || ''
+    );
+
+    const {
+      data: { user },
+      error,
+    } = await supabase.auth.getUser(token);
+    if (error || !user) {
+      return null;
+    }
+
+    return user.id;
+  } catch (error: any) {
+    console.error('Error extracting user from request:', error);
+    return null;
+  }
+}
+
+/**
+ * Extract collection ID from URL path
+ */
+function extractCollectionIdFromPath(url: string): string | null {
+  // Expected format: /v1/youtube/collections/{collectionId}
+  const pathMatch = new URL(url).pathname.match(
+    /\/collections\/([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})$/i
+  );
+  return pathMatch ? pathMatch[1] : null;
+}
+
+/**
+ * Main serve function
+ */
+serve(async req => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 200,
+      headers: {
+        ...securityHeaders,
+        ...corsHeaders,
+      },
+    });
+  }
+
+  // Only allow DELETE requests
+  if (req.method !== 'DELETE') {
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: {
+          code: 'METHOD_NOT_ALLOWED',
+          message: 'Only DELETE method is allowed',
+        },
+      }),
+      {
+        status: 405,
+        headers: {
+          ...securityHeaders,
+          ...corsHeaders,
+          Allow: 'DELETE, OPTIONS',
+        },
+      }
+    );
+  }
+
+  try {
+    // Extract user ID from JWT
+    const userId = await extractUserFromRequest(req);
+    if (!userId) {
+      return jsonResponse(
+        {
+          success: false,
+          error: {
+            code: 'AUTHENTICATION_ERROR',
+            message: 'Authentication required',
+          },
+        },
+        401
+      );
+    }
+
+    // Extract collection ID from path
+    const collectionId = extractCollectionIdFromPath(req.url);
+    if (!collectionId) {
+      return jsonResponse(
+        {
+          success: false,
+          error: {
+            code: 'INVALID_PATH',
+            message: 'Invalid collection ID in path',
+          },
+        },
+        400
+      );
+    }
+
+    // Initialize Supabase client
+    const supabaseUrl = denoEnv.get('SUPABASE_URL');
+    const supabaseServiceKey = denoEnv.get('SUPABASE_SERVICE_ROLE_KEY');
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      throw new Error('Supabase configuration missing');
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Items are removed by the foreign key cascade
+    const { data: deleted, error } = await supabase
+      .from('video_collections')
+      .delete()
+      .eq('id', collectionId)
+      .eq('user_id', userId)
+      .select('id');
+
+    if (error) {
+      console.error('Failed to delete collection:', error);
+      throw error;
+    }
+
+    if (!deleted || deleted.length === 0) {
+      return jsonResponse(
+        {
+          success: false,
+          error: {
+            code: 'COLLECTION_NOT_FOUND',
+            message: 'Collection not found',
+            details: { collectionId },
+          },
+        },
+        404
+      );
+    }
+
+    return jsonResponse(
+      {
+        success: true,
+        data: {
+          message: 'Collection deleted successfully',
+          collectionId,
+        },
+      },
+      200
+    );
+  } catch (error: any) {
+    console.error('Request failed:', error);
+
+    return jsonResponse(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'An unexpected error occurred',
+          details: error instanceof Error ? error.message : undefined,
+        },
+      },
+      500
+    );
+  }
+});
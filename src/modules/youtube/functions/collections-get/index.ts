@@ -0,0 +1,213 @@
+// Get a video collection with its videos and the viewer's progress
+
+import { corsHeaders } from '@/cors';
+import { denoEnv } from '@/shared-deno-env';
+import { createClient } from '@supabase/supabase-js';
+import { serve } from 'std/http/server.ts';
+import type { VideoCollection } from '../../types/youtube.ts';
+import { COLLECTION_COLUMNS, loadCollections } from '../../utils/collection-store.ts';
+
+/**
+ * Response interface
+ */
+interface CollectionResponse {
+  success: boolean;
+  data?: VideoCollection;
+  error?: {
+    code: string;
+    message: string;
+    details?: any;
+  };
+}
+
+/**
+ * Security headers
+ */
+const securityHeaders = {
+  'Content-Type': 'application/json',
+  'X-Content-Type-Options': 'nosniff',
+  'X-Frame-Options': 'DENY',
+  'X-XSS-Protection': '1; mode=block',
+  'Strict-Transport-Security': 'max-age=63072000; includeSubDomains; preload',
+  'Cache-Control': 'no-cache, no-store, must-revalidate',
+};
+
+/**
+ * Create a JSON response
+ */
+function jsonResponse(body: CollectionResponse, status: number): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...securityHeaders, ...corsHeaders },
+  });
+}
+
+/**
+ * Extract user from JWT token
+ */
+async function extractUserFromRequest(request: Request): Promise<string | null> {
+  try {
+    const authHeader = request.headers.get('Authorization');
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return null;
+    }
+
+    const token = authHeader.substring(7);
+
+    const supabase = createClient(
+      denoEnv.get('SUPABASE_URL') || '',
+      denoEnv.get('SUPABASE_ANON_KEY') || ''
+    );
+
+    const {
+      data: { user },
+      error,
+    } = await supabase.auth.getUser(token);
+    if (error || !user) {
+      return null;
+    }
+
+    return user.id;
+  } catch (error: any) {
+    console.error('Error extracting user from request:', error);
+    return null;
+  }
+}
+
+/**
+ * Extract the collection ID or share token from URL path
+ */
+function parseCollectionPath(url: string): { collectionId?: string; shareToken?: string } | null {
+  // Expected formats: /v1/youtube/collections/{collectionId}
+  // and /v1/youtube/collections/shared/{shareToken}
+  const path = new URL(url).pathname;
+  const shared = path.match(/\/collections\/shared\/([0-9a-f]{32})$/i);
+  if (shared) return { shareToken: shared[1] };
+
+  const owned = path.match(
+    /\/collections\/([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})$/i
+  );
+  return owned ? { collectionId: owned[1] } : null;
+}
+
+/**
+ * Main serve function
+ */
+serve(async req => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 200,
+      headers: {
+        ...securityHeaders,
+        ...corsHeaders,
+      },
+    });
+  }
+
+  // Only allow GET requests
+  if (req.method !== 'GET') {
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: {
+          code: 'METHOD_NOT_ALLOWED',
+          message: 'Only GET method is allowed',
+        },
+      }),
+      {
+        status: 405,
+        headers: {
+          ...securityHeaders,
+          ...corsHeaders,
+          Allow: 'GET, OPTIONS',
+        },
+      }
+    );
+  }
+
+  try {
+    // Extract user ID from JWT
+    const userId = await extractUserFromRequest(req);
+    if (!userId) {
+      return jsonResponse(
+        {
+          success: false,
+          error: {
+            code: 'AUTHENTICATION_ERROR',
+            message: 'Authentication required',
+          },
+        },
+        401
+      );
+    }
+
+    // Extract collection ID or share token from path
+    const target = parseCollectionPath(req.url);
+    if (!target) {
+      return jsonResponse(
+        {
+          success: false,
+          error: {
+            code: 'INVALID_PATH',
+            message: 'Invalid collection ID or share token in path',
+          },
+        },
+        400
+      );
+    }
+
+    // Initialize Supabase client
+    const supabaseUrl = denoEnv.get('SUPABASE_URL');
+    const supabaseServiceKey = denoEnv.get('SUPABASE_SERVICE_ROLE_KEY');
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      throw new Error('Supabase configuration missing');
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Owners see their collections; anyone signed in can open a shared link
+    let query = supabase.from('video_collections').select(COLLECTION_COLUMNS);
+    query = target.shareToken
+      ? query.eq('share_token', target.shareToken).eq('is_shared', true)
+      : query.eq('id', target.collectionId).eq('user_id', userId);
+
+    const { data: collection, error } = await query.maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    if (!collection) {
+      return jsonResponse(
+        {
+          success: false,
+          error: {
+            code: 'COLLECTION_NOT_FOUND',
+            message: 'Collection not found',
+          },
+        },
+        404
+      );
+    }
+
+    const [result] = await loadCollections(supabase, [collection], userId, true);
+
+    return jsonResponse({ success: true, data: result }, 200);
+  } catch (error: any) {
+    console.error('Request failed:', error);
+
+    return jsonResponse(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'An unexpected error occurred',
+          details: error instanceof Error ? error.message : undefined,
+        },
+      },
+      500
+    );
+  }
+});
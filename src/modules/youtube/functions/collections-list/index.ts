@@ -0,0 +1,196 @@
+// List the user's video collections
+
+import { corsHeaders } from '@/cors';
+import { denoEnv } from '@/shared-deno-env';
+import { createClient } from '@supabase/supabase-js';
+import { serve } from 'std/http/server.ts';
+import type { VideoCollection } from '../../types/youtube.ts';
+import { COLLECTION_COLUMNS, loadCollections } from '../../utils/collection-store.ts';
+
+/**
+ * Response interface
+ */
+interface CollectionResponse {
+  success: boolean;
+  data?: {
+    collections: VideoCollection[];
+    total: number;
+    hasMore: boolean;
+  };
+  error?: {
+    code: string;
+    message: string;
+    details?: any;
+  };
+}
+
+/**
+ * Security headers
+ */
+const securityHeaders = {
+  'Content-Type': 'application/json',
+  'X-Content-Type-Options': 'nosniff',
+  'X-Frame-Options': 'DENY',
+  'X-XSS-Protection': '1; mode=block',
+  'Strict-Transport-Security': 'max-age=63072000; includeSubDomains; preload',
+  'Cache-Control': 'no-cache, no-store, must-revalidate',
+};
+
+/**
+ * Create a JSON response
+ */
+function jsonResponse(body: CollectionResponse, status: number): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...securityHeaders, ...corsHeaders },
+  });
+}
+
+/**
+ * Extract user from JWT token
+ */
+async function extractUserFromRequest(request: Request): Promise<string | null> {
+  try {
+    const authHeader = request.headers.get('Authorization');
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return null;
+    }
+
+    const token = authHeader.substring(7);
+
+    const supabase = createClient(
+      denoEnv.get('SUPABASE_URL') || '',
+      denoEnv.get('SUPABASE_ANON_KEY') || ''
+    );
+
+    const {
+      data: { user },
+      error,
+    } = await supabase.auth.getUser(token);
+    if (error || !user) {
+      return null;
+    }
+
+    return user.id;
+  } catch (error: any) {
+    console.error('Error extracting user from request:', error);
+    return null;
+  }
+}
+
+/**
+ * Main serve function
+ */
+serve(async req => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 200,
+      headers: {
+        ...securityHeaders,
+        ...corsHeaders,
+      },
+    });
+  }
+
+  // Only allow GET requests
+  if (req.method !== 'GET') {
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: {
+          code: 'METHOD_NOT_ALLOWED',
+          message: 'Only GET method is allowed',
+        },
+      }),
+      {
+        status: 405,
+        headers: {
+          ...securityHeaders,
+          ...corsHeaders,
+          Allow: 'GET, OPTIONS',
+        },
+      }
+    );
+  }
+
+  try {
+    // Extract user ID from JWT
+    const userId = await extractUserFromRequest(req);
+    if (!userId) {
+      return jsonResponse(
+        {
+          success: false,
+          error: {
+            code: 'AUTHENTICATION_ERROR',
+            message: 'Authentication required',
+          },
+        },
+        401
+      );
+    }
+
+    // Parse limit (default 20, max 100) and offset (default 0)
+    const url = new URL(req.url);
+    const limit = Math.min(
+      Math.max(1, parseInt(url.searchParams.get('limit') || '', 10) || 20),
+      100
+    );
+    const offset = Math.max(0, parseInt(url.searchParams.get('offset') || '', 10) || 0);
+
+    // Initialize Supabase client
+    const supabaseUrl = denoEnv.get('SUPABASE_URL');
+    const supabaseServiceKey = denoEnv.get('SUPABASE_SERVICE_ROLE_KEY');
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      throw new Error('Supabase configuration missing');
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const {
+      data: rows,
+      error,
+      count,
+    } = await supabase
+      .from('video_collections')
+      .select(COLLECTION_COLUMNS, { count: 'exact' })
+      .eq('user_id', userId)
+      .order('updated_at', { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (error) {
+      console.error('Failed to list collections:', error);
+      throw error;
+    }
+
+    const collections = await loadCollections(supabase, rows || [], userId);
+    const total = count || 0;
+
+    return jsonResponse(
+      {
+        success: true,
+        data: {
+          collections,
+          total,
+          hasMore: offset + limit < total,
+        },
+      },
+      200
+    );
+  } catch (error: any) {
+    console.error('Request failed:', error);
+
+    return jsonResponse(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'An unexpected error occurred',
+          details: error instanceof Error ? error.message : undefined,
+        },
+      },
+      500
+    );
+  }
+});
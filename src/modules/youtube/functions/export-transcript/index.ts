@@ -0,0 +1,222 @@
+// Export a stored transcript as a subtitle file (SRT, WebVTT, TTML or plain text)
+
+import { createCorsErrorResponse, createCorsResponse, secureCorsHeaders } from '@/cors';
+import { denoEnv } from '@/shared-deno-env';
+import { AppError, createAppError, ErrorType, handleUnknownError } from '@/shared-errors';
+import { createClient } from '@supabase/supabase-js';
+import { serve } from 'std/http/server.ts';
+import type { ExportTranscriptParams, TranscriptSegment } from '../../types/youtube.ts';
+import {
+  isSubtitleFormat,
+  renderSubtitles,
+  SUBTITLE_FORMATS,
+} from '../../utils/subtitle-formats.ts';
+import { transcriptUtils } from '../../utils/youtube-transcript.ts';
+
+/**
+ * Limits for formatting options
+ */
+const MAX_LINE_LENGTH_LIMIT = 200;
+const MAX_MERGE_GAP_SECONDS = 10;
+
+/**
+ * Merged cues stay within common subtitle limits: 7 seconds and two
+ * 42-character lines
+ */
+const MAX_MERGED_CUE_SECONDS = 7;
+const MAX_MERGED_CUE_CHARACTERS = 84;
+
+/**
+ * Parse and validate query parameters
+ */
+function parseQueryParams(url: URL): { params?: ExportTranscriptParams; errors: string[] } {
+  const errors: string[] = [];
+
+  const videoId = url.searchParams.get('videoId') || '';
+  if (!/^[a-zA-Z0-9_-]{11}$/.test(videoId)) {
+    errors.push('videoId must be a valid YouTube video ID');
+  }
+
+  const language = url.searchParams.get('language') || undefined;
+  if (language && !/^[a-z]{2}(-[A-Z]{2})?$/.test(language)) {
+    errors.push('language must be a valid ISO 639-1 code (e.g., en, vi)');
+  }
+
+  const format = (url.searchParams.get('format') || 'srt').toLowerCase();
+  if (!isSubtitleFormat(format)) {
+    errors.push(`format must be one of: ${Object.keys(SUBTITLE_FORMATS).join(', ')}`);
+  }
+
+  const merge = url.searchParams.get('merge') === 'true';
+
+  let maxGap: number | undefined;
+  const maxGapStr = url.searchParams.get('maxGap');
+  if (maxGapStr !== null) {
+    maxGap = Number(maxGapStr);
+    if (!Number.isFinite(maxGap) || maxGap < 0 || maxGap > MAX_MERGE_GAP_SECONDS) {
+      errors.push(`maxGap must be a number between 0 and ${MAX_MERGE_GAP_SECONDS}`);
+    }
+  }
+
+  let maxLineLength: number | undefined;
+  const maxLineLengthStr = url.searchParams.get('maxLineLength');
+  if (maxLineLengthStr !== null) {
+    maxLineLength = parseInt(maxLineLengthStr, 10);
+    if (
+      !Number.isInteger(maxLineLength) ||
+      maxLineLength < 10 ||
+      maxLineLength > MAX_LINE_LENGTH_LIMIT
+    ) {
+      errors.push(`maxLineLength must be an integer between 10 and ${MAX_LINE_LENGTH_LIMIT}`);
+    }
+  }
+
+  if (errors.length > 0) {
+    return { errors };
+  }
+
+  return {
+    params: {
+      videoId,
+      language,
+      format: format as ExportTranscriptParams['format'],
+      merge,
+      maxGap,
+      maxLineLength,
+    },
+    errors,
+  };
+}
+
+/**
+ * Load a stored transcript for the video, optionally in a specific language
+ */
+async function getStoredTranscript(
+  supabase: any,
+  videoId: string,
+  language?: string
+): Promise<{ language_code: string; segments: TranscriptSegment[] } | null> {
+  const { data: video, error: videoError } = await supabase
+    .from('youtube_videos')
+    .select('id')
+    .eq('video_id', videoId)
+    .single();
+
+  if (videoError || !video) {
+    return null;
+  }
+
+  let query = supabase
+    .from('video_transcripts')
+    .select('language_code, segments')
+    .eq('video_id', video.id);
+
+  if (language) {
+    query = query.eq('language_code', language);
+  }
+
+  const { data: transcripts, error } = await query
+    .order('created_at', { ascending: true })
+    .limit(1);
+
+  if (error) {
+    throw error;
+  }
+
+  return transcripts?.[0] || null;
+}
+
+/**
+ * Main serve function
+ */
+serve(async req => {
+  // Generate a request ID for tracking
+  const requestId = crypto.randomUUID();
+
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return createCorsResponse();
+  }
+
+  // Only allow GET requests
+  if (req.method !== 'GET') {
+    return createCorsErrorResponse('Only GET method is allowed', 405, requestId, {
+      code: 'METHOD_NOT_ALLOWED',
+      allowedMethods: ['GET'],
+    });
+  }
+
+  try {
+    // Parse query parameters
+    const { params, errors } = parseQueryParams(new URL(req.url));
+    if (!params) {
+      throw createAppError(
+        ErrorType.VALIDATION_ERROR,
+        'Invalid request parameters',
+        {
+          code: 'VALIDATION_ERROR',
+          details: errors,
+        },
+        requestId
+      );
+    }
+
+    // Initialize Supabase client
+    const supabaseUrl = denoEnv.get('SUPABASE_URL');
+    const supabaseServiceKey = denoEnv.get('SUPABASE_SERVICE_ROLE_KEY');
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      throw new Error('Supabase configuration missing');
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const transcript = await getStoredTranscript(supabase, params.videoId, params.language);
+    if (!transcript) {
+      return createCorsErrorResponse(
+        'No stored transcript found for this video. Extract the transcript first.',
+        404,
+        requestId,
+        { code: 'TRANSCRIPT_NOT_FOUND' }
+      );
+    }
+
+    // Apply formatting options
+    const segments = params.merge
+      ? transcriptUtils.mergeSegments(transcript.segments, params.maxGap, {
+          maxDuration: MAX_MERGED_CUE_SECONDS,
+          maxCharacters: MAX_MERGED_CUE_CHARACTERS,
+        })
+      : transcript.segments;
+
+    const body = renderSubtitles(segments, params.format, {
+      maxLineLength: params.maxLineLength,
+      language: transcript.language_code,
+    });
+
+    const { contentType, extension } = SUBTITLE_FORMATS[params.format];
+    const filename = `${params.videoId}.${transcript.language_code}.${extension}`;
+
+    return new Response(body, {
+      status: 200,
+      headers: {
+        ...secureCorsHeaders,
+        'Content-Type': contentType,
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'X-Content-Type-Options': 'nosniff',
+        'X-Request-ID': requestId,
+      },
+    });
+  } catch (error: any) {
+    console.error('Request failed:', error);
+
+    // If it's already an AppError, return it directly
+    if (error instanceof AppError) {
+      return error.toHttpResponse();
+    }
+
+    // For any other unknown errors
+    const appError = handleUnknownError(error, requestId);
+    return appError.toHttpResponse();
+  }
+});
@@ -7,11 +7,13 @@ import { serve } from 'std/http/server.ts';
  * Request interface
  */
 interface ExtractTranscriptRequest {
-  videoId: string;
+  videoId: string; // Video ID or any YouTube video URL
   language?: string; // ISO 639-1 code
   options?: {
     preferAutoGenerated?: boolean;
     includeTimestamps?: boolean;
+    normalize?: boolean; // Dedupe rolling captions and merge fragments into sentences
+    restorePunctuation?: boolean; // Restore punctuation via the AI provider (implies normalize)
   };
 }
 
@@ -29,10 +31,15 @@ interface ExtractTranscriptResponse {
       start: number;
       duration: number;
       text: string;
+      words?: Array<{ text: string; start: number; end: number }>;
     }>;
     totalDuration: number;
     segmentCount: number;
     characterCount: number;
+    source: 'captions' | 'asr';
+    captionFormat?: 'json3' | 'srv3' | 'srv1';
+    normalized?: boolean;
+    punctuationRestored?: boolean;
     processedAt: string;
   };
   error?: {
@@ -62,16 +69,38 @@ interface CaptionTrack {
  * Import validation utilities
  */
 import { validateRequestBody, ValidationSchema } from '@/shared-validation';
+import { openAIClient } from '../../../ai-processing/utils/openai-client.ts';
+import type {
+  TranscriptNotYetAvailableResponse,
+  TranscriptSegment,
+  VideoLiveState,
+} from '../../types/youtube.ts';
+import { createASRTranscriptSource } from '../../utils/asr-transcript-source.ts';
+import { fetchCaptionsWithFallback } from '../../utils/caption-parsers.ts';
+import { isAwaitingBroadcast, retryAfterSeconds } from '../../utils/live-state.ts';
+import { normalizeTranscript, PunctuationRestorer } from '../../utils/transcript-normalizer.ts';
+import {
+  parseTranscriptSourceOrder,
+  SourcedTranscript,
+  TranscriptSource,
+  TranscriptSourceChain,
+} from '../../utils/transcript-sources.ts';
+import {
+  enqueueTranscriptJobs,
+  saveTranscriptRecord,
+  toTranscriptRecordInput,
+} from '../../utils/transcript-store.ts';
+import { parseYouTubeUrl } from '../../utils/youtube-url.ts';
 
 /**
- * Validate YouTube video ID
+ * Validate YouTube video ID or video URL
  */
 function validateVideoId(value: unknown): { isValid: boolean; errors: string[] } {
   if (typeof value !== 'string') {
     return { isValid: false, errors: ['Must be a string'] };
   }
 
-  if (!/^[a-zA-Z0-9_-]{11}$/.test(value)) {
+  if (!parseYouTubeUrl(value)?.videoId) {
     return { isValid: false, errors: ['Invalid YouTube video ID format'] };
   }
 
@@ -96,6 +125,27 @@ function validateLanguageCode(value: unknown): { isValid: boolean; errors: strin
   return { isValid: true, errors: [] };
 }
 
+/**
+ * Validate extraction options
+ */
+function validateOptions(value: unknown): { isValid: boolean; errors: string[] } {
+  const errors: string[] = [];
+  const options = value as Record<string, unknown>;
+
+  for (const key of [
+    'preferAutoGenerated',
+    'includeTimestamps',
+    'normalize',
+    'restorePunctuation',
+  ]) {
+    if (options[key] !== undefined && typeof options[key] !== 'boolean') {
+      errors.push(`${key} must be a boolean`);
+    }
+  }
+
+  return { isValid: errors.length === 0, errors };
+}
+
 /**
  * Request validation schema
  */
@@ -113,6 +163,7 @@ const transcriptRequestSchema: ValidationSchema<ExtractTranscriptRequest> = {
   options: {
     required: false,
     type: 'object',
+    validate: validateOptions,
   },
 };
 
@@ -175,6 +226,33 @@ async function getCachedTranscript(
   }
 }
 
+/**
+ * Stored video record if the video is an upcoming premiere or a running
+ * livestream, which have no captions until the broadcast ends
+ */
+async function getPendingBroadcast(
+  supabase: any,
+  videoId: string
+): Promise<{
+  id: string;
+  live_state: VideoLiveState;
+  scheduled_start_at: string | null;
+  next_live_check_at: string | null;
+} | null> {
+  const { data: video, error } = await supabase
+    .from('youtube_videos')
+    .select('id, live_state, scheduled_start_at, next_live_check_at')
+    .eq('video_id', videoId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Live state lookup failed:', error);
+    return null;
+  }
+
+  return video && isAwaitingBroadcast(video.live_state) ? video : null;
+}
+
 /**
  * Save transcript to database
  */
@@ -192,38 +270,50 @@ async function saveTranscript(supabase: any, videoId: string, transcript: any):
       return;
     }
 
-    // Calculate metadata
-    const characterCount = transcript.segments.reduce(
-      (sum: number, seg: any) => sum + seg.text.length,
-      0
-    );
-
-    // Save transcript
-    const { error } = await supabase.from('video_transcripts').upsert(
-      {
-        video_id: video.id,
-        language_code: transcript.language,
-        language_name: transcript.languageName,
-        is_auto_generated: transcript.isAutoGenerated,
-        is_translatable: true,
-        segments: transcript.segments,
-        total_duration_seconds: Math.ceil(transcript.totalDuration),
-        segment_count: transcript.segments.length,
-        character_count: characterCount,
-      },
-      {
-        onConflict: 'video_id,language_code',
-      }
-    );
-
-    if (error) {
-      console.error('Failed to save transcript:', error);
-    }
+    await saveTranscriptRecord(supabase, video.id, transcript);
   } catch (error: any) {
     console.error('Save transcript failed:', error);
   }
 }
 
+/**
+ * Count transcript characters
+ */
+function countCharacters(segments: TranscriptSegment[]): number {
+  return segments.reduce((sum, seg) => sum + seg.text.length, 0);
+}
+
+/**
+ * Normalize segments into sentences. Punctuation is only restored for
+ * auto-generated captions, which carry none; if the AI provider fails the
+ * transcript is still normalized without it.
+ */
+async function normalizeSegments(
+  segments: TranscriptSegment[],
+  options: ExtractTranscriptRequest['options'],
+  language: string,
+  isAutoGenerated: boolean
+): Promise<{ segments: TranscriptSegment[]; punctuationRestored: boolean }> {
+  let punctuationRestored = isAutoGenerated && !!options?.restorePunctuation;
+
+  const restorer: PunctuationRestorer | undefined = punctuationRestored
+    ? async chunks => {
+        try {
+          const result = await openAIClient.restorePunctuation(chunks, language);
+          return result.chunks;
+        } catch (error: any) {
+          console.error('Punctuation restoration failed:', error);
+          punctuationRestored = false;
+          return chunks;
+        }
+      }
+    : undefined;
+
+  const normalized = await normalizeTranscript(segments, { restorer });
+
+  return { segments: normalized, punctuationRestored };
+}
+
 /**
  * Extract available languages from YouTube page
  */
@@ -259,14 +349,17 @@ async function getAvailableLanguages(videoId: string): Promise<any[]> {
 }
 
 /**
- * Fetch transcript from YouTube
+ * Fetch captions from YouTube; null when the video has none
  */
-async function fetchTranscript(videoId: string, languageCode: string): Promise<any> {
+async function fetchTranscript(
+  videoId: string,
+  languageCode: string
+): Promise<SourcedTranscript | null> {
   // Get available languages first
   const languages = await getAvailableLanguages(videoId);
 
   if (languages.length === 0) {
-    throw new Error('No transcripts available for this video');
+    return null;
   }
 
   // Find requested language
@@ -276,59 +369,43 @@ async function fetchTranscript(videoId: string, languageCode: string): Promise<a
     selectedLanguage = languages[0];
   }
 
-  // Fetch transcript data
-  const transcriptUrl = new URL(selectedLanguage.baseUrl);
-  transcriptUrl.searchParams.set('fmt', 'json3');
-
-  const response = await fetch(transcriptUrl.toString(), {
+  // Fetch transcript data, falling back to the XML formats if json3 fails
+  const captions = await fetchCaptionsWithFallback(selectedLanguage.baseUrl, {
     headers: {
-      Accept: 'application/json',
       'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
     },
   });
 
-  if (!response.ok) {
-    throw new Error(`Failed to fetch transcript: ${response.status}`);
-  }
-
-  const data = await response.json();
-
-  // Parse segments
-  const segments: any[] = [];
-  let totalDuration = 0;
-
-  if (data.events) {
-    for (const event of data.events) {
-      if (event.segs && event.segs.length > 0) {
-        const text = event.segs.map((seg: any) => seg.utf8).join('');
-        const start = (event.tStartMs || 0) / 1000;
-        const duration = (event.dDurationMs || 0) / 1000;
-
-        if (text.trim()) {
-          segments.push({
-            start: Math.round(start * 100) / 100,
-            duration: Math.round(duration * 100) / 100,
-            text: text.trim(),
-          });
-
-          const endTime = start + duration;
-          if (endTime > totalDuration) {
-            totalDuration = endTime;
-          }
-        }
-      }
-    }
-  }
+  // Word timings are kept at millisecond precision for seek and highlighting
+  const segments = captions.cues.map(cue => ({
+    start: Math.round(cue.start * 100) / 100,
+    duration: Math.round(cue.duration * 100) / 100,
+    text: cue.text,
+    ...(cue.words && { words: cue.words }),
+  }));
 
   return {
-    language: selectedLanguage.code,
-    languageName: selectedLanguage.name,
-    isAutoGenerated: selectedLanguage.isAutoGenerated,
+    source: 'captions',
     segments,
-    totalDuration,
+    language: {
+      code: selectedLanguage.code,
+      name: selectedLanguage.name,
+      isAutoGenerated: selectedLanguage.isAutoGenerated,
+      isTranslatable: true,
+    },
+    totalDuration: captions.totalDuration,
+    format: captions.format,
   };
 }
 
+/**
+ * Caption scraping as a transcript source
+ */
+const captionsSource: TranscriptSource = {
+  name: 'captions',
+  fetchTranscript,
+};
+
 /**
  * Import additional shared utilities
  */
@@ -336,6 +413,18 @@ import { createCorsErrorResponse, createCorsResponse, createCorsSuccessResponse
 import { denoEnv } from '@/shared-deno-env';
 import { AppError, createAppError, ErrorType, handleUnknownError } from '@/shared-errors';
 
+/**
+ * Transcript sources in the configured order (TRANSCRIPT_SOURCES); speech-to-text
+ * is only used when ASR_API_URL and ASR_AUDIO_URL_TEMPLATE are set
+ */
+const transcriptSources = new TranscriptSourceChain(
+  {
+    captions: captionsSource,
+    asr: createASRTranscriptSource(key => denoEnv.get(key)),
+  },
+  parseTranscriptSourceOrder(denoEnv.get('TRANSCRIPT_SOURCES'))
+);
+
 /**
  * Main serve function
  */
@@ -384,8 +473,11 @@ serve(async req => {
       );
     }
 
-    const videoId = requestData.videoId;
+    const videoId = parseYouTubeUrl(requestData.videoId)!.videoId!;
     const language = requestData.language || 'en';
+    const shouldNormalize = !!(
+      requestData.options?.normalize || requestData.options?.restorePunctuation
+    );
 
     // Initialize Supabase client
     const supabaseUrl = denoEnv.get('SUPABASE_URL');
@@ -402,6 +494,16 @@ serve(async req => {
     if (cached) {
       console.log('Returning cached transcript');
 
+      // The cache stores raw caption segments; normalization runs per request
+      const normalized = shouldNormalize
+        ? await normalizeSegments(
+            cached.segments,
+            requestData.options,
+            cached.language_code,
+            cached.is_auto_generated
+          )
+        : null;
+
       return createCorsSuccessResponse(
         {
           success: true,
@@ -410,10 +512,18 @@ serve(async req => {
             language: cached.language_code,
             languageName: cached.language_name,
             isAutoGenerated: cached.is_auto_generated,
-            segments: cached.segments,
+            segments: normalized ? normalized.segments : cached.segments,
             totalDuration: cached.total_duration_seconds,
-            segmentCount: cached.segment_count,
-            characterCount: cached.character_count,
+            segmentCount: normalized ? normalized.segments.length : cached.segment_count,
+            characterCount: normalized
+              ? countCharacters(normalized.segments)
+              : cached.character_count,
+            source: cached.source || 'captions',
+            captionFormat: cached.caption_format || undefined,
+            ...(normalized && {
+              normalized: true,
+              punctuationRestored: normalized.punctuationRestored,
+            }),
             processedAt: cached.created_at,
           },
         } as ExtractTranscriptResponse,
@@ -422,19 +532,56 @@ serve(async req => {
       );
     }
 
-    // Fetch transcript from YouTube
-    console.log('Fetching transcript from YouTube');
-    const transcript = await fetchTranscript(videoId, language);
+    // Premieres and livestreams have no transcript yet; queue one for when the broadcast ends
+    const broadcast = await getPendingBroadcast(supabase, videoId);
+    if (broadcast) {
+      let queued = true;
+      try {
+        await enqueueTranscriptJobs(supabase, [broadcast.id], language);
+      } catch (error: any) {
+        console.error('Failed to queue transcript for broadcast:', error);
+        queued = false;
+      }
 
-    // Calculate character count
-    const characterCount = transcript.segments.reduce(
-      (sum: number, seg: any) => sum + seg.text.length,
-      0
-    );
+      const retryAfter = retryAfterSeconds(broadcast.next_live_check_at);
+      return createCorsSuccessResponse(
+        {
+          success: true,
+          data: {
+            videoId,
+            language,
+            status: 'not_yet_available',
+            liveState: broadcast.live_state,
+            ...(broadcast.scheduled_start_at && {
+              scheduledStartAt: broadcast.scheduled_start_at,
+            }),
+            retryAfterSeconds: retryAfter,
+            queued,
+          },
+        } as TranscriptNotYetAvailableResponse,
+        202,
+        requestId,
+        { 'Retry-After': String(retryAfter) }
+      );
+    }
+
+    // Fetch transcript from the first source that has one
+    console.log('Fetching transcript');
+    const transcript = toTranscriptRecordInput(await transcriptSources.extract(videoId, language));
 
     // Save to cache
     await saveTranscript(supabase, videoId, transcript);
 
+    const normalized = shouldNormalize
+      ? await normalizeSegments(
+          transcript.segments,
+          requestData.options,
+          transcript.language,
+          transcript.isAutoGenerated
+        )
+      : null;
+    const segments: TranscriptSegment[] = normalized ? normalized.segments : transcript.segments;
+
     // Return response
     return createCorsSuccessResponse(
       {
@@ -444,10 +591,16 @@ serve(async req => {
           language: transcript.language,
           languageName: transcript.languageName,
           isAutoGenerated: transcript.isAutoGenerated,
-          segments: transcript.segments,
+          segments,
           totalDuration: transcript.totalDuration,
-          segmentCount: transcript.segments.length,
-          characterCount,
+          segmentCount: segments.length,
+          characterCount: countCharacters(segments),
+          source: transcript.source,
+          captionFormat: transcript.captionFormat,
+          ...(normalized && {
+            normalized: true,
+            punctuationRestored: normalized.punctuationRestored,
+          }),
           processedAt: new Date().toISOString(),
         },
       } as ExtractTranscriptResponse,
@@ -4,12 +4,13 @@ import { corsHeaders } from '@/cors';
 import { denoEnv } from '@/shared-deno-env';
 import { createClient } from '@supabase/supabase-js';
 import { serve } from 'std/http/server.ts';
+import { parseYouTubeUrl } from '../../utils/youtube-url.ts';
 
 /**
  * Request interface
  */
 interface AddToHistoryRequest {
-  videoId: string;
+  videoId: string; // Video ID or any YouTube video URL
   progressSeconds?: number;
   playbackRate?: number;
 }
@@ -88,7 +89,7 @@ function validateRequest(data: any): { isValid: boolean; errors: string[] } {
 
   if (!data.videoId || typeof data.videoId !== 'string') {
     errors.push('videoId is required and must be a string');
-  } else if (!/^[a-zA-Z0-9_-]{11}$/.test(data.videoId)) {
+  } else if (!parseYouTubeUrl(data.videoId)?.videoId) {
     errors.push('Invalid video ID format');
   }
 
@@ -208,6 +209,13 @@ serve(async req => {
       );
     }
 
+    // Accept video URLs; a start offset in the URL counts as progress
+    const link = parseYouTubeUrl(requestData.videoId)!;
+    requestData.videoId = link.videoId!;
+    if (requestData.progressSeconds === undefined && link.startSeconds !== undefined) {
+      requestData.progressSeconds = link.startSeconds;
+    }
+
     // Initialize Supabase client
     const supabaseUrl = denoEnv.get('SUPABASE_URL');
     const supabaseServiceKey = denoEnv.get('SUPABASE_SERVICE_ROLE_KEY');
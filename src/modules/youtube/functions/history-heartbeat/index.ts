@@ -0,0 +1,387 @@
+// Player heartbeat: record watch progress and return the resume position
+
+import { corsHeaders } from '@/cors';
+import { denoEnv } from '@/shared-deno-env';
+import { createClient } from '@supabase/supabase-js';
+import { serve } from 'std/http/server.ts';
+import type { WatchHeartbeatRequest, WatchProgress, WatchRange } from '../../types/youtube.ts';
+import {
+  applyHeartbeat,
+  COMPLETION_RATIO,
+  resumePosition,
+  watchedSeconds,
+} from '../../utils/watch-ranges.ts';
+
+/**
+ * Response interface
+ */
+interface HeartbeatResponse {
+  success: boolean;
+  data?: WatchProgress;
+  error?: {
+    code: string;
+    message: string;
+    details?: any;
+  };
+}
+
+/**
+ * Security headers
+ */
+const securityHeaders = {
+  'Content-Type': 'application/json',
+  'X-Content-Type-Options': 'nosniff',
+  'X-Frame-Options': 'DENY',
+  'X-XSS-Protection': '1; mode=block',
+  'Strict-Transport-Security': 'max-age=63072000; includeSubDomains; preload',
+  'Cache-Control': 'no-cache, no-store, must-revalidate',
+};
+
+/**
+ * Create a JSON response
+ */
+function jsonResponse(body: HeartbeatResponse, status: number): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...securityHeaders, ...corsHeaders },
+  });
+}
+
+/**
+ * Extract user from JWT token
+ */
+async function extractUserFromRequest(request: Request): Promise<string | null> {
+  try {
+    const authHeader = request.headers.get('Authorization');
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return null;
+    }
+
+    const token = authHeader.substring(7);
+
+    const supabase = createClient(
+      denoEnv.get('SUPABASE_URL') || '',
+      denoEnv.get('SUPABASE_ANON_KEY') || ''
+    );
+
+    const {
+      data: { user },
+      error,
+    } = await supabase.auth.getUser(token);
+    if (error || !user) {
+      return null;
+    }
+
+    return user.id;
+  } catch (error: any) {
+    console.error('Error extracting user from request:', error);
+    return null;
+  }
+}
+
+/**
+ * Extract video ID from URL path
+ */
+function extractVideoIdFromPath(url: string): string | null {
+  // Expected format: /v1/youtube/history/{videoId}/heartbeat
+  const pathMatch = new URL(url).pathname.match(/\/history\/([a-zA-Z0-9_-]{11})\/heartbeat$/);
+  return pathMatch ? pathMatch[1] : null;
+}
+
+/**
+ * Request validation
+ */
+function validateRequest(data: any): { isValid: boolean; errors: string[] } {
+  const errors: string[] = [];
+
+  if (!data || typeof data !== 'object') {
+    errors.push('Request body must be an object');
+    return { isValid: false, errors };
+  }
+
+  if (
+    typeof data.positionSeconds !== 'number' ||
+    !Number.isFinite(data.positionSeconds) ||
+    data.positionSeconds < 0
+  ) {
+    errors.push('positionSeconds must be a non-negative number');
+  }
+
+  if (data.playing !== undefined && typeof data.playing !== 'boolean') {
+    errors.push('playing must be a boolean');
+  }
+
+  if (data.playbackRate !== undefined) {
+    if (
+      typeof data.playbackRate !== 'number' ||
+      data.playbackRate < 0.25 ||
+      data.playbackRate > 2.0
+    ) {
+      errors.push('playbackRate must be between 0.25 and 2.0');
+    }
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+  };
+}
+
+/**
+ * Build the progress payload from a history row
+ */
+function toWatchProgress(
+  videoId: string,
+  row: any,
+  durationSeconds: number | null,
+  recorded?: boolean
+): WatchProgress {
+  const position = row?.heartbeat_position_seconds ?? row?.progress_seconds ?? 0;
+  const ranges: WatchRange[] = row?.watched_ranges || [];
+
+  return {
+    videoId,
+    positionSeconds: position,
+    resumePositionSeconds: resumePosition(position, durationSeconds),
+    totalWatchSeconds: Math.round((row?.total_watch_seconds || 0) * 10) / 10,
+    watchedSeconds: watchedSeconds(ranges),
+    watchedRanges: ranges,
+    completed: !!row?.completed,
+    ...(recorded !== undefined && { recorded }),
+  };
+}
+
+/**
+ * Main serve function
+ */
+serve(async req => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 200,
+      headers: {
+        ...securityHeaders,
+        ...corsHeaders,
+      },
+    });
+  }
+
+  // POST records a heartbeat, GET returns the resume position when the player opens
+  if (req.method !== 'POST' && req.method !== 'GET') {
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: {
+          code: 'METHOD_NOT_ALLOWED',
+          message: 'Only GET and POST methods are allowed',
+        },
+      }),
+      {
+        status: 405,
+        headers: {
+          ...securityHeaders,
+          ...corsHeaders,
+          Allow: 'GET, POST, OPTIONS',
+        },
+      }
+    );
+  }
+
+  try {
+    // Extract user ID from JWT
+    const userId = await extractUserFromRequest(req);
+    if (!userId) {
+      return jsonResponse(
+        {
+          success: false,
+          error: {
+            code: 'AUTHENTICATION_ERROR',
+            message: 'Authentication required',
+          },
+        },
+        401
+      );
+    }
+
+    // Extract video ID from path
+    const videoId = extractVideoIdFromPath(req.url);
+    if (!videoId) {
+      return jsonResponse(
+        {
+          success: false,
+          error: {
+            code: 'INVALID_PATH',
+            message: 'Invalid video ID in path',
+          },
+        },
+        400
+      );
+    }
+
+    let requestData: WatchHeartbeatRequest | undefined;
+    if (req.method === 'POST') {
+      try {
+        requestData = await req.json();
+      } catch (error: any) {
+        return jsonResponse(
+          {
+            success: false,
+            error: {
+              code: 'INVALID_REQUEST',
+              message: 'Invalid JSON in request body',
+            },
+          },
+          400
+        );
+      }
+
+      const validation = validateRequest(requestData);
+      if (!validation.isValid) {
+        return jsonResponse(
+          {
+            success: false,
+            error: {
+              code: 'VALIDATION_ERROR',
+              message: 'Invalid request parameters',
+              details: validation.errors,
+            },
+          },
+          400
+        );
+      }
+    }
+
+    // Initialize Supabase client
+    const supabaseUrl = denoEnv.get('SUPABASE_URL');
+    const supabaseServiceKey = denoEnv.get('SUPABASE_SERVICE_ROLE_KEY');
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      throw new Error('Supabase configuration missing');
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data: video, error: videoError } = await supabase
+      .from('youtube_videos')
+      .select('id, duration_seconds')
+      .eq('video_id', videoId)
+      .single();
+
+    if (videoError || !video) {
+      return jsonResponse(
+        {
+          success: false,
+          error: {
+            code: 'VIDEO_NOT_FOUND',
+            message: 'Video not found',
+            details: { videoId },
+          },
+        },
+        404
+      );
+    }
+
+    const { data: history, error: historyError } = await supabase
+      .from('user_video_history')
+      .select(
+        'progress_seconds, completed, watched_ranges, total_watch_seconds, heartbeat_position_seconds, is_playing, last_heartbeat_at'
+      )
+      .eq('user_id', userId)
+      .eq('video_id', video.id)
+      .maybeSingle();
+
+    if (historyError) {
+      throw historyError;
+    }
+
+    if (!requestData) {
+      return jsonResponse(
+        { success: true, data: toWatchProgress(videoId, history, video.duration_seconds) },
+        200
+      );
+    }
+
+    const heartbeat = {
+      positionSeconds: video.duration_seconds
+        ? Math.min(requestData.positionSeconds, video.duration_seconds)
+        : requestData.positionSeconds,
+      playing: requestData.playing ?? true,
+      playbackRate: requestData.playbackRate ?? 1,
+    };
+    const update = applyHeartbeat(
+      {
+        positionSeconds: history
+          ? (history.heartbeat_position_seconds ?? history.progress_seconds)
+          : null,
+        playing: !!history?.is_playing,
+        lastHeartbeatAt: history?.last_heartbeat_at ?? null,
+        ranges: history?.watched_ranges || [],
+      },
+      heartbeat
+    );
+
+    // Idle heartbeats and steady playback between writes are coalesced into
+    // the stored state; the next write covers the skipped span
+    if (!update.shouldWrite) {
+      return jsonResponse(
+        { success: true, data: toWatchProgress(videoId, history, video.duration_seconds, false) },
+        200
+      );
+    }
+
+    const { error: progressError } = await supabase.rpc('update_watch_progress', {
+      p_user_id: userId,
+      p_video_id: video.id,
+      p_progress_seconds: Math.floor(heartbeat.positionSeconds),
+      p_video_duration: video.duration_seconds || null,
+      p_watched_ranges: update.played ? [update.played] : [],
+      p_watch_seconds: update.watchSeconds,
+      p_position_seconds: heartbeat.positionSeconds,
+      p_is_playing: heartbeat.playing,
+      p_new_session: update.newSession,
+    });
+
+    if (progressError) {
+      console.error('Failed to record heartbeat:', progressError);
+      throw progressError;
+    }
+
+    const completed =
+      !!history?.completed ||
+      (!!video.duration_seconds &&
+        heartbeat.positionSeconds >= video.duration_seconds * COMPLETION_RATIO);
+
+    return jsonResponse(
+      {
+        success: true,
+        data: toWatchProgress(
+          videoId,
+          {
+            progress_seconds: Math.floor(heartbeat.positionSeconds),
+            heartbeat_position_seconds: heartbeat.positionSeconds,
+            watched_ranges: update.ranges,
+            total_watch_seconds: (history?.total_watch_seconds || 0) + update.watchSeconds,
+            completed,
+          },
+          video.duration_seconds,
+          true
+        ),
+      },
+      200
+    );
+  } catch (error: any) {
+    console.error('Request failed:', error);
+
+    return jsonResponse(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'An unexpected error occurred',
+          details: error instanceof Error ? error.message : undefined,
+        },
+      },
+      500
+    );
+  }
+});
@@ -0,0 +1,637 @@
+// Import watch history from a Google Takeout export, in resumable batches
+
+import { corsHeaders } from '@/cors';
+import { denoEnv } from '@/shared-deno-env';
+import { AppError, createAppError, ErrorType } from '@/shared-errors';
+import { createClient } from '@supabase/supabase-js';
+import { serve } from 'std/http/server.ts';
+import { HistoryImportProgress, YouTubeErrorCode } from '../../types/youtube.ts';
+import { REFRESH_BATCH_SIZE } from '../../utils/metadata-refresh.ts';
+import {
+  createQuotaLedger,
+  isQuotaExhaustedError,
+  YouTubeQuotaLedger,
+} from '../../utils/quota-ledger.ts';
+import {
+  dedupeWatchEntries,
+  parseTakeoutFile,
+  TakeoutFormat,
+  TakeoutParseResult,
+} from '../../utils/takeout-parser.ts';
+import { upsertVideos } from '../../utils/video-records.ts';
+import { YouTubeAPIClient, youtubeAPI } from '../../utils/youtube-api.ts';
+
+/**
+ * Response interface
+ */
+interface HistoryImportResponse {
+  success: boolean;
+  data?: HistoryImportProgress;
+  error?: {
+    code: string;
+    message: string;
+    details?: any;
+  };
+}
+
+/**
+ * Security headers
+ */
+const securityHeaders = {
+  'Content-Type': 'application/json',
+  'X-Content-Type-Options': 'nosniff',
+  'X-Frame-Options': 'DENY',
+  'X-XSS-Protection': '1; mode=block',
+  'Strict-Transport-Security': 'max-age=63072000; includeSubDomains; preload',
+  'Cache-Control': 'no-cache, no-store, must-revalidate',
+};
+
+/**
+ * Import limits. Each request processes a few batches of 50 videos (one
+ * videos.list call each) and returns; clients resume until completed.
+ */
+const MAX_IMPORT_BYTES = 50 * 1024 * 1024;
+const MAX_BATCHES_PER_REQUEST = 10;
+const ITEM_INSERT_CHUNK = 1000;
+const STALE_LOCK_MINUTES = 5;
+
+const IMPORT_COLUMNS =
+  'id, status, format, total_entries, total_videos, processed_videos, imported_videos, unavailable_videos, skipped_entries, last_error, locked_at, created_at, completed_at';
+
+/**
+ * Create a JSON response
+ */
+function jsonResponse(body: HistoryImportResponse, status: number): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...securityHeaders, ...corsHeaders },
+  });
+}
+
+/**
+ * Extract user from JWT token
+ */
+async function extractUserFromRequest(request: Request): Promise<string | null> {
+  try {
+    const authHeader = request.headers.get('Authorization');
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return null;
+    }
+
+    const token = authHeader.substring(7);
+
+    const supabase = createClient(
+      denoEnv.get('SUPABASE_URL') || '',
+      denoEnv.get('SUPABASE_ANON_KEY') || ''
+    );
+
+    const {
+      data: { user },
+      error,
+    } = await supabase.auth.getUser(token);
+    if (error || !user) {
+      return null;
+    }
+
+    return user.id;
+  } catch (error: any) {
+    console.error('Error extracting user from request:', error);
+    return null;
+  }
+}
+
+/**
+ * Extract import ID from URL path; null for a new upload
+ */
+function extractImportIdFromPath(url: string): string | null {
+  // Expected format: /v1/youtube/history/import/{importId}
+  const pathMatch = new URL(url).pathname.match(
+    /\/import\/([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})$/i
+  );
+  return pathMatch ? pathMatch[1] : null;
+}
+
+/**
+ * Response for uploads over MAX_IMPORT_BYTES
+ */
+function payloadTooLargeResponse(): Response {
+  return jsonResponse(
+    {
+      success: false,
+      error: {
+        code: 'PAYLOAD_TOO_LARGE',
+        message: `Watch history exports are limited to ${MAX_IMPORT_BYTES / (1024 * 1024)} MB`,
+      },
+    },
+    413
+  );
+}
+
+/**
+ * Read the request body, giving up as soon as it exceeds MAX_IMPORT_BYTES.
+ * Content-Length may be missing (chunked uploads) or wrong, so the limit is
+ * enforced on the bytes actually received.
+ */
+async function readBody(req: Request): Promise<Uint8Array> {
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+
+  if (req.body) {
+    const reader = req.body.getReader();
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      size += value.byteLength;
+      if (size > MAX_IMPORT_BYTES) {
+        await reader.cancel();
+        throw createAppError(ErrorType.VALIDATION_ERROR, 'Watch history export is too large', {
+          code: 'PAYLOAD_TOO_LARGE',
+        });
+      }
+      chunks.push(value);
+    }
+  }
+
+  const body = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    body.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+
+  return body;
+}
+
+/**
+ * Read the uploaded export: a multipart form with a `file` field, or the raw
+ * file as the request body
+ */
+async function readUpload(req: Request): Promise<{ content: string; format?: TakeoutFormat }> {
+  const contentType = req.headers.get('Content-Type') || '';
+  const body = await readBody(req);
+
+  if (contentType.includes('multipart/form-data')) {
+    const form = await new Response(body, { headers: { 'Content-Type': contentType } }).formData();
+    const file = form.get('file');
+    if (!(file instanceof File)) {
+      throw new Error('Form field "file" with the watch history export is required');
+    }
+
+    const name = file.name.toLowerCase();
+    return {
+      content: await file.text(),
+      format: name.endsWith('.json') ? 'json' : name.endsWith('.html') ? 'html' : undefined,
+    };
+  }
+
+  return {
+    content: new TextDecoder().decode(body),
+    format: contentType.includes('json')
+      ? 'json'
+      : contentType.includes('html')
+        ? 'html'
+        : undefined,
+  };
+}
+
+/**
+ * Map an import row to the progress payload
+ */
+function toProgress(row: any, quotaExhausted = false): HistoryImportProgress {
+  return {
+    importId: row.id,
+    status: row.status,
+    format: row.format,
+    totalEntries: row.total_entries,
+    totalVideos: row.total_videos,
+    processedVideos: row.processed_videos,
+    importedVideos: row.imported_videos,
+    unavailableVideos: row.unavailable_videos,
+    skipped: { ads: 0, removed: 0, invalid: 0, ...row.skipped_entries },
+    percentComplete:
+      row.total_videos > 0
+        ? Math.round((row.processed_videos / row.total_videos) * 1000) / 10
+        : 100,
+    ...(quotaExhausted && { quotaExhausted }),
+    ...(row.last_error && { error: row.last_error }),
+    createdAt: row.created_at,
+    ...(row.completed_at && { completedAt: row.completed_at }),
+  };
+}
+
+/**
+ * Deduplicate a parsed export and store it as a new import job
+ */
+async function createImport(
+  supabase: any,
+  userId: string,
+  parsed: TakeoutParseResult
+): Promise<any> {
+  const videos = dedupeWatchEntries(parsed.entries);
+
+  const { data: job, error: jobError } = await supabase
+    .from('youtube_history_imports')
+    .insert({
+      user_id: userId,
+      format: parsed.format,
+      total_entries: parsed.entries.length,
+      total_videos: videos.length,
+      skipped_entries: parsed.skipped,
+      ...(videos.length === 0 && {
+        status: 'completed',
+        completed_at: new Date().toISOString(),
+      }),
+    })
+    .select(IMPORT_COLUMNS)
+    .single();
+
+  if (jobError) {
+    throw jobError;
+  }
+
+  for (let start = 0; start < videos.length; start += ITEM_INSERT_CHUNK) {
+    const { error } = await supabase.from('youtube_history_import_items').insert(
+      videos.slice(start, start + ITEM_INSERT_CHUNK).map((video, offset) => ({
+        import_id: job.id,
+        position: start + offset,
+        video_id: video.videoId,
+        first_watched_at: video.firstWatchedAt,
+        last_watched_at: video.lastWatchedAt,
+        watch_count: video.watchCount,
+      }))
+    );
+
+    if (error) {
+      await supabase.from('youtube_history_imports').delete().eq('id', job.id);
+      throw error;
+    }
+  }
+
+  return job;
+}
+
+/**
+ * Import one batch of items: backfill unknown videos with a single
+ * videos.list call, then create history rows. Videos YouTube no longer
+ * returns are deleted or private and are counted as unavailable.
+ */
+async function importBatch(
+  supabase: any,
+  quotaLedger: YouTubeQuotaLedger,
+  youtube: YouTubeAPIClient,
+  userId: string,
+  items: any[]
+): Promise<{ imported: number; unavailable: number }> {
+  const videoIds = items.map(item => item.video_id);
+  const { data: known, error: knownError } = await supabase
+    .from('youtube_videos')
+    .select('id, video_id')
+    .in('video_id', videoIds);
+
+  if (knownError) {
+    throw knownError;
+  }
+
+  const recordIds = new Map<string, string>(
+    (known || []).map((row: any) => [row.video_id, row.id])
+  );
+  const missing = videoIds.filter(videoId => !recordIds.has(videoId));
+
+  if (missing.length > 0) {
+    // Bulk backfills pause once the shared quota passes its soft limit
+    const quota = await quotaLedger.check('videos.list');
+    if (quota.preferCache) {
+      throw createAppError(
+        YouTubeErrorCode.QUOTA_BUDGET_EXCEEDED,
+        'YouTube API quota past its soft limit; backfill paused'
+      );
+    }
+
+    const fetched = await youtube.getVideosMetadata(missing);
+    for (const [videoId, recordId] of await upsertVideos(supabase, fetched)) {
+      recordIds.set(videoId, recordId);
+    }
+  }
+
+  const entries = items
+    .filter(item => recordIds.has(item.video_id))
+    .map(item => ({
+      video_id: recordIds.get(item.video_id),
+      first_watched_at: item.first_watched_at,
+      last_watched_at: item.last_watched_at,
+      watch_count: item.watch_count,
+    }));
+
+  if (entries.length > 0) {
+    const { error } = await supabase.rpc('import_watch_history', {
+      p_user_id: userId,
+      p_entries: entries,
+    });
+
+    if (error) {
+      throw error;
+    }
+  }
+
+  return { imported: entries.length, unavailable: items.length - entries.length };
+}
+
+/**
+ * Process the next batches of an import. Returns the updated job row and
+ * whether it paused on the YouTube quota.
+ */
+async function processImport(
+  supabase: any,
+  userId: string,
+  importId: string
+): Promise<{ job: any; quotaExhausted: boolean }> {
+  // Claim the job so concurrent resumes do not process the same batch
+  const staleBefore = new Date(Date.now() - STALE_LOCK_MINUTES * 60 * 1000).toISOString();
+  const { data: claimed, error: claimError } = await supabase
+    .from('youtube_history_imports')
+    .update({ status: 'processing', locked_at: new Date().toISOString(), last_error: null })
+    .eq('id', importId)
+    .eq('user_id', userId)
+    .or(`status.in.(pending,failed),and(status.eq.processing,locked_at.lt.${staleBefore})`)
+    .select(IMPORT_COLUMNS)
+    .maybeSingle();
+
+  if (claimError) {
+    throw claimError;
+  }
+
+  if (!claimed) {
+    // Completed, or another request is processing it
+    const { data: current, error } = await supabase
+      .from('youtube_history_imports')
+      .select(IMPORT_COLUMNS)
+      .eq('id', importId)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    return { job: current, quotaExhausted: false };
+  }
+
+  const job = claimed;
+  const quotaLedger = createQuotaLedger(supabase, key => denoEnv.get(key));
+  const youtube = youtubeAPI.withQuotaLedger(quotaLedger);
+
+  let quotaExhausted = false;
+  let failure: string | null = null;
+
+  for (let batch = 0; batch < MAX_BATCHES_PER_REQUEST; batch++) {
+    if (job.processed_videos >= job.total_videos) break;
+
+    const { data: items, error: itemsError } = await supabase
+      .from('youtube_history_import_items')
+      .select('position, video_id, first_watched_at, last_watched_at, watch_count')
+      .eq('import_id', importId)
+      .gte('position', job.processed_videos)
+      .order('position', { ascending: true })
+      .limit(REFRESH_BATCH_SIZE);
+
+    if (itemsError) {
+      throw itemsError;
+    }
+
+    if (!items || items.length === 0) {
+      job.processed_videos = job.total_videos;
+      break;
+    }
+
+    try {
+      const result = await importBatch(supabase, quotaLedger, youtube, userId, items);
+      job.imported_videos += result.imported;
+      job.unavailable_videos += result.unavailable;
+      job.processed_videos = items[items.length - 1].position + 1;
+    } catch (error: any) {
+      if (isQuotaExhaustedError(error)) {
+        quotaExhausted = true;
+        break;
+      }
+
+      console.error('Import batch failed:', importId, error);
+      failure = error instanceof Error ? error.message : error?.message || String(error);
+      break;
+    }
+
+    // Record progress after every batch so an interrupted request resumes here
+    const { error: progressError } = await supabase
+      .from('youtube_history_imports')
+      .update({
+        processed_videos: job.processed_videos,
+        imported_videos: job.imported_videos,
+        unavailable_videos: job.unavailable_videos,
+      })
+      .eq('id', importId);
+
+    if (progressError) {
+      throw progressError;
+    }
+  }
+
+  const completed = job.processed_videos >= job.total_videos;
+  const { data: updated, error: updateError } = await supabase
+    .from('youtube_history_imports')
+    .update({
+      status: failure ? 'failed' : completed ? 'completed' : 'pending',
+      processed_videos: job.processed_videos,
+      imported_videos: job.imported_videos,
+      unavailable_videos: job.unavailable_videos,
+      locked_at: null,
+      last_error:
+        failure || (quotaExhausted ? 'YouTube quota exhausted; resume the import later' : null),
+      ...(completed && { completed_at: new Date().toISOString() }),
+    })
+    .eq('id', importId)
+    .select(IMPORT_COLUMNS)
+    .single();
+
+  if (updateError) {
+    throw updateError;
+  }
+
+  return { job: updated, quotaExhausted };
+}
+
+/**
+ * Main serve function
+ */
+serve(async req => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 200,
+      headers: {
+        ...securityHeaders,
+        ...corsHeaders,
+      },
+    });
+  }
+
+  // POST uploads an export or resumes an import; GET reports progress
+  if (req.method !== 'POST' && req.method !== 'GET') {
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: {
+          code: 'METHOD_NOT_ALLOWED',
+          message: 'Only GET and POST methods are allowed',
+        },
+      }),
+      {
+        status: 405,
+        headers: {
+          ...securityHeaders,
+          ...corsHeaders,
+          Allow: 'GET, POST, OPTIONS',
+        },
+      }
+    );
+  }
+
+  try {
+    // Extract user ID from JWT
+    const userId = await extractUserFromRequest(req);
+    if (!userId) {
+      return jsonResponse(
+        {
+          success: false,
+          error: {
+            code: 'AUTHENTICATION_ERROR',
+            message: 'Authentication required',
+          },
+        },
+        401
+      );
+    }
+
+    const importId = extractImportIdFromPath(req.url);
+    if (req.method === 'GET' && !importId) {
+      return jsonResponse(
+        {
+          success: false,
+          error: {
+            code: 'INVALID_PATH',
+            message: 'Invalid import ID in path',
+          },
+        },
+        400
+      );
+    }
+
+    // Initialize Supabase client
+    const supabaseUrl = denoEnv.get('SUPABASE_URL');
+    const supabaseServiceKey = denoEnv.get('SUPABASE_SERVICE_ROLE_KEY');
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      throw new Error('Supabase configuration missing');
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    if (req.method === 'GET') {
+      const { data: job, error } = await supabase
+        .from('youtube_history_imports')
+        .select(IMPORT_COLUMNS)
+        .eq('id', importId)
+        .eq('user_id', userId)
+        .maybeSingle();
+
+      if (error) {
+        throw error;
+      }
+
+      if (!job) {
+        return jsonResponse(
+          {
+            success: false,
+            error: {
+              code: 'IMPORT_NOT_FOUND',
+              message: 'History import not found',
+              details: { importId },
+            },
+          },
+          404
+        );
+      }
+
+      return jsonResponse({ success: true, data: toProgress(job) }, 200);
+    }
+
+    let targetId = importId;
+    if (!targetId) {
+      // Reject declared oversize uploads before reading them
+      const contentLength = parseInt(req.headers.get('Content-Length') || '0', 10);
+      if (contentLength > MAX_IMPORT_BYTES) {
+        return payloadTooLargeResponse();
+      }
+
+      let parsed: TakeoutParseResult;
+      try {
+        const upload = await readUpload(req);
+        parsed = parseTakeoutFile(upload.content, upload.format);
+      } catch (error: any) {
+        if (error instanceof AppError && error.details?.code === 'PAYLOAD_TOO_LARGE') {
+          return payloadTooLargeResponse();
+        }
+
+        return jsonResponse(
+          {
+            success: false,
+            error: {
+              code: 'INVALID_FILE',
+              message: error.message,
+            },
+          },
+          400
+        );
+      }
+
+      const job = await createImport(supabase, userId, parsed);
+      if (job.status === 'completed') {
+        return jsonResponse({ success: true, data: toProgress(job) }, 201);
+      }
+
+      targetId = job.id;
+    }
+
+    const { job, quotaExhausted } = await processImport(supabase, userId, targetId!);
+    if (!job) {
+      return jsonResponse(
+        {
+          success: false,
+          error: {
+            code: 'IMPORT_NOT_FOUND',
+            message: 'History import not found',
+            details: { importId: targetId },
+          },
+        },
+        404
+      );
+    }
+
+    // 202 until every video is processed; the client resumes with POST /import/{importId}
+    const status = job.status === 'completed' ? (importId ? 200 : 201) : 202;
+    return jsonResponse({ success: true, data: toProgress(job, quotaExhausted) }, status);
+  } catch (error: any) {
+    console.error('Request failed:', error);
+
+    return jsonResponse(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'An unexpected error occurred',
+          details: error instanceof Error ? error.message : undefined,
+        },
+      },
+      500
+    );
+  }
+});
@@ -4,6 +4,8 @@ import { corsHeaders } from '@/cors';
 import { denoEnv } from '@/shared-deno-env';
 import { createClient } from '@supabase/supabase-js';
 import { serve } from 'std/http/server.ts';
+import type { CEFRLevel } from '../../types/youtube.ts';
+import { CEFR_LEVELS } from '../../utils/readability.ts';
 
 /**
  * Query parameters interface
@@ -12,7 +14,11 @@ interface ListHistoryParams {
   limit?: number;
   offset?: number;
   filter?: 'all' | 'bookmarked' | 'completed' | 'in-progress';
-  sortBy?: 'recent' | 'alphabetical' | 'duration';
+  sortBy?: 'recent' | 'alphabetical' | 'duration' | 'difficulty' | 'pace';
+  minLevel?: CEFRLevel;
+  maxLevel?: CEFRLevel;
+  minWpm?: number;
+  maxWpm?: number;
 }
 
 /**
@@ -33,6 +39,9 @@ interface VideoHistoryEntry {
   playbackRate: number;
   notes?: string;
   tags?: string[];
+  cefrLevel?: CEFRLevel;
+  wordsPerMinute?: number;
+  lexicalDiversity?: number;
 }
 
 /**
@@ -129,15 +138,44 @@ function parseQueryParams(url: URL): ListHistoryParams {
 
   // Parse sortBy
   const sortBy = url.searchParams.get('sortBy');
-  if (sortBy && ['recent', 'alphabetical', 'duration'].includes(sortBy)) {
+  if (sortBy && ['recent', 'alphabetical', 'duration', 'difficulty', 'pace'].includes(sortBy)) {
     params.sortBy = sortBy as any;
   } else {
     params.sortBy = 'recent';
   }
 
+  // Parse CEFR level range (inclusive)
+  const minLevel = url.searchParams.get('minLevel')?.toUpperCase();
+  if (minLevel && CEFR_LEVELS.includes(minLevel as CEFRLevel)) {
+    params.minLevel = minLevel as CEFRLevel;
+  }
+
+  const maxLevel = url.searchParams.get('maxLevel')?.toUpperCase();
+  if (maxLevel && CEFR_LEVELS.includes(maxLevel as CEFRLevel)) {
+    params.maxLevel = maxLevel as CEFRLevel;
+  }
+
+  // Parse speaking pace range in words per minute
+  const minWpm = parseFloat(url.searchParams.get('minWpm') || '');
+  if (Number.isFinite(minWpm) && minWpm >= 0) {
+    params.minWpm = minWpm;
+  }
+
+  const maxWpm = parseFloat(url.searchParams.get('maxWpm') || '');
+  if (Number.isFinite(maxWpm) && maxWpm >= 0) {
+    params.maxWpm = maxWpm;
+  }
+
   return params;
 }
 
+/**
+ * NUMERIC columns come back as strings
+ */
+function toOptionalNumber(value: string | number | null): number | undefined {
+  return value === null || value === undefined ? undefined : Number(value);
+}
+
 /**
  * Main serve function
  */
@@ -227,7 +265,10 @@ serve(async req => {
           title,
           channel_name,
           thumbnail_url,
-          duration_seconds
+          duration_seconds,
+          cefr_level,
+          words_per_minute,
+          lexical_diversity
         )
       `,
         { count: 'exact' }
@@ -247,6 +288,20 @@ serve(async req => {
         break;
     }
 
+    // Apply readability filters; videos without metrics are excluded by them
+    if (params.minLevel) {
+      query = query.gte('youtube_videos.cefr_rank', CEFR_LEVELS.indexOf(params.minLevel) + 1);
+    }
+    if (params.maxLevel) {
+      query = query.lte('youtube_videos.cefr_rank', CEFR_LEVELS.indexOf(params.maxLevel) + 1);
+    }
+    if (params.minWpm !== undefined) {
+      query = query.gte('youtube_videos.words_per_minute', params.minWpm);
+    }
+    if (params.maxWpm !== undefined) {
+      query = query.lte('youtube_videos.words_per_minute', params.maxWpm);
+    }
+
     // Apply sorting
     switch (params.sortBy) {
       case 'alphabetical':
@@ -257,6 +312,18 @@ serve(async req => {
           ascending: false,
         });
         break;
+      case 'difficulty':
+        query = query.order('youtube_videos(cefr_rank)', {
+          ascending: true,
+          nullsFirst: false,
+        });
+        break;
+      case 'pace':
+        query = query.order('youtube_videos(words_per_minute)', {
+          ascending: true,
+          nullsFirst: false,
+        });
+        break;
       case 'recent':
       default:
         query = query.order('last_watched_at', { ascending: false });
@@ -290,6 +357,9 @@ serve(async req => {
       playbackRate: item.playback_rate,
       notes: item.notes,
       tags: item.tags,
+      cefrLevel: item.youtube_videos.cefr_level ?? undefined,
+      wordsPerMinute: toOptionalNumber(item.youtube_videos.words_per_minute),
+      lexicalDiversity: toOptionalNumber(item.youtube_videos.lexical_diversity),
     }));
 
     // Calculate if there are more results
@@ -0,0 +1,390 @@
+// Ingest every video of a playlist or channel, optionally queueing transcript extraction
+
+import { corsHeaders } from '@/cors';
+import { denoEnv } from '@/shared-deno-env';
+import { AppError } from '@/shared-errors';
+import { createClient } from '@supabase/supabase-js';
+import { serve } from 'std/http/server.ts';
+import {
+  IngestedVideo,
+  IngestPlaylistRequest,
+  IngestPlaylistResponse,
+  YouTubeErrorCode,
+} from '../../types/youtube.ts';
+import { createQuotaLedger } from '../../utils/quota-ledger.ts';
+import { enqueueTranscriptJobs } from '../../utils/transcript-store.ts';
+import { upsertVideos } from '../../utils/video-records.ts';
+import { YouTubeAPIClient, youtubeAPI } from '../../utils/youtube-api.ts';
+
+/**
+ * Security headers
+ */
+const securityHeaders = {
+  'Content-Type': 'application/json',
+  'X-Content-Type-Options': 'nosniff',
+  'X-Frame-Options': 'DENY',
+  'X-XSS-Protection': '1; mode=block',
+  'Strict-Transport-Security': 'max-age=63072000; includeSubDomains; preload',
+  'Cache-Control': 'no-cache, no-store, must-revalidate',
+};
+
+/**
+ * Video count limits
+ */
+const DEFAULT_MAX_VIDEOS = 200;
+const MAX_VIDEOS_LIMIT = 500;
+
+/**
+ * HTTP status for YouTube API errors
+ */
+const youtubeErrorStatus: Record<string, number> = {
+  [YouTubeErrorCode.PLAYLIST_NOT_FOUND]: 404,
+  [YouTubeErrorCode.CHANNEL_NOT_FOUND]: 404,
+  [YouTubeErrorCode.API_QUOTA_EXCEEDED]: 429,
+  [YouTubeErrorCode.QUOTA_BUDGET_EXCEEDED]: 429,
+  [YouTubeErrorCode.RATE_LIMIT_EXCEEDED]: 429,
+  [YouTubeErrorCode.API_ERROR]: 502,
+};
+
+/**
+ * Extract user from JWT token
+ */
+async function extractUserFromRequest(request: Request): Promise<string | null> {
+  try {
+    const authHeader = request.headers.get('Authorization');
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return null;
+    }
+
+    const token = authHeader.substring(7);
+
+    const supabase = createClient(
+      denoEnv.get('SUPABASE_URL') || '',
+      denoEnv.get('SUPABASE_ANON_KEY') || ''
+    );
+
+    const {
+      data: { user },
+      error,
+    } = await supabase.auth.getUser(token);
+    if (error || !user) {
+      return null;
+    }
+
+    return user.id;
+  } catch (error: any) {
+    console.error('Error extracting user from request:', error);
+    return null;
+  }
+}
+
+/**
+ * Request validation
+ */
+function validateRequest(data: any): { isValid: boolean; errors: string[] } {
+  const errors: string[] = [];
+
+  if (!data || typeof data !== 'object') {
+    errors.push('Request body must be an object');
+    return { isValid: false, errors };
+  }
+
+  const sources = [data.playlistId, data.channelId, data.channelHandle].filter(
+    source => source !== undefined
+  );
+  if (sources.length !== 1) {
+    errors.push('Exactly one of playlistId, channelId or channelHandle is required');
+  }
+
+  if (data.playlistId !== undefined && !/^[a-zA-Z0-9_-]{2,64}$/.test(data.playlistId)) {
+    errors.push('Invalid playlist ID format');
+  }
+
+  if (data.channelId !== undefined && !/^UC[a-zA-Z0-9_-]{22}$/.test(data.channelId)) {
+    errors.push('Invalid channel ID format');
+  }
+
+  if (data.channelHandle !== undefined && !/^@?[a-zA-Z0-9._-]{3,30}$/.test(data.channelHandle)) {
+    errors.push('Invalid channel handle format');
+  }
+
+  if (data.maxVideos !== undefined) {
+    if (
+      !Number.isInteger(data.maxVideos) ||
+      data.maxVideos < 1 ||
+      data.maxVideos > MAX_VIDEOS_LIMIT
+    ) {
+      errors.push(`maxVideos must be an integer between 1 and ${MAX_VIDEOS_LIMIT}`);
+    }
+  }
+
+  if (data.publishedAfter !== undefined) {
+    if (typeof data.publishedAfter !== 'string' || isNaN(Date.parse(data.publishedAfter))) {
+      errors.push('publishedAfter must be an ISO 8601 date');
+    } else if (data.playlistId !== undefined) {
+      errors.push('publishedAfter is only supported for channel sources');
+    }
+  }
+
+  if (data.queueTranscripts !== undefined && typeof data.queueTranscripts !== 'boolean') {
+    errors.push('queueTranscripts must be a boolean');
+  }
+
+  if (
+    data.transcriptLanguage !== undefined &&
+    !/^[a-z]{2}(-[A-Z]{2})?$/.test(data.transcriptLanguage)
+  ) {
+    errors.push('transcriptLanguage must be a valid ISO 639-1 code (e.g., en, vi)');
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+  };
+}
+
+/**
+ * Resolve the source to a list of video IDs in source order
+ */
+async function listSourceVideoIds(
+  youtube: YouTubeAPIClient,
+  request: IngestPlaylistRequest,
+  maxVideos: number
+): Promise<{
+  source: { type: 'playlist' | 'channel'; id: string; title?: string };
+  videoIds: string[];
+}> {
+  if (request.playlistId) {
+    return {
+      source: { type: 'playlist', id: request.playlistId },
+      videoIds: await youtube.getPlaylistVideoIds(request.playlistId, maxVideos),
+    };
+  }
+
+  const channel = await youtube.getChannel({
+    channelId: request.channelId,
+    handle: request.channelHandle,
+  });
+  const source = { type: 'channel' as const, id: channel.channelId, title: channel.title };
+
+  // The uploads playlist costs 1 unit per page; search is only needed to filter by date
+  if (request.publishedAfter || !channel.uploadsPlaylistId) {
+    return {
+      source,
+      videoIds: await youtube.searchChannelVideoIds(channel.channelId, {
+        maxVideos,
+        publishedAfter: request.publishedAfter,
+      }),
+    };
+  }
+
+  return {
+    source,
+    videoIds: await youtube.getPlaylistVideoIds(channel.uploadsPlaylistId, maxVideos),
+  };
+}
+
+/**
+ * Main serve function
+ */
+serve(async req => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 200,
+      headers: {
+        ...securityHeaders,
+        ...corsHeaders,
+      },
+    });
+  }
+
+  // Only allow POST requests
+  if (req.method !== 'POST') {
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: {
+          code: 'METHOD_NOT_ALLOWED',
+          message: 'Only POST method is allowed',
+        },
+      }),
+      {
+        status: 405,
+        headers: {
+          ...securityHeaders,
+          ...corsHeaders,
+          Allow: 'POST, OPTIONS',
+        },
+      }
+    );
+  }
+
+  try {
+    // Extract user ID from JWT
+    const userId = await extractUserFromRequest(req);
+    if (!userId) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: {
+            code: 'AUTHENTICATION_ERROR',
+            message: 'Authentication required',
+          },
+        }),
+        {
+          status: 401,
+          headers: { ...securityHeaders, ...corsHeaders },
+        }
+      );
+    }
+
+    // Parse request body
+    let requestData: IngestPlaylistRequest;
+    try {
+      requestData = await req.json();
+    } catch (error: any) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: {
+            code: 'INVALID_REQUEST',
+            message: 'Invalid JSON in request body',
+          },
+        }),
+        {
+          status: 400,
+          headers: { ...securityHeaders, ...corsHeaders },
+        }
+      );
+    }
+
+    // Validate request
+    const validation = validateRequest(requestData);
+    if (!validation.isValid) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid request parameters',
+            details: validation.errors,
+          },
+        }),
+        {
+          status: 400,
+          headers: { ...securityHeaders, ...corsHeaders },
+        }
+      );
+    }
+
+    // Initialize Supabase client
+    const supabaseUrl = denoEnv.get('SUPABASE_URL');
+    const supabaseServiceKey = denoEnv.get('SUPABASE_SERVICE_ROLE_KEY');
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      throw new Error('Supabase configuration missing');
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const youtube = youtubeAPI.withQuotaLedger(
+      createQuotaLedger(supabase, key => denoEnv.get(key))
+    );
+
+    // List the source videos, then fetch metadata 50 at a time
+    const maxVideos = requestData.maxVideos || DEFAULT_MAX_VIDEOS;
+    const { source, videoIds } = await listSourceVideoIds(youtube, requestData, maxVideos);
+    const metadata = await youtube.getVideosMetadataBatched(videoIds);
+    const recordIds = await upsertVideos(supabase, metadata);
+
+    // Queue transcript extraction for videos without a transcript yet
+    let queued = new Set<string>();
+    if (requestData.queueTranscripts) {
+      queued = new Set(
+        await enqueueTranscriptJobs(
+          supabase,
+          [...recordIds.values()],
+          requestData.transcriptLanguage || 'en',
+          userId
+        )
+      );
+    }
+
+    // Private and deleted videos have no metadata and are reported as unavailable
+    const metadataById = new Map(metadata.map(video => [video.videoId, video]));
+    const videos: IngestedVideo[] = videoIds.map((videoId, position) => {
+      const video = metadataById.get(videoId);
+      const recordId = recordIds.get(videoId);
+
+      if (!video || !recordId) {
+        return { position, videoId, status: 'unavailable' };
+      }
+
+      return {
+        position,
+        videoId,
+        title: video.title,
+        durationSeconds: video.durationSeconds,
+        status: 'ingested',
+        transcriptQueued: requestData.queueTranscripts ? queued.has(recordId) : undefined,
+      };
+    });
+
+    const ingestedCount = videos.filter(video => video.status === 'ingested').length;
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        data: {
+          source,
+          videos,
+          ingestedCount,
+          unavailableCount: videos.length - ingestedCount,
+          queuedTranscriptCount: queued.size,
+          processedAt: new Date().toISOString(),
+        },
+      } as IngestPlaylistResponse),
+      {
+        status: 200,
+        headers: { ...securityHeaders, ...corsHeaders },
+      }
+    );
+  } catch (error: any) {
+    console.error('Request failed:', error);
+
+    // createAppError carries the YouTubeErrorCode in `type`
+    const errorCode = error instanceof AppError ? String(error.type) : undefined;
+    const status = errorCode ? youtubeErrorStatus[errorCode] : undefined;
+    if (errorCode && status) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: {
+            code: errorCode.replace(/^YOUTUBE_/, ''),
+            message: error.message,
+            details: error.details,
+          },
+        } as IngestPlaylistResponse),
+        {
+          status,
+          headers: { ...securityHeaders, ...corsHeaders },
+        }
+      );
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'An unexpected error occurred',
+          details: error instanceof Error ? error.message : undefined,
+        },
+      } as IngestPlaylistResponse),
+      {
+        status: 500,
+        headers: { ...securityHeaders, ...corsHeaders },
+      }
+    );
+  }
+});
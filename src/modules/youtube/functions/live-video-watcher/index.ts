@@ -0,0 +1,203 @@
+// Scheduled re-check of upcoming premieres and running livestreams
+
+import { corsHeaders } from '@/cors';
+import { denoEnv } from '@/shared-deno-env';
+import { createClient } from '@supabase/supabase-js';
+import { serve } from 'std/http/server.ts';
+import { LiveWatchReport, VideoLiveState } from '../../types/youtube.ts';
+import { buildRefreshUpdate, chunkVideoIds } from '../../utils/metadata-refresh.ts';
+import { createQuotaLedger, isQuotaExhaustedError } from '../../utils/quota-ledger.ts';
+import { YouTubeAPIClient, youtubeAPI } from '../../utils/youtube-api.ts';
+
+/**
+ * Security headers
+ */
+const securityHeaders = {
+  'Content-Type': 'application/json',
+  'X-Content-Type-Options': 'nosniff',
+  'X-Frame-Options': 'DENY',
+  'X-XSS-Protection': '1; mode=block',
+  'Strict-Transport-Security': 'max-age=63072000; includeSubDomains; preload',
+  'Cache-Control': 'no-cache, no-store, must-revalidate',
+};
+
+/**
+ * Videos checked per run
+ */
+const DEFAULT_MAX_VIDEOS = 50;
+const MAX_VIDEOS_LIMIT = 500;
+
+/**
+ * Create a JSON response
+ */
+function jsonResponse(body: any, status: number): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...securityHeaders, ...corsHeaders },
+  });
+}
+
+/**
+ * Check one batch of due videos, recording state transitions in the report
+ */
+async function checkBatch(
+  supabase: any,
+  youtube: YouTubeAPIClient,
+  due: Array<{ video_id: string; live_state: VideoLiveState }>,
+  report: LiveWatchReport
+): Promise<void> {
+  const previous = new Map(due.map(row => [row.video_id, row.live_state]));
+  const metadata = await youtube.getVideosMetadata(due.map(row => row.video_id));
+  const now = new Date().toISOString();
+
+  for (const video of metadata) {
+    const { error } = await supabase
+      .from('youtube_videos')
+      .update({ ...buildRefreshUpdate(video), last_refreshed_at: now })
+      .eq('video_id', video.videoId);
+
+    if (error) {
+      throw error;
+    }
+
+    report.checked++;
+    const state = video.live?.state ?? 'none';
+    if (state === 'upcoming' || state === 'live') {
+      if (state === 'live' && previous.get(video.videoId) === 'upcoming') {
+        report.started.push(video.videoId);
+      }
+      report.waiting++;
+    } else {
+      // Premieres end as regular uploads; either way claim_transcript_jobs now picks up their jobs
+      report.ended.push(video.videoId);
+    }
+  }
+
+  // Broadcasts that were cancelled or made private stop being watched; the
+  // stale metadata refresh records their availability
+  const returned = new Set(metadata.map(video => video.videoId));
+  for (const videoId of previous.keys()) {
+    if (returned.has(videoId)) continue;
+
+    const { error } = await supabase
+      .from('youtube_videos')
+      .update({ live_state: 'none', next_live_check_at: null })
+      .eq('video_id', videoId);
+
+    if (error) {
+      throw error;
+    }
+
+    report.checked++;
+    report.unavailable.push(videoId);
+  }
+}
+
+/**
+ * Main serve function. Invoked by a scheduler with the service role key.
+ */
+serve(async req => {
+  // Only allow POST requests
+  if (req.method !== 'POST') {
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: {
+          code: 'METHOD_NOT_ALLOWED',
+          message: 'Only POST method is allowed',
+        },
+      }),
+      {
+        status: 405,
+        headers: { ...securityHeaders, ...corsHeaders, Allow: 'POST' },
+      }
+    );
+  }
+
+  const supabaseUrl = denoEnv.get('SUPABASE_URL');
+  const supabaseServiceKey = denoEnv.get('SUPABASE_SERVICE_ROLE_KEY');
+
+  if (!supabaseServiceKey || req.headers.get('Authorization') !== `Bearer ${supabaseServiceKey}`) {
+    return jsonResponse(
+      {
+        success: false,
+        error: {
+          code: 'AUTHENTICATION_ERROR',
+          message: 'Service role authorization required',
+        },
+      },
+      401
+    );
+  }
+
+  try {
+    if (!supabaseUrl) {
+      throw new Error('Supabase configuration missing');
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const youtube = youtubeAPI.withQuotaLedger(
+      createQuotaLedger(supabase, key => denoEnv.get(key))
+    );
+
+    const url = new URL(req.url);
+    const limit = Math.min(
+      Math.max(1, parseInt(url.searchParams.get('limit') || '', 10) || DEFAULT_MAX_VIDEOS),
+      MAX_VIDEOS_LIMIT
+    );
+
+    const report: LiveWatchReport = {
+      checked: 0,
+      started: [],
+      ended: [],
+      waiting: 0,
+      unavailable: [],
+      quotaExhausted: false,
+    };
+
+    const { data: due, error: dueError } = await supabase.rpc('get_due_live_videos', {
+      p_limit: limit,
+    });
+
+    if (dueError) {
+      throw dueError;
+    }
+
+    const rows: Array<{ video_id: string; live_state: VideoLiveState }> = due || [];
+    const rowsById = new Map(rows.map(row => [row.video_id, row]));
+
+    for (const batch of chunkVideoIds(rows.map(row => row.video_id))) {
+      try {
+        await checkBatch(
+          supabase,
+          youtube,
+          batch.map(videoId => rowsById.get(videoId)!),
+          report
+        );
+      } catch (error: any) {
+        // Unchecked videos stay due and are picked up by the next run
+        if (isQuotaExhaustedError(error)) {
+          report.quotaExhausted = true;
+          break;
+        }
+        throw error;
+      }
+    }
+
+    return jsonResponse({ success: true, data: report }, 200);
+  } catch (error: any) {
+    console.error('Request failed:', error);
+
+    return jsonResponse(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'An unexpected error occurred',
+          details: error instanceof Error ? error.message : undefined,
+        },
+      },
+      500
+    );
+  }
+});
@@ -0,0 +1,209 @@
+// Scheduled refresh of stale video metadata within a daily quota budget
+
+import { corsHeaders } from '@/cors';
+import { denoEnv } from '@/shared-deno-env';
+import { createClient } from '@supabase/supabase-js';
+import { serve } from 'std/http/server.ts';
+import { MetadataRefreshReport } from '../../types/youtube.ts';
+import {
+  planRefresh,
+  refreshInBatches,
+  VIDEOS_LIST_QUOTA_COST,
+} from '../../utils/metadata-refresh.ts';
+import { createQuotaLedger } from '../../utils/quota-ledger.ts';
+import { youtubeAPI } from '../../utils/youtube-api.ts';
+
+/**
+ * Security headers
+ */
+const securityHeaders = {
+  'Content-Type': 'application/json',
+  'X-Content-Type-Options': 'nosniff',
+  'X-Frame-Options': 'DENY',
+  'X-XSS-Protection': '1; mode=block',
+  'Strict-Transport-Security': 'max-age=63072000; includeSubDomains; preload',
+  'Cache-Control': 'no-cache, no-store, must-revalidate',
+};
+
+/**
+ * Run size limits
+ */
+const DEFAULT_QUOTA_BUDGET = 500;
+const DEFAULT_MAX_VIDEOS = 500;
+const MAX_VIDEOS_LIMIT = 5000;
+
+/**
+ * Create a JSON response
+ */
+function jsonResponse(body: any, status: number): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...securityHeaders, ...corsHeaders },
+  });
+}
+
+/**
+ * Main serve function. Invoked by a scheduler with the service role key.
+ */
+serve(async req => {
+  // Only allow POST requests
+  if (req.method !== 'POST') {
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: {
+          code: 'METHOD_NOT_ALLOWED',
+          message: 'Only POST method is allowed',
+        },
+      }),
+      {
+        status: 405,
+        headers: { ...securityHeaders, ...corsHeaders, Allow: 'POST' },
+      }
+    );
+  }
+
+  const supabaseUrl = denoEnv.get('SUPABASE_URL');
+  const supabaseServiceKey = denoEnv.get('SUPABASE_SERVICE_ROLE_KEY');
+
+  if (!supabaseServiceKey || req.headers.get('Authorization') !== `Bearer ${supabaseServiceKey}`) {
+    return jsonResponse(
+      {
+        success: false,
+        error: {
+          code: 'AUTHENTICATION_ERROR',
+          message: 'Service role authorization required',
+        },
+      },
+      401
+    );
+  }
+
+  let supabase: any;
+  let runId: string | undefined;
+  let report: MetadataRefreshReport | undefined;
+
+  try {
+    if (!supabaseUrl) {
+      throw new Error('Supabase configuration missing');
+    }
+
+    supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const quotaLedger = createQuotaLedger(supabase, key => denoEnv.get(key));
+    const youtube = youtubeAPI.withQuotaLedger(quotaLedger);
+
+    const url = new URL(req.url);
+    const requestedVideos = Math.min(
+      Math.max(1, parseInt(url.searchParams.get('limit') || '', 10) || DEFAULT_MAX_VIDEOS),
+      MAX_VIDEOS_LIMIT
+    );
+    const quotaBudget =
+      parseInt(denoEnv.get('YOUTUBE_REFRESH_QUOTA_BUDGET') || '', 10) || DEFAULT_QUOTA_BUDGET;
+
+    const { data: quotaUsedToday, error: quotaError } = await supabase.rpc(
+      'get_youtube_refresh_quota_used'
+    );
+    if (quotaError) {
+      throw quotaError;
+    }
+
+    // Background refreshes pause once the shared quota passes its soft limit
+    const quota = await quotaLedger.check('videos.list');
+    const plan = quota.preferCache
+      ? planRefresh(quotaBudget, quotaBudget, requestedVideos)
+      : planRefresh(quotaBudget, quotaUsedToday || 0, requestedVideos);
+
+    const { data: run, error: runError } = await supabase
+      .from('youtube_metadata_refresh_runs')
+      .insert({ quota_budget: quotaBudget })
+      .select('id')
+      .single();
+
+    if (runError) {
+      throw runError;
+    }
+
+    runId = run.id;
+    report = {
+      runId: run.id,
+      checked: 0,
+      updated: 0,
+      unchanged: 0,
+      becameUnavailable: [],
+      restored: [],
+      changes: [],
+      quotaUsed: 0,
+      quotaRemaining: plan.quotaRemaining,
+      budgetExhausted: plan.batches === 0,
+    };
+
+    if (plan.maxVideos > 0) {
+      const { data: stale, error: staleError } = await supabase.rpc('get_stale_youtube_videos', {
+        p_limit: plan.maxVideos,
+      });
+
+      if (staleError) {
+        throw staleError;
+      }
+
+      const staleIds = (stale || []).map((row: { video_id: string }) => row.video_id);
+
+      // Record spend after every batch so a crashed run still counts against the budget
+      await refreshInBatches(supabase, youtube, staleIds, report, plan.quotaRemaining, async () => {
+        await supabase
+          .from('youtube_metadata_refresh_runs')
+          .update({ quota_used: report.quotaUsed })
+          .eq('id', runId);
+      });
+
+      report.budgetExhausted =
+        report.budgetExhausted || report.quotaRemaining < VIDEOS_LIST_QUOTA_COST;
+    }
+
+    const { error: finishError } = await supabase
+      .from('youtube_metadata_refresh_runs')
+      .update({
+        status: 'completed',
+        videos_checked: report.checked,
+        videos_updated: report.updated,
+        videos_unavailable: report.becameUnavailable.length,
+        quota_used: report.quotaUsed,
+        report,
+        finished_at: new Date().toISOString(),
+      })
+      .eq('id', runId);
+
+    if (finishError) {
+      console.error('Failed to record refresh run:', finishError);
+    }
+
+    return jsonResponse({ success: true, data: report }, 200);
+  } catch (error: any) {
+    console.error('Request failed:', error);
+
+    if (runId) {
+      await supabase
+        .from('youtube_metadata_refresh_runs')
+        .update({
+          status: 'failed',
+          error: error instanceof Error ? error.message : String(error),
+          quota_used: report?.quotaUsed || 0,
+          report: report || {},
+          finished_at: new Date().toISOString(),
+        })
+        .eq('id', runId);
+    }
+
+    return jsonResponse(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'An unexpected error occurred',
+          details: error instanceof Error ? error.message : undefined,
+        },
+      },
+      500
+    );
+  }
+});
@@ -0,0 +1,298 @@
+// Full-text search across transcripts in the user's watch history
+
+import { corsHeaders } from '@/cors';
+import { denoEnv } from '@/shared-deno-env';
+import { createClient } from '@supabase/supabase-js';
+import { serve } from 'std/http/server.ts';
+
+/**
+ * Query parameters interface
+ */
+interface TranscriptSearchParams {
+  q: string;
+  language?: string;
+  limit: number;
+  offset: number;
+}
+
+/**
+ * Search hit interface
+ */
+interface TranscriptSearchHit {
+  videoId: string;
+  videoTitle: string;
+  channelName: string;
+  thumbnailUrl?: string;
+  durationSeconds: number;
+  language: string;
+  segmentIndex: number;
+  start: number;
+  duration: number;
+  text: string;
+  highlight: string;
+  rank: number;
+  url: string;
+}
+
+/**
+ * Response interface
+ */
+interface TranscriptSearchResponse {
+  success: boolean;
+  data?: {
+    query: string;
+    results: TranscriptSearchHit[];
+    total: number;
+    hasMore: boolean;
+  };
+  error?: {
+    code: string;
+    message: string;
+  };
+}
+
+/**
+ * Security headers
+ */
+const securityHeaders = {
+  'Content-Type': 'application/json',
+  'X-Content-Type-Options': 'nosniff',
+  'X-Frame-Options': 'DENY',
+  'X-XSS-Protection': '1; mode=block',
+  'Strict-Transport-Security': 'max-age=63072000; includeSubDomains; preload',
+  'Cache-Control': 'no-cache, no-store, must-revalidate',
+};
+
+/**
+ * Query length limits
+ */
+const MIN_QUERY_LENGTH = 2;
+const MAX_QUERY_LENGTH = 200;
+
+/**
+ * Extract user from JWT token
+ */
+async function extractUserFromRequest(request: Request): Promise<string | null> {
+  try {
+    const authHeader = request.headers.get('Authorization');
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return null;
+    }
+
+    const token = authHeader.substring(7);
+
+    const supabase = createClient(
+      denoEnv.get('SUPABASE_URL') || '',
+      denoEnv.get('SUPABASE_ANON_KEY') || ''
+    );
+
+    const {
+      data: { user },
+      error,
+    } = await supabase.auth.getUser(token);
+    if (error || !user) {
+      return null;
+    }
+
+    return user.id;
+  } catch (error: any) {
+    console.error('Error extracting user from request:', error);
+    return null;
+  }
+}
+
+/**
+ * Parse and validate query parameters
+ */
+function parseQueryParams(url: URL): { params?: TranscriptSearchParams; error?: string } {
+  const q = (url.searchParams.get('q') || '').trim();
+  if (q.length < MIN_QUERY_LENGTH || q.length > MAX_QUERY_LENGTH) {
+    return {
+      error: `Query parameter "q" must be between ${MIN_QUERY_LENGTH} and ${MAX_QUERY_LENGTH} characters`,
+    };
+  }
+
+  const language = url.searchParams.get('language') || undefined;
+  if (language && !/^[a-z]{2}(-[A-Z]{2})?$/.test(language)) {
+    return { error: 'language must be a valid ISO 639-1 code (e.g., en, vi)' };
+  }
+
+  // Parse limit (default 20, max 50)
+  const limit = Math.min(Math.max(1, parseInt(url.searchParams.get('limit') || '', 10) || 20), 50);
+
+  // Parse offset (default 0)
+  const offset = Math.max(0, parseInt(url.searchParams.get('offset') || '', 10) || 0);
+
+  return { params: { q, language, limit, offset } };
+}
+
+/**
+ * Main serve function
+ */
+serve(async req => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 200,
+      headers: {
+        ...securityHeaders,
+        ...corsHeaders,
+      },
+    });
+  }
+
+  // Only allow GET requests
+  if (req.method !== 'GET') {
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: {
+          code: 'METHOD_NOT_ALLOWED',
+          message: 'Only GET method is allowed',
+        },
+      }),
+      {
+        status: 405,
+        headers: {
+          ...securityHeaders,
+          ...corsHeaders,
+          Allow: 'GET, OPTIONS',
+        },
+      }
+    );
+  }
+
+  try {
+    // Extract user ID from JWT
+    const userId = await extractUserFromRequest(req);
+    if (!userId) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: {
+            code: 'AUTHENTICATION_ERROR',
+            message: 'Authentication required',
+          },
+        }),
+        {
+          status: 401,
+          headers: { ...securityHeaders, ...corsHeaders },
+        }
+      );
+    }
+
+    // Parse query parameters
+    const { params, error: paramsError } = parseQueryParams(new URL(req.url));
+    if (!params) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: paramsError,
+          },
+        }),
+        {
+          status: 400,
+          headers: { ...securityHeaders, ...corsHeaders },
+        }
+      );
+    }
+
+    // Initialize Supabase client
+    const supabaseUrl = denoEnv.get('SUPABASE_URL');
+    const supabaseServiceKey = denoEnv.get('SUPABASE_SERVICE_ROLE_KEY');
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      throw new Error('Supabase configuration missing');
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Ranked search over segments of videos in the user's history
+    const search = (limit: number, offset: number) =>
+      supabase.rpc('search_user_transcripts', {
+        p_user_id: userId,
+        p_query: params.q,
+        p_language_code: params.language ?? null,
+        p_limit: limit,
+        p_offset: offset,
+      });
+
+    const { data: rows, error } = await search(params.limit, params.offset);
+
+    if (error) {
+      console.error('Transcript search failed:', error);
+      throw error;
+    }
+
+    // Every row carries the total match count; a page past the end has no
+    // rows, so the count comes from the first match instead
+    let total = rows && rows.length > 0 ? Number(rows[0].total_count) : 0;
+    if (total === 0 && params.offset > 0) {
+      const { data: firstRows, error: countError } = await search(1, 0);
+
+      if (countError) {
+        console.error('Transcript search count failed:', countError);
+        throw countError;
+      }
+
+      total = firstRows && firstRows.length > 0 ? Number(firstRows[0].total_count) : 0;
+    }
+
+    // Transform data
+    const results: TranscriptSearchHit[] = (rows || []).map((row: any) => {
+      const start = Number(row.start_time);
+      return {
+        videoId: row.video_id,
+        videoTitle: row.video_title,
+        channelName: row.channel_name,
+        thumbnailUrl: row.thumbnail_url,
+        durationSeconds: row.duration_seconds,
+        language: row.language_code,
+        segmentIndex: row.segment_index,
+        start,
+        duration: Number(row.duration),
+        text: row.text,
+        highlight: row.highlight,
+        rank: row.rank,
+        url: `https://www.youtube.com/watch?v=${row.video_id}&t=${Math.floor(start)}s`,
+      };
+    });
+
+    const hasMore = params.offset + params.limit < total;
+
+    // Return response
+    return new Response(
+      JSON.stringify({
+        success: true,
+        data: {
+          query: params.q,
+          results,
+          total,
+          hasMore,
+        },
+      } as TranscriptSearchResponse),
+      {
+        status: 200,
+        headers: { ...securityHeaders, ...corsHeaders },
+      }
+    );
+  } catch (error: any) {
+    console.error('Request failed:', error);
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'An unexpected error occurred',
+        },
+      } as TranscriptSearchResponse),
+      {
+        status: 500,
+        headers: { ...securityHeaders, ...corsHeaders },
+      }
+    );
+  }
+});
@@ -0,0 +1,224 @@
+// List stored versions of a transcript and diff two of them
+
+import { createCorsErrorResponse, createCorsResponse, createCorsSuccessResponse } from '@/cors';
+import { denoEnv } from '@/shared-deno-env';
+import { AppError, createAppError, ErrorType, handleUnknownError } from '@/shared-errors';
+import { createClient } from '@supabase/supabase-js';
+import { serve } from 'std/http/server.ts';
+import type {
+  TranscriptVersionInfo,
+  TranscriptVersionsParams,
+  TranscriptVersionsResponse,
+} from '../../types/youtube.ts';
+import { diffTranscripts } from '../../utils/transcript-diff.ts';
+
+/**
+ * Parse a positive version number query parameter
+ */
+function parseVersion(url: URL, name: string, errors: string[]): number | undefined {
+  const value = url.searchParams.get(name);
+  if (value === null) {
+    return undefined;
+  }
+
+  const version = Number(value);
+  if (!Number.isInteger(version) || version < 1) {
+    errors.push(`${name} must be a positive integer`);
+  }
+  return version;
+}
+
+/**
+ * Parse and validate query parameters
+ */
+function parseQueryParams(url: URL): { params?: TranscriptVersionsParams; errors: string[] } {
+  const errors: string[] = [];
+
+  const videoId = url.searchParams.get('videoId') || '';
+  if (!/^[a-zA-Z0-9_-]{11}$/.test(videoId)) {
+    errors.push('videoId must be a valid YouTube video ID');
+  }
+
+  const language = url.searchParams.get('language') || 'en';
+  if (!/^[a-z]{2}(-[A-Z]{2})?$/.test(language)) {
+    errors.push('language must be a valid ISO 639-1 code (e.g., en, vi)');
+  }
+
+  const from = parseVersion(url, 'from', errors);
+  const to = parseVersion(url, 'to', errors);
+  if ((from === undefined) !== (to === undefined)) {
+    errors.push('from and to must be given together');
+  }
+
+  if (errors.length > 0) {
+    return { errors };
+  }
+
+  return { params: { videoId, language, from, to }, errors };
+}
+
+/**
+ * Load the transcript row for a video and language
+ */
+async function getTranscript(
+  supabase: any,
+  videoId: string,
+  language: string
+): Promise<{ id: string; current_version: number } | null> {
+  const { data: video, error: videoError } = await supabase
+    .from('youtube_videos')
+    .select('id')
+    .eq('video_id', videoId)
+    .single();
+
+  if (videoError || !video) {
+    return null;
+  }
+
+  const { data: transcript, error } = await supabase
+    .from('video_transcripts')
+    .select('id, current_version')
+    .eq('video_id', video.id)
+    .eq('language_code', language)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return transcript;
+}
+
+/**
+ * Main serve function
+ */
+serve(async req => {
+  // Generate a request ID for tracking
+  const requestId = crypto.randomUUID();
+
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return createCorsResponse();
+  }
+
+  // Only allow GET requests
+  if (req.method !== 'GET') {
+    return createCorsErrorResponse('Only GET method is allowed', 405, requestId, {
+      code: 'METHOD_NOT_ALLOWED',
+      allowedMethods: ['GET'],
+    });
+  }
+
+  try {
+    // Parse query parameters
+    const { params, errors } = parseQueryParams(new URL(req.url));
+    if (!params) {
+      throw createAppError(
+        ErrorType.VALIDATION_ERROR,
+        'Invalid request parameters',
+        {
+          code: 'VALIDATION_ERROR',
+          details: errors,
+        },
+        requestId
+      );
+    }
+
+    // Initialize Supabase client
+    const supabaseUrl = denoEnv.get('SUPABASE_URL');
+    const supabaseServiceKey = denoEnv.get('SUPABASE_SERVICE_ROLE_KEY');
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      throw new Error('Supabase configuration missing');
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const transcript = await getTranscript(supabase, params.videoId, params.language!);
+    if (!transcript) {
+      return createCorsErrorResponse(
+        'No stored transcript found for this video. Extract the transcript first.',
+        404,
+        requestId,
+        { code: 'TRANSCRIPT_NOT_FOUND' }
+      );
+    }
+
+    const { data: rows, error } = await supabase
+      .from('video_transcript_versions')
+      .select(
+        'version, source, source_model, caption_format, segment_count, diff_summary, remapped_timestamps, created_at'
+      )
+      .eq('transcript_id', transcript.id)
+      .order('version', { ascending: false });
+
+    if (error) {
+      throw error;
+    }
+
+    const versions: TranscriptVersionInfo[] = (rows || []).map((row: any) => ({
+      version: row.version,
+      source: row.source,
+      sourceModel: row.source_model || undefined,
+      captionFormat: row.caption_format || undefined,
+      segmentCount: row.segment_count,
+      diffSummary: row.diff_summary || undefined,
+      remappedTimestamps: row.remapped_timestamps,
+      createdAt: row.created_at,
+    }));
+
+    // Diff two versions on request; segments are only loaded for those two
+    let diff: NonNullable<TranscriptVersionsResponse['data']>['diff'];
+    if (params.from !== undefined && params.to !== undefined) {
+      const { data: pair, error: pairError } = await supabase
+        .from('video_transcript_versions')
+        .select('version, segments')
+        .eq('transcript_id', transcript.id)
+        .in('version', [params.from, params.to]);
+
+      if (pairError) {
+        throw pairError;
+      }
+
+      const from = pair?.find((row: any) => row.version === params.from);
+      const to = pair?.find((row: any) => row.version === params.to);
+      if (!from || !to) {
+        return createCorsErrorResponse('Transcript version not found', 404, requestId, {
+          code: 'VERSION_NOT_FOUND',
+        });
+      }
+
+      diff = {
+        from: params.from,
+        to: params.to,
+        ...diffTranscripts(from.segments, to.segments),
+      };
+    }
+
+    return createCorsSuccessResponse(
+      {
+        success: true,
+        data: {
+          videoId: params.videoId,
+          language: params.language!,
+          currentVersion: transcript.current_version,
+          versions,
+          ...(diff && { diff }),
+        },
+      } as TranscriptVersionsResponse,
+      200,
+      requestId
+    );
+  } catch (error: any) {
+    console.error('Request failed:', error);
+
+    // If it's already an AppError, return it directly
+    if (error instanceof AppError) {
+      return error.toHttpResponse();
+    }
+
+    // For any other unknown errors
+    const appError = handleUnknownError(error, requestId);
+    return appError.toHttpResponse();
+  }
+});
@@ -0,0 +1,159 @@
+// Background worker that drains the transcript extraction queue
+
+import { corsHeaders } from '@/cors';
+import { denoEnv } from '@/shared-deno-env';
+import { createClient } from '@supabase/supabase-js';
+import { serve } from 'std/http/server.ts';
+import { createASRTranscriptSource } from '../../utils/asr-transcript-source.ts';
+import {
+  parseTranscriptSourceOrder,
+  TranscriptSourceChain,
+} from '../../utils/transcript-sources.ts';
+import {
+  claimTranscriptJobs,
+  finishTranscriptJob,
+  saveTranscriptRecord,
+  toTranscriptRecordInput,
+} from '../../utils/transcript-store.ts';
+import { transcriptExtractor } from '../../utils/youtube-transcript.ts';
+
+/**
+ * Security headers
+ */
+const securityHeaders = {
+  'Content-Type': 'application/json',
+  'X-Content-Type-Options': 'nosniff',
+  'X-Frame-Options': 'DENY',
+  'X-XSS-Protection': '1; mode=block',
+  'Strict-Transport-Security': 'max-age=63072000; includeSubDomains; preload',
+  'Cache-Control': 'no-cache, no-store, must-revalidate',
+};
+
+/**
+ * Jobs processed per invocation
+ */
+const DEFAULT_BATCH_SIZE = 5;
+const MAX_BATCH_SIZE = 20;
+
+/**
+ * Transcript sources in the configured order (TRANSCRIPT_SOURCES)
+ */
+const transcriptSources = new TranscriptSourceChain(
+  {
+    captions: transcriptExtractor,
+    asr: createASRTranscriptSource(key => denoEnv.get(key)),
+  },
+  parseTranscriptSourceOrder(denoEnv.get('TRANSCRIPT_SOURCES'))
+);
+
+/**
+ * Main serve function. Invoked by a scheduler with the service role key.
+ */
+serve(async req => {
+  // Only allow POST requests
+  if (req.method !== 'POST') {
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: {
+          code: 'METHOD_NOT_ALLOWED',
+          message: 'Only POST method is allowed',
+        },
+      }),
+      {
+        status: 405,
+        headers: { ...securityHeaders, ...corsHeaders, Allow: 'POST' },
+      }
+    );
+  }
+
+  const supabaseUrl = denoEnv.get('SUPABASE_URL');
+  const supabaseServiceKey = denoEnv.get('SUPABASE_SERVICE_ROLE_KEY');
+
+  if (!supabaseServiceKey || req.headers.get('Authorization') !== `Bearer ${supabaseServiceKey}`) {
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: {
+          code: 'AUTHENTICATION_ERROR',
+          message: 'Service role authorization required',
+        },
+      }),
+      {
+        status: 401,
+        headers: { ...securityHeaders, ...corsHeaders },
+      }
+    );
+  }
+
+  try {
+    if (!supabaseUrl) {
+      throw new Error('Supabase configuration missing');
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const url = new URL(req.url);
+    const batchSize = Math.min(
+      Math.max(1, parseInt(url.searchParams.get('batchSize') || '', 10) || DEFAULT_BATCH_SIZE),
+      MAX_BATCH_SIZE
+    );
+
+    const jobs = await claimTranscriptJobs(supabase, batchSize);
+    const results = [];
+
+    // Jobs run one at a time to stay polite to YouTube's caption endpoint
+    // (and to the speech-to-text server)
+    for (const job of jobs) {
+      let errorMessage: string | undefined;
+
+      try {
+        const transcript = await transcriptSources.extract(job.video_id, job.language_code);
+
+        await saveTranscriptRecord(
+          supabase,
+          job.video_record_id,
+          toTranscriptRecordInput(transcript)
+        );
+      } catch (error: any) {
+        console.error('Transcript job failed:', job.id, error);
+        errorMessage = error instanceof Error ? error.message : String(error);
+      }
+
+      const status = await finishTranscriptJob(supabase, job, errorMessage);
+      results.push({ jobId: job.id, videoId: job.video_id, status, error: errorMessage });
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        data: {
+          processed: results.length,
+          results,
+          processedAt: new Date().toISOString(),
+        },
+      }),
+      {
+        status: 200,
+        headers: { ...securityHeaders, ...corsHeaders },
+      }
+    );
+  } catch (error: any) {
+    console.error('Request failed:', error);
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'An unexpected error occurred',
+          details: error instanceof Error ? error.message : undefined,
+        },
+      }),
+      {
+        status: 500,
+        headers: { ...securityHeaders, ...corsHeaders },
+      }
+    );
+  }
+});
@@ -0,0 +1,288 @@
+// Video chapters endpoint: description timestamps with AI topic segmentation fallback
+
+import { createCorsErrorResponse, createCorsResponse, createCorsSuccessResponse } from '@/cors';
+import { denoEnv } from '@/shared-deno-env';
+import { RateLimiter } from '@/rate-limiting';
+import { AppError, createAppError, ErrorType, handleUnknownError } from '@/shared-errors';
+import { createClient } from '@supabase/supabase-js';
+import { serve } from 'std/http/server.ts';
+import { resolveLLMConfig } from '../../../ai-processing/utils/llm-provider.ts';
+import { openAIClient } from '../../../ai-processing/utils/openai-client.ts';
+import type {
+  TranscriptSegment,
+  VideoChaptersParams,
+  VideoChaptersResponse,
+} from '../../types/youtube.ts';
+import {
+  getStoredChapters,
+  getStoredTranscriptSegments,
+  saveChapters,
+  StoredChapters,
+  withChapterSegments,
+} from '../../utils/chapter-store.ts';
+import { ChapterSegmenter, detectChapters } from '../../utils/chapters.ts';
+import { transcriptExtractor } from '../../utils/youtube-transcript.ts';
+
+// Chapter detection can call the LLM, so it is limited per user per day.
+// Stored chapters are served without limit.
+const detectionRateLimiter = new RateLimiter({
+  windowMs: 24 * 60 * 60 * 1000, // 24 hours
+  requestsPerMinute: parseInt(denoEnv.get('CHAPTERS_RATE_LIMIT') || '20'), // Per window
+  keyGenerator: userId => `video-chapters:${userId}`,
+});
+
+/**
+ * Extract user from JWT token
+ */
+async function extractUserFromRequest(request: Request): Promise<string | null> {
+  try {
+    const authHeader = request.headers.get('Authorization');
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return null;
+    }
+
+    const token = authHeader.substring(7);
+
+    const supabase = createClient(
+      denoEnv.get('SUPABASE_URL') || '',
+      denoEnv.get('SUPABASE_ANON_KEY') || ''
+    );
+
+    const {
+      data: { user },
+      error,
+    } = await supabase.auth.getUser(token);
+    if (error || !user) {
+      return null;
+    }
+
+    return user.id;
+  } catch (error: any) {
+    console.error('Error extracting user from request:', error);
+    return null;
+  }
+}
+
+/**
+ * Parse and validate query parameters
+ */
+function parseQueryParams(url: URL): { params?: VideoChaptersParams; errors: string[] } {
+  const errors: string[] = [];
+
+  const videoId = url.searchParams.get('videoId') || '';
+  if (!/^[a-zA-Z0-9_-]{11}$/.test(videoId)) {
+    errors.push('videoId must be a valid YouTube video ID');
+  }
+
+  const language = url.searchParams.get('language') || undefined;
+  if (language && !/^[a-z]{2}(-[A-Z]{2})?$/.test(language)) {
+    errors.push('language must be a valid ISO 639-1 code (e.g., en, vi)');
+  }
+
+  if (errors.length > 0) {
+    return { errors };
+  }
+
+  return {
+    params: {
+      videoId,
+      language,
+      includeSegments: url.searchParams.get('includeSegments') === 'true',
+      refresh: url.searchParams.get('refresh') === 'true',
+    },
+    errors,
+  };
+}
+
+/**
+ * Whether an LLM provider is configured for chapter segmentation
+ */
+function hasChapterProvider(): boolean {
+  try {
+    resolveLLMConfig('chapters', key => denoEnv.get(key));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Load the transcript used for segment mapping: the stored one if present,
+ * otherwise extracted from YouTube. Videos without captions yield null.
+ */
+async function loadTranscript(
+  supabase: any,
+  videoRecordId: string,
+  videoId: string,
+  language?: string
+): Promise<{ language: string; segments: TranscriptSegment[] } | null> {
+  const stored = await getStoredTranscriptSegments(supabase, videoRecordId, language);
+  if (stored) {
+    return stored;
+  }
+
+  try {
+    const extracted = await transcriptExtractor.extractTranscript(videoId, language);
+    return { language: extracted.language.code, segments: extracted.segments };
+  } catch (error: any) {
+    console.error('Transcript unavailable for chapter detection:', error);
+    return null;
+  }
+}
+
+/**
+ * Main serve function
+ */
+serve(async req => {
+  // Generate a request ID for tracking
+  const requestId = crypto.randomUUID();
+
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return createCorsResponse();
+  }
+
+  // Only allow GET requests
+  if (req.method !== 'GET') {
+    return createCorsErrorResponse('Only GET method is allowed', 405, requestId, {
+      code: 'METHOD_NOT_ALLOWED',
+      allowedMethods: ['GET'],
+    });
+  }
+
+  try {
+    // Parse query parameters
+    const { params, errors } = parseQueryParams(new URL(req.url));
+    if (!params) {
+      throw createAppError(
+        ErrorType.VALIDATION_ERROR,
+        'Invalid request parameters',
+        {
+          code: 'VALIDATION_ERROR',
+          details: errors,
+        },
+        requestId
+      );
+    }
+
+    // Initialize Supabase client
+    const supabaseUrl = denoEnv.get('SUPABASE_URL');
+    const supabaseServiceKey = denoEnv.get('SUPABASE_SERVICE_ROLE_KEY');
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      throw new Error('Supabase configuration missing');
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data: video, error: videoError } = await supabase
+      .from('youtube_videos')
+      .select('id, title, description, duration_seconds')
+      .eq('video_id', params.videoId)
+      .single();
+
+    if (videoError || !video) {
+      return createCorsErrorResponse('Video not found. Analyze the video first.', 404, requestId, {
+        code: 'VIDEO_NOT_FOUND',
+      });
+    }
+
+    // Stored chapters are reused unless a refresh is requested
+    let result: StoredChapters | null = params.refresh
+      ? null
+      : await getStoredChapters(supabase, video.id);
+    const cached = !!result;
+    let transcript: { language: string; segments: TranscriptSegment[] } | null = null;
+
+    if (!result) {
+      // Anonymous callers only get stored chapters
+      const userId = await extractUserFromRequest(req);
+      if (!userId) {
+        throw createAppError(
+          ErrorType.AUTHENTICATION_ERROR,
+          params.refresh
+            ? 'Authentication required to refresh chapters'
+            : 'Authentication required to detect chapters for this video',
+          { code: 'AUTHENTICATION_REQUIRED' },
+          requestId
+        );
+      }
+
+      const limit = await detectionRateLimiter.checkLimit(userId);
+      if (!limit.allowed) {
+        throw createAppError(
+          ErrorType.RATE_LIMIT_ERROR,
+          'Chapter detection limit reached. Please try again later.',
+          { code: 'RATE_LIMIT_EXCEEDED', retryAfter: limit.info.retryAfter },
+          requestId
+        );
+      }
+
+      transcript = await loadTranscript(supabase, video.id, params.videoId, params.language);
+
+      // AI segmentation is only attempted when a provider is configured
+      const segmenter: ChapterSegmenter | undefined = hasChapterProvider()
+        ? async outline => {
+            try {
+              const response = await openAIClient.segmentTopics(
+                video.title,
+                outline,
+                transcript?.language
+              );
+              return response.chapters;
+            } catch (error: any) {
+              console.error('AI chapter detection failed:', error);
+              return [];
+            }
+          }
+        : undefined;
+
+      const detected = await detectChapters(
+        {
+          description: video.description,
+          durationSeconds: video.duration_seconds,
+          segments: transcript?.segments,
+        },
+        segmenter
+      );
+
+      if (detected) {
+        result = { ...detected, language: transcript?.language };
+        await saveChapters(supabase, video.id, result);
+      }
+    }
+
+    let chapters = result?.chapters || [];
+    if (params.includeSegments && chapters.length > 0) {
+      transcript =
+        transcript || (await getStoredTranscriptSegments(supabase, video.id, result?.language));
+      chapters = withChapterSegments(chapters, transcript?.segments || []);
+    }
+
+    return createCorsSuccessResponse(
+      {
+        success: true,
+        data: {
+          videoId: params.videoId,
+          source: result?.source || null,
+          language: result?.language,
+          chapters,
+          cached,
+        },
+      } as VideoChaptersResponse,
+      200,
+      requestId
+    );
+  } catch (error: any) {
+    console.error('Request failed:', error);
+
+    // If it's already an AppError, return it directly
+    if (error instanceof AppError) {
+      return error.toHttpResponse();
+    }
+
+    // For any other unknown errors
+    const appError = handleUnknownError(error, requestId);
+    return appError.toHttpResponse();
+  }
+});
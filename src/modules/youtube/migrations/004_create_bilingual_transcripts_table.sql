@@ -0,0 +1,69 @@
+-- Create bilingual_transcripts table for caching aligned source/target transcripts
+
+-- Create bilingual_transcripts table
+CREATE TABLE IF NOT EXISTS public.bilingual_transcripts (
+  -- Primary key
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  -- Foreign key to youtube_videos
+  video_id UUID NOT NULL REFERENCES public.youtube_videos(id) ON DELETE CASCADE,
+
+  -- Language pair
+  requested_source_language TEXT NOT NULL, -- Source language the cache entry was requested for
+  source_language TEXT NOT NULL, -- ISO 639-1 code of the original transcript
+  source_language_name TEXT NOT NULL,
+  target_language TEXT NOT NULL, -- ISO 639-1 code of the translation
+
+  -- Aligned segments stored as JSONB array
+  -- Each segment: { start: number, duration: number, text: string, translatedText: string }
+  segments JSONB NOT NULL DEFAULT '[]',
+  segment_count INTEGER NOT NULL CHECK (segment_count >= 0),
+
+  -- Translation metadata
+  translation_provider TEXT NOT NULL,
+
+  -- Timestamps
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  -- Constraints
+  CONSTRAINT bilingual_transcripts_requested_source_language_check CHECK (requested_source_language ~ '^[a-z]{2}(-[A-Z]{2})?$'),
+  CONSTRAINT bilingual_transcripts_source_language_check CHECK (source_language ~ '^[a-z]{2}(-[A-Z]{2})?$'),
+  CONSTRAINT bilingual_transcripts_target_language_check CHECK (target_language ~ '^[a-z]{2}(-[A-Z]{2})?$'),
+  CONSTRAINT bilingual_transcripts_segments_check CHECK (jsonb_typeof(segments) = 'array'),
+  CONSTRAINT bilingual_transcripts_unique_video_languages UNIQUE (video_id, requested_source_language, target_language)
+);
+
+-- Create indexes for performance
+CREATE INDEX bilingual_transcripts_video_id_idx ON public.bilingual_transcripts(video_id);
+CREATE INDEX bilingual_transcripts_target_language_idx ON public.bilingual_transcripts(target_language);
+
+-- Enable Row Level Security
+ALTER TABLE public.bilingual_transcripts ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+-- Allow read access to all authenticated users
+CREATE POLICY "Authenticated users can view bilingual transcripts"
+  ON public.bilingual_transcripts
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Allow service role to manage bilingual transcripts
+CREATE POLICY "Service role can manage bilingual transcripts"
+  ON public.bilingual_transcripts
+  FOR ALL
+  TO service_role
+  USING (true);
+
+-- Create trigger for updated_at
+CREATE TRIGGER bilingual_transcripts_updated_at
+  BEFORE UPDATE ON public.bilingual_transcripts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+-- Comments for documentation
+COMMENT ON TABLE public.bilingual_transcripts IS 'Cached bilingual transcripts with each source segment paired with its translation';
+COMMENT ON COLUMN public.bilingual_transcripts.requested_source_language IS 'Source language requested by the client; differs from source_language when extraction fell back to another track';
+COMMENT ON COLUMN public.bilingual_transcripts.segments IS 'Array of transcript segments with start time, duration, source text and translated text';
+COMMENT ON COLUMN public.bilingual_transcripts.translation_provider IS 'Translation provider used to produce the target text (e.g., google, libretranslate)';
@@ -0,0 +1,11 @@
+-- Record which timedtext format each stored transcript was parsed from
+
+ALTER TABLE public.video_transcripts
+  ADD COLUMN IF NOT EXISTS caption_format TEXT;
+
+ALTER TABLE public.video_transcripts
+  ADD CONSTRAINT video_transcripts_caption_format_check
+  CHECK (caption_format IS NULL OR caption_format IN ('json3', 'srv3', 'srv1'));
+
+-- Comments for documentation
+COMMENT ON COLUMN public.video_transcripts.caption_format IS 'Timedtext format the captions were parsed from (json3, with srv3/srv1 XML as fallbacks); NULL for transcripts stored before tracking';
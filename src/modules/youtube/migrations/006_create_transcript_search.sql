@@ -0,0 +1,232 @@
+-- Full-text search across stored transcripts, one row per transcript segment
+
+-- Map an ISO 639-1 language code to a text search configuration
+-- Languages without a built-in configuration (e.g., vi, ja) fall back to 'simple'
+CREATE OR REPLACE FUNCTION public.transcript_search_config(p_language_code TEXT)
+RETURNS regconfig AS $$
+  SELECT CASE split_part(lower(p_language_code), '-', 1)
+    WHEN 'ar' THEN 'arabic'
+    WHEN 'da' THEN 'danish'
+    WHEN 'de' THEN 'german'
+    WHEN 'el' THEN 'greek'
+    WHEN 'en' THEN 'english'
+    WHEN 'es' THEN 'spanish'
+    WHEN 'fi' THEN 'finnish'
+    WHEN 'fr' THEN 'french'
+    WHEN 'hu' THEN 'hungarian'
+    WHEN 'id' THEN 'indonesian'
+    WHEN 'it' THEN 'italian'
+    WHEN 'nl' THEN 'dutch'
+    WHEN 'no' THEN 'norwegian'
+    WHEN 'pt' THEN 'portuguese'
+    WHEN 'ro' THEN 'romanian'
+    WHEN 'ru' THEN 'russian'
+    WHEN 'sv' THEN 'swedish'
+    WHEN 'tr' THEN 'turkish'
+    ELSE 'simple'
+  END::regconfig;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Create video_transcript_segments table
+CREATE TABLE IF NOT EXISTS public.video_transcript_segments (
+  -- Primary key
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  -- Foreign keys
+  transcript_id UUID NOT NULL REFERENCES public.video_transcripts(id) ON DELETE CASCADE,
+  video_id UUID NOT NULL REFERENCES public.youtube_videos(id) ON DELETE CASCADE,
+
+  -- Segment data (copied from video_transcripts.segments)
+  language_code TEXT NOT NULL,
+  segment_index INTEGER NOT NULL CHECK (segment_index >= 0), -- Position in the segments array
+  start_time NUMERIC NOT NULL DEFAULT 0,
+  duration NUMERIC NOT NULL DEFAULT 0,
+  text TEXT NOT NULL,
+
+  -- Search data
+  search_config regconfig NOT NULL,
+  search_vector tsvector GENERATED ALWAYS AS (to_tsvector(search_config, text)) STORED,
+
+  -- Constraints
+  CONSTRAINT video_transcript_segments_unique_index UNIQUE (transcript_id, segment_index)
+);
+
+-- Create indexes for performance
+CREATE INDEX video_transcript_segments_search_idx ON public.video_transcript_segments USING gin(search_vector);
+CREATE INDEX video_transcript_segments_video_language_idx ON public.video_transcript_segments(video_id, language_code);
+
+-- Enable Row Level Security
+ALTER TABLE public.video_transcript_segments ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+-- Allow read access to all authenticated users (same as video_transcripts)
+CREATE POLICY "Authenticated users can view transcript segments"
+  ON public.video_transcript_segments
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Allow service role to manage transcript segments
+CREATE POLICY "Service role can manage transcript segments"
+  ON public.video_transcript_segments
+  FOR ALL
+  TO service_role
+  USING (true);
+
+-- Keep segment rows in sync with video_transcripts.segments
+CREATE OR REPLACE FUNCTION public.sync_transcript_segments()
+RETURNS TRIGGER AS $$
+BEGIN
+  DELETE FROM public.video_transcript_segments WHERE transcript_id = NEW.id;
+
+  INSERT INTO public.video_transcript_segments (
+    transcript_id,
+    video_id,
+    language_code,
+    segment_index,
+    start_time,
+    duration,
+    text,
+    search_config
+  )
+  SELECT
+    NEW.id,
+    NEW.video_id,
+    NEW.language_code,
+    (s.ordinality - 1)::INTEGER,
+    COALESCE((s.segment->>'start')::NUMERIC, 0),
+    COALESCE((s.segment->>'duration')::NUMERIC, 0),
+    s.segment->>'text',
+    public.transcript_search_config(NEW.language_code)
+  FROM jsonb_array_elements(NEW.segments) WITH ORDINALITY AS s(segment, ordinality)
+  WHERE COALESCE(s.segment->>'text', '') <> '';
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER video_transcripts_sync_segments
+  AFTER INSERT OR UPDATE OF segments, language_code ON public.video_transcripts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_transcript_segments();
+
+-- Backfill existing transcripts
+INSERT INTO public.video_transcript_segments (
+  transcript_id,
+  video_id,
+  language_code,
+  segment_index,
+  start_time,
+  duration,
+  text,
+  search_config
+)
+SELECT
+  vt.id,
+  vt.video_id,
+  vt.language_code,
+  (s.ordinality - 1)::INTEGER,
+  COALESCE((s.segment->>'start')::NUMERIC, 0),
+  COALESCE((s.segment->>'duration')::NUMERIC, 0),
+  s.segment->>'text',
+  public.transcript_search_config(vt.language_code)
+FROM public.video_transcripts vt
+CROSS JOIN LATERAL jsonb_array_elements(vt.segments) WITH ORDINALITY AS s(segment, ordinality)
+WHERE COALESCE(s.segment->>'text', '') <> ''
+ON CONFLICT (transcript_id, segment_index) DO NOTHING;
+
+-- Function to search every transcript in a user's watch history
+-- The query is parsed once per search configuration in use, so each segment
+-- is matched with the stemming rules of its own language. Highlights are
+-- HTML-escaped with matches wrapped in <mark> tags.
+CREATE OR REPLACE FUNCTION public.search_user_transcripts(
+  p_user_id UUID,
+  p_query TEXT,
+  p_language_code TEXT DEFAULT NULL,
+  p_limit INTEGER DEFAULT 20,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE(
+  video_id TEXT,
+  video_title TEXT,
+  channel_name TEXT,
+  thumbnail_url TEXT,
+  duration_seconds INTEGER,
+  language_code TEXT,
+  segment_index INTEGER,
+  start_time NUMERIC,
+  duration NUMERIC,
+  text TEXT,
+  highlight TEXT,
+  rank REAL,
+  total_count BIGINT
+) AS $$
+BEGIN
+  RETURN QUERY
+  WITH user_videos AS (
+    SELECT h.video_id
+    FROM public.user_video_history h
+    WHERE h.user_id = p_user_id
+  ),
+  queries AS (
+    SELECT DISTINCT
+      public.transcript_search_config(vt.language_code) AS config,
+      websearch_to_tsquery(public.transcript_search_config(vt.language_code), p_query) AS query
+    FROM public.video_transcripts vt
+    JOIN user_videos uv ON uv.video_id = vt.video_id
+    WHERE p_language_code IS NULL OR vt.language_code = p_language_code
+  ),
+  hits AS (
+    SELECT
+      s.video_id AS video_record_id,
+      s.language_code,
+      s.segment_index,
+      s.start_time,
+      s.duration,
+      s.text,
+      s.search_config,
+      q.query,
+      ts_rank_cd(s.search_vector, q.query) AS rank,
+      COUNT(*) OVER () AS total_count
+    FROM public.video_transcript_segments s
+    JOIN queries q ON q.config = s.search_config
+    JOIN user_videos uv ON uv.video_id = s.video_id
+    WHERE s.search_vector @@ q.query
+      AND (p_language_code IS NULL OR s.language_code = p_language_code)
+    ORDER BY ts_rank_cd(s.search_vector, q.query) DESC, s.video_id, s.start_time
+    LIMIT p_limit
+    OFFSET p_offset
+  )
+  SELECT
+    v.video_id,
+    v.title AS video_title,
+    v.channel_name,
+    v.thumbnail_url,
+    v.duration_seconds,
+    hits.language_code,
+    hits.segment_index,
+    hits.start_time,
+    hits.duration,
+    hits.text,
+    ts_headline(
+      hits.search_config,
+      replace(replace(replace(hits.text, '&', '&amp;'), '<', '&lt;'), '>', '&gt;'),
+      hits.query,
+      'StartSel="<mark>", StopSel="</mark>", MaxWords=35, MinWords=15, HighlightAll=false'
+    ) AS highlight,
+    hits.rank,
+    hits.total_count
+  FROM hits
+  JOIN public.youtube_videos v ON v.id = hits.video_record_id
+  ORDER BY hits.rank DESC, v.video_id, hits.start_time;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.search_user_transcripts(UUID, TEXT, TEXT, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.search_user_transcripts(UUID, TEXT, TEXT, INTEGER, INTEGER) TO service_role;
+
+-- Comments for documentation
+COMMENT ON TABLE public.video_transcript_segments IS 'One row per transcript segment with a tsvector for full-text search; kept in sync with video_transcripts.segments by trigger';
+COMMENT ON COLUMN public.video_transcript_segments.segment_index IS 'Zero-based position of the segment in video_transcripts.segments';
+COMMENT ON COLUMN public.video_transcript_segments.search_config IS 'Text search configuration derived from the transcript language';
+COMMENT ON FUNCTION public.search_user_transcripts IS 'Ranked full-text search over transcripts of videos in a user''s watch history';
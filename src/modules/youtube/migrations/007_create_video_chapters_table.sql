@@ -0,0 +1,67 @@
+-- Create video_chapters table for chapters parsed from descriptions or detected by AI
+
+-- Create video_chapters table
+CREATE TABLE IF NOT EXISTS public.video_chapters (
+  -- Primary key
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  -- Foreign key to youtube_videos
+  video_id UUID NOT NULL REFERENCES public.youtube_videos(id) ON DELETE CASCADE,
+
+  -- Chapter data
+  chapter_index INTEGER NOT NULL CHECK (chapter_index >= 0),
+  title TEXT NOT NULL,
+  start_seconds NUMERIC NOT NULL CHECK (start_seconds >= 0),
+  end_seconds NUMERIC NOT NULL,
+  source TEXT NOT NULL, -- 'description' or 'ai'
+
+  -- Transcript segments covered by the chapter (inclusive range)
+  language_code TEXT, -- Transcript language the segment indices refer to
+  segment_start_index INTEGER,
+  segment_end_index INTEGER,
+
+  -- Timestamps
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  -- Constraints
+  CONSTRAINT video_chapters_source_check CHECK (source IN ('description', 'ai')),
+  CONSTRAINT video_chapters_range_check CHECK (end_seconds >= start_seconds),
+  CONSTRAINT video_chapters_segments_check CHECK (
+    (segment_start_index IS NULL AND segment_end_index IS NULL)
+    OR (segment_start_index >= 0 AND segment_end_index >= segment_start_index)
+  ),
+  CONSTRAINT video_chapters_unique_index UNIQUE (video_id, chapter_index)
+);
+
+-- Create indexes for performance
+CREATE INDEX video_chapters_video_id_idx ON public.video_chapters(video_id);
+
+-- Enable Row Level Security
+ALTER TABLE public.video_chapters ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+-- Allow read access to all authenticated users
+CREATE POLICY "Authenticated users can view video chapters"
+  ON public.video_chapters
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Allow service role to manage video chapters
+CREATE POLICY "Service role can manage video chapters"
+  ON public.video_chapters
+  FOR ALL
+  TO service_role
+  USING (true);
+
+-- Create trigger for updated_at
+CREATE TRIGGER video_chapters_updated_at
+  BEFORE UPDATE ON public.video_chapters
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+-- Comments for documentation
+COMMENT ON TABLE public.video_chapters IS 'Chapters per video, parsed from description timestamps or detected by AI topic segmentation of the transcript';
+COMMENT ON COLUMN public.video_chapters.source IS 'description when parsed from the video description, ai when detected from the transcript';
+COMMENT ON COLUMN public.video_chapters.segment_start_index IS 'Index of the first transcript segment in the chapter, in the language_code transcript';
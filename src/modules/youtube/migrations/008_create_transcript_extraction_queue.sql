@@ -0,0 +1,108 @@
+-- Create transcript_extraction_queue table for background transcript extraction of ingested videos
+
+-- Create transcript_extraction_queue table
+CREATE TABLE IF NOT EXISTS public.transcript_extraction_queue (
+  -- Primary key
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  -- Foreign key to youtube_videos
+  video_id UUID NOT NULL REFERENCES public.youtube_videos(id) ON DELETE CASCADE,
+
+  -- Job data
+  language_code TEXT NOT NULL DEFAULT 'en',
+  status TEXT NOT NULL DEFAULT 'pending',
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  requested_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+
+  -- Processing timestamps
+  locked_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ,
+
+  -- Timestamps
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  -- Constraints
+  CONSTRAINT transcript_extraction_queue_status_check CHECK (
+    status IN ('pending', 'processing', 'completed', 'failed')
+  ),
+  CONSTRAINT transcript_extraction_queue_attempts_check CHECK (attempts >= 0),
+  CONSTRAINT transcript_extraction_queue_unique_job UNIQUE (video_id, language_code)
+);
+
+-- Create indexes for performance
+CREATE INDEX transcript_extraction_queue_pending_idx
+  ON public.transcript_extraction_queue(created_at)
+  WHERE status IN ('pending', 'processing');
+CREATE INDEX transcript_extraction_queue_requested_by_idx
+  ON public.transcript_extraction_queue(requested_by);
+
+-- Enable Row Level Security
+ALTER TABLE public.transcript_extraction_queue ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+-- Users can view the jobs they requested
+CREATE POLICY "Users can view own transcript jobs"
+  ON public.transcript_extraction_queue
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = requested_by);
+
+-- Allow service role to manage the queue
+CREATE POLICY "Service role can manage transcript jobs"
+  ON public.transcript_extraction_queue
+  FOR ALL
+  TO service_role
+  USING (true);
+
+-- Create trigger for updated_at
+CREATE TRIGGER transcript_extraction_queue_updated_at
+  BEFORE UPDATE ON public.transcript_extraction_queue
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+-- Claim pending jobs for a worker. Jobs stuck in processing for more than
+-- 15 minutes are treated as abandoned and claimed again.
+CREATE OR REPLACE FUNCTION public.claim_transcript_jobs(p_limit INTEGER DEFAULT 5)
+RETURNS TABLE (
+  id UUID,
+  video_record_id UUID,
+  video_id TEXT,
+  language_code TEXT,
+  attempts INTEGER
+)
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH claimable AS (
+    SELECT q.id
+    FROM public.transcript_extraction_queue q
+    WHERE q.status = 'pending'
+       OR (q.status = 'processing' AND q.locked_at < NOW() - INTERVAL '15 minutes')
+    ORDER BY q.created_at
+    LIMIT GREATEST(p_limit, 0)
+    FOR UPDATE SKIP LOCKED
+  ),
+  claimed AS (
+    UPDATE public.transcript_extraction_queue q
+    SET status = 'processing',
+        attempts = q.attempts + 1,
+        locked_at = NOW()
+    FROM claimable
+    WHERE q.id = claimable.id
+    RETURNING q.id, q.video_id, q.language_code, q.attempts
+  )
+  SELECT claimed.id, claimed.video_id, v.video_id, claimed.language_code, claimed.attempts
+  FROM claimed
+  JOIN public.youtube_videos v ON v.id = claimed.video_id;
+$$;
+
+REVOKE ALL ON FUNCTION public.claim_transcript_jobs(INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_transcript_jobs(INTEGER) TO service_role;
+
+-- Comments for documentation
+COMMENT ON TABLE public.transcript_extraction_queue IS 'Transcript extraction jobs queued by playlist and channel ingestion';
+COMMENT ON COLUMN public.transcript_extraction_queue.attempts IS 'Number of times the job has been claimed by a worker';
+COMMENT ON FUNCTION public.claim_transcript_jobs(INTEGER) IS 'Claims up to p_limit pending jobs with FOR UPDATE SKIP LOCKED so concurrent workers never share a job';
@@ -0,0 +1,101 @@
+-- Track video availability and scheduled metadata refresh runs
+
+-- Add availability columns to youtube_videos
+ALTER TABLE public.youtube_videos
+  ADD COLUMN IF NOT EXISTS availability_status TEXT NOT NULL DEFAULT 'available',
+  ADD COLUMN IF NOT EXISTS unavailable_since TIMESTAMPTZ;
+
+ALTER TABLE public.youtube_videos
+  ADD CONSTRAINT youtube_videos_availability_check CHECK (
+    availability_status IN ('available', 'private', 'deleted')
+  );
+
+CREATE INDEX IF NOT EXISTS youtube_videos_availability_idx
+  ON public.youtube_videos(availability_status)
+  WHERE availability_status <> 'available';
+
+-- Deleted videos never come back, so they are no longer considered stale
+CREATE OR REPLACE FUNCTION public.get_stale_youtube_videos(p_limit INTEGER DEFAULT 10)
+RETURNS TABLE(video_id TEXT, last_refreshed_at TIMESTAMPTZ) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT yv.video_id, yv.last_refreshed_at
+  FROM public.youtube_videos yv
+  WHERE yv.availability_status <> 'deleted'
+    AND (yv.last_refreshed_at IS NULL
+      OR yv.last_refreshed_at < NOW() - INTERVAL '24 hours')
+  ORDER BY yv.last_refreshed_at NULLS FIRST
+  LIMIT p_limit;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.get_stale_youtube_videos(INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_stale_youtube_videos(INTEGER) TO service_role;
+
+-- Create youtube_metadata_refresh_runs table
+CREATE TABLE IF NOT EXISTS public.youtube_metadata_refresh_runs (
+  -- Primary key
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  -- Run outcome
+  status TEXT NOT NULL DEFAULT 'running',
+  videos_checked INTEGER NOT NULL DEFAULT 0,
+  videos_updated INTEGER NOT NULL DEFAULT 0,
+  videos_unavailable INTEGER NOT NULL DEFAULT 0,
+  quota_used INTEGER NOT NULL DEFAULT 0,
+  quota_budget INTEGER NOT NULL,
+  report JSONB NOT NULL DEFAULT '{}',
+  error TEXT,
+
+  -- Timestamps
+  started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  finished_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  -- Constraints
+  CONSTRAINT youtube_metadata_refresh_runs_status_check CHECK (
+    status IN ('running', 'completed', 'failed')
+  ),
+  CONSTRAINT youtube_metadata_refresh_runs_quota_check CHECK (quota_used >= 0)
+);
+
+-- Create indexes for performance
+CREATE INDEX youtube_metadata_refresh_runs_started_at_idx
+  ON public.youtube_metadata_refresh_runs(started_at DESC);
+
+-- Enable Row Level Security
+ALTER TABLE public.youtube_metadata_refresh_runs ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+-- Allow service role to manage refresh runs
+CREATE POLICY "Service role can manage metadata refresh runs"
+  ON public.youtube_metadata_refresh_runs
+  FOR ALL
+  TO service_role
+  USING (true);
+
+-- Create trigger for updated_at
+CREATE TRIGGER youtube_metadata_refresh_runs_updated_at
+  BEFORE UPDATE ON public.youtube_metadata_refresh_runs
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+-- Quota spent by refresh runs since the last daily reset. YouTube resets
+-- quota at midnight Pacific Time.
+CREATE OR REPLACE FUNCTION public.get_youtube_refresh_quota_used()
+RETURNS INTEGER AS $$
+  SELECT COALESCE(SUM(quota_used), 0)::INTEGER
+  FROM public.youtube_metadata_refresh_runs
+  WHERE started_at >= (DATE_TRUNC('day', NOW() AT TIME ZONE 'America/Los_Angeles')
+    AT TIME ZONE 'America/Los_Angeles');
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.get_youtube_refresh_quota_used() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_youtube_refresh_quota_used() TO service_role;
+
+-- Comments for documentation
+COMMENT ON COLUMN public.youtube_videos.availability_status IS 'available, private or deleted, as last seen by the metadata refresh';
+COMMENT ON COLUMN public.youtube_videos.unavailable_since IS 'When the video was first seen private or deleted';
+COMMENT ON TABLE public.youtube_metadata_refresh_runs IS 'One row per scheduled metadata refresh run, with the quota it used and a change report';
+COMMENT ON FUNCTION public.get_youtube_refresh_quota_used() IS 'Quota units used by refresh runs since midnight Pacific Time';
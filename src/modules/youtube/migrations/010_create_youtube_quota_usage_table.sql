@@ -0,0 +1,85 @@
+-- Create youtube_quota_usage ledger for YouTube Data API unit accounting
+
+-- YouTube resets the Data API quota at midnight Pacific Time
+CREATE OR REPLACE FUNCTION public.youtube_quota_day()
+RETURNS DATE AS $$
+  SELECT (NOW() AT TIME ZONE 'America/Los_Angeles')::DATE;
+$$ LANGUAGE sql STABLE;
+
+-- Create youtube_quota_usage table
+CREATE TABLE IF NOT EXISTS public.youtube_quota_usage (
+  -- Quota day and API operation (e.g. videos.list, search.list)
+  usage_date DATE NOT NULL DEFAULT public.youtube_quota_day(),
+  operation TEXT NOT NULL,
+
+  -- Usage
+  units INTEGER NOT NULL DEFAULT 0,
+  calls INTEGER NOT NULL DEFAULT 0,
+
+  -- Timestamps
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  -- Constraints
+  PRIMARY KEY (usage_date, operation),
+  CONSTRAINT youtube_quota_usage_units_check CHECK (units >= 0 AND calls >= 0)
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.youtube_quota_usage ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+-- Allow service role to manage quota usage
+CREATE POLICY "Service role can manage youtube quota usage"
+  ON public.youtube_quota_usage
+  FOR ALL
+  TO service_role
+  USING (true);
+
+-- Create trigger for updated_at
+CREATE TRIGGER youtube_quota_usage_updated_at
+  BEFORE UPDATE ON public.youtube_quota_usage
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+-- Record one call and return the units used so far today
+CREATE OR REPLACE FUNCTION public.record_youtube_quota_usage(
+  p_operation TEXT,
+  p_units INTEGER
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_day DATE := public.youtube_quota_day();
+  v_total INTEGER;
+BEGIN
+  INSERT INTO public.youtube_quota_usage (usage_date, operation, units, calls)
+  VALUES (v_day, p_operation, p_units, 1)
+  ON CONFLICT (usage_date, operation) DO UPDATE
+  SET units = public.youtube_quota_usage.units + EXCLUDED.units,
+      calls = public.youtube_quota_usage.calls + 1;
+
+  SELECT COALESCE(SUM(units), 0)::INTEGER INTO v_total
+  FROM public.youtube_quota_usage
+  WHERE usage_date = v_day;
+
+  RETURN v_total;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Usage per operation for a quota day (today by default)
+CREATE OR REPLACE FUNCTION public.get_youtube_quota_usage(p_date DATE DEFAULT NULL)
+RETURNS TABLE(operation TEXT, units INTEGER, calls INTEGER) AS $$
+  SELECT q.operation, q.units, q.calls
+  FROM public.youtube_quota_usage q
+  WHERE q.usage_date = COALESCE(p_date, public.youtube_quota_day())
+  ORDER BY q.units DESC;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.record_youtube_quota_usage(TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_youtube_quota_usage(TEXT, INTEGER) TO service_role;
+REVOKE ALL ON FUNCTION public.get_youtube_quota_usage(DATE) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_youtube_quota_usage(DATE) TO service_role;
+
+-- Comments for documentation
+COMMENT ON TABLE public.youtube_quota_usage IS 'YouTube Data API units spent per Pacific Time day and operation';
+COMMENT ON FUNCTION public.record_youtube_quota_usage(TEXT, INTEGER) IS 'Adds one call of p_units to today''s ledger and returns today''s total';
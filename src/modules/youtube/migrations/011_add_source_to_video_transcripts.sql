@@ -0,0 +1,13 @@
+-- Record which transcript source (caption scraping or speech-to-text) produced each transcript
+
+ALTER TABLE public.video_transcripts
+  ADD COLUMN IF NOT EXISTS source TEXT NOT NULL DEFAULT 'captions',
+  ADD COLUMN IF NOT EXISTS source_model TEXT;
+
+ALTER TABLE public.video_transcripts
+  ADD CONSTRAINT video_transcripts_source_check
+  CHECK (source IN ('captions', 'asr'));
+
+-- Comments for documentation
+COMMENT ON COLUMN public.video_transcripts.source IS 'Transcript source: captions (scraped from YouTube) or asr (speech-to-text fallback)';
+COMMENT ON COLUMN public.video_transcripts.source_model IS 'Speech-to-text model used for asr transcripts; NULL for captions';
@@ -0,0 +1,111 @@
+-- Keep every version of a transcript so caption fixes can be diffed and saved timestamps remapped
+
+-- Track the current version on the transcript itself
+ALTER TABLE public.video_transcripts
+  ADD COLUMN IF NOT EXISTS current_version INTEGER NOT NULL DEFAULT 1;
+
+-- Record which transcript language saved timestamps were taken from, so a
+-- retimed transcript only moves the rows that refer to it
+ALTER TABLE public.vocabulary_entries
+  ADD COLUMN IF NOT EXISTS transcript_language TEXT;
+
+ALTER TABLE public.video_notes
+  ADD COLUMN IF NOT EXISTS transcript_language TEXT;
+
+-- Create video_transcript_versions table
+CREATE TABLE IF NOT EXISTS public.video_transcript_versions (
+  -- Primary key
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  -- Foreign key to video_transcripts
+  transcript_id UUID NOT NULL REFERENCES public.video_transcripts(id) ON DELETE CASCADE,
+
+  -- Version data
+  version INTEGER NOT NULL,
+  segments JSONB NOT NULL DEFAULT '[]',
+  segment_count INTEGER NOT NULL CHECK (segment_count >= 0),
+  source TEXT NOT NULL DEFAULT 'captions',
+  source_model TEXT,
+  caption_format TEXT,
+
+  -- Changes from the previous version; NULL for the first version
+  diff_summary JSONB,
+  remapped_timestamps INTEGER NOT NULL DEFAULT 0,
+
+  -- Timestamps
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  -- Constraints
+  CONSTRAINT video_transcript_versions_version_check CHECK (version >= 1),
+  CONSTRAINT video_transcript_versions_segments_check CHECK (jsonb_typeof(segments) = 'array'),
+  CONSTRAINT video_transcript_versions_unique_version UNIQUE (transcript_id, version)
+);
+
+-- Create indexes for performance
+CREATE INDEX video_transcript_versions_transcript_idx
+  ON public.video_transcript_versions(transcript_id, version DESC);
+
+-- Existing transcripts become version 1
+INSERT INTO public.video_transcript_versions (
+  transcript_id, version, segments, segment_count, source, source_model, caption_format, created_at
+)
+SELECT id, current_version, segments, segment_count, source, source_model, caption_format, updated_at
+FROM public.video_transcripts
+ON CONFLICT (transcript_id, version) DO NOTHING;
+
+-- Enable Row Level Security
+ALTER TABLE public.video_transcript_versions ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+-- Allow read access to all authenticated users, like video_transcripts
+CREATE POLICY "Authenticated users can view transcript versions"
+  ON public.video_transcript_versions
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Allow service role to manage versions
+CREATE POLICY "Service role can manage transcript versions"
+  ON public.video_transcript_versions
+  FOR ALL
+  TO service_role
+  USING (true);
+
+-- Move saved vocabulary and note timestamps to a new transcript version.
+-- Each array holds { id, timestamp } pairs computed by the caller.
+CREATE OR REPLACE FUNCTION public.apply_transcript_timestamp_remaps(
+  p_vocabulary JSONB DEFAULT '[]',
+  p_notes JSONB DEFAULT '[]'
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_vocabulary_count INTEGER;
+  v_notes_count INTEGER;
+BEGIN
+  UPDATE public.vocabulary_entries ve
+  SET timestamp = r.timestamp, updated_at = NOW()
+  FROM jsonb_to_recordset(p_vocabulary) AS r(id UUID, timestamp NUMERIC)
+  WHERE ve.id = r.id;
+  GET DIAGNOSTICS v_vocabulary_count = ROW_COUNT;
+
+  UPDATE public.video_notes vn
+  SET timestamp = r.timestamp, updated_at = NOW()
+  FROM jsonb_to_recordset(p_notes) AS r(id UUID, timestamp NUMERIC)
+  WHERE vn.id = r.id;
+  GET DIAGNOSTICS v_notes_count = ROW_COUNT;
+
+  RETURN v_vocabulary_count + v_notes_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.apply_transcript_timestamp_remaps(JSONB, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.apply_transcript_timestamp_remaps(JSONB, JSONB) TO service_role;
+
+-- Comments for documentation
+COMMENT ON TABLE public.video_transcript_versions IS 'Every stored version of a transcript, newest version mirrored in video_transcripts';
+COMMENT ON COLUMN public.video_transcripts.current_version IS 'Version number of the segments currently stored';
+COMMENT ON COLUMN public.video_transcript_versions.diff_summary IS 'Segment counts changed from the previous version: { added, removed, retimed, unchanged }';
+COMMENT ON COLUMN public.video_transcript_versions.remapped_timestamps IS 'Vocabulary and note timestamps moved to follow retimed segments';
+COMMENT ON COLUMN public.vocabulary_entries.transcript_language IS 'Transcript language the timestamp refers to; NULL when not recorded';
+COMMENT ON COLUMN public.video_notes.transcript_language IS 'Transcript language the timestamp refers to; NULL when not recorded';
+COMMENT ON FUNCTION public.apply_transcript_timestamp_remaps IS 'Updates vocabulary_entries and video_notes timestamps after a transcript is retimed';
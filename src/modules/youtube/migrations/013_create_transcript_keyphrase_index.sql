@@ -0,0 +1,233 @@
+-- Keyword and key-phrase index per transcript, ranked by TF-IDF across stored transcripts
+-- Stored scores use document frequencies over every stored transcript, since
+-- transcripts are stored once per video and shared by all users. Vocabulary
+-- suggestions re-rank the stored terms against the transcripts in the
+-- requesting user's history.
+
+-- Candidate terms of each indexed transcript, so re-indexing can undo its document counts
+ALTER TABLE public.video_transcripts
+  ADD COLUMN IF NOT EXISTS keyphrase_terms TEXT[];
+
+-- Create transcript_term_stats table (document frequencies for IDF)
+CREATE TABLE IF NOT EXISTS public.transcript_term_stats (
+  language_code TEXT NOT NULL,
+  term TEXT NOT NULL,
+  document_count INTEGER NOT NULL DEFAULT 0,
+
+  -- Constraints
+  PRIMARY KEY (language_code, term),
+  CONSTRAINT transcript_term_stats_document_count_check CHECK (document_count >= 0)
+);
+
+-- Create video_transcript_keyphrases table
+CREATE TABLE IF NOT EXISTS public.video_transcript_keyphrases (
+  -- Primary key
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  -- Foreign keys
+  transcript_id UUID NOT NULL REFERENCES public.video_transcripts(id) ON DELETE CASCADE,
+  video_id UUID NOT NULL REFERENCES public.youtube_videos(id) ON DELETE CASCADE,
+
+  -- Keyphrase data
+  language_code TEXT NOT NULL,
+  term TEXT NOT NULL,
+  kind TEXT NOT NULL,
+  weight NUMERIC NOT NULL,
+  score NUMERIC NOT NULL,
+  occurrences INTEGER NOT NULL,
+  segment_positions INTEGER[] NOT NULL DEFAULT '{}',
+  rank INTEGER NOT NULL,
+
+  -- Timestamps
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  -- Constraints
+  CONSTRAINT video_transcript_keyphrases_kind_check CHECK (kind IN ('word', 'phrase')),
+  CONSTRAINT video_transcript_keyphrases_occurrences_check CHECK (occurrences > 0),
+  CONSTRAINT video_transcript_keyphrases_unique_term UNIQUE (transcript_id, term)
+);
+
+-- Create indexes for performance
+CREATE INDEX video_transcript_keyphrases_video_idx
+  ON public.video_transcript_keyphrases(video_id, rank);
+
+-- Enable Row Level Security
+ALTER TABLE public.transcript_term_stats ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.video_transcript_keyphrases ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+-- Allow read access to all authenticated users, like video_transcripts
+CREATE POLICY "Authenticated users can view transcript keyphrases"
+  ON public.video_transcript_keyphrases
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Allow service role to manage the index
+CREATE POLICY "Service role can manage transcript keyphrases"
+  ON public.video_transcript_keyphrases
+  FOR ALL
+  TO service_role
+  USING (true);
+
+CREATE POLICY "Service role can manage transcript term stats"
+  ON public.transcript_term_stats
+  FOR ALL
+  TO service_role
+  USING (true);
+
+-- Document frequencies for candidate terms, plus the number of indexed transcripts
+CREATE OR REPLACE FUNCTION public.get_term_document_frequencies(
+  p_language_code TEXT,
+  p_terms TEXT[]
+)
+RETURNS JSONB AS $$
+  SELECT jsonb_build_object(
+    'document_count', (
+      SELECT COUNT(*)
+      FROM public.video_transcripts
+      WHERE language_code = p_language_code
+        AND keyphrase_terms IS NOT NULL
+    ),
+    'frequencies', COALESCE((
+      SELECT jsonb_object_agg(term, document_count)
+      FROM public.transcript_term_stats
+      WHERE language_code = p_language_code
+        AND term = ANY(p_terms)
+    ), '{}'::jsonb)
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.get_term_document_frequencies(TEXT, TEXT[]) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_term_document_frequencies(TEXT, TEXT[]) TO service_role;
+
+-- Replace the keyphrases of a transcript and move its document counts to the new terms
+CREATE OR REPLACE FUNCTION public.save_transcript_keyphrases(
+  p_transcript_id UUID,
+  p_terms TEXT[],
+  p_keyphrases JSONB
+)
+RETURNS VOID AS $$
+DECLARE
+  v_transcript RECORD;
+BEGIN
+  SELECT id, video_id, language_code, keyphrase_terms
+  INTO v_transcript
+  FROM public.video_transcripts
+  WHERE id = p_transcript_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  -- Undo the counts of the previous version
+  IF v_transcript.keyphrase_terms IS NOT NULL THEN
+    UPDATE public.transcript_term_stats
+    SET document_count = GREATEST(document_count - 1, 0)
+    WHERE language_code = v_transcript.language_code
+      AND term = ANY(v_transcript.keyphrase_terms);
+  END IF;
+
+  INSERT INTO public.transcript_term_stats (language_code, term, document_count)
+  SELECT v_transcript.language_code, t.term, 1
+  FROM (SELECT DISTINCT unnest(p_terms) AS term) t
+  ON CONFLICT (language_code, term)
+  DO UPDATE SET document_count = public.transcript_term_stats.document_count + 1;
+
+  DELETE FROM public.video_transcript_keyphrases
+  WHERE transcript_id = p_transcript_id;
+
+  INSERT INTO public.video_transcript_keyphrases (
+    transcript_id, video_id, language_code, term, kind, weight, score, occurrences, segment_positions, rank
+  )
+  SELECT
+    p_transcript_id,
+    v_transcript.video_id,
+    v_transcript.language_code,
+    k.term,
+    k.kind,
+    k.weight,
+    k.score,
+    k.occurrences,
+    ARRAY(SELECT jsonb_array_elements_text(k.segment_positions)::INTEGER),
+    k.rank
+  FROM jsonb_to_recordset(p_keyphrases) AS k(
+    term TEXT, kind TEXT, weight NUMERIC, score NUMERIC, occurrences INTEGER, segment_positions JSONB, rank INTEGER
+  );
+
+  UPDATE public.video_transcripts
+  SET keyphrase_terms = p_terms
+  WHERE id = p_transcript_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.save_transcript_keyphrases(UUID, TEXT[], JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.save_transcript_keyphrases(UUID, TEXT[], JSONB) TO service_role;
+
+-- Keyphrases of a video the user does not have in vocabulary_entries yet,
+-- with the segment of the first occurrence as context. Scores use document
+-- frequencies over the other transcripts in the user's watch history, with
+-- the same smoothing as the indexer.
+CREATE OR REPLACE FUNCTION public.suggest_video_vocabulary(
+  p_user_id UUID,
+  p_video_id UUID,
+  p_language_code TEXT DEFAULT NULL,
+  p_limit INTEGER DEFAULT 20
+)
+RETURNS TABLE(
+  term TEXT,
+  kind TEXT,
+  score NUMERIC,
+  occurrences INTEGER,
+  language_code TEXT,
+  first_start NUMERIC,
+  context TEXT
+) AS $$
+BEGIN
+  RETURN QUERY
+  WITH history AS (
+    SELECT vt.language_code, vt.keyphrase_terms
+    FROM public.user_video_history h
+    JOIN public.video_transcripts vt ON vt.video_id = h.video_id
+    WHERE h.user_id = p_user_id
+      AND h.video_id <> p_video_id
+      AND vt.keyphrase_terms IS NOT NULL
+  )
+  SELECT
+    k.term,
+    k.kind,
+    ROUND(k.weight * (LN(
+      (2 + (SELECT COUNT(*) FROM history d WHERE d.language_code = k.language_code))::NUMERIC /
+      (2 + (SELECT COUNT(*) FROM history d
+        WHERE d.language_code = k.language_code AND k.term = ANY(d.keyphrase_terms)))
+    ) + 1), 6) AS score,
+    k.occurrences,
+    k.language_code,
+    (vt.segments -> k.segment_positions[1] ->> 'start')::NUMERIC AS first_start,
+    vt.segments -> k.segment_positions[1] ->> 'text' AS context
+  FROM public.video_transcript_keyphrases k
+  JOIN public.video_transcripts vt ON vt.id = k.transcript_id
+  WHERE k.video_id = p_video_id
+    AND (p_language_code IS NULL OR k.language_code = p_language_code)
+    AND NOT EXISTS (
+      SELECT 1
+      FROM public.vocabulary_entries ve
+      WHERE ve.user_id = p_user_id
+        AND lower(ve.word) = k.term
+    )
+  ORDER BY 3 DESC, k.term
+  LIMIT p_limit;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.suggest_video_vocabulary(UUID, UUID, TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.suggest_video_vocabulary(UUID, UUID, TEXT, INTEGER) TO service_role;
+
+-- Comments for documentation
+COMMENT ON TABLE public.transcript_term_stats IS 'Number of indexed transcripts containing each candidate term, per language (IDF input for stored scores)';
+COMMENT ON TABLE public.video_transcript_keyphrases IS 'Top TF-IDF keywords and collocations of each transcript with the segments they occur in';
+COMMENT ON COLUMN public.video_transcript_keyphrases.weight IS 'Term frequency with the phrase length boost, before IDF';
+COMMENT ON COLUMN public.video_transcripts.keyphrase_terms IS 'Candidate terms counted in transcript_term_stats for this transcript; NULL until indexed';
+COMMENT ON COLUMN public.video_transcript_keyphrases.segment_positions IS 'Zero-based indices of the segments containing the term';
+COMMENT ON FUNCTION public.suggest_video_vocabulary IS 'Suggests words to learn from a video, excluding words already in the user''s vocabulary, ranked against the user''s watch history';
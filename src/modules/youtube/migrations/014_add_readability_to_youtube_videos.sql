@@ -0,0 +1,35 @@
+-- Store transcript readability metrics and the estimated CEFR level on each video
+
+ALTER TABLE public.youtube_videos
+  ADD COLUMN IF NOT EXISTS readability JSONB,
+  ADD COLUMN IF NOT EXISTS cefr_level TEXT,
+  ADD COLUMN IF NOT EXISTS words_per_minute NUMERIC,
+  ADD COLUMN IF NOT EXISTS lexical_diversity NUMERIC;
+
+ALTER TABLE public.youtube_videos
+  ADD CONSTRAINT youtube_videos_cefr_level_check
+  CHECK (cefr_level IN ('A1', 'A2', 'B1', 'B2', 'C1', 'C2'));
+
+-- Numeric rank of the level so history can be filtered by range and sorted by difficulty
+ALTER TABLE public.youtube_videos
+  ADD COLUMN IF NOT EXISTS cefr_rank SMALLINT GENERATED ALWAYS AS (
+    CASE cefr_level
+      WHEN 'A1' THEN 1
+      WHEN 'A2' THEN 2
+      WHEN 'B1' THEN 3
+      WHEN 'B2' THEN 4
+      WHEN 'C1' THEN 5
+      WHEN 'C2' THEN 6
+    END
+  ) STORED;
+
+-- Create indexes for filtering and sorting
+CREATE INDEX youtube_videos_cefr_rank_idx ON public.youtube_videos(cefr_rank);
+CREATE INDEX youtube_videos_words_per_minute_idx ON public.youtube_videos(words_per_minute);
+
+-- Comments for documentation
+COMMENT ON COLUMN public.youtube_videos.readability IS 'Readability metrics of the first transcript language scored: pace, lexical diversity, frequency band coverage, CEFR estimate';
+COMMENT ON COLUMN public.youtube_videos.cefr_level IS 'Estimated CEFR level (A1-C2); NULL for non-English or very short transcripts';
+COMMENT ON COLUMN public.youtube_videos.cefr_rank IS 'cefr_level as 1 (A1) to 6 (C2)';
+COMMENT ON COLUMN public.youtube_videos.words_per_minute IS 'Speaking pace over the time covered by transcript segments';
+COMMENT ON COLUMN public.youtube_videos.lexical_diversity IS 'Moving-average type-token ratio of the transcript (window of 50 words)';
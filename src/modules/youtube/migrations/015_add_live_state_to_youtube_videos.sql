@@ -0,0 +1,88 @@
+-- Track the broadcast state of livestreams and premieres and hold their transcript jobs until they end
+
+ALTER TABLE public.youtube_videos
+  ADD COLUMN IF NOT EXISTS live_state TEXT NOT NULL DEFAULT 'none',
+  ADD COLUMN IF NOT EXISTS scheduled_start_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS actual_start_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS actual_end_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS next_live_check_at TIMESTAMPTZ;
+
+ALTER TABLE public.youtube_videos
+  ADD CONSTRAINT youtube_videos_live_state_check CHECK (
+    live_state IN ('none', 'upcoming', 'live', 'ended')
+  );
+
+-- Create index for the live video watcher
+CREATE INDEX IF NOT EXISTS youtube_videos_next_live_check_idx
+  ON public.youtube_videos(next_live_check_at)
+  WHERE live_state IN ('upcoming', 'live');
+
+-- Upcoming and live videos whose next check is due, most overdue first
+CREATE OR REPLACE FUNCTION public.get_due_live_videos(p_limit INTEGER DEFAULT 50)
+RETURNS TABLE(video_id TEXT, live_state TEXT) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT yv.video_id, yv.live_state
+  FROM public.youtube_videos yv
+  WHERE yv.live_state IN ('upcoming', 'live')
+    AND yv.availability_status = 'available'
+    AND (yv.next_live_check_at IS NULL OR yv.next_live_check_at <= NOW())
+  ORDER BY yv.next_live_check_at NULLS FIRST
+  LIMIT p_limit;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.get_due_live_videos(INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_due_live_videos(INTEGER) TO service_role;
+
+-- Jobs for videos that are still upcoming or live stay pending until the
+-- watcher sees the broadcast end
+CREATE OR REPLACE FUNCTION public.claim_transcript_jobs(p_limit INTEGER DEFAULT 5)
+RETURNS TABLE (
+  id UUID,
+  video_record_id UUID,
+  video_id TEXT,
+  language_code TEXT,
+  attempts INTEGER
+)
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH claimable AS (
+    SELECT q.id
+    FROM public.transcript_extraction_queue q
+    WHERE (q.status = 'pending'
+       OR (q.status = 'processing' AND q.locked_at < NOW() - INTERVAL '15 minutes'))
+      AND NOT EXISTS (
+        SELECT 1
+        FROM public.youtube_videos v
+        WHERE v.id = q.video_id
+          AND v.live_state IN ('upcoming', 'live')
+      )
+    ORDER BY q.created_at
+    LIMIT GREATEST(p_limit, 0)
+    FOR UPDATE SKIP LOCKED
+  ),
+  claimed AS (
+    UPDATE public.transcript_extraction_queue q
+    SET status = 'processing',
+        attempts = q.attempts + 1,
+        locked_at = NOW()
+    FROM claimable
+    WHERE q.id = claimable.id
+    RETURNING q.id, q.video_id, q.language_code, q.attempts
+  )
+  SELECT claimed.id, claimed.video_id, v.video_id, claimed.language_code, claimed.attempts
+  FROM claimed
+  JOIN public.youtube_videos v ON v.id = claimed.video_id;
+$$;
+
+REVOKE ALL ON FUNCTION public.claim_transcript_jobs(INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_transcript_jobs(INTEGER) TO service_role;
+
+-- Comments for documentation
+COMMENT ON COLUMN public.youtube_videos.live_state IS 'Broadcast state from liveBroadcastContent: none, upcoming (premiere or scheduled stream), live, or ended';
+COMMENT ON COLUMN public.youtube_videos.next_live_check_at IS 'When the live video watcher checks the video again; NULL once the broadcast is over';
+COMMENT ON FUNCTION public.get_due_live_videos(INTEGER) IS 'Upcoming and live videos due for a live state check';
+COMMENT ON FUNCTION public.claim_transcript_jobs(INTEGER) IS 'Claims up to p_limit pending jobs with FOR UPDATE SKIP LOCKED so concurrent workers never share a job; videos still upcoming or live are skipped';
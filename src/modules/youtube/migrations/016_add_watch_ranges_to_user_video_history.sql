@@ -0,0 +1,152 @@
+-- Track watched ranges and total watch time from player heartbeats
+
+ALTER TABLE public.user_video_history
+  ADD COLUMN IF NOT EXISTS watched_ranges JSONB NOT NULL DEFAULT '[]'::jsonb,
+  ADD COLUMN IF NOT EXISTS total_watch_seconds DOUBLE PRECISION NOT NULL DEFAULT 0 CHECK (total_watch_seconds >= 0),
+  ADD COLUMN IF NOT EXISTS heartbeat_position_seconds DOUBLE PRECISION,
+  ADD COLUMN IF NOT EXISTS is_playing BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS last_heartbeat_at TIMESTAMPTZ;
+
+-- Sort and merge [{start, end}] ranges that overlap or are less than a
+-- second apart, like mergeWatchRanges in utils/watch-ranges.ts
+CREATE OR REPLACE FUNCTION public.merge_watch_ranges(p_ranges JSONB)
+RETURNS JSONB AS $$
+  WITH ranges AS (
+    SELECT
+      (r->>'start')::DOUBLE PRECISION AS range_start,
+      (r->>'end')::DOUBLE PRECISION AS range_end
+    FROM jsonb_array_elements(COALESCE(p_ranges, '[]'::jsonb)) AS r
+    WHERE (r->>'end')::DOUBLE PRECISION > (r->>'start')::DOUBLE PRECISION
+  ),
+  marked AS (
+    SELECT
+      range_start,
+      range_end,
+      CASE
+        WHEN range_start <= MAX(range_end) OVER (
+          ORDER BY range_start, range_end
+          ROWS BETWEEN UNBOUNDED PRECEDING AND 1 PRECEDING
+        ) + 1 THEN 0
+        ELSE 1
+      END AS starts_group
+    FROM ranges
+  ),
+  grouped AS (
+    SELECT
+      range_start,
+      range_end,
+      SUM(starts_group) OVER (ORDER BY range_start, range_end ROWS UNBOUNDED PRECEDING) AS group_id
+    FROM marked
+  )
+  SELECT COALESCE(
+    jsonb_agg(jsonb_build_object('start', merged.range_start, 'end', merged.range_end) ORDER BY merged.range_start),
+    '[]'::jsonb
+  )
+  FROM (
+    SELECT MIN(range_start) AS range_start, MAX(range_end) AS range_end
+    FROM grouped
+    GROUP BY group_id
+  ) merged;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Heartbeats are written through update_watch_progress. Without p_watched_ranges
+-- it behaves as before; with them it records the exact player position (so
+-- seeking back moves the resume point), accumulates watch time and only
+-- counts a new watch when the heartbeat starts a new session. p_watched_ranges
+-- holds the spans played since the last write and is merged into the stored
+-- ranges here, so concurrent heartbeats cannot drop each other's ranges.
+DROP FUNCTION IF EXISTS public.update_watch_progress(UUID, UUID, INTEGER, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.update_watch_progress(
+  p_user_id UUID,
+  p_video_id UUID,
+  p_progress_seconds INTEGER,
+  p_video_duration INTEGER DEFAULT NULL,
+  p_watched_ranges JSONB DEFAULT NULL,
+  p_watch_seconds DOUBLE PRECISION DEFAULT 0,
+  p_position_seconds DOUBLE PRECISION DEFAULT NULL,
+  p_is_playing BOOLEAN DEFAULT false,
+  p_new_session BOOLEAN DEFAULT true
+)
+RETURNS void AS $$
+DECLARE
+  v_completed BOOLEAN := false;
+BEGIN
+  -- Check if video is completed (within 95% of duration)
+  IF p_video_duration IS NOT NULL AND p_progress_seconds >= (p_video_duration * 0.95) THEN
+    v_completed := true;
+  END IF;
+
+  IF p_watched_ranges IS NULL THEN
+    -- Update or insert history record
+    INSERT INTO public.user_video_history (
+      user_id,
+      video_id,
+      progress_seconds,
+      completed,
+      last_watched_at
+    ) VALUES (
+      p_user_id,
+      p_video_id,
+      p_progress_seconds,
+      v_completed,
+      NOW()
+    )
+    ON CONFLICT (user_id, video_id)
+    DO UPDATE SET
+      progress_seconds = GREATEST(user_video_history.progress_seconds, EXCLUDED.progress_seconds),
+      completed = user_video_history.completed OR EXCLUDED.completed,
+      last_watched_at = EXCLUDED.last_watched_at,
+      watch_count = user_video_history.watch_count + 1;
+    RETURN;
+  END IF;
+
+  INSERT INTO public.user_video_history (
+    user_id,
+    video_id,
+    progress_seconds,
+    completed,
+    last_watched_at,
+    watched_ranges,
+    total_watch_seconds,
+    heartbeat_position_seconds,
+    is_playing,
+    last_heartbeat_at
+  ) VALUES (
+    p_user_id,
+    p_video_id,
+    p_progress_seconds,
+    v_completed,
+    NOW(),
+    public.merge_watch_ranges(p_watched_ranges),
+    GREATEST(p_watch_seconds, 0),
+    p_position_seconds,
+    p_is_playing,
+    NOW()
+  )
+  ON CONFLICT (user_id, video_id)
+  DO UPDATE SET
+    progress_seconds = EXCLUDED.progress_seconds,
+    completed = user_video_history.completed OR EXCLUDED.completed,
+    last_watched_at = EXCLUDED.last_watched_at,
+    watched_ranges = public.merge_watch_ranges(user_video_history.watched_ranges || EXCLUDED.watched_ranges),
+    total_watch_seconds = user_video_history.total_watch_seconds + EXCLUDED.total_watch_seconds,
+    heartbeat_position_seconds = EXCLUDED.heartbeat_position_seconds,
+    is_playing = EXCLUDED.is_playing,
+    last_heartbeat_at = EXCLUDED.last_heartbeat_at,
+    watch_count = user_video_history.watch_count + CASE WHEN p_new_session THEN 1 ELSE 0 END;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.update_watch_progress(
+  UUID, UUID, INTEGER, INTEGER, JSONB, DOUBLE PRECISION, DOUBLE PRECISION, BOOLEAN, BOOLEAN
+) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.update_watch_progress(
+  UUID, UUID, INTEGER, INTEGER, JSONB, DOUBLE PRECISION, DOUBLE PRECISION, BOOLEAN, BOOLEAN
+) TO service_role;
+
+-- Comments for documentation
+COMMENT ON COLUMN public.user_video_history.watched_ranges IS 'Merged [{start, end}] spans of the video the user actually played, in seconds';
+COMMENT ON COLUMN public.user_video_history.total_watch_seconds IS 'Time spent playing the video across all sessions, rewatches included';
+COMMENT ON COLUMN public.user_video_history.heartbeat_position_seconds IS 'Player position from the last heartbeat, with sub-second precision';
+COMMENT ON COLUMN public.user_video_history.last_heartbeat_at IS 'When the player last reported progress';
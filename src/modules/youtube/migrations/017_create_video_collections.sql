@@ -0,0 +1,140 @@
+-- Create user-defined, ordered video collections that can be shared by link
+
+-- Create video_collections table
+CREATE TABLE IF NOT EXISTS public.video_collections (
+  -- Primary key
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  -- Owner
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+
+  -- Collection data
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 100),
+  description TEXT CHECK (char_length(description) <= 1000),
+
+  -- Sharing: anyone with the share token can view a shared collection
+  is_shared BOOLEAN NOT NULL DEFAULT false,
+  share_token TEXT NOT NULL UNIQUE DEFAULT replace(gen_random_uuid()::text, '-', ''),
+
+  -- Timestamps
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Create video_collection_items table
+CREATE TABLE IF NOT EXISTS public.video_collection_items (
+  -- Primary key
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  -- References
+  collection_id UUID NOT NULL REFERENCES public.video_collections(id) ON DELETE CASCADE,
+  video_id UUID NOT NULL REFERENCES public.youtube_videos(id) ON DELETE CASCADE,
+
+  -- Order within the collection, starting at 0
+  position INTEGER NOT NULL CHECK (position >= 0),
+
+  -- Timestamps
+  added_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  -- A video appears once per collection
+  CONSTRAINT video_collection_items_unique UNIQUE (collection_id, video_id)
+);
+
+-- Create indexes for performance
+CREATE INDEX video_collections_user_idx ON public.video_collections(user_id, updated_at DESC);
+CREATE INDEX video_collection_items_collection_idx ON public.video_collection_items(collection_id, position);
+CREATE INDEX video_collection_items_video_idx ON public.video_collection_items(video_id);
+
+-- Enable Row Level Security
+ALTER TABLE public.video_collections ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.video_collection_items ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+-- Users can view their own collections. Shared collections are read by
+-- share token through the service role, never listed to other users.
+CREATE POLICY "Users can view their own collections"
+  ON public.video_collections
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own collections"
+  ON public.video_collections
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own collections"
+  ON public.video_collections
+  FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own collections"
+  ON public.video_collections
+  FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Items follow the access rules of their collection
+CREATE POLICY "Users can view items of their own collections"
+  ON public.video_collection_items
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.video_collections c
+      WHERE c.id = collection_id AND c.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can manage items of their own collections"
+  ON public.video_collection_items
+  FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.video_collections c
+      WHERE c.id = collection_id AND c.user_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.video_collections c
+      WHERE c.id = collection_id AND c.user_id = auth.uid()
+    )
+  );
+
+-- Create trigger for updated_at
+CREATE TRIGGER video_collections_updated_at
+  BEFORE UPDATE ON public.video_collections
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+-- Replace the items of a collection with the given videos in order. Used for
+-- adding, removing and reordering in one transaction.
+CREATE OR REPLACE FUNCTION public.set_collection_items(
+  p_collection_id UUID,
+  p_video_ids UUID[]
+)
+RETURNS void AS $$
+BEGIN
+  DELETE FROM public.video_collection_items
+  WHERE collection_id = p_collection_id
+    AND NOT (video_id = ANY(p_video_ids));
+
+  INSERT INTO public.video_collection_items (collection_id, video_id, position)
+  SELECT p_collection_id, ids.video_id, (ids.ordinality - 1)::INTEGER
+  FROM unnest(p_video_ids) WITH ORDINALITY AS ids(video_id, ordinality)
+  ON CONFLICT (collection_id, video_id)
+  DO UPDATE SET position = EXCLUDED.position;
+
+  UPDATE public.video_collections
+  SET updated_at = NOW()
+  WHERE id = p_collection_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.set_collection_items(UUID, UUID[]) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.set_collection_items(UUID, UUID[]) TO service_role;
+
+-- Comments for documentation
+COMMENT ON TABLE public.video_collections IS 'Named, ordered collections of videos created by users';
+COMMENT ON COLUMN public.video_collections.share_token IS 'Token for viewing the collection by link while is_shared is true';
+COMMENT ON TABLE public.video_collection_items IS 'Videos in a collection, ordered by position';
+COMMENT ON FUNCTION public.set_collection_items(UUID, UUID[]) IS 'Replaces the videos of a collection, keeping added_at for videos that stay';
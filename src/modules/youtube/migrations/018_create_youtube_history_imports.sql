@@ -0,0 +1,124 @@
+-- Create resumable watch history imports from Google Takeout exports
+
+-- Create youtube_history_imports table
+CREATE TABLE IF NOT EXISTS public.youtube_history_imports (
+  -- Primary key
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  -- Owner
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+
+  -- Job state
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'processing', 'completed', 'failed')),
+  format TEXT NOT NULL CHECK (format IN ('json', 'html')),
+  locked_at TIMESTAMPTZ,
+  last_error TEXT,
+
+  -- Progress
+  total_entries INTEGER NOT NULL DEFAULT 0 CHECK (total_entries >= 0),
+  total_videos INTEGER NOT NULL DEFAULT 0 CHECK (total_videos >= 0),
+  processed_videos INTEGER NOT NULL DEFAULT 0 CHECK (processed_videos >= 0),
+  imported_videos INTEGER NOT NULL DEFAULT 0 CHECK (imported_videos >= 0),
+  unavailable_videos INTEGER NOT NULL DEFAULT 0 CHECK (unavailable_videos >= 0),
+  skipped_entries JSONB NOT NULL DEFAULT '{}'::jsonb,
+
+  -- Timestamps
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  completed_at TIMESTAMPTZ
+);
+
+-- Deduplicated videos of an import, most recently watched first. Imports
+-- resume from processed_videos, which is the next position to process.
+CREATE TABLE IF NOT EXISTS public.youtube_history_import_items (
+  import_id UUID NOT NULL REFERENCES public.youtube_history_imports(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL CHECK (position >= 0),
+  video_id TEXT NOT NULL,
+  first_watched_at TIMESTAMPTZ NOT NULL,
+  last_watched_at TIMESTAMPTZ NOT NULL,
+  watch_count INTEGER NOT NULL DEFAULT 1 CHECK (watch_count > 0),
+
+  PRIMARY KEY (import_id, position)
+);
+
+-- Create indexes for performance
+CREATE INDEX youtube_history_imports_user_idx ON public.youtube_history_imports(user_id, created_at DESC);
+
+-- Enable Row Level Security
+ALTER TABLE public.youtube_history_imports ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.youtube_history_import_items ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+-- Users can view their own imports; jobs are written by the import function
+CREATE POLICY "Users can view their own history imports"
+  ON public.youtube_history_imports
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Service role can manage history imports"
+  ON public.youtube_history_imports
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Service role can manage history import items"
+  ON public.youtube_history_import_items
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- Create trigger for updated_at
+CREATE TRIGGER youtube_history_imports_updated_at
+  BEFORE UPDATE ON public.youtube_history_imports
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+-- Create history rows with the original watch timestamps. Re-importing the
+-- same export is a no-op: timestamps and counts only ever move forward, and
+-- progress, bookmarks and notes are left alone.
+CREATE OR REPLACE FUNCTION public.import_watch_history(
+  p_user_id UUID,
+  p_entries JSONB
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  INSERT INTO public.user_video_history (
+    user_id,
+    video_id,
+    last_watched_at,
+    watch_count,
+    created_at
+  )
+  SELECT
+    p_user_id,
+    (entry->>'video_id')::UUID,
+    (entry->>'last_watched_at')::TIMESTAMPTZ,
+    GREATEST((entry->>'watch_count')::INTEGER, 1),
+    (entry->>'first_watched_at')::TIMESTAMPTZ
+  FROM jsonb_array_elements(p_entries) AS entry
+  ON CONFLICT (user_id, video_id)
+  DO UPDATE SET
+    last_watched_at = GREATEST(user_video_history.last_watched_at, EXCLUDED.last_watched_at),
+    watch_count = GREATEST(user_video_history.watch_count, EXCLUDED.watch_count),
+    created_at = LEAST(user_video_history.created_at, EXCLUDED.created_at);
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.import_watch_history(UUID, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.import_watch_history(UUID, JSONB) TO service_role;
+
+-- Comments for documentation
+COMMENT ON TABLE public.youtube_history_imports IS 'Google Takeout watch history imports, processed in resumable batches';
+COMMENT ON COLUMN public.youtube_history_imports.total_entries IS 'Watch events in the export, before deduplication';
+COMMENT ON COLUMN public.youtube_history_imports.processed_videos IS 'Videos processed so far; the next batch starts at this item position';
+COMMENT ON COLUMN public.youtube_history_imports.unavailable_videos IS 'Videos that are deleted or private and could not be backfilled';
+COMMENT ON COLUMN public.youtube_history_imports.skipped_entries IS 'Counts of ads, removed videos and unparseable entries left out of the import';
+COMMENT ON TABLE public.youtube_history_import_items IS 'Deduplicated videos of an import in processing order';
+COMMENT ON FUNCTION public.import_watch_history(UUID, JSONB) IS 'Upserts history rows from [{video_id, first_watched_at, last_watched_at, watch_count}] keeping the latest timestamps';
@@ -0,0 +1,122 @@
+// Unit tests for bilingual transcript generation
+
+import { describe, expect, it, vi } from 'vitest';
+import {
+  BilingualTranscriptBuilder,
+  buildTranslationBatches,
+} from '../utils/bilingual-transcript';
+
+const segments = [
+  { start: 0, duration: 2, text: 'Hello there' },
+  { start: 2, duration: 2, text: 'How are\nyou' },
+  { start: 4, duration: 1, text: '' },
+  { start: 5, duration: 3, text: 'Goodbye' },
+];
+
+/**
+ * Fake translator that upper-cases each line
+ */
+function createTranslator(transform = (text: string) => text.toUpperCase()) {
+  return {
+    translate: vi.fn(async (text: string) => ({
+      translatedText: transform(text),
+      provider: 'fake',
+    })),
+  };
+}
+
+describe('Bilingual transcript', () => {
+  describe('buildTranslationBatches', () => {
+    it('groups segments and skips empty text', () => {
+      expect(buildTranslationBatches(segments)).toEqual([[0, 1, 3]]);
+    });
+
+    it('respects the character limit', () => {
+      expect(buildTranslationBatches(segments, 20)).toEqual([[0], [1, 3]]);
+    });
+
+    it('respects the segment limit', () => {
+      expect(buildTranslationBatches(segments, 1000, 2)).toEqual([[0, 1], [3]]);
+    });
+  });
+
+  describe('BilingualTranscriptBuilder', () => {
+    it('translates in a single batch and aligns results', async () => {
+      const translator = createTranslator();
+      const builder = new BilingualTranscriptBuilder(
+        { extractTranscript: vi.fn() } as any,
+        translator
+      );
+
+      const result = await builder.translateSegments(segments, 'vi', 'en');
+
+      expect(translator.translate).toHaveBeenCalledTimes(1);
+      expect(translator.translate).toHaveBeenCalledWith(
+        'Hello there\nHow are you\nGoodbye',
+        'vi',
+        'en'
+      );
+      expect(result.provider).toBe('fake');
+      expect(result.segments.map(s => s.translatedText)).toEqual([
+        'HELLO THERE',
+        'HOW ARE YOU',
+        '',
+        'GOODBYE',
+      ]);
+      expect(result.segments[1]).toMatchObject({ start: 2, duration: 2, text: 'How are\nyou' });
+    });
+
+    it('decodes HTML entities in translated text', async () => {
+      const translator = createTranslator(() => 'it&#39;s &quot;fine&quot; &amp; good&#x21;');
+      const builder = new BilingualTranscriptBuilder(
+        { extractTranscript: vi.fn() } as any,
+        translator
+      );
+
+      const result = await builder.translateSegments(segments.slice(0, 1), 'vi');
+
+      expect(result.segments[0].translatedText).toBe('it\'s "fine" & good!');
+    });
+
+    it('splits a batch when the provider merges lines', async () => {
+      // Merge lines whenever more than two are sent at once
+      const translator = createTranslator(text =>
+        text.split('\n').length > 2 ? text.replace(/\n/g, ' ') : text.toUpperCase()
+      );
+      const builder = new BilingualTranscriptBuilder(
+        { extractTranscript: vi.fn() } as any,
+        translator
+      );
+
+      const result = await builder.translateSegments(segments, 'vi');
+
+      expect(translator.translate).toHaveBeenCalledTimes(3);
+      expect(result.segments.map(s => s.translatedText)).toEqual([
+        'HELLO THERE',
+        'HOW ARE YOU',
+        '',
+        'GOODBYE',
+      ]);
+    });
+
+    it('builds on the extracted transcript language', async () => {
+      const extractor = {
+        extractTranscript: vi.fn(async () => ({
+          segments: segments.slice(0, 1),
+          language: { code: 'en', name: 'English', isAutoGenerated: false, isTranslatable: true },
+          totalDuration: 2,
+        })),
+      };
+      const translator = createTranslator();
+      const builder = new BilingualTranscriptBuilder(extractor as any, translator);
+
+      const result = await builder.build('dQw4w9WgXcQ', 'es', 'fr');
+
+      expect(extractor.extractTranscript).toHaveBeenCalledWith('dQw4w9WgXcQ', 'fr');
+      expect(translator.translate).toHaveBeenCalledWith('Hello there', 'es', 'en');
+      expect(result.sourceLanguage.code).toBe('en');
+      expect(result.targetLanguage).toBe('es');
+      expect(result.segments[0].translatedText).toBe('HELLO THERE');
+    });
+  });
+});
@@ -0,0 +1,207 @@
+// Unit tests for timedtext caption parsers
+
+import { readFileSync } from 'fs';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  decodeHtmlEntities,
+  fetchCaptionsWithFallback,
+  getCaptionDuration,
+  parseCaptionBody,
+  parseJson3,
+  parseSrv1,
+  parseSrv3,
+} from '../utils/caption-parsers';
+
+function loadFixture(name: string): string {
+  return readFileSync(new URL(`./fixtures/captions/${name}`, import.meta.url), 'utf-8');
+}
+
+describe('Caption parsers', () => {
+  describe('decodeHtmlEntities', () => {
+    it('decodes named, decimal and hex entities', () => {
+      expect(decodeHtmlEntities('&lt;a&gt; &quot;b&quot; &#39;c&#x27; &amp;')).toBe(
+        '<a> "b" \'c\' &'
+      );
+    });
+
+    it('decodes double-escaped entities', () => {
+      expect(decodeHtmlEntities('We&amp;#39;re')).toBe("We're");
+    });
+
+    it('leaves unknown entities untouched', () => {
+      expect(decodeHtmlEntities('&bogus; & more')).toBe('&bogus; & more');
+    });
+  });
+
+  describe('parseSrv1', () => {
+    it('parses text elements with entities and line breaks', () => {
+      const cues = parseSrv1(loadFixture('manual.srv1.xml'));
+
+      expect(cues).toEqual([
+        { start: 0.5, duration: 2.36, text: "We're no strangers to love" },
+        { start: 2.86, duration: 3.1, text: 'You know the rules\nand so do I' },
+        { start: 6, duration: 1.5, text: 'Tom & Jerry' },
+        { start: 9.5, duration: 0, text: '[Music]' },
+      ]);
+    });
+
+    it('rejects non-srv1 bodies', () => {
+      expect(() => parseSrv1('{"events": []}')).toThrow('Invalid srv1 caption data');
+    });
+  });
+
+  describe('parseSrv3', () => {
+    it('parses paragraphs with <br> and literal line breaks', () => {
+      const cues = parseSrv3(loadFixture('manual.srv3.xml'));
+
+      expect(cues).toEqual([
+        { start: 0, duration: 2.5, text: 'Hello & welcome\nto the show' },
+        { start: 2.5, duration: 1.8, text: 'It\'s "great"\nto see you' },
+      ]);
+    });
+
+    it('parses <s> word timing and skips blank append paragraphs', () => {
+      const cues = parseSrv3(loadFixture('asr.srv3.xml'));
+
+      expect(cues).toHaveLength(2);
+      expect(cues[0]).toMatchObject({
+        start: 1.2,
+        duration: 3.4,
+        text: "so today we're learning",
+      });
+      expect(cues[0].words).toEqual([
+        { text: 'so', start: 1.2, end: 1.52 },
+        { text: 'today', start: 1.52, end: 2 },
+        { text: "we're", start: 2, end: 2.44 },
+        { text: 'learning', start: 2.44, end: 4.6 },
+      ]);
+      expect(cues[1].words).toEqual([
+        { text: 'about', start: 4.66, end: 5.06 },
+        { text: 'verbs', start: 5.06, end: 6.66 },
+      ]);
+    });
+
+    it('rejects non-srv3 bodies', () => {
+      expect(() => parseSrv3('<transcript></transcript>')).toThrow('Invalid srv3 caption data');
+    });
+  });
+
+  describe('parseJson3', () => {
+    it('joins segments and skips events without text', () => {
+      const cues = parseJson3(loadFixture('asr.json3.json'));
+
+      expect(cues.map(({ words, ...cue }) => cue)).toEqual([
+        { start: 1.2, duration: 3.4, text: "so today we're" },
+        { start: 4.66, duration: 2, text: 'learning verbs' },
+      ]);
+      expect(getCaptionDuration(cues)).toBeCloseTo(6.66);
+    });
+
+    it('keeps per-word tOffsetMs timing from auto-generated tracks', () => {
+      const cues = parseJson3(loadFixture('asr.json3.json'));
+
+      expect(cues[0].words).toEqual([
+        { text: 'so', start: 1.2, end: 1.52 },
+        { text: 'today', start: 1.52, end: 2 },
+        { text: "we're", start: 2, end: 4.6 },
+      ]);
+      expect(cues[1].words).toEqual([
+        { text: 'learning', start: 4.66, end: 5.06 },
+        { text: 'verbs', start: 5.06, end: 6.66 },
+      ]);
+    });
+
+    it('does not invent word timing for single-seg manual captions', () => {
+      const cues = parseJson3(
+        JSON.stringify({
+          events: [{ tStartMs: 500, dDurationMs: 1500, segs: [{ utf8: 'Hello world' }] }],
+        })
+      );
+
+      expect(cues).toEqual([{ start: 0.5, duration: 1.5, text: 'Hello world' }]);
+    });
+
+    it('throws on malformed json', () => {
+      expect(() => parseJson3('<timedtext/>')).toThrow();
+      expect(() => parseJson3('{}')).toThrow('Invalid json3 caption data');
+    });
+  });
+
+  describe('parseCaptionBody', () => {
+    it('dispatches by format', () => {
+      const body = loadFixture('manual.srv1.xml');
+      expect(parseCaptionBody(body, 'srv1')).toEqual(parseSrv1(body));
+    });
+  });
+
+  describe('fetchCaptionsWithFallback', () => {
+    const trackUrl = 'https://www.youtube.com/api/timedtext?v=dQw4w9WgXcQ&lang=en';
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    function stubFetch(bodies: Record<string, { status?: number; body: string }>) {
+      const fetchMock = vi.fn(async (url: string) => {
+        const format = new URL(url).searchParams.get('fmt')!;
+        const { status = 200, body } = bodies[format] || { status: 404, body: '' };
+        return new Response(body, { status });
+      });
+      vi.stubGlobal('fetch', fetchMock);
+      return fetchMock;
+    }
+
+    it('uses json3 when it succeeds', async () => {
+      const fetchMock = stubFetch({ json3: { body: loadFixture('asr.json3.json') } });
+
+      const result = await fetchCaptionsWithFallback(trackUrl);
+
+      expect(result.format).toBe('json3');
+      expect(result.cues).toHaveLength(2);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect(fetchMock.mock.calls[0][0]).toContain('fmt=json3');
+    });
+
+    it('falls back to srv3 when json3 returns an empty body', async () => {
+      stubFetch({
+        json3: { body: '' },
+        srv3: { body: loadFixture('manual.srv3.xml') },
+      });
+
+      const result = await fetchCaptionsWithFallback(trackUrl);
+
+      expect(result.format).toBe('srv3');
+      expect(result.attempts).toEqual([
+        { format: 'json3', status: 200, error: 'Empty body' },
+        { format: 'srv3', status: 200 },
+      ]);
+    });
+
+    it('falls back to srv1 when json3 and srv3 fail', async () => {
+      stubFetch({
+        json3: { status: 500, body: 'error' },
+        srv3: { body: '<html>not captions</html>' },
+        srv1: { body: loadFixture('manual.srv1.xml') },
+      });
+
+      const result = await fetchCaptionsWithFallback(trackUrl);
+
+      expect(result.format).toBe('srv1');
+      expect(result.totalDuration).toBeCloseTo(9.5);
+      expect(result.attempts.map(a => a.format)).toEqual(['json3', 'srv3', 'srv1']);
+    });
+
+    it('throws with every attempt when all formats fail', async () => {
+      stubFetch({});
+
+      await expect(fetchCaptionsWithFallback(trackUrl)).rejects.toMatchObject({
+        message: expect.stringContaining('Failed to fetch transcript'),
+        attempts: [
+          { format: 'json3', status: 404, error: 'HTTP 404' },
+          { format: 'srv3', status: 404, error: 'HTTP 404' },
+          { format: 'srv1', status: 404, error: 'HTTP 404' },
+        ],
+      });
+    });
+  });
+});
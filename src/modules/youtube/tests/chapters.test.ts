@@ -0,0 +1,188 @@
+// Unit tests for chapter detection
+
+import { describe, expect, it, vi } from 'vitest';
+import {
+  attachSegments,
+  buildTranscriptOutline,
+  detectChapters,
+  formatTimestamp,
+  normalizeAIChapters,
+  parseDescriptionChapters,
+  parseTimestamp,
+} from '../utils/chapters';
+
+const description = `Learn the present perfect in 10 minutes!
+
+Chapters:
+00:00 Intro
+0:45 - Form: have + past participle
+(2:30) Common mistakes
+Practice quiz – 5:10
+
+Follow me on Instagram`;
+
+const segments = [
+  { start: 0, duration: 20, text: 'welcome back' },
+  { start: 20, duration: 25, text: 'today we study' },
+  { start: 45, duration: 60, text: 'the form is have plus' },
+  { start: 150, duration: 100, text: 'a common mistake is' },
+  { start: 310, duration: 200, text: 'now try the quiz' },
+];
+
+describe('Chapter detection', () => {
+  describe('parseTimestamp', () => {
+    it('parses minute and hour timestamps', () => {
+      expect(parseTimestamp('0:45')).toBe(45);
+      expect(parseTimestamp('12:05')).toBe(725);
+      expect(parseTimestamp('1:02:03')).toBe(3723);
+    });
+
+    it('rejects invalid timestamps', () => {
+      expect(parseTimestamp('1:75')).toBeNull();
+      expect(parseTimestamp('intro')).toBeNull();
+      expect(parseTimestamp('0:45 intro')).toBeNull();
+    });
+  });
+
+  describe('formatTimestamp', () => {
+    it('formats seconds', () => {
+      expect(formatTimestamp(45)).toBe('0:45');
+      expect(formatTimestamp(3723)).toBe('1:02:03');
+    });
+  });
+
+  describe('parseDescriptionChapters', () => {
+    it('parses timestamps in different positions and styles', () => {
+      expect(parseDescriptionChapters(description, 600)).toEqual([
+        { title: 'Intro', start: 0, end: 45 },
+        { title: 'Form: have + past participle', start: 45, end: 150 },
+        { title: 'Common mistakes', start: 150, end: 310 },
+        { title: 'Practice quiz', start: 310, end: 600 },
+      ]);
+    });
+
+    it('requires the first chapter at 0:00', () => {
+      expect(parseDescriptionChapters('0:10 A\n1:00 B\n2:00 C', 300)).toEqual([]);
+    });
+
+    it('requires at least three chapters', () => {
+      expect(parseDescriptionChapters('0:00 A\n1:00 B', 300)).toEqual([]);
+    });
+
+    it('requires chapters of at least ten seconds', () => {
+      expect(parseDescriptionChapters('0:00 A\n0:05 B\n1:00 C', 300)).toEqual([]);
+      expect(parseDescriptionChapters('0:00 A\n1:00 B\n4:55 C', 300)).toEqual([]);
+    });
+
+    it('rejects timestamps out of order', () => {
+      expect(parseDescriptionChapters('0:00 A\n2:00 B\n1:00 C', 300)).toEqual([]);
+    });
+  });
+
+  describe('normalizeAIChapters', () => {
+    it('sorts, parses and cleans model output', () => {
+      const chapters = normalizeAIChapters(
+        [
+          { title: 'Quiz', start: '5:10' },
+          { title: 'Intro', start: 3 },
+          { title: '', start: 60 },
+          { title: 'Too close', start: 8 },
+          { title: 'Form', start: '45' },
+          { title: 'Outside', start: 900 },
+          { title: 'Outro', start: 595 },
+        ],
+        600
+      );
+
+      expect(chapters).toEqual([
+        { title: 'Intro', start: 0, end: 45 },
+        { title: 'Form', start: 45, end: 310 },
+        { title: 'Quiz', start: 310, end: 600 },
+      ]);
+    });
+  });
+
+  describe('attachSegments', () => {
+    it('maps chapters onto the segments that start within them', () => {
+      const chapters = attachSegments(
+        [
+          { title: 'A', start: 0, end: 45 },
+          { title: 'B', start: 45, end: 200 },
+          { title: 'C', start: 200, end: 300 },
+          { title: 'D', start: 300, end: 600 },
+        ],
+        segments
+      );
+
+      expect(chapters.map(c => [c.segmentStartIndex, c.segmentEndIndex])).toEqual([
+        [0, 1],
+        [2, 3],
+        [undefined, undefined],
+        [4, 4],
+      ]);
+      expect(chapters[1]).toMatchObject({ index: 1, title: 'B', start: 45, end: 200 });
+    });
+  });
+
+  describe('buildTranscriptOutline', () => {
+    it('prefixes lines with timestamps', () => {
+      expect(buildTranscriptOutline(segments.slice(0, 2))).toBe(
+        '[0:00] welcome back\n[0:20] today we study'
+      );
+    });
+
+    it('groups and truncates long transcripts to the character budget', () => {
+      const long = Array.from({ length: 200 }, (_, i) => ({
+        start: i * 5,
+        duration: 5,
+        text: 'a fairly long caption line with many words in it',
+      }));
+
+      const outline = buildTranscriptOutline(long, 2000);
+
+      expect(outline.length).toBeLessThanOrEqual(2000);
+      expect(outline.startsWith('[0:00] ')).toBe(true);
+    });
+  });
+
+  describe('detectChapters', () => {
+    it('prefers description chapters', async () => {
+      const segmenter = vi.fn();
+
+      const result = await detectChapters(
+        { description, durationSeconds: 600, segments },
+        segmenter
+      );
+
+      expect(result?.source).toBe('description');
+      expect(result?.chapters).toHaveLength(4);
+      expect(result?.chapters[3]).toMatchObject({ segmentStartIndex: 4, segmentEndIndex: 4 });
+      expect(segmenter).not.toHaveBeenCalled();
+    });
+
+    it('falls back to AI topic segmentation', async () => {
+      const segmenter = vi.fn(async () => [
+        { title: 'Welcome', start: '0:00' },
+        { title: 'Grammar', start: '0:45' },
+      ]);
+
+      const result = await detectChapters(
+        { description: 'No chapters here', durationSeconds: 0, segments },
+        segmenter
+      );
+
+      expect(segmenter).toHaveBeenCalledWith(
+        expect.stringContaining('[0:45] the form is have plus')
+      );
+      expect(result?.source).toBe('ai');
+      expect(result?.chapters.map(c => [c.title, c.start, c.end])).toEqual([
+        ['Welcome', 0, 45],
+        ['Grammar', 45, 510],
+      ]);
+    });
+
+    it('returns null without description chapters or a segmenter', async () => {
+      expect(await detectChapters({ durationSeconds: 600, segments })).toBeNull();
+    });
+  });
+});
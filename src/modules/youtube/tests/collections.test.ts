@@ -0,0 +1,128 @@
+// Unit tests for video collection validation and progress
+
+import { describe, expect, it } from 'vitest';
+import {
+  collectionProgress,
+  MAX_COLLECTION_VIDEOS,
+  validateCollectionFields,
+} from '../utils/collections';
+
+const ID = 'dQw4w9WgXcQ';
+
+describe('Video collections', () => {
+  describe('validateCollectionFields', () => {
+    it('accepts a new collection', () => {
+      expect(
+        validateCollectionFields({
+          name: 'Listening practice',
+          description: 'B2 podcasts',
+          isShared: true,
+          videoIds: [ID, 'jNQXAC9IVRw'],
+        })
+      ).toEqual([]);
+    });
+
+    it('requires a name for new collections', () => {
+      expect(validateCollectionFields({})).toContain('name is required');
+      expect(validateCollectionFields({ name: '   ' })).toContain('name is required');
+    });
+
+    it('rejects overlong fields', () => {
+      expect(validateCollectionFields({ name: 'x'.repeat(101) })).toEqual([
+        'name must not exceed 100 characters',
+      ]);
+      expect(validateCollectionFields({ name: 'ok', description: 'x'.repeat(1001) })).toEqual([
+        'description must not exceed 1000 characters',
+      ]);
+    });
+
+    it('validates video IDs', () => {
+      expect(validateCollectionFields({ name: 'ok', videoIds: ID })).toEqual([
+        'videoIds must be an array',
+      ]);
+      expect(validateCollectionFields({ name: 'ok', videoIds: [ID, 'short'] })).toEqual([
+        'all videoIds must be YouTube video IDs',
+      ]);
+      expect(validateCollectionFields({ name: 'ok', videoIds: [ID, ID] })).toEqual([
+        'videoIds must not contain duplicates',
+      ]);
+      expect(
+        validateCollectionFields({
+          name: 'ok',
+          videoIds: new Array(MAX_COLLECTION_VIDEOS + 1).fill(ID),
+        })
+      ).toEqual([`maximum ${MAX_COLLECTION_VIDEOS} videos allowed`]);
+    });
+
+    it('allows partial updates but requires at least one field', () => {
+      expect(validateCollectionFields({ isShared: false }, true)).toEqual([]);
+      expect(validateCollectionFields({ description: null }, true)).toEqual([]);
+      expect(validateCollectionFields({ videoIds: [] }, true)).toEqual([]);
+      expect(validateCollectionFields({}, true)).toEqual([
+        'At least one field must be provided for update',
+      ]);
+      expect(validateCollectionFields({ name: '' }, true)).toEqual(['name is required']);
+    });
+
+    it('rejects non-object bodies', () => {
+      expect(validateCollectionFields(null)).toEqual(['Request body must be an object']);
+      expect(validateCollectionFields([])).toEqual(['Request body must be an object']);
+    });
+  });
+
+  describe('collectionProgress', () => {
+    it('weights progress by video duration', () => {
+      expect(
+        collectionProgress([
+          { durationSeconds: 600, progressSeconds: 300, completed: false },
+          { durationSeconds: 300, progressSeconds: 0, completed: false },
+          { durationSeconds: 100, progressSeconds: 0, completed: false },
+        ])
+      ).toEqual({
+        totalSeconds: 1000,
+        watchedSeconds: 300,
+        percentComplete: 30,
+        completedVideos: 0,
+      });
+    });
+
+    it('counts completed videos in full and caps progress at the duration', () => {
+      expect(
+        collectionProgress([
+          { durationSeconds: 600, progressSeconds: 580, completed: true },
+          { durationSeconds: 300, progressSeconds: 900, completed: false },
+          { durationSeconds: 300, progressSeconds: 100, completed: false },
+        ])
+      ).toEqual({
+        totalSeconds: 1200,
+        watchedSeconds: 1000,
+        percentComplete: 83.3,
+        completedVideos: 1,
+      });
+    });
+
+    it('leaves videos without a duration out of the totals', () => {
+      expect(
+        collectionProgress([
+          { durationSeconds: 0, progressSeconds: 0, completed: false },
+          { durationSeconds: null, progressSeconds: 0, completed: false },
+          { durationSeconds: 200, progressSeconds: 50, completed: false },
+        ])
+      ).toEqual({
+        totalSeconds: 200,
+        watchedSeconds: 50,
+        percentComplete: 25,
+        completedVideos: 0,
+      });
+    });
+
+    it('is zero for empty collections', () => {
+      expect(collectionProgress([])).toEqual({
+        totalSeconds: 0,
+        watchedSeconds: 0,
+        percentComplete: 0,
+        completedVideos: 0,
+      });
+    });
+  });
+});
@@ -0,0 +1,106 @@
+// Unit tests for offline keyphrase extraction
+
+import { describe, expect, it } from 'vitest';
+import type { TranscriptSegment } from '../types/youtube';
+import { extractCandidates, rankKeyphrases, tokenize } from '../utils/keyphrases';
+
+function segments(...texts: string[]): TranscriptSegment[] {
+  return texts.map((text, index) => ({ start: index * 3, duration: 3, text }));
+}
+
+const lesson = segments(
+  '[Music] Today we study the present perfect tense.',
+  'The present perfect links the past to now.',
+  'Compare it with the simple past tense.',
+  'I have visited Paris uses the present perfect.',
+  'I visited Paris yesterday uses the simple past.'
+);
+
+describe('Keyphrases', () => {
+  describe('tokenize', () => {
+    it('lowercases, keeps contractions and drops annotations', () => {
+      expect(tokenize("[Applause] It’s the Café's (laughs) best croissant!")).toEqual([
+        "it's",
+        'the',
+        "café's",
+        'best',
+        'croissant',
+      ]);
+    });
+  });
+
+  describe('extractCandidates', () => {
+    it('counts content words with their segment positions', () => {
+      const candidates = extractCandidates(lesson, 'en');
+      const perfect = candidates.find(candidate => candidate.term === 'perfect');
+
+      expect(perfect).toEqual({
+        term: 'perfect',
+        kind: 'word',
+        count: 3,
+        positions: [0, 1, 3],
+      });
+      expect(candidates.find(candidate => candidate.term === 'the')).toBeUndefined();
+      expect(candidates.find(candidate => candidate.term === 'music')).toBeUndefined();
+    });
+
+    it('keeps recurring collocations that do not start or end with stopwords', () => {
+      const phrases = extractCandidates(lesson, 'en')
+        .filter(candidate => candidate.kind === 'phrase')
+        .map(candidate => candidate.term);
+
+      expect(phrases).toEqual(
+        expect.arrayContaining(['present perfect', 'simple past', 'visited paris'])
+      );
+      expect(phrases).not.toContain('perfect tense'); // Occurs once
+      expect(phrases.some(phrase => phrase.startsWith('the '))).toBe(false);
+    });
+
+    it('uses no stopword list for other languages', () => {
+      const terms = extractCandidates(segments('the cat and the dog'), 'vi').map(
+        candidate => candidate.term
+      );
+
+      expect(terms).toEqual(expect.arrayContaining(['the', 'and', 'cat', 'dog']));
+    });
+  });
+
+  describe('rankKeyphrases', () => {
+    it('ranks terms that are rare across the corpus first', () => {
+      const candidates = extractCandidates(lesson, 'en');
+      const ranked = rankKeyphrases(candidates, {
+        documentCount: 100,
+        frequencies: { perfect: 90, present: 95, past: 80, paris: 1 },
+      });
+
+      const terms = ranked.map(keyphrase => keyphrase.term);
+      expect(terms.indexOf('paris')).toBeLessThan(terms.indexOf('perfect'));
+      expect(ranked[0].score).toBeGreaterThanOrEqual(ranked[1].score);
+    });
+
+    it('scores by weight alone against an empty corpus', () => {
+      const ranked = rankKeyphrases(extractCandidates(lesson, 'en'), {
+        documentCount: 0,
+        frequencies: {},
+      });
+
+      for (const keyphrase of ranked) {
+        expect(keyphrase.score).toBeCloseTo(keyphrase.weight, 6);
+      }
+    });
+
+    it('limits the number of keyphrases', () => {
+      const ranked = rankKeyphrases(
+        extractCandidates(lesson, 'en'),
+        { documentCount: 0, frequencies: {} },
+        3
+      );
+
+      expect(ranked).toHaveLength(3);
+    });
+
+    it('returns nothing for an empty transcript', () => {
+      expect(rankKeyphrases([], { documentCount: 10, frequencies: {} })).toEqual([]);
+    });
+  });
+});
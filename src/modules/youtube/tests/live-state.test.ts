@@ -0,0 +1,146 @@
+// Unit tests for live broadcast and premiere state
+
+import { describe, expect, it } from 'vitest';
+import {
+  isAwaitingBroadcast,
+  nextLiveCheckAt,
+  resolveLiveDetails,
+  retryAfterSeconds,
+  toLiveStateColumns,
+} from '../utils/live-state';
+
+const NOW = new Date('2025-06-25T12:00:00Z');
+
+describe('Live state', () => {
+  describe('resolveLiveDetails', () => {
+    it('treats regular uploads as none', () => {
+      expect(resolveLiveDetails({ snippet: { liveBroadcastContent: 'none' } } as any)).toEqual({
+        state: 'none',
+      });
+      expect(resolveLiveDetails({ snippet: {} } as any)).toEqual({ state: 'none' });
+    });
+
+    it('reads scheduled premieres', () => {
+      const live = resolveLiveDetails({
+        snippet: { liveBroadcastContent: 'upcoming' },
+        liveStreamingDetails: { scheduledStartTime: '2025-06-26T18:00:00Z' },
+      } as any);
+
+      expect(live).toEqual({ state: 'upcoming', scheduledStartAt: '2025-06-26T18:00:00Z' });
+    });
+
+    it('reads running livestreams with their viewer count', () => {
+      const live = resolveLiveDetails({
+        snippet: { liveBroadcastContent: 'live' },
+        liveStreamingDetails: {
+          actualStartTime: '2025-06-25T11:00:00Z',
+          concurrentViewers: '1234',
+        },
+      } as any);
+
+      expect(live).toEqual({
+        state: 'live',
+        actualStartAt: '2025-06-25T11:00:00Z',
+        concurrentViewers: 1234,
+      });
+    });
+
+    it('detects ended broadcasts from their end time', () => {
+      const live = resolveLiveDetails({
+        snippet: { liveBroadcastContent: 'none' },
+        liveStreamingDetails: {
+          scheduledStartTime: '2025-06-25T10:00:00Z',
+          actualStartTime: '2025-06-25T10:02:00Z',
+          actualEndTime: '2025-06-25T11:30:00Z',
+          concurrentViewers: '10',
+        },
+      } as any);
+
+      expect(live).toEqual({
+        state: 'ended',
+        scheduledStartAt: '2025-06-25T10:00:00Z',
+        actualStartAt: '2025-06-25T10:02:00Z',
+        actualEndAt: '2025-06-25T11:30:00Z',
+      });
+    });
+  });
+
+  describe('isAwaitingBroadcast', () => {
+    it('is true only for upcoming and live videos', () => {
+      expect(isAwaitingBroadcast('upcoming')).toBe(true);
+      expect(isAwaitingBroadcast('live')).toBe(true);
+      expect(isAwaitingBroadcast('ended')).toBe(false);
+      expect(isAwaitingBroadcast('none')).toBe(false);
+      expect(isAwaitingBroadcast(undefined)).toBe(false);
+    });
+  });
+
+  describe('nextLiveCheckAt', () => {
+    it('checks upcoming premieres at their scheduled start', () => {
+      expect(
+        nextLiveCheckAt({ state: 'upcoming', scheduledStartAt: '2025-06-26T18:00:00Z' }, NOW)
+      ).toEqual(new Date('2025-06-26T18:00:00Z'));
+    });
+
+    it('backs off for premieres past their scheduled start', () => {
+      expect(
+        nextLiveCheckAt({ state: 'upcoming', scheduledStartAt: '2025-06-25T11:00:00Z' }, NOW)
+      ).toEqual(new Date('2025-06-25T12:30:00Z'));
+    });
+
+    it('checks running livestreams every 15 minutes', () => {
+      expect(nextLiveCheckAt({ state: 'live' }, NOW)).toEqual(new Date('2025-06-25T12:15:00Z'));
+      expect(nextLiveCheckAt({ state: 'upcoming' }, NOW)).toEqual(new Date('2025-06-25T12:15:00Z'));
+    });
+
+    it('stops checking once the broadcast is over', () => {
+      expect(nextLiveCheckAt({ state: 'ended' }, NOW)).toBeNull();
+      expect(nextLiveCheckAt({ state: 'none' }, NOW)).toBeNull();
+    });
+  });
+
+  describe('toLiveStateColumns', () => {
+    it('maps live details to youtube_videos columns', () => {
+      expect(
+        toLiveStateColumns({ state: 'upcoming', scheduledStartAt: '2025-06-26T18:00:00Z' }, NOW)
+      ).toEqual({
+        live_state: 'upcoming',
+        scheduled_start_at: '2025-06-26T18:00:00Z',
+        actual_start_at: null,
+        actual_end_at: null,
+        next_live_check_at: '2025-06-26T18:00:00.000Z',
+      });
+    });
+
+    it('clears the next check for ended broadcasts', () => {
+      expect(
+        toLiveStateColumns(
+          {
+            state: 'ended',
+            actualStartAt: '2025-06-25T10:02:00Z',
+            actualEndAt: '2025-06-25T11:30:00Z',
+          },
+          NOW
+        )
+      ).toEqual({
+        live_state: 'ended',
+        scheduled_start_at: null,
+        actual_start_at: '2025-06-25T10:02:00Z',
+        actual_end_at: '2025-06-25T11:30:00Z',
+        next_live_check_at: null,
+      });
+    });
+  });
+
+  describe('retryAfterSeconds', () => {
+    it('waits until the next check', () => {
+      expect(retryAfterSeconds('2025-06-25T18:00:00Z', NOW)).toBe(6 * 60 * 60);
+    });
+
+    it('never asks clients to retry sooner than the live recheck interval', () => {
+      expect(retryAfterSeconds('2025-06-25T12:01:00Z', NOW)).toBe(15 * 60);
+      expect(retryAfterSeconds('2025-06-25T11:00:00Z', NOW)).toBe(15 * 60);
+      expect(retryAfterSeconds(null, NOW)).toBe(15 * 60);
+    });
+  });
+});
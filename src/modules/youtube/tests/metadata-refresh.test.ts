@@ -0,0 +1,204 @@
+// Unit tests for stale video metadata refresh planning and change detection
+
+import { describe, expect, it, vi } from 'vitest';
+import { createAppError, ErrorType } from '../../../shared/edge-functions/_shared/errors';
+import { MetadataRefreshReport, YouTubeErrorCode, YouTubeVideoMetadata } from '../types/youtube';
+import {
+  buildRefreshUpdate,
+  chunkVideoIds,
+  diffVideoMetadata,
+  planRefresh,
+  refreshInBatches,
+  StoredVideoSnapshot,
+} from '../utils/metadata-refresh';
+
+const metadata: YouTubeVideoMetadata = {
+  videoId: 'dQw4w9WgXcQ',
+  title: 'Present perfect explained',
+  description: '',
+  channelId: 'UCabcdefghijklmnopqrstuv',
+  channelName: 'English Lessons',
+  publishedAt: '2024-01-01T00:00:00Z',
+  duration: 'PT10M',
+  durationSeconds: 600,
+  thumbnails: {
+    default: { url: 'https://i.ytimg.com/default.jpg', width: 120, height: 90 },
+    high: { url: 'https://i.ytimg.com/high.jpg', width: 480, height: 360 },
+  },
+  statistics: { viewCount: 1500, likeCount: 90 },
+};
+
+const stored: StoredVideoSnapshot = {
+  video_id: 'dQw4w9WgXcQ',
+  title: 'Present perfect explained',
+  duration_seconds: 600,
+  view_count: 1200,
+  like_count: 90,
+  comment_count: 4,
+  thumbnail_url: 'https://i.ytimg.com/high.jpg',
+  availability_status: 'available',
+};
+
+/**
+ * Supabase stub whose queries all resolve with the given rows
+ */
+function createSupabase(rows: StoredVideoSnapshot[]) {
+  const query: any = {
+    select: () => query,
+    in: () => query,
+    update: () => query,
+    eq: () => query,
+    then: (resolve: (value: unknown) => void) => resolve({ data: rows, error: null }),
+  };
+  return { from: () => query, rpc: vi.fn(async () => ({ data: null, error: null })) };
+}
+
+function emptyReport(): MetadataRefreshReport {
+  return {
+    runId: 'run',
+    checked: 0,
+    updated: 0,
+    unchanged: 0,
+    becameUnavailable: [],
+    restored: [],
+    changes: [],
+    quotaUsed: 0,
+    quotaRemaining: 500,
+    budgetExhausted: false,
+  };
+}
+
+describe('Metadata refresh', () => {
+  describe('planRefresh', () => {
+    it('caps the run by the requested number of videos', () => {
+      expect(planRefresh(500, 0, 120)).toEqual({
+        batches: 3,
+        maxVideos: 120,
+        quotaRemaining: 500,
+      });
+    });
+
+    it('caps the run by the remaining budget', () => {
+      expect(planRefresh(500, 498, 1000)).toEqual({
+        batches: 2,
+        maxVideos: 100,
+        quotaRemaining: 2,
+      });
+    });
+
+    it('plans nothing once the budget is spent', () => {
+      expect(planRefresh(500, 650, 1000)).toEqual({
+        batches: 0,
+        maxVideos: 0,
+        quotaRemaining: 0,
+      });
+    });
+  });
+
+  describe('chunkVideoIds', () => {
+    it('splits IDs into batches of 50', () => {
+      const ids = Array.from({ length: 120 }, (_, i) => `video${i}`);
+
+      expect(chunkVideoIds(ids).map(batch => batch.length)).toEqual([50, 50, 20]);
+    });
+  });
+
+  describe('diffVideoMetadata', () => {
+    it('reports changed statistics', () => {
+      expect(diffVideoMetadata(stored, metadata)).toEqual({
+        viewCount: { from: 1200, to: 1500 },
+      });
+    });
+
+    it('ignores statistics the owner has hidden', () => {
+      const hidden = { ...metadata, statistics: { viewCount: 1200 } };
+
+      expect(diffVideoMetadata(stored, hidden)).toEqual({});
+    });
+
+    it('reports videos that became available again', () => {
+      const changes = diffVideoMetadata(
+        { ...stored, view_count: 1500, availability_status: 'private' },
+        metadata
+      );
+
+      expect(changes).toEqual({ availability: { from: 'private', to: 'available' } });
+    });
+  });
+
+  describe('buildRefreshUpdate', () => {
+    it('marks the video available and leaves hidden statistics out', () => {
+      const update = buildRefreshUpdate(metadata);
+
+      expect(update).toMatchObject({
+        title: 'Present perfect explained',
+        thumbnail_url: 'https://i.ytimg.com/high.jpg',
+        view_count: 1500,
+        like_count: 90,
+        availability_status: 'available',
+        unavailable_since: null,
+      });
+      expect(JSON.parse(JSON.stringify(update))).not.toHaveProperty('comment_count');
+    });
+  });
+
+  describe('refreshInBatches', () => {
+    it('refreshes every batch and counts the quota spent', async () => {
+      const youtube = {
+        getVideosMetadata: vi.fn(async () => [metadata]),
+        checkVideoAvailability: vi.fn(),
+      };
+      const afterBatch = vi.fn(async () => {});
+      const report = emptyReport();
+
+      await refreshInBatches(
+        createSupabase([stored]),
+        youtube,
+        ['dQw4w9WgXcQ'],
+        report,
+        500,
+        afterBatch
+      );
+
+      expect(report).toMatchObject({ checked: 1, updated: 1, quotaUsed: 1, quotaRemaining: 499 });
+      expect(report.budgetExhausted).toBe(false);
+      expect(afterBatch).toHaveBeenCalledTimes(1);
+    });
+
+    it('stops with budgetExhausted when the quota budget is reached', async () => {
+      const youtube = {
+        getVideosMetadata: vi.fn(async () => {
+          throw createAppError(
+            YouTubeErrorCode.QUOTA_BUDGET_EXCEEDED as unknown as ErrorType,
+            'YouTube API quota budget reached. Please try again later.'
+          );
+        }),
+        checkVideoAvailability: vi.fn(),
+      };
+      const ids = Array.from(
+        { length: 120 },
+        (_, index) => `video${String(index).padStart(6, '0')}`
+      );
+      const report = emptyReport();
+
+      await refreshInBatches(createSupabase([]), youtube, ids, report, 500);
+
+      expect(youtube.getVideosMetadata).toHaveBeenCalledTimes(1);
+      expect(report.budgetExhausted).toBe(true);
+      expect(report.quotaUsed).toBe(1);
+    });
+
+    it('rethrows other errors', async () => {
+      const youtube = {
+        getVideosMetadata: vi.fn(async () => {
+          throw new Error('network down');
+        }),
+        checkVideoAvailability: vi.fn(),
+      };
+
+      await expect(
+        refreshInBatches(createSupabase([]), youtube, ['dQw4w9WgXcQ'], emptyReport(), 500)
+      ).rejects.toThrow('network down');
+    });
+  });
+});
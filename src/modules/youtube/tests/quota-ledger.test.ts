@@ -0,0 +1,146 @@
+// Unit tests for YouTube Data API quota accounting
+
+import { describe, expect, it, vi } from 'vitest';
+import {
+  createQuotaBudget,
+  createQuotaBudgetFromEnv,
+  decideQuota,
+  getQuotaLevel,
+  QuotaStore,
+  USAGE_REFRESH_MS,
+  YouTubeQuotaLedger,
+} from '../utils/quota-ledger';
+
+const budget = createQuotaBudget(10000, 80, 95);
+
+function createStore(usedUnits: number): QuotaStore & { total: number } {
+  const store: QuotaStore & { total: number } = {
+    total: usedUnits,
+    getUsedUnits: vi.fn(async () => store.total),
+    record: vi.fn(async (_operation: string, units: number) => {
+      store.total += units;
+      return store.total;
+    }),
+  };
+  return store;
+}
+
+describe('Quota ledger', () => {
+  describe('createQuotaBudget', () => {
+    it('derives soft and hard limits from the daily quota', () => {
+      expect(budget).toEqual({ dailyLimit: 10000, softLimit: 8000, hardLimit: 9500 });
+    });
+
+    it('never puts the soft limit above the hard limit', () => {
+      expect(createQuotaBudget(1000, 99, 90)).toEqual({
+        dailyLimit: 1000,
+        softLimit: 900,
+        hardLimit: 900,
+      });
+    });
+  });
+
+  describe('createQuotaBudgetFromEnv', () => {
+    it('reads the quota and thresholds from the environment', () => {
+      const env: Record<string, string> = {
+        YOUTUBE_API_QUOTA_PER_DAY: '20000',
+        YOUTUBE_QUOTA_SOFT_LIMIT_PERCENT: '50',
+      };
+
+      expect(createQuotaBudgetFromEnv(key => env[key])).toEqual({
+        dailyLimit: 20000,
+        softLimit: 10000,
+        hardLimit: 19000,
+      });
+    });
+
+    it('falls back to defaults for missing or invalid values', () => {
+      expect(createQuotaBudgetFromEnv(() => 'abc')).toEqual(budget);
+    });
+  });
+
+  describe('getQuotaLevel', () => {
+    it('reports the budget level', () => {
+      expect(getQuotaLevel(7999, budget)).toBe('ok');
+      expect(getQuotaLevel(8000, budget)).toBe('soft');
+      expect(getQuotaLevel(9500, budget)).toBe('hard');
+    });
+  });
+
+  describe('decideQuota', () => {
+    it('allows every call below the soft limit', () => {
+      expect(decideQuota('search.list', 5000, budget)).toEqual({
+        allowed: true,
+        level: 'ok',
+        usedUnits: 5000,
+        cost: 100,
+        preferCache: false,
+      });
+    });
+
+    it('allows only cheap calls past the soft limit', () => {
+      expect(decideQuota('videos.list', 8500, budget)).toMatchObject({
+        allowed: true,
+        preferCache: true,
+      });
+      expect(decideQuota('search.list', 8500, budget).allowed).toBe(false);
+    });
+
+    it('refuses calls that would cross the hard limit', () => {
+      const noSoftLimit = createQuotaBudget(10000, 95, 95);
+
+      expect(decideQuota('search.list', 9450, noSoftLimit)).toMatchObject({
+        allowed: false,
+        level: 'ok',
+      });
+      expect(decideQuota('videos.list', 9500, budget)).toMatchObject({
+        allowed: false,
+        level: 'hard',
+      });
+    });
+  });
+
+  describe('YouTubeQuotaLedger', () => {
+    it('records unit costs and tracks the day total', async () => {
+      const store = createStore(100);
+      const ledger = new YouTubeQuotaLedger(store, budget);
+
+      await ledger.record('videos.list');
+      const total = await ledger.record('search.list');
+
+      expect(total).toBe(201);
+      expect(store.record).toHaveBeenCalledWith('search.list', 100);
+      expect(await ledger.getUsedUnits()).toBe(201);
+    });
+
+    it('reads usage from the store only when the cached value is old', async () => {
+      let now = 0;
+      const store = createStore(8200);
+      const ledger = new YouTubeQuotaLedger(store, budget, () => now);
+
+      now = USAGE_REFRESH_MS + 1;
+      expect((await ledger.check('search.list')).allowed).toBe(false);
+      expect((await ledger.check('videos.list')).allowed).toBe(true);
+      expect(store.getUsedUnits).toHaveBeenCalledTimes(1);
+
+      store.total = 0;
+      now += USAGE_REFRESH_MS + 1;
+      expect((await ledger.check('search.list')).allowed).toBe(true);
+      expect(store.getUsedUnits).toHaveBeenCalledTimes(2);
+    });
+
+    it('keeps a local estimate when the store write fails', async () => {
+      const store = createStore(0);
+      store.record = vi.fn(async () => {
+        throw new Error('connection reset');
+      });
+      const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const ledger = new YouTubeQuotaLedger(store, budget, () => USAGE_REFRESH_MS + 1);
+
+      await ledger.getUsedUnits();
+      expect(await ledger.record('search.list')).toBe(100);
+
+      consoleError.mockRestore();
+    });
+  });
+});
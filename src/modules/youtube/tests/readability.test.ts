@@ -0,0 +1,156 @@
+// Unit tests for transcript readability metrics and CEFR estimation
+
+import { describe, expect, it } from 'vitest';
+import type { TranscriptSegment } from '../types/youtube';
+import {
+  computeReadability,
+  estimateCEFRLevel,
+  frequencyBand,
+  frequencyBandCoverage,
+  movingAverageTTR,
+  speakingSeconds,
+} from '../utils/readability';
+
+/**
+ * Consecutive segments spoken at the given pace
+ */
+function paced(texts: string[], wordsPerMinute: number): TranscriptSegment[] {
+  let start = 0;
+  return texts.map(text => {
+    const duration = (text.split(/\s+/).length / wordsPerMinute) * 60;
+    const segment = { start, duration, text };
+    start += duration;
+    return segment;
+  });
+}
+
+const beginner = paced(
+  Array.from({ length: 8 }, () => [
+    'Hello, my name is Anna.',
+    'I live in a small house with my mother and father.',
+    'Every day I go to school and I eat lunch with my friend.',
+  ]).flat(),
+  95
+);
+
+const advanced = paced(
+  Array.from({ length: 4 }, (_, index) => [
+    `Chapter ${index}: the unprecedented proliferation of algorithmic governance`,
+    'necessitates rigorous epistemological scrutiny of institutional accountability,',
+    'particularly where opaque infrastructures mediate jurisprudential outcomes',
+    'and exacerbate entrenched socioeconomic asymmetries across heterogeneous constituencies.',
+  ]).flat(),
+  185
+);
+
+describe('Readability', () => {
+  describe('speakingSeconds', () => {
+    it('counts overlapping segments once', () => {
+      expect(
+        speakingSeconds([
+          { start: 0, duration: 4, text: 'a' },
+          { start: 2, duration: 4, text: 'b' },
+          { start: 3, duration: 1, text: 'c' },
+          { start: 10, duration: 2, text: 'd' },
+        ])
+      ).toBe(8);
+    });
+
+    it('ignores segments without a duration', () => {
+      expect(speakingSeconds([{ start: 5, duration: 0, text: 'a' }])).toBe(0);
+    });
+  });
+
+  describe('movingAverageTTR', () => {
+    it('uses the plain type-token ratio for short texts', () => {
+      expect(movingAverageTTR(['a', 'b', 'a', 'c'], 50)).toBe(0.75);
+    });
+
+    it('averages the ratio over sliding windows', () => {
+      // Windows: [a b a] [b a c] [a c c] -> 2/3, 3/3, 2/3
+      expect(movingAverageTTR(['a', 'b', 'a', 'c', 'c'], 3)).toBeCloseTo(7 / 9);
+    });
+
+    it('does not fall with transcript length for repeated material', () => {
+      const tokens = Array.from({ length: 40 }, (_, index) => `w${index}`);
+      expect(movingAverageTTR([...tokens, ...tokens, ...tokens], 20)).toBe(1);
+    });
+  });
+
+  describe('frequencyBand', () => {
+    it('matches inflected and contracted forms to their lemma', () => {
+      expect(frequencyBand('houses')).toBe(1);
+      expect(frequencyBand('stopped')).toBe(1);
+      expect(frequencyBand('running')).toBe(1);
+      expect(frequencyBand("don't")).toBe(1);
+      expect(frequencyBand('bottles')).toBe(2);
+      expect(frequencyBand('epistemological')).toBeNull();
+    });
+
+    it('reports the share of tokens in each band', () => {
+      expect(frequencyBandCoverage(['the', 'bottle', 'jurisprudence', 'house'])).toEqual({
+        band1: 0.5,
+        band2: 0.25,
+        offList: 0.25,
+      });
+    });
+  });
+
+  describe('estimateCEFRLevel', () => {
+    it('maps the easiest and hardest signals to A1 and C2', () => {
+      expect(
+        estimateCEFRLevel({
+          frequencyBands: { band1: 1, band2: 0, offList: 0 },
+          lexicalDiversity: 0.5,
+          wordsPerMinute: 80,
+        })
+      ).toEqual({ difficultyScore: 0, cefrLevel: 'A1' });
+      expect(
+        estimateCEFRLevel({
+          frequencyBands: { band1: 0.5, band2: 0.1, offList: 0.4 },
+          lexicalDiversity: 0.9,
+          wordsPerMinute: 220,
+        })
+      ).toEqual({ difficultyScore: 1, cefrLevel: 'C2' });
+    });
+  });
+
+  describe('computeReadability', () => {
+    it('rates simple slow speech below dense fast speech', () => {
+      const easy = computeReadability(beginner, 'en');
+      const hard = computeReadability(advanced, 'en');
+
+      expect(easy.wordsPerMinute).toBeCloseTo(95, 0);
+      expect(hard.wordsPerMinute).toBeGreaterThan(easy.wordsPerMinute);
+      expect(easy.cefrLevel).toMatch(/^A/);
+      expect(hard.cefrLevel).toMatch(/^C/);
+      expect(easy.difficultyScore!).toBeLessThan(hard.difficultyScore!);
+    });
+
+    it('skips frequency bands and the level for other languages', () => {
+      const readability = computeReadability(beginner, 'vi');
+
+      expect(readability.frequencyBands).toBeNull();
+      expect(readability.cefrLevel).toBeNull();
+      expect(readability.wordCount).toBeGreaterThan(0);
+    });
+
+    it('gives no level for very short transcripts', () => {
+      const readability = computeReadability(beginner.slice(0, 2), 'en');
+
+      expect(readability.frequencyBands).not.toBeNull();
+      expect(readability.cefrLevel).toBeNull();
+      expect(readability.difficultyScore).toBeNull();
+    });
+
+    it('handles an empty transcript', () => {
+      expect(computeReadability([], 'en')).toMatchObject({
+        wordCount: 0,
+        speakingSeconds: 0,
+        wordsPerMinute: 0,
+        lexicalDiversity: 0,
+        cefrLevel: null,
+      });
+    });
+  });
+});
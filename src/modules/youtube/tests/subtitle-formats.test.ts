@@ -0,0 +1,134 @@
+// Unit tests for subtitle rendering utilities
+
+import { describe, expect, it } from 'vitest';
+import {
+  isSubtitleFormat,
+  renderSubtitles,
+  toPlainText,
+  toSRT,
+  toTTML,
+  toWebVTT,
+  wrapText,
+} from '../utils/subtitle-formats';
+
+const segments = [
+  { start: 0, duration: 2.5, text: "We're no strangers to love" },
+  { start: 2.5, duration: 3.25, text: 'You know the rules & so do I' },
+  { start: 3725.1, duration: 1.9, text: '<music>' },
+];
+
+describe('Subtitle formats', () => {
+  describe('wrapText', () => {
+    it('returns a single normalized line when no limit is given', () => {
+      expect(wrapText('  hello \n  world  ')).toEqual(['hello world']);
+    });
+
+    it('wraps at word boundaries', () => {
+      expect(wrapText('the quick brown fox jumps over', 10)).toEqual([
+        'the quick',
+        'brown fox',
+        'jumps over',
+      ]);
+    });
+
+    it('keeps words longer than the limit on their own line', () => {
+      expect(wrapText('a supercalifragilistic word', 8)).toEqual([
+        'a',
+        'supercalifragilistic',
+        'word',
+      ]);
+    });
+
+    it('returns no lines for blank text', () => {
+      expect(wrapText('   ')).toEqual([]);
+    });
+  });
+
+  describe('toSRT', () => {
+    it('renders numbered cues with comma millisecond separators', () => {
+      const output = toSRT(segments.slice(0, 2));
+
+      expect(output).toBe(
+        [
+          '1',
+          '00:00:00,000 --> 00:00:02,500',
+          "We're no strangers to love",
+          '',
+          '2',
+          '00:00:02,500 --> 00:00:05,750',
+          'You know the rules & so do I',
+          '',
+        ].join('\n')
+      );
+    });
+
+    it('formats hours and skips empty segments', () => {
+      const output = toSRT([{ start: 1, duration: 1, text: '  ' }, segments[2]]);
+
+      expect(output).toContain('1\n01:02:05,100 --> 01:02:07,000\n<music>');
+      expect(output).not.toContain('2\n');
+    });
+
+    it('applies the maximum line length', () => {
+      const output = toSRT([segments[1]], { maxLineLength: 15 });
+
+      expect(output).toContain('You know the\nrules & so do I');
+    });
+  });
+
+  describe('toWebVTT', () => {
+    it('starts with the WEBVTT header and escapes markup', () => {
+      const output = toWebVTT(segments);
+
+      expect(output.startsWith('WEBVTT\n\n00:00:00.000 --> 00:00:02.500\n')).toBe(true);
+      expect(output).toContain('You know the rules &amp; so do I');
+      expect(output).toContain('&lt;music&gt;');
+    });
+  });
+
+  describe('toTTML', () => {
+    it('renders an XML document with escaped paragraphs', () => {
+      const output = toTTML(segments.slice(1), { language: 'en', maxLineLength: 15 });
+
+      expect(output).toContain('<tt xmlns="http://www.w3.org/ns/ttml" xml:lang="en">');
+      expect(output).toContain(
+        '<p begin="00:00:02.500" end="00:00:05.750">You know the<br/>rules &amp; so do I</p>'
+      );
+      expect(output).toContain('<p begin="01:02:05.100" end="01:02:07.000">&lt;music&gt;</p>');
+    });
+  });
+
+  describe('toPlainText', () => {
+    it('prefixes each segment with a timestamp', () => {
+      expect(toPlainText(segments)).toBe(
+        [
+          "[00:00] We're no strangers to love",
+          '[00:02] You know the rules & so do I',
+          '[01:02:05] <music>',
+          '',
+        ].join('\n')
+      );
+    });
+
+    it('returns an empty string for an empty transcript', () => {
+      expect(toPlainText([])).toBe('');
+    });
+  });
+
+  describe('renderSubtitles', () => {
+    it('dispatches to the requested format', () => {
+      expect(renderSubtitles(segments, 'srt')).toBe(toSRT(segments));
+      expect(renderSubtitles(segments, 'vtt')).toBe(toWebVTT(segments));
+      expect(renderSubtitles(segments, 'ttml')).toBe(toTTML(segments));
+      expect(renderSubtitles(segments, 'txt')).toBe(toPlainText(segments));
+    });
+
+    it('recognizes supported formats', () => {
+      expect(isSubtitleFormat('vtt')).toBe(true);
+      expect(isSubtitleFormat('docx')).toBe(false);
+      expect(isSubtitleFormat(undefined)).toBe(false);
+      expect(isSubtitleFormat('constructor')).toBe(false);
+      expect(isSubtitleFormat('toString')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,155 @@
+// Unit tests for Google Takeout watch history parsing
+
+import { readFileSync } from 'fs';
+import { describe, expect, it } from 'vitest';
+import {
+  dedupeWatchEntries,
+  detectTakeoutFormat,
+  parseTakeoutFile,
+  parseTakeoutTimestamp,
+} from '../utils/takeout-parser';
+
+function fixture(name: string): string {
+  return readFileSync(new URL(`./fixtures/takeout/${name}`, import.meta.url), 'utf-8');
+}
+
+describe('Takeout watch history parser', () => {
+  describe('detectTakeoutFormat', () => {
+    it('detects JSON and HTML exports', () => {
+      expect(detectTakeoutFormat('﻿  [{"header":"YouTube"}]')).toBe('json');
+      expect(detectTakeoutFormat('\n<html><body></body></html>')).toBe('html');
+      expect(detectTakeoutFormat('video_id,watched_at')).toBeNull();
+    });
+  });
+
+  describe('watch-history.json', () => {
+    const result = parseTakeoutFile(fixture('watch-history.json'));
+
+    it('parses watch entries with their original timestamps', () => {
+      expect(result.format).toBe('json');
+      expect(result.entries).toEqual([
+        {
+          videoId: 'dQw4w9WgXcQ',
+          watchedAt: '2024-03-02T21:14:05.123Z',
+          title: 'Rick Astley - Never Gonna Give You Up (Official Music Video)',
+          channelName: 'Rick Astley',
+        },
+        {
+          videoId: 'jNQXAC9IVRw',
+          watchedAt: '2024-02-20T17:45:12.000Z',
+          title: 'Me at the zoo',
+          channelName: 'jawed',
+        },
+        {
+          videoId: 'dQw4w9WgXcQ',
+          watchedAt: '2019-07-14T10:02:33.456Z',
+          title: 'Rick Astley - Never Gonna Give You Up (Official Video)',
+          channelName: 'Rick Astley',
+        },
+      ]);
+    });
+
+    it('counts ads, removed videos and unrecognized links', () => {
+      expect(result.skipped).toEqual({ ads: 1, removed: 1, invalid: 1 });
+    });
+
+    it('rejects files that are not a Takeout array', () => {
+      expect(() => parseTakeoutFile('[not json', 'json')).toThrow('not valid JSON');
+      expect(() => parseTakeoutFile('{"items":[]}', 'json')).toThrow('array of entries');
+      expect(() => parseTakeoutFile('plain text')).toThrow('Unrecognized');
+    });
+  });
+
+  describe('watch-history.html', () => {
+    const result = parseTakeoutFile(fixture('watch-history.html'));
+
+    it('parses watch entries and converts local times to UTC', () => {
+      expect(result.format).toBe('html');
+      expect(result.entries).toEqual([
+        {
+          videoId: 'dQw4w9WgXcQ',
+          watchedAt: '2024-03-02T21:14:05.000Z',
+          title: 'Rick Astley - Never Gonna Give You Up (Official Music Video)',
+          channelName: 'Rick Astley',
+        },
+        {
+          videoId: 'jNQXAC9IVRw',
+          watchedAt: '2024-02-20T17:45:12.000Z',
+          title: 'Me at the zoo & friends',
+          channelName: 'jawed',
+        },
+        {
+          videoId: 'dQw4w9WgXcQ',
+          watchedAt: '2019-07-14T10:02:33.000Z',
+          title: 'Rick Astley - Never Gonna Give You Up (Official Video)',
+          channelName: 'Rick Astley',
+        },
+      ]);
+    });
+
+    it('counts ads, removed videos and timestamps in other languages', () => {
+      expect(result.skipped).toEqual({ ads: 1, removed: 1, invalid: 1 });
+    });
+  });
+
+  describe('parseTakeoutTimestamp', () => {
+    const timestamps: Array<[string, string | null]> = [
+      ['Mar 2, 2024, 4:14:05 PM EST', '2024-03-02T21:14:05.000Z'],
+      ['Mar 2, 2024, 4:14:05 PM EST', '2024-03-02T21:14:05.000Z'],
+      ['Jul 4, 2023, 12:00:01 AM PDT', '2023-07-04T07:00:01.000Z'],
+      ['Jul 4, 2023, 12:30:00 PM UTC', '2023-07-04T12:30:00.000Z'],
+      ['Sept 9, 2022, 9:09:09 AM GMT+7', '2022-09-09T02:09:09.000Z'],
+      ['25 Jun 2023, 20:15:30 CEST', '2023-06-25T18:15:30.000Z'],
+      ['25 Jun 2023, 20:15:30 GMT-03:30', '2023-06-25T23:45:30.000Z'],
+      ['25 Jun 2023, 20:15:30 XYZ', null],
+      ['25 juin 2023, 20:15:30 UTC', null],
+      ['2023-06-25 20:15:30', null],
+      ['', null],
+    ];
+
+    it.each(timestamps)('parses %j', (input, expected) => {
+      expect(parseTakeoutTimestamp(input)).toBe(expected);
+    });
+  });
+
+  describe('dedupeWatchEntries', () => {
+    it('merges rewatches and orders videos by their last watch', () => {
+      const { entries } = parseTakeoutFile(fixture('watch-history.json'));
+
+      expect(dedupeWatchEntries(entries)).toEqual([
+        {
+          videoId: 'dQw4w9WgXcQ',
+          firstWatchedAt: '2019-07-14T10:02:33.456Z',
+          lastWatchedAt: '2024-03-02T21:14:05.123Z',
+          watchCount: 2,
+          title: 'Rick Astley - Never Gonna Give You Up (Official Music Video)',
+          channelName: 'Rick Astley',
+        },
+        {
+          videoId: 'jNQXAC9IVRw',
+          firstWatchedAt: '2024-02-20T17:45:12.000Z',
+          lastWatchedAt: '2024-02-20T17:45:12.000Z',
+          watchCount: 1,
+          title: 'Me at the zoo',
+          channelName: 'jawed',
+        },
+      ]);
+    });
+
+    it('keeps the most recent title whatever the input order', () => {
+      const videos = dedupeWatchEntries([
+        { videoId: 'dQw4w9WgXcQ', watchedAt: '2019-01-01T00:00:00.000Z', title: 'Old' },
+        { videoId: 'dQw4w9WgXcQ', watchedAt: '2024-01-01T00:00:00.000Z', title: 'New' },
+        { videoId: 'dQw4w9WgXcQ', watchedAt: '2020-01-01T00:00:00.000Z', title: 'Middle' },
+      ]);
+
+      expect(videos).toHaveLength(1);
+      expect(videos[0]).toMatchObject({
+        title: 'New',
+        watchCount: 3,
+        firstWatchedAt: '2019-01-01T00:00:00.000Z',
+        lastWatchedAt: '2024-01-01T00:00:00.000Z',
+      });
+    });
+  });
+});
@@ -0,0 +1,140 @@
+// Unit tests for transcript version diffing and timestamp remapping
+
+import { describe, expect, it } from 'vitest';
+import type { TranscriptSegment } from '../types/youtube';
+import {
+  diffTranscripts,
+  hasTranscriptChanges,
+  MAX_DIFF_CELLS,
+  remapTimestamp,
+  summarizeDiff,
+} from '../utils/transcript-diff';
+
+const previous: TranscriptSegment[] = [
+  { start: 0, duration: 2, text: 'Welcome back to the channel.' },
+  { start: 2, duration: 3, text: 'Today we look at phrasal verbs.' },
+  { start: 5, duration: 2, text: 'Lets get started' },
+  { start: 7, duration: 4, text: 'First up, give up.' },
+];
+
+describe('Transcript diff', () => {
+  describe('diffTranscripts', () => {
+    it('reports no changes for identical versions', () => {
+      const diff = diffTranscripts(previous, previous);
+
+      expect(hasTranscriptChanges(diff)).toBe(false);
+      expect(summarizeDiff(diff)).toEqual({ added: 0, removed: 0, retimed: 0, unchanged: 4 });
+    });
+
+    it('ignores case, punctuation and sub-tolerance timing noise', () => {
+      const next = previous.map((segment, index) =>
+        index === 2 ? { ...segment, start: 5.02, text: "Let's get started!" } : segment
+      );
+
+      expect(hasTranscriptChanges(diffTranscripts(previous, next))).toBe(false);
+    });
+
+    it('detects added, removed and retimed segments', () => {
+      const next: TranscriptSegment[] = [
+        { start: 0, duration: 2, text: 'Welcome back to the channel.' },
+        { start: 2.5, duration: 2.5, text: 'Today we look at phrasal verbs.' },
+        { start: 5, duration: 1, text: 'Grab a notebook.' },
+        { start: 6, duration: 1, text: 'Lets get started' },
+        { start: 7, duration: 4, text: 'First up: give in.' },
+      ];
+
+      const diff = diffTranscripts(previous, next);
+
+      expect(diff.added.map(change => change.text)).toEqual([
+        'Grab a notebook.',
+        'First up: give in.',
+      ]);
+      expect(diff.removed).toEqual([
+        { index: 3, start: 7, duration: 4, text: 'First up, give up.' },
+      ]);
+      expect(diff.retimed).toEqual([
+        {
+          oldIndex: 1,
+          newIndex: 1,
+          text: 'Today we look at phrasal verbs.',
+          before: { start: 2, duration: 3 },
+          after: { start: 2.5, duration: 2.5 },
+        },
+        {
+          oldIndex: 2,
+          newIndex: 3,
+          text: 'Lets get started',
+          before: { start: 5, duration: 2 },
+          after: { start: 6, duration: 1 },
+        },
+      ]);
+      expect(diff.unchanged).toBe(1);
+    });
+
+    it('handles empty versions', () => {
+      expect(summarizeDiff(diffTranscripts([], previous))).toMatchObject({ added: 4 });
+      expect(summarizeDiff(diffTranscripts(previous, []))).toMatchObject({ removed: 4 });
+    });
+
+    it('falls back to replacing the changed middle of very large transcripts', () => {
+      const size = Math.ceil(Math.sqrt(MAX_DIFF_CELLS)) + 1;
+      const build = (prefix: string) =>
+        Array.from({ length: size }, (_, index) => ({
+          start: index,
+          duration: 1,
+          text: `${prefix} ${index}`,
+        }));
+      const shared = { start: -1, duration: 1, text: 'Intro' };
+
+      const diff = diffTranscripts([shared, ...build('old')], [shared, ...build('new')]);
+
+      expect(summarizeDiff(diff)).toEqual({
+        added: size,
+        removed: size,
+        retimed: 0,
+        unchanged: 1,
+      });
+    });
+  });
+
+  describe('remapTimestamp', () => {
+    const retimed = diffTranscripts(previous, [
+      { start: 0, duration: 2, text: 'Welcome back to the channel.' },
+      { start: 3, duration: 1.5, text: 'Today we look at phrasal verbs.' },
+      { start: 5, duration: 2, text: 'Lets get started' },
+      { start: 7, duration: 4, text: 'First up, give up.' },
+    ]).retimed;
+
+    it('keeps the relative position inside a retimed segment', () => {
+      expect(remapTimestamp(2, retimed)).toBe(3);
+      expect(remapTimestamp(3.5, retimed)).toBe(3.75);
+    });
+
+    it('leaves timestamps outside retimed segments alone', () => {
+      expect(remapTimestamp(1, retimed)).toBe(1);
+      expect(remapTimestamp(5, retimed)).toBe(5);
+      expect(remapTimestamp(20, [])).toBe(20);
+    });
+
+    it('uses the latest overlapping segment', () => {
+      const overlapping = [
+        {
+          oldIndex: 0,
+          newIndex: 0,
+          text: 'a',
+          before: { start: 0, duration: 4 },
+          after: { start: 1, duration: 4 },
+        },
+        {
+          oldIndex: 1,
+          newIndex: 1,
+          text: 'b',
+          before: { start: 2, duration: 4 },
+          after: { start: 2.5, duration: 4 },
+        },
+      ];
+
+      expect(remapTimestamp(3, overlapping)).toBe(3.5);
+    });
+  });
+});
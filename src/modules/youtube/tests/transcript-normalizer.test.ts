@@ -0,0 +1,227 @@
+// Unit tests for transcript normalization
+
+import { describe, expect, it, vi } from 'vitest';
+import {
+  dedupeRollingCaptions,
+  mergeIntoSentences,
+  normalizeTranscript,
+  restorePunctuation,
+} from '../utils/transcript-normalizer';
+
+/**
+ * Rolling auto-captions: each cue repeats the line shown before it
+ */
+const rollingSegments = [
+  { start: 0, duration: 3, text: 'so today we are' },
+  { start: 2, duration: 3, text: 'so today we are\nlearning about verbs' },
+  { start: 4, duration: 3, text: 'learning about verbs\nand how to use them' },
+  { start: 6, duration: 2, text: 'and how to use them' },
+];
+
+describe('Transcript normalizer', () => {
+  describe('dedupeRollingCaptions', () => {
+    it('removes repeated lines and drops fully repeated cues', () => {
+      expect(dedupeRollingCaptions(rollingSegments)).toEqual([
+        { start: 0, duration: 2, text: 'so today we are' },
+        { start: 2, duration: 2, text: 'learning about verbs' },
+        { start: 4, duration: 3, text: 'and how to use them' },
+      ]);
+    });
+
+    it('keeps a single repeated word that is not the whole cue', () => {
+      const segments = [
+        { start: 0, duration: 1, text: 'I think that' },
+        { start: 1, duration: 1, text: 'that is right' },
+      ];
+
+      expect(dedupeRollingCaptions(segments).map(s => s.text)).toEqual([
+        'I think that',
+        'that is right',
+      ]);
+    });
+
+    it('trims word timing and moves the start to the first new word', () => {
+      const segments = [
+        {
+          start: 1,
+          duration: 2,
+          text: 'hello there',
+          words: [
+            { text: 'hello', start: 1, end: 1.5 },
+            { text: 'there', start: 1.5, end: 3 },
+          ],
+        },
+        {
+          start: 1,
+          duration: 3,
+          text: 'hello there friend',
+          words: [
+            { text: 'hello', start: 1, end: 1.5 },
+            { text: 'there', start: 1.5, end: 3 },
+            { text: 'friend', start: 3, end: 4 },
+          ],
+        },
+      ];
+
+      expect(dedupeRollingCaptions(segments)[1]).toEqual({
+        start: 3,
+        duration: 1,
+        text: 'friend',
+        words: [{ text: 'friend', start: 3, end: 4 }],
+      });
+    });
+  });
+
+  describe('mergeIntoSentences', () => {
+    it('splits on terminal punctuation and interpolates timing', () => {
+      const sentences = mergeIntoSentences([
+        { start: 0, duration: 2, text: 'Hello there. How' },
+        { start: 2, duration: 2, text: 'are you?' },
+      ]);
+
+      expect(sentences.map(s => s.text)).toEqual(['Hello there.', 'How are you?']);
+      expect(sentences[0].start).toBe(0);
+      expect(sentences[0].duration).toBeCloseTo(1.529, 3);
+      expect(sentences[1].start).toBeCloseTo(1.529, 3);
+      expect(sentences[1].start + sentences[1].duration).toBe(4);
+      expect(sentences[0].words).toBeUndefined();
+    });
+
+    it('splits unpunctuated speech on long pauses and keeps word timing', () => {
+      const sentences = mergeIntoSentences([
+        {
+          start: 0,
+          duration: 1,
+          text: 'so today',
+          words: [
+            { text: 'so', start: 0, end: 0.4 },
+            { text: 'today', start: 0.4, end: 1 },
+          ],
+        },
+        {
+          start: 3,
+          duration: 1,
+          text: 'we begin',
+          words: [
+            { text: 'we', start: 3, end: 3.5 },
+            { text: 'begin', start: 3.5, end: 4 },
+          ],
+        },
+      ]);
+
+      expect(sentences).toEqual([
+        {
+          start: 0,
+          duration: 1,
+          text: 'so today',
+          words: [
+            { text: 'so', start: 0, end: 0.4 },
+            { text: 'today', start: 0.4, end: 1 },
+          ],
+        },
+        {
+          start: 3,
+          duration: 1,
+          text: 'we begin',
+          words: [
+            { text: 'we', start: 3, end: 3.5 },
+            { text: 'begin', start: 3.5, end: 4 },
+          ],
+        },
+      ]);
+    });
+
+    it('caps sentence duration', () => {
+      const segments = Array.from({ length: 10 }, (_, i) => ({
+        start: i * 3,
+        duration: 3,
+        text: `part ${i}`,
+      }));
+
+      const sentences = mergeIntoSentences(segments, { maxDuration: 10 });
+
+      expect(sentences.length).toBeGreaterThan(1);
+      for (const sentence of sentences) {
+        expect(sentence.duration).toBeLessThanOrEqual(10);
+      }
+      expect(sentences.map(s => s.text).join(' ')).toBe(segments.map(s => s.text).join(' '));
+    });
+  });
+
+  describe('restorePunctuation', () => {
+    it('realigns restored words onto the original segments', async () => {
+      const restorer = vi.fn(async (chunks: string[]) =>
+        chunks.map(() => 'So today, we are learning about verbs. And')
+      );
+
+      const result = await restorePunctuation(
+        [
+          { start: 0, duration: 2, text: 'so today we are' },
+          { start: 2, duration: 2, text: 'learning about\nverbs and' },
+        ],
+        restorer
+      );
+
+      expect(restorer).toHaveBeenCalledWith(['so today we are learning about verbs and']);
+      expect(result.map(s => s.text)).toEqual(['So today, we are', 'learning about\nverbs. And']);
+    });
+
+    it('keeps the original chunk when the word count changes', async () => {
+      const segments = [{ start: 0, duration: 2, text: 'gonna go now' }];
+
+      const result = await restorePunctuation(segments, async () => ['Going to go now.']);
+
+      expect(result).toEqual(segments);
+    });
+
+    it('rejects restored words that differ from the original', async () => {
+      const result = await restorePunctuation(
+        [
+          {
+            start: 0,
+            duration: 1,
+            text: 'their here',
+            words: [
+              { text: 'their', start: 0, end: 0.5 },
+              { text: 'here', start: 0.5, end: 1 },
+            ],
+          },
+        ],
+        async () => ["They're here."]
+      );
+
+      expect(result[0].text).toBe('their here.');
+      expect(result[0].words!.map(w => w.text)).toEqual(['their', 'here.']);
+    });
+
+    it('batches chunks across restorer calls', async () => {
+      const restorer = vi.fn(async (chunks: string[]) => chunks);
+      const segments = Array.from({ length: 6 }, (_, i) => ({
+        start: i,
+        duration: 1,
+        text: `segment number ${i}`,
+      }));
+
+      await restorePunctuation(segments, restorer, 40, 40);
+
+      expect(restorer).toHaveBeenCalledTimes(3);
+      expect(restorer.mock.calls[0][0]).toEqual(['segment number 0 segment number 1']);
+    });
+  });
+
+  describe('normalizeTranscript', () => {
+    it('dedupes, restores punctuation and merges sentences', async () => {
+      const restorer = async (chunks: string[]) =>
+        chunks.map(() => 'So today we are learning about verbs. And how to use them.');
+
+      const result = await normalizeTranscript(rollingSegments, { restorer });
+
+      expect(result.map(s => s.text)).toEqual([
+        'So today we are learning about verbs.',
+        'And how to use them.',
+      ]);
+      expect(result[0].start).toBe(0);
+      expect(result[1].start + result[1].duration).toBe(7);
+    });
+  });
+});
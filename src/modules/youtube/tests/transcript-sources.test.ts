@@ -0,0 +1,240 @@
+// Unit tests for transcript source ordering and the speech-to-text source
+
+import { describe, expect, it, vi } from 'vitest';
+import {
+  ASRTranscriptSource,
+  readASRConfig,
+  toTranscriptSegments,
+} from '../utils/asr-transcript-source';
+import {
+  parseTranscriptSourceOrder,
+  SourcedTranscript,
+  TranscriptSource,
+  TranscriptSourceChain,
+} from '../utils/transcript-sources';
+
+function createTranscript(source: 'captions' | 'asr'): SourcedTranscript {
+  return {
+    source,
+    segments: [{ start: 0, duration: 2, text: 'Hello there' }],
+    language: { code: 'en', name: 'English', isAutoGenerated: true, isTranslatable: true },
+    totalDuration: 2,
+  };
+}
+
+function createSource(
+  name: 'captions' | 'asr',
+  result: SourcedTranscript | null | Error
+): TranscriptSource {
+  return {
+    name,
+    fetchTranscript: vi.fn(async () => {
+      if (result instanceof Error) throw result;
+      return result;
+    }),
+  };
+}
+
+describe('Transcript sources', () => {
+  describe('parseTranscriptSourceOrder', () => {
+    it('defaults to captions then speech-to-text', () => {
+      expect(parseTranscriptSourceOrder(undefined)).toEqual(['captions', 'asr']);
+      expect(parseTranscriptSourceOrder('  ')).toEqual(['captions', 'asr']);
+    });
+
+    it('keeps the configured order and drops unknown names and duplicates', () => {
+      expect(parseTranscriptSourceOrder('asr, captions, asr, whisper')).toEqual([
+        'asr',
+        'captions',
+      ]);
+      expect(parseTranscriptSourceOrder('captions')).toEqual(['captions']);
+    });
+  });
+
+  describe('TranscriptSourceChain', () => {
+    it('returns the first transcript in source order', async () => {
+      const captions = createSource('captions', createTranscript('captions'));
+      const asr = createSource('asr', createTranscript('asr'));
+      const chain = new TranscriptSourceChain({ captions, asr }, ['asr', 'captions']);
+
+      const transcript = await chain.extract('dQw4w9WgXcQ', 'en');
+
+      expect(transcript.source).toBe('asr');
+      expect(captions.fetchTranscript).not.toHaveBeenCalled();
+    });
+
+    it('falls back when a source has nothing or fails', async () => {
+      const captions = createSource('captions', null);
+      const asr = createSource('asr', createTranscript('asr'));
+      const chain = new TranscriptSourceChain({ captions, asr });
+
+      expect((await chain.extract('dQw4w9WgXcQ', 'en')).source).toBe('asr');
+
+      const failing = new TranscriptSourceChain({
+        captions: createSource('captions', new Error('Failed to fetch video page: 500')),
+        asr,
+      });
+      expect((await failing.extract('dQw4w9WgXcQ', 'en')).source).toBe('asr');
+    });
+
+    it('skips sources that are not configured', async () => {
+      const chain = new TranscriptSourceChain({
+        captions: createSource('captions', createTranscript('captions')),
+        asr: undefined,
+      });
+
+      expect(chain.sources.map(source => source.name)).toEqual(['captions']);
+    });
+
+    it('rethrows the first failure with every attempt attached', async () => {
+      const chain = new TranscriptSourceChain({
+        captions: createSource('captions', null),
+        asr: createSource('asr', new Error('Transcription failed: 503')),
+      });
+
+      await expect(chain.extract('dQw4w9WgXcQ', 'en')).rejects.toMatchObject({
+        message: 'Transcription failed: 503',
+        attempts: [
+          { source: 'captions', outcome: 'empty' },
+          { source: 'asr', outcome: 'failed', error: 'Transcription failed: 503' },
+        ],
+      });
+    });
+
+    it('reports no transcripts when every source comes back empty', async () => {
+      const chain = new TranscriptSourceChain({ captions: createSource('captions', null) });
+
+      await expect(chain.extract('dQw4w9WgXcQ', 'en')).rejects.toThrow(
+        'No transcripts available for this video'
+      );
+    });
+  });
+
+  describe('readASRConfig', () => {
+    it('is disabled without an endpoint and audio URL', () => {
+      expect(readASRConfig(() => undefined)).toBeUndefined();
+      expect(
+        readASRConfig(key => (key === 'ASR_API_URL' ? 'http://localhost:8000/v1' : undefined))
+      ).toBeUndefined();
+    });
+
+    it('applies defaults', () => {
+      const env: Record<string, string> = {
+        ASR_API_URL: 'http://localhost:8000/v1/',
+        ASR_AUDIO_URL_TEMPLATE: 'http://localhost:9000/audio/{videoId}',
+      };
+
+      expect(readASRConfig(key => env[key])).toEqual({
+        apiUrl: 'http://localhost:8000/v1',
+        apiKey: undefined,
+        model: 'whisper-1',
+        audioUrlTemplate: 'http://localhost:9000/audio/{videoId}',
+        maxAudioBytes: 25 * 1024 * 1024,
+      });
+    });
+  });
+
+  describe('toTranscriptSegments', () => {
+    it('attaches words to the segment they start in', () => {
+      const segments = toTranscriptSegments({
+        text: 'Hello there. General Kenobi.',
+        duration: 4.2,
+        segments: [
+          { start: 0, end: 1.5004, text: ' Hello there.' },
+          { start: 1.8, end: 4.2, text: ' General Kenobi.' },
+        ],
+        words: [
+          { word: 'Hello', start: 0, end: 0.6 },
+          { word: 'there.', start: 0.7, end: 1.5 },
+          { word: 'General', start: 1.8, end: 2.9 },
+          { word: 'Kenobi.', start: 3.0, end: 4.2 },
+        ],
+      });
+
+      expect(segments).toEqual([
+        {
+          start: 0,
+          duration: 1.5,
+          text: 'Hello there.',
+          words: [
+            { text: 'Hello', start: 0, end: 0.6 },
+            { text: 'there.', start: 0.7, end: 1.5 },
+          ],
+        },
+        {
+          start: 1.8,
+          duration: 2.4,
+          text: 'General Kenobi.',
+          words: [
+            { text: 'General', start: 1.8, end: 2.9 },
+            { text: 'Kenobi.', start: 3, end: 4.2 },
+          ],
+        },
+      ]);
+    });
+
+    it('uses the full text when the server returns no segments', () => {
+      expect(toTranscriptSegments({ text: ' Hello there. ', duration: 2 })).toEqual([
+        { start: 0, duration: 2, text: 'Hello there.' },
+      ]);
+      expect(toTranscriptSegments({ text: '  ' })).toEqual([]);
+    });
+  });
+
+  describe('ASRTranscriptSource', () => {
+    const config = {
+      apiUrl: 'http://localhost:8000/v1',
+      apiKey: 'secret',
+      model: 'whisper-large-v3',
+      audioUrlTemplate: 'http://localhost:9000/audio/{videoId}',
+      maxAudioBytes: 1024,
+    };
+
+    it('downloads the audio and transcribes it', async () => {
+      const fetchFn = vi.fn(async (url: string | URL | Request) => {
+        if (String(url).startsWith('http://localhost:9000')) {
+          return new Response(new Blob(['audio'], { type: 'audio/webm' }));
+        }
+        return Response.json({
+          language: 'english',
+          duration: 1.2,
+          text: 'Hello',
+          segments: [{ start: 0, end: 1.2, text: 'Hello' }],
+        });
+      });
+      const source = new ASRTranscriptSource(config, fetchFn as typeof fetch);
+
+      const transcript = await source.fetchTranscript('dQw4w9WgXcQ', 'en-US');
+
+      expect(fetchFn).toHaveBeenCalledWith('http://localhost:9000/audio/dQw4w9WgXcQ');
+      const [url, init] = fetchFn.mock.calls[1] as unknown as [string, RequestInit];
+      const form = init.body as FormData;
+      expect(url).toBe('http://localhost:8000/v1/audio/transcriptions');
+      expect(init.headers).toEqual({ Authorization: 'Bearer secret' });
+      expect(form.get('model')).toBe('whisper-large-v3');
+      expect(form.get('language')).toBe('en');
+      expect(form.getAll('timestamp_granularities[]')).toEqual(['segment', 'word']);
+      expect((form.get('file') as File).name).toBe('dQw4w9WgXcQ.webm');
+
+      expect(transcript).toMatchObject({
+        source: 'asr',
+        model: 'whisper-large-v3',
+        totalDuration: 1.2,
+        language: { code: 'en-US', isAutoGenerated: true },
+        segments: [{ start: 0, duration: 1.2, text: 'Hello' }],
+      });
+    });
+
+    it('refuses audio over the size limit', async () => {
+      const fetchFn = vi.fn(
+        async () => new Response(new Blob(['x'.repeat(2048)], { type: 'audio/mpeg' }))
+      );
+      const source = new ASRTranscriptSource(config, fetchFn as unknown as typeof fetch);
+
+      await expect(source.fetchTranscript('dQw4w9WgXcQ', 'en')).rejects.toThrow(
+        'over the 1024 byte limit'
+      );
+      expect(fetchFn).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,241 @@
+// Unit tests for watched ranges and resume positions
+
+import { describe, expect, it } from 'vitest';
+import {
+  applyHeartbeat,
+  mergeWatchRanges,
+  resumePosition,
+  watchedSeconds,
+  WatchState,
+  WRITE_INTERVAL_SECONDS,
+} from '../utils/watch-ranges';
+
+const NOW = new Date('2025-06-25T12:00:00Z');
+
+function secondsAgo(seconds: number): string {
+  return new Date(NOW.getTime() - seconds * 1000).toISOString();
+}
+
+function playingAt(position: number, lastHeartbeatAgo = 5): WatchState {
+  return {
+    positionSeconds: position,
+    playing: true,
+    lastHeartbeatAt: secondsAgo(lastHeartbeatAgo),
+    ranges: [{ start: 0, end: position }],
+  };
+}
+
+describe('Watch ranges', () => {
+  describe('mergeWatchRanges', () => {
+    it('sorts and merges overlapping and adjacent ranges', () => {
+      expect(
+        mergeWatchRanges([
+          { start: 50, end: 60 },
+          { start: 0, end: 10 },
+          { start: 8, end: 20 },
+          { start: 20.5, end: 30 },
+          { start: 55, end: 58 },
+        ])
+      ).toEqual([
+        { start: 0, end: 30 },
+        { start: 50, end: 60 },
+      ]);
+    });
+
+    it('drops empty ranges', () => {
+      expect(
+        mergeWatchRanges([
+          { start: 10, end: 10 },
+          { start: 20, end: 15 },
+        ])
+      ).toEqual([]);
+    });
+
+    it('does not mutate its input', () => {
+      const ranges = [
+        { start: 0, end: 10 },
+        { start: 5, end: 20 },
+      ];
+      mergeWatchRanges(ranges);
+      expect(ranges[0]).toEqual({ start: 0, end: 10 });
+    });
+  });
+
+  describe('watchedSeconds', () => {
+    it('sums distinct covered seconds', () => {
+      expect(
+        watchedSeconds([
+          { start: 0, end: 30.25 },
+          { start: 50, end: 60 },
+        ])
+      ).toBe(40.3);
+      expect(watchedSeconds([])).toBe(0);
+    });
+  });
+
+  describe('resumePosition', () => {
+    it('rewinds a few seconds before the stored position', () => {
+      expect(resumePosition(125.6, 600)).toBe(122);
+      expect(resumePosition(2, 600)).toBe(0);
+    });
+
+    it('starts finished videos over', () => {
+      expect(resumePosition(580, 600)).toBe(0);
+    });
+
+    it('works without a known duration', () => {
+      expect(resumePosition(900, null)).toBe(897);
+    });
+  });
+
+  describe('applyHeartbeat', () => {
+    it('starts a session on the first heartbeat without recording a range', () => {
+      const update = applyHeartbeat(
+        { positionSeconds: null, playing: false, lastHeartbeatAt: null, ranges: [] },
+        { positionSeconds: 0, playing: true, playbackRate: 1 },
+        NOW
+      );
+
+      expect(update).toEqual({
+        ranges: [],
+        played: null,
+        watchSeconds: 0,
+        newSession: true,
+        shouldWrite: true,
+      });
+    });
+
+    it('extends the current range while playing continuously', () => {
+      const update = applyHeartbeat(
+        playingAt(30),
+        { positionSeconds: 35, playing: true, playbackRate: 1 },
+        NOW
+      );
+
+      expect(update.ranges).toEqual([{ start: 0, end: 35 }]);
+      expect(update.played).toEqual({ start: 30, end: 35 });
+      expect(update.watchSeconds).toBe(5);
+      expect(update.newSession).toBe(false);
+    });
+
+    it('writes continuous playback only every WRITE_INTERVAL_SECONDS', () => {
+      const between = applyHeartbeat(
+        playingAt(30),
+        { positionSeconds: 35, playing: true, playbackRate: 1 },
+        NOW
+      );
+      expect(between.shouldWrite).toBe(false);
+
+      // Skipped heartbeats leave the last write in place, so the next write
+      // covers the whole span since then
+      const due = applyHeartbeat(
+        playingAt(30, WRITE_INTERVAL_SECONDS),
+        { positionSeconds: 30 + WRITE_INTERVAL_SECONDS, playing: true, playbackRate: 1 },
+        NOW
+      );
+      expect(due.shouldWrite).toBe(true);
+      expect(due.played).toEqual({ start: 30, end: 30 + WRITE_INTERVAL_SECONDS });
+      expect(due.watchSeconds).toBe(WRITE_INTERVAL_SECONDS);
+    });
+
+    it('accounts for the playback rate', () => {
+      const update = applyHeartbeat(
+        playingAt(30),
+        { positionSeconds: 40, playing: true, playbackRate: 2 },
+        NOW
+      );
+
+      expect(update.ranges).toEqual([{ start: 0, end: 40 }]);
+      expect(update.watchSeconds).toBe(5);
+    });
+
+    it('treats forward jumps as seeks', () => {
+      const update = applyHeartbeat(
+        playingAt(30),
+        { positionSeconds: 300, playing: true, playbackRate: 1 },
+        NOW
+      );
+
+      expect(update.ranges).toEqual([{ start: 0, end: 30 }]);
+      expect(update.played).toBeNull();
+      expect(update.watchSeconds).toBe(0);
+      expect(update.shouldWrite).toBe(true);
+    });
+
+    it('treats backward jumps as seeks and records rewatching afterwards', () => {
+      const seek = applyHeartbeat(
+        playingAt(120),
+        { positionSeconds: 10, playing: true, playbackRate: 1 },
+        NOW
+      );
+      expect(seek.ranges).toEqual([{ start: 0, end: 120 }]);
+
+      const rewatch = applyHeartbeat(
+        { ...playingAt(10), ranges: seek.ranges },
+        { positionSeconds: 15, playing: true, playbackRate: 1 },
+        NOW
+      );
+      expect(rewatch.ranges).toEqual([{ start: 0, end: 120 }]);
+      expect(rewatch.watchSeconds).toBe(5);
+    });
+
+    it('keeps separate ranges for parts watched after a seek', () => {
+      const update = applyHeartbeat(
+        { ...playingAt(300), ranges: [{ start: 0, end: 30 }] },
+        { positionSeconds: 305, playing: true, playbackRate: 1 },
+        NOW
+      );
+
+      expect(update.ranges).toEqual([
+        { start: 0, end: 30 },
+        { start: 300, end: 305 },
+      ]);
+    });
+
+    it('coalesces idle heartbeats while paused', () => {
+      const update = applyHeartbeat(
+        { ...playingAt(30), playing: false },
+        { positionSeconds: 30, playing: false, playbackRate: 1 },
+        NOW
+      );
+
+      expect(update.shouldWrite).toBe(false);
+      expect(update.watchSeconds).toBe(0);
+    });
+
+    it('records the span played up to a pause', () => {
+      const update = applyHeartbeat(
+        playingAt(30),
+        { positionSeconds: 33, playing: false, playbackRate: 1 },
+        NOW
+      );
+
+      expect(update.ranges).toEqual([{ start: 0, end: 33 }]);
+      expect(update.watchSeconds).toBe(3);
+      expect(update.shouldWrite).toBe(true);
+    });
+
+    it('does not join heartbeats across long gaps', () => {
+      const update = applyHeartbeat(
+        playingAt(30, 120),
+        { positionSeconds: 60, playing: true, playbackRate: 1 },
+        NOW
+      );
+
+      expect(update.ranges).toEqual([{ start: 0, end: 30 }]);
+      expect(update.watchSeconds).toBe(0);
+      expect(update.newSession).toBe(false);
+    });
+
+    it('starts a new session after a long break', () => {
+      const update = applyHeartbeat(
+        playingAt(30, 60 * 60),
+        { positionSeconds: 30, playing: true, playbackRate: 1 },
+        NOW
+      );
+
+      expect(update.newSession).toBe(true);
+      expect(update.shouldWrite).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,181 @@
+// Unit tests for YouTube URL parsing
+
+import { describe, expect, it } from 'vitest';
+import { ParsedYouTubeUrl, parseStartOffset, parseYouTubeUrl } from '../utils/youtube-url';
+
+const ID = 'dQw4w9WgXcQ';
+const LIST = 'PLFgquLnL59alCl_2TQvOiD5Vgm1hCaGSI';
+
+describe('YouTube URL parser', () => {
+  describe('parseYouTubeUrl', () => {
+    const valid: Array<[string, ParsedYouTubeUrl]> = [
+      // Bare IDs
+      [ID, { kind: 'id', videoId: ID }],
+      [`  ${ID}\n`, { kind: 'id', videoId: ID }],
+      ['a-b_c-d_e-f', { kind: 'id', videoId: 'a-b_c-d_e-f' }],
+
+      // Watch pages on every host
+      [`https://www.youtube.com/watch?v=${ID}`, { kind: 'watch', videoId: ID }],
+      [`http://youtube.com/watch?v=${ID}`, { kind: 'watch', videoId: ID }],
+      [`https://m.youtube.com/watch?v=${ID}`, { kind: 'watch', videoId: ID }],
+      [`https://music.youtube.com/watch?v=${ID}`, { kind: 'watch', videoId: ID }],
+      [`https://gaming.youtube.com/watch?v=${ID}`, { kind: 'watch', videoId: ID }],
+      [`https://WWW.YouTube.com/watch?v=${ID}`, { kind: 'watch', videoId: ID }],
+      [`www.youtube.com/watch?v=${ID}`, { kind: 'watch', videoId: ID }],
+      [`youtube.com/watch?v=${ID}`, { kind: 'watch', videoId: ID }],
+      [`https://www.youtube.com/?v=${ID}`, { kind: 'watch', videoId: ID }],
+      [`https://www.youtube.com/watch/?v=${ID}`, { kind: 'watch', videoId: ID }],
+      [
+        `https://www.youtube.com/watch?feature=share&v=${ID}&ab_channel=RickAstley`,
+        { kind: 'watch', videoId: ID },
+      ],
+
+      // Short links
+      [`https://youtu.be/${ID}`, { kind: 'watch', videoId: ID }],
+      [`youtu.be/${ID}`, { kind: 'watch', videoId: ID }],
+      [`https://www.youtu.be/${ID}`, { kind: 'watch', videoId: ID }],
+      [`https://youtu.be/${ID}?si=AbCdEfGh`, { kind: 'watch', videoId: ID }],
+
+      // Shorts, live and embeds
+      [`https://www.youtube.com/shorts/${ID}`, { kind: 'shorts', videoId: ID }],
+      [`https://youtube.com/shorts/${ID}?feature=share`, { kind: 'shorts', videoId: ID }],
+      [`https://m.youtube.com/shorts/${ID}`, { kind: 'shorts', videoId: ID }],
+      [`https://www.youtube.com/live/${ID}`, { kind: 'live', videoId: ID }],
+      [`https://www.youtube.com/live/${ID}?feature=shared`, { kind: 'live', videoId: ID }],
+      [`https://www.youtube.com/embed/${ID}`, { kind: 'embed', videoId: ID }],
+      [`https://www.youtube-nocookie.com/embed/${ID}`, { kind: 'embed', videoId: ID }],
+      [`https://youtube-nocookie.com/embed/${ID}?rel=0`, { kind: 'embed', videoId: ID }],
+      [`https://www.youtube.com/v/${ID}`, { kind: 'embed', videoId: ID }],
+      [`https://www.youtube.com/v/${ID}?version=3&hl=en_US`, { kind: 'embed', videoId: ID }],
+      [`https://www.youtube.com/e/${ID}`, { kind: 'embed', videoId: ID }],
+
+      // Start offsets
+      [`https://youtu.be/${ID}?t=90`, { kind: 'watch', videoId: ID, startSeconds: 90 }],
+      [`https://youtu.be/${ID}?t=90s`, { kind: 'watch', videoId: ID, startSeconds: 90 }],
+      [
+        `https://www.youtube.com/watch?v=${ID}&t=1m30s`,
+        { kind: 'watch', videoId: ID, startSeconds: 90 },
+      ],
+      [
+        `https://www.youtube.com/watch?v=${ID}&t=1h2m3s`,
+        { kind: 'watch', videoId: ID, startSeconds: 3723 },
+      ],
+      [
+        `https://www.youtube.com/watch?v=${ID}&t=2h`,
+        { kind: 'watch', videoId: ID, startSeconds: 7200 },
+      ],
+      [
+        `https://www.youtube.com/watch?v=${ID}#t=45`,
+        { kind: 'watch', videoId: ID, startSeconds: 45 },
+      ],
+      [
+        `https://www.youtube.com/embed/${ID}?start=30&end=60`,
+        { kind: 'embed', videoId: ID, startSeconds: 30 },
+      ],
+      [
+        `https://www.youtube.com/live/${ID}?t=12.7`,
+        { kind: 'live', videoId: ID, startSeconds: 12 },
+      ],
+      [`https://www.youtube.com/watch?v=${ID}&t=soon`, { kind: 'watch', videoId: ID }],
+
+      // Playlists
+      [
+        `https://www.youtube.com/watch?v=${ID}&list=${LIST}`,
+        { kind: 'watch', videoId: ID, playlistId: LIST },
+      ],
+      [
+        `https://www.youtube.com/watch?v=${ID}&list=${LIST}&index=3`,
+        { kind: 'watch', videoId: ID, playlistId: LIST, index: 3 },
+      ],
+      [
+        `https://music.youtube.com/watch?v=${ID}&list=RDAMVM${ID}`,
+        { kind: 'watch', videoId: ID, playlistId: `RDAMVM${ID}` },
+      ],
+      [
+        `https://youtu.be/${ID}?list=${LIST}&t=1m`,
+        { kind: 'watch', videoId: ID, startSeconds: 60, playlistId: LIST },
+      ],
+      [
+        `https://www.youtube.com/watch?v=${ID}&list=${LIST}&index=0`,
+        { kind: 'watch', videoId: ID, playlistId: LIST },
+      ],
+      [`https://www.youtube.com/playlist?list=${LIST}`, { kind: 'playlist', playlistId: LIST }],
+      [`https://m.youtube.com/playlist?list=WL`, { kind: 'playlist', playlistId: 'WL' }],
+      [
+        `https://music.youtube.com/playlist?list=OLAK5uy_abc123`,
+        { kind: 'playlist', playlistId: 'OLAK5uy_abc123' },
+      ],
+      [
+        `https://www.youtube.com/embed/videoseries?list=${LIST}`,
+        { kind: 'playlist', playlistId: LIST },
+      ],
+      [`https://www.youtube.com/watch?list=${LIST}`, { kind: 'playlist', playlistId: LIST }],
+
+      // Legacy share links
+      [
+        `https://www.youtube.com/attribution_link?a=xyz&u=%2Fwatch%3Fv%3D${ID}%26feature%3Dshare`,
+        { kind: 'watch', videoId: ID },
+      ],
+    ];
+
+    it.each(valid)('parses %s', (input, expected) => {
+      expect(parseYouTubeUrl(input)).toEqual(expected);
+    });
+
+    const invalid: string[] = [
+      '',
+      '   ',
+      'dQw4w9WgXc', // 10 characters
+      'dQw4w9WgXcQQ', // 12 characters
+      'dQw4w9WgX!Q',
+      'not a url',
+      `https://vimeo.com/${ID}`,
+      `https://notyoutube.com/watch?v=${ID}`,
+      `https://youtube.com.evil.example/watch?v=${ID}`,
+      `https://evil-youtube.com/watch?v=${ID}`,
+      `ftp://www.youtube.com/watch?v=${ID}`,
+      'https://www.youtube.com/',
+      'https://www.youtube.com/watch',
+      'https://www.youtube.com/watch?v=short',
+      `https://www.youtube.com/watch?v=${ID}X`,
+      'https://youtu.be/',
+      'https://youtu.be/invalid',
+      'https://www.youtube.com/shorts/',
+      'https://www.youtube.com/embed/abc',
+      'https://www.youtube.com/channel/UC38IQsAvIsxxjztdMZQtwHA',
+      'https://www.youtube.com/@RickAstleyYT',
+      'https://www.youtube.com/results?search_query=rick',
+      'https://www.youtube.com/playlist',
+      'https://www.youtube.com/playlist?list=',
+      `https://www.youtube.com/watch?v=${ID}&list=bad%20list`,
+      'https://www.youtube.com/attribution_link?u=https://evil.example',
+    ];
+
+    it.each(invalid)('rejects %j', input => {
+      expect(parseYouTubeUrl(input)).toBeNull();
+    });
+  });
+
+  describe('parseStartOffset', () => {
+    const offsets: Array<[string, number | null]> = [
+      ['0', 0],
+      ['90', 90],
+      ['90s', 90],
+      ['12.9', 12],
+      ['1m', 60],
+      ['1m30s', 90],
+      ['1h', 3600],
+      ['1h30s', 3630],
+      ['1H2M3S', 3723],
+      ['', null],
+      ['abc', null],
+      ['1:30', null],
+      ['-5', null],
+      ['1s2m', null],
+    ];
+
+    it.each(offsets)('parses %j as %j', (input, expected) => {
+      expect(parseStartOffset(input)).toBe(expected);
+    });
+  });
+});
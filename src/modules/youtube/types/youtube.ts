@@ -28,18 +28,21 @@ export interface YouTubeVideoMetadata {
   categoryId?: string;
   defaultLanguage?: string;
   defaultAudioLanguage?: string;
+  live?: VideoLiveDetails; // Absent when the API response had no live fields
 }
 
 /**
  * Request body for analyze video endpoint
  */
 export interface AnalyzeVideoRequest {
-  videoUrl: string;
+  videoUrl?: string;
+  videoUrls?: string[]; // Batch mode (up to 50); exclusive with videoUrl
   userId?: string; // Optional for public API, required for user-specific features
   options?: {
     includeStatistics?: boolean;
     includeTags?: boolean;
     cacheResult?: boolean;
+    includeChapters?: boolean;
   };
 }
 
@@ -50,7 +53,9 @@ export interface AnalyzeVideoResponse {
   success: boolean;
   data?: {
     video: YouTubeVideoMetadata;
+    chapters?: VideoChapter[]; // Only when includeChapters is set
     cached: boolean;
+    stale?: boolean; // Expired cache entry served because the quota budget is low
     processedAt: string;
   };
   error?: {
@@ -68,7 +73,10 @@ export enum YouTubeErrorCode {
   VIDEO_NOT_FOUND = 'YOUTUBE_VIDEO_NOT_FOUND',
   VIDEO_PRIVATE = 'YOUTUBE_VIDEO_PRIVATE',
   VIDEO_DELETED = 'YOUTUBE_VIDEO_DELETED',
+  PLAYLIST_NOT_FOUND = 'YOUTUBE_PLAYLIST_NOT_FOUND',
+  CHANNEL_NOT_FOUND = 'YOUTUBE_CHANNEL_NOT_FOUND',
   API_QUOTA_EXCEEDED = 'YOUTUBE_API_QUOTA_EXCEEDED',
+  QUOTA_BUDGET_EXCEEDED = 'YOUTUBE_QUOTA_BUDGET_EXCEEDED',
   API_ERROR = 'YOUTUBE_API_ERROR',
   NETWORK_ERROR = 'YOUTUBE_NETWORK_ERROR',
   RATE_LIMIT_EXCEEDED = 'YOUTUBE_RATE_LIMIT_EXCEEDED',
@@ -106,6 +114,13 @@ export interface YouTubeAPIVideoItem {
     categoryId: string;
     defaultLanguage?: string;
     defaultAudioLanguage?: string;
+    liveBroadcastContent?: 'none' | 'upcoming' | 'live';
+  };
+  liveStreamingDetails?: {
+    scheduledStartTime?: string;
+    actualStartTime?: string;
+    actualEndTime?: string;
+    concurrentViewers?: string;
   };
   contentDetails?: {
     duration: string;
@@ -129,6 +144,64 @@ export interface YouTubeAPIVideoItem {
   };
 }
 
+export interface YouTubeAPIPlaylistItemListResponse {
+  kind: string;
+  etag: string;
+  nextPageToken?: string;
+  pageInfo: {
+    totalResults: number;
+    resultsPerPage: number;
+  };
+  items: Array<{
+    id: string;
+    contentDetails?: {
+      videoId: string;
+      videoPublishedAt?: string;
+    };
+  }>;
+}
+
+export interface YouTubeAPISearchListResponse {
+  kind: string;
+  etag: string;
+  nextPageToken?: string;
+  pageInfo: {
+    totalResults: number;
+    resultsPerPage: number;
+  };
+  items: Array<{
+    id: {
+      kind: string;
+      videoId?: string;
+    };
+  }>;
+}
+
+export interface YouTubeAPIChannelListResponse {
+  kind: string;
+  etag: string;
+  items?: Array<{
+    id: string;
+    snippet?: {
+      title: string;
+    };
+    contentDetails?: {
+      relatedPlaylists: {
+        uploads?: string;
+      };
+    };
+  }>;
+}
+
+/**
+ * Channel with its uploads playlist
+ */
+export interface YouTubeChannelInfo {
+  channelId: string;
+  title: string;
+  uploadsPlaylistId?: string;
+}
+
 /**
  * Transcript types (for future implementation)
  */
@@ -136,16 +209,38 @@ export interface TranscriptSegment {
   start: number; // Start time in seconds
   duration: number; // Duration in seconds
   text: string; // Transcript text
+  words?: TranscriptWord[]; // Word-level timing (auto-generated captions and ASR only)
 }
 
+/**
+ * Word-level timing within a transcript segment
+ */
+export interface TranscriptWord {
+  text: string;
+  start: number; // Start time in seconds
+  end: number; // End time in seconds
+}
+
+/**
+ * Timedtext caption formats the extractor can parse
+ */
+export type CaptionFormat = 'json3' | 'srv3' | 'srv1';
+
 export interface VideoTranscript {
   videoId: string;
   language: string;
   segments: TranscriptSegment[];
   isAutoGenerated: boolean;
   totalDuration: number;
+  source?: TranscriptSourceName;
 }
 
+/**
+ * Where a transcript came from: YouTube captions or speech-to-text on the
+ * video's audio
+ */
+export type TranscriptSourceName = 'captions' | 'asr';
+
 /**
  * Database types for YouTube tables
  */
@@ -161,12 +256,91 @@ export interface YouTubeVideoRecord {
   thumbnail_url?: string;
   view_count?: number;
   like_count?: number;
+  comment_count?: number;
   metadata?: Record<string, any>;
+  availability_status: VideoAvailability;
+  unavailable_since?: string;
+  live_state: VideoLiveState;
+  scheduled_start_at?: string;
+  actual_start_at?: string;
+  actual_end_at?: string;
+  next_live_check_at?: string;
+  readability?: TranscriptReadability;
+  cefr_level?: CEFRLevel;
+  words_per_minute?: number;
+  lexical_diversity?: number;
   created_at: string;
   updated_at: string;
   last_refreshed_at?: string;
 }
 
+/**
+ * Video availability as seen by the metadata refresh
+ */
+export type VideoAvailability = 'available' | 'private' | 'deleted';
+
+/**
+ * Broadcast state of a video. Upcoming premieres and running livestreams
+ * have no duration or transcript yet; ended broadcasts behave like regular
+ * uploads.
+ */
+export type VideoLiveState = 'none' | 'upcoming' | 'live' | 'ended';
+
+/**
+ * Live broadcast details of a video
+ */
+export interface VideoLiveDetails {
+  state: VideoLiveState;
+  scheduledStartAt?: string;
+  actualStartAt?: string;
+  actualEndAt?: string;
+  concurrentViewers?: number;
+}
+
+/**
+ * Report of one live video watcher run
+ */
+export interface LiveWatchReport {
+  checked: number;
+  started: string[]; // Upcoming videos that went live
+  ended: string[]; // Broadcasts that ended; their queued transcript jobs are released
+  waiting: number; // Still upcoming or live
+  unavailable: string[];
+  quotaExhausted: boolean;
+}
+
+/**
+ * Field change detected by a metadata refresh
+ */
+export interface FieldChange<T = string | number | null> {
+  from: T;
+  to: T;
+}
+
+/**
+ * Metadata refresh changes for one video
+ */
+export interface VideoRefreshChange {
+  videoId: string;
+  changes: Record<string, FieldChange>;
+}
+
+/**
+ * Report of one metadata refresh run
+ */
+export interface MetadataRefreshReport {
+  runId: string;
+  checked: number;
+  updated: number;
+  unchanged: number;
+  becameUnavailable: Array<{ videoId: string; status: VideoAvailability }>;
+  restored: string[];
+  changes: VideoRefreshChange[];
+  quotaUsed: number;
+  quotaRemaining: number;
+  budgetExhausted: boolean;
+}
+
 export interface UserVideoHistory {
   id: string;
   user_id: string;
@@ -187,6 +361,8 @@ export interface ExtractTranscriptRequest {
   options?: {
     preferAutoGenerated?: boolean;
     includeTimestamps?: boolean;
+    normalize?: boolean; // Dedupe rolling captions and merge fragments into sentences
+    restorePunctuation?: boolean; // Restore punctuation via the AI provider (implies normalize)
   };
 }
 
@@ -204,6 +380,352 @@ export interface ExtractTranscriptResponse {
     totalDuration: number;
     segmentCount: number;
     characterCount: number;
+    source: TranscriptSourceName; // captions, or asr when transcribed from audio
+    captionFormat?: CaptionFormat; // Timedtext format the captions were parsed from
+    normalized?: boolean; // Segments were merged into sentences
+    punctuationRestored?: boolean;
+    processedAt: string;
+  };
+  error?: {
+    code: string;
+    message: string;
+    details?: any;
+  };
+}
+
+/**
+ * Returned with 202 by extract-transcript while the video is an upcoming
+ * premiere or a running livestream
+ */
+export interface TranscriptNotYetAvailableResponse {
+  success: true;
+  data: {
+    videoId: string;
+    language: string;
+    status: 'not_yet_available';
+    liveState: 'upcoming' | 'live';
+    scheduledStartAt?: string;
+    retryAfterSeconds: number;
+    queued: boolean; // Extraction runs automatically once the broadcast ends
+  };
+}
+
+/**
+ * Transcript segment paired with its translation
+ */
+export interface BilingualSegment extends TranscriptSegment {
+  translatedText: string;
+}
+
+/**
+ * Bilingual transcript request
+ */
+export interface BilingualTranscriptRequest {
+  videoId: string;
+  targetLanguage: string; // ISO 639-1 code
+  sourceLanguage?: string; // ISO 639-1 code (default 'en')
+  forceRefresh?: boolean; // Ignore the cached translation
+}
+
+/**
+ * Bilingual transcript response
+ */
+export interface BilingualTranscriptResponse {
+  success: boolean;
+  data?: {
+    videoId: string;
+    sourceLanguage: string;
+    sourceLanguageName: string;
+    targetLanguage: string;
+    segments: BilingualSegment[];
+    segmentCount: number;
+    translationProvider: string;
+    cached: boolean;
+    processedAt: string;
+  };
+  error?: {
+    code: string;
+    message: string;
+    details?: any;
+  };
+}
+
+/**
+ * Where a video's chapters came from
+ */
+export type ChapterSource = 'description' | 'ai';
+
+/**
+ * Video chapter with the transcript segments it covers
+ */
+export interface VideoChapter {
+  index: number;
+  title: string;
+  start: number; // Start time in seconds
+  end: number; // End time in seconds
+  segmentStartIndex?: number; // First transcript segment in the chapter
+  segmentEndIndex?: number; // Last transcript segment in the chapter (inclusive)
+  segments?: TranscriptSegment[]; // Only when requested
+}
+
+/**
+ * Video chapters query parameters
+ */
+export interface VideoChaptersParams {
+  videoId: string;
+  language?: string; // Transcript language used for segment mapping
+  includeSegments?: boolean;
+  refresh?: boolean; // Re-detect instead of returning stored chapters
+}
+
+/**
+ * Video chapters response
+ */
+export interface VideoChaptersResponse {
+  success: boolean;
+  data?: {
+    videoId: string;
+    source: ChapterSource | null; // null when no chapters could be detected
+    language?: string;
+    chapters: VideoChapter[];
+    cached: boolean;
+  };
+  error?: {
+    code: string;
+    message: string;
+    details?: any;
+  };
+}
+
+/**
+ * Supported subtitle export formats
+ */
+export type SubtitleFormat = 'srt' | 'vtt' | 'ttml' | 'txt';
+
+/**
+ * Key term of a video transcript, ranked by TF-IDF across the corpus
+ */
+export interface VideoKeyphrase {
+  term: string;
+  kind: 'word' | 'phrase';
+  score: number;
+  occurrences: number;
+  segmentPositions: number[]; // Segment indices where the term occurs
+  firstStart?: number; // Start time of the first occurrence, in seconds
+}
+
+/**
+ * CEFR proficiency levels, easiest first
+ */
+export type CEFRLevel = 'A1' | 'A2' | 'B1' | 'B2' | 'C1' | 'C2';
+
+/**
+ * Share of transcript words in each frequency band (English only)
+ */
+export interface FrequencyBandCoverage {
+  band1: number; // Most frequent ~500 lemmas
+  band2: number; // Next ~700 everyday lemmas
+  offList: number;
+}
+
+/**
+ * Readability metrics of a transcript
+ */
+export interface TranscriptReadability {
+  language: string;
+  wordCount: number;
+  speakingSeconds: number; // Time covered by segments, overlaps counted once
+  wordsPerMinute: number;
+  lexicalDiversity: number; // Moving-average type-token ratio (0-1)
+  frequencyBands: FrequencyBandCoverage | null;
+  difficultyScore: number | null; // 0 (easiest) to 1
+  cefrLevel: CEFRLevel | null; // Estimated; null when it cannot be estimated
+  readingTimeMinutes: number;
+}
+
+/**
+ * Export transcript query parameters
+ */
+export interface ExportTranscriptParams {
+  videoId: string;
+  language?: string; // Defaults to the first stored transcript
+  format: SubtitleFormat;
+  merge?: boolean; // Merge consecutive segments with small gaps, up to 7s and 84 characters per cue
+  maxGap?: number; // Maximum gap in seconds when merging (default 0.5)
+  maxLineLength?: number; // Wrap cue text at this many characters
+}
+
+/**
+ * Transcript search query parameters
+ */
+export interface TranscriptSearchParams {
+  q: string; // Search query (websearch syntax)
+  language?: string; // Only search transcripts in this language
+  limit?: number; // Default 20, max 50
+  offset?: number;
+}
+
+/**
+ * Transcript segment matching a search
+ */
+export interface TranscriptSearchHit {
+  videoId: string;
+  videoTitle: string;
+  channelName: string;
+  thumbnailUrl?: string;
+  durationSeconds: number;
+  language: string;
+  segmentIndex: number;
+  start: number; // Segment start time in seconds
+  duration: number;
+  text: string;
+  highlight: string; // HTML-escaped snippet with <mark> around matches
+  rank: number;
+  url: string; // Watch URL starting at the segment
+}
+
+/**
+ * Transcript search response
+ */
+export interface TranscriptSearchResponse {
+  success: boolean;
+  data?: {
+    query: string;
+    results: TranscriptSearchHit[];
+    total: number;
+    hasMore: boolean;
+  };
+  error?: {
+    code: string;
+    message: string;
+  };
+}
+
+/**
+ * Segment that exists in only one of two transcript versions
+ */
+export interface SegmentChange {
+  index: number;
+  start: number;
+  duration: number;
+  text: string;
+}
+
+/**
+ * Segment whose text is unchanged but whose timing moved
+ */
+export interface RetimedSegment {
+  oldIndex: number;
+  newIndex: number;
+  text: string;
+  before: { start: number; duration: number };
+  after: { start: number; duration: number };
+}
+
+/**
+ * Difference between two transcript versions. Edited text shows up as a
+ * removed segment plus an added one.
+ */
+export interface TranscriptDiff {
+  added: SegmentChange[];
+  removed: SegmentChange[];
+  retimed: RetimedSegment[];
+  unchanged: number;
+}
+
+/**
+ * Change counts stored with each transcript version
+ */
+export interface TranscriptDiffSummary {
+  added: number;
+  removed: number;
+  retimed: number;
+  unchanged: number;
+}
+
+/**
+ * Stored transcript version
+ */
+export interface TranscriptVersionInfo {
+  version: number;
+  source: TranscriptSourceName;
+  sourceModel?: string;
+  captionFormat?: CaptionFormat;
+  segmentCount: number;
+  diffSummary?: TranscriptDiffSummary; // Absent for version 1
+  remappedTimestamps: number;
+  createdAt: string;
+}
+
+/**
+ * Transcript versions query parameters. A diff is returned when both
+ * versions are given.
+ */
+export interface TranscriptVersionsParams {
+  videoId: string;
+  language?: string; // ISO 639-1 code (default 'en')
+  from?: number;
+  to?: number;
+}
+
+/**
+ * Transcript versions response
+ */
+export interface TranscriptVersionsResponse {
+  success: boolean;
+  data?: {
+    videoId: string;
+    language: string;
+    currentVersion: number;
+    versions: TranscriptVersionInfo[];
+    diff?: TranscriptDiff & { from: number; to: number };
+  };
+  error?: {
+    code: string;
+    message: string;
+  };
+}
+
+/**
+ * Playlist / channel ingestion request. Exactly one source must be given.
+ */
+export interface IngestPlaylistRequest {
+  playlistId?: string;
+  channelId?: string;
+  channelHandle?: string; // e.g. '@teacherchannel'
+  maxVideos?: number; // Default 200, max 500
+  publishedAfter?: string; // ISO 8601; channel sources only
+  queueTranscripts?: boolean; // Queue transcript extraction for each video
+  transcriptLanguage?: string; // ISO 639-1 code (default 'en')
+}
+
+/**
+ * Ingested video, in source order
+ */
+export interface IngestedVideo {
+  position: number;
+  videoId: string;
+  title?: string;
+  durationSeconds?: number;
+  status: 'ingested' | 'unavailable'; // unavailable: private or deleted
+  transcriptQueued?: boolean;
+}
+
+/**
+ * Playlist / channel ingestion response
+ */
+export interface IngestPlaylistResponse {
+  success: boolean;
+  data?: {
+    source: {
+      type: 'playlist' | 'channel';
+      id: string;
+      title?: string;
+    };
+    videos: IngestedVideo[];
+    ingestedCount: number;
+    unavailableCount: number;
+    queuedTranscriptCount: number;
     processedAt: string;
   };
   error?: {
@@ -213,6 +735,15 @@ export interface ExtractTranscriptResponse {
   };
 }
 
+/**
+ * Transcript extraction queue job status
+ */
+export type TranscriptJobStatus =
+  | 'pending'
+  | 'processing'
+  | 'completed'
+  | 'failed';
+
 /**
  * Available transcript language
  */
@@ -257,6 +788,9 @@ export interface VideoHistoryEntry {
   playbackRate?: number;
   notes?: string;
   tags?: string[];
+  cefrLevel?: CEFRLevel;
+  wordsPerMinute?: number;
+  lexicalDiversity?: number;
 }
 
 /**
@@ -277,6 +811,37 @@ export interface UpdateProgressRequest {
   playbackRate?: number;
 }
 
+/**
+ * Span of the video a user actually played, in seconds
+ */
+export interface WatchRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Player heartbeat sent every few seconds while a video is open
+ */
+export interface WatchHeartbeatRequest {
+  positionSeconds: number;
+  playing?: boolean; // Defaults to true
+  playbackRate?: number;
+}
+
+/**
+ * Watch progress returned by the heartbeat endpoint
+ */
+export interface WatchProgress {
+  videoId: string;
+  positionSeconds: number;
+  resumePositionSeconds: number;
+  totalWatchSeconds: number; // Time spent playing, across all sessions
+  watchedSeconds: number; // Distinct seconds of the video seen
+  watchedRanges: WatchRange[];
+  completed: boolean;
+  recorded?: boolean; // False when the heartbeat changed nothing and was not written
+}
+
 /**
  * Update bookmark request
  */
@@ -293,7 +858,11 @@ export interface ListHistoryParams {
   limit?: number;
   offset?: number;
   filter?: 'all' | 'bookmarked' | 'completed' | 'in-progress';
-  sortBy?: 'recent' | 'alphabetical' | 'duration';
+  sortBy?: 'recent' | 'alphabetical' | 'duration' | 'difficulty' | 'pace';
+  minLevel?: CEFRLevel;
+  maxLevel?: CEFRLevel;
+  minWpm?: number;
+  maxWpm?: number;
 }
 
 /**
@@ -312,6 +881,79 @@ export interface ListHistoryResponse {
   };
 }
 
+/**
+ * Video collection types
+ */
+export interface VideoCollection {
+  collectionId: string;
+  name: string;
+  description?: string;
+  isShared: boolean;
+  shareToken?: string; // Only returned to the owner
+  isOwner: boolean;
+  videoCount: number;
+  progress: CollectionProgress;
+  createdAt: string;
+  updatedAt: string;
+  videos?: CollectionVideo[];
+}
+
+export interface CollectionVideo {
+  videoId: string;
+  position: number;
+  title: string;
+  channelName: string;
+  thumbnailUrl?: string;
+  durationSeconds: number;
+  progressSeconds: number;
+  completed: boolean;
+  addedAt: string;
+}
+
+/**
+ * Viewer's progress through a collection
+ */
+export interface CollectionProgress {
+  totalSeconds: number;
+  watchedSeconds: number;
+  percentComplete: number; // 0-100
+  completedVideos: number;
+}
+
+export interface CreateCollectionRequest {
+  name: string;
+  description?: string;
+  isShared?: boolean;
+  videoIds?: string[]; // YouTube video IDs in order
+}
+
+export interface UpdateCollectionRequest {
+  name?: string;
+  description?: string | null;
+  isShared?: boolean;
+  videoIds?: string[]; // Replaces the videos and their order
+}
+
+/**
+ * Progress of a Google Takeout watch history import
+ */
+export interface HistoryImportProgress {
+  importId: string;
+  status: 'pending' | 'processing' | 'completed' | 'failed';
+  format: 'json' | 'html';
+  totalEntries: number; // Watch events in the export
+  totalVideos: number; // Distinct videos after deduplication
+  processedVideos: number;
+  importedVideos: number;
+  unavailableVideos: number; // Deleted or private, so not backfilled
+  skipped: { ads: number; removed: number; invalid: number };
+  percentComplete: number;
+  quotaExhausted?: boolean; // Paused until the YouTube quota resets; resume later
+  error?: string;
+  createdAt: string;
+  completedAt?: string;
+}
+
 /**
  * History operation response
  */
@@ -0,0 +1,239 @@
+// Speech-to-text transcript source for OpenAI-compatible /audio/transcriptions servers
+
+import type { TranscriptSegment, TranscriptWord } from '../types/youtube.ts';
+import type {
+  SourcedTranscript,
+  TranscriptSource,
+} from './transcript-sources.ts';
+
+/**
+ * Upload limit of the OpenAI transcription API; self-hosted servers often
+ * accept more
+ */
+export const DEFAULT_ASR_MAX_AUDIO_BYTES = 25 * 1024 * 1024;
+export const DEFAULT_ASR_MODEL = 'whisper-1';
+
+/**
+ * Speech-to-text configuration
+ */
+export interface ASRConfig {
+  apiUrl: string; // Base URL, e.g. http://localhost:8000/v1
+  apiKey?: string;
+  model: string;
+  audioUrlTemplate: string; // Audio download URL with a {videoId} placeholder
+  maxAudioBytes: number;
+}
+
+/**
+ * verbose_json transcription response
+ */
+export interface VerboseTranscription {
+  language?: string;
+  duration?: number;
+  text: string;
+  segments?: Array<{ start: number; end: number; text: string }>;
+  words?: Array<{ word: string; start: number; end: number }>;
+}
+
+/**
+ * Read ASR settings; returns undefined when no endpoint is configured
+ */
+export function readASRConfig(
+  getEnv: (key: string) => string | undefined,
+): ASRConfig | undefined {
+  const apiUrl = getEnv('ASR_API_URL');
+  const audioUrlTemplate = getEnv('ASR_AUDIO_URL_TEMPLATE');
+  if (!apiUrl || !audioUrlTemplate) return undefined;
+
+  return {
+    apiUrl: apiUrl.replace(/\/+$/, ''),
+    apiKey: getEnv('ASR_API_KEY') || undefined,
+    model: getEnv('ASR_MODEL') || DEFAULT_ASR_MODEL,
+    audioUrlTemplate,
+    maxAudioBytes: parseInt(getEnv('ASR_MAX_AUDIO_BYTES') || '', 10) ||
+      DEFAULT_ASR_MAX_AUDIO_BYTES,
+  };
+}
+
+/**
+ * Round to millisecond precision, as caption timings are
+ */
+function roundTime(seconds: number): number {
+  return Math.round(seconds * 1000) / 1000;
+}
+
+/**
+ * Convert a verbose_json transcription to transcript segments. Words are
+ * attached to the segment they start in.
+ */
+export function toTranscriptSegments(
+  transcription: VerboseTranscription,
+): TranscriptSegment[] {
+  const words: TranscriptWord[] = (transcription.words || [])
+    .map((word) => ({
+      text: word.word.trim(),
+      start: roundTime(word.start),
+      end: roundTime(word.end),
+    }))
+    .filter((word) => word.text);
+
+  const segments = transcription.segments?.length
+    ? transcription.segments
+    : transcription.text.trim()
+    ? [{
+      start: 0,
+      end: transcription.duration ?? words[words.length - 1]?.end ?? 0,
+      text: transcription.text,
+    }]
+    : [];
+
+  let wordIndex = 0;
+  return segments
+    .map((segment, index) => {
+      const next = segments[index + 1];
+      const segmentWords: TranscriptWord[] = [];
+      while (
+        wordIndex < words.length &&
+        (!next || words[wordIndex].start < next.start)
+      ) {
+        segmentWords.push(words[wordIndex++]);
+      }
+
+      return {
+        start: roundTime(segment.start),
+        duration: roundTime(Math.max(0, segment.end - segment.start)),
+        text: segment.text.trim(),
+        ...(segmentWords.length > 0 && { words: segmentWords }),
+      };
+    })
+    .filter((segment) => segment.text);
+}
+
+/**
+ * Transcribes a video's audio with a speech-to-text server. The audio is
+ * downloaded from ASR_AUDIO_URL_TEMPLATE, typically a local audio
+ * extraction service, since YouTube does not serve audio files directly.
+ */
+export class ASRTranscriptSource implements TranscriptSource {
+  readonly name = 'asr' as const;
+
+  constructor(
+    private config: ASRConfig,
+    private fetchFn: typeof fetch = (input, init) => fetch(input, init),
+  ) {}
+
+  async fetchTranscript(
+    videoId: string,
+    languageCode: string,
+  ): Promise<SourcedTranscript | null> {
+    const audio = await this.downloadAudio(videoId);
+    const transcription = await this.transcribe(audio, videoId, languageCode);
+    const segments = toTranscriptSegments(transcription);
+
+    if (segments.length === 0) return null;
+
+    const last = segments[segments.length - 1];
+    return {
+      source: 'asr',
+      segments,
+      language: {
+        code: languageCode,
+        name: transcription.language || languageCode,
+        isAutoGenerated: true,
+        isTranslatable: false,
+      },
+      totalDuration: transcription.duration ?? last.start + last.duration,
+      model: this.config.model,
+    };
+  }
+
+  /**
+   * Download the audio track, enforcing the upload size limit
+   */
+  private async downloadAudio(videoId: string): Promise<Blob> {
+    const url = this.config.audioUrlTemplate.replace(
+      '{videoId}',
+      encodeURIComponent(videoId),
+    );
+    const response = await this.fetchFn(url);
+
+    if (!response.ok) {
+      throw new Error(`Audio download failed: ${response.status}`);
+    }
+
+    const declaredSize = Number(response.headers.get('Content-Length'));
+    if (declaredSize > this.config.maxAudioBytes) {
+      throw new Error(
+        `Audio is ${declaredSize} bytes, over the ${this.config.maxAudioBytes} byte limit`,
+      );
+    }
+
+    const audio = await response.blob();
+    if (audio.size > this.config.maxAudioBytes) {
+      throw new Error(
+        `Audio is ${audio.size} bytes, over the ${this.config.maxAudioBytes} byte limit`,
+      );
+    }
+
+    return audio;
+  }
+
+  /**
+   * Send the audio to the transcription endpoint
+   */
+  private async transcribe(
+    audio: Blob,
+    videoId: string,
+    languageCode: string,
+  ): Promise<VerboseTranscription> {
+    const form = new FormData();
+    form.append('file', audio, `${videoId}.${audioExtension(audio.type)}`);
+    form.append('model', this.config.model);
+    form.append('response_format', 'verbose_json');
+    form.append('timestamp_granularities[]', 'segment');
+    form.append('timestamp_granularities[]', 'word');
+    // Whisper expects ISO 639-1 without a region
+    form.append('language', languageCode.split('-')[0]);
+
+    const response = await this.fetchFn(
+      `${this.config.apiUrl}/audio/transcriptions`,
+      {
+        method: 'POST',
+        headers: this.config.apiKey
+          ? { 'Authorization': `Bearer ${this.config.apiKey}` }
+          : undefined,
+        body: form,
+      },
+    );
+
+    if (!response.ok) {
+      const body = await response.text();
+      throw new Error(
+        `Transcription failed: ${response.status} ${body.slice(0, 200)}`,
+      );
+    }
+
+    return response.json();
+  }
+}
+
+/**
+ * File extension for the upload; servers detect the codec from it
+ */
+function audioExtension(mimeType: string): string {
+  if (mimeType.includes('webm')) return 'webm';
+  if (mimeType.includes('ogg')) return 'ogg';
+  if (mimeType.includes('wav')) return 'wav';
+  if (mimeType.includes('mp4') || mimeType.includes('m4a')) return 'm4a';
+  return 'mp3';
+}
+
+/**
+ * Build the ASR source from environment settings, if configured
+ */
+export function createASRTranscriptSource(
+  getEnv: (key: string) => string | undefined,
+): ASRTranscriptSource | undefined {
+  const config = readASRConfig(getEnv);
+  return config ? new ASRTranscriptSource(config) : undefined;
+}
@@ -0,0 +1,215 @@
+// Bilingual (dual-subtitle) transcript generation
+
+import type {
+  BilingualSegment,
+  TranscriptLanguage,
+  TranscriptSegment,
+} from '../types/youtube.ts';
+import { decodeHtmlEntities } from './caption-parsers.ts';
+import type { YouTubeTranscriptExtractor } from './youtube-transcript.ts';
+
+/**
+ * Minimal translator contract (satisfied by the ai-processing TranslationClient)
+ */
+export interface SegmentTranslator {
+  translate(
+    text: string,
+    targetLang: string,
+    sourceLang?: string,
+  ): Promise<{ translatedText: string; provider: string }>;
+}
+
+/**
+ * Batching limits for translation requests
+ */
+export const DEFAULT_BATCH_MAX_CHARACTERS = 1500;
+export const DEFAULT_BATCH_MAX_SEGMENTS = 50;
+
+/**
+ * Segments are joined with newlines, which translation providers preserve
+ * as line breaks; a batch that comes back with a different line count is
+ * split in half and retried.
+ */
+const BATCH_DELIMITER = '\n';
+
+/**
+ * Bilingual transcript result
+ */
+export interface BilingualTranscriptResult {
+  segments: BilingualSegment[];
+  sourceLanguage: TranscriptLanguage;
+  targetLanguage: string;
+  provider: string;
+  totalDuration: number;
+}
+
+/**
+ * Normalize segment text so it fits on a single delimited line
+ */
+function toSingleLine(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Group segment indexes into batches bounded by character and segment count.
+ * Segments without text are left out.
+ */
+export function buildTranslationBatches(
+  segments: TranscriptSegment[],
+  maxCharacters: number = DEFAULT_BATCH_MAX_CHARACTERS,
+  maxSegments: number = DEFAULT_BATCH_MAX_SEGMENTS,
+): number[][] {
+  const batches: number[][] = [];
+  let current: number[] = [];
+  let currentLength = 0;
+
+  segments.forEach((segment, index) => {
+    const text = toSingleLine(segment.text);
+    if (!text) return;
+
+    const length = text.length + BATCH_DELIMITER.length;
+
+    if (
+      current.length > 0 &&
+      (currentLength + length > maxCharacters || current.length >= maxSegments)
+    ) {
+      batches.push(current);
+      current = [];
+      currentLength = 0;
+    }
+
+    current.push(index);
+    currentLength += length;
+  });
+
+  if (current.length > 0) batches.push(current);
+  return batches;
+}
+
+/**
+ * Builds aligned source/target segments on top of the transcript extractor
+ * and a translation client
+ */
+export class BilingualTranscriptBuilder {
+  constructor(
+    private extractor: Pick<YouTubeTranscriptExtractor, 'extractTranscript'>,
+    private translator: SegmentTranslator,
+    private options: { maxBatchCharacters?: number; maxBatchSegments?: number } =
+      {},
+  ) {}
+
+  /**
+   * Extract the source transcript and translate it into the target language
+   */
+  async build(
+    videoId: string,
+    targetLanguage: string,
+    sourceLanguage: string = 'en',
+  ): Promise<BilingualTranscriptResult> {
+    const transcript = await this.extractor.extractTranscript(
+      videoId,
+      sourceLanguage,
+    );
+
+    const { segments, provider } = await this.translateSegments(
+      transcript.segments,
+      targetLanguage,
+      transcript.language.code,
+    );
+
+    return {
+      segments,
+      sourceLanguage: transcript.language,
+      targetLanguage,
+      provider,
+      totalDuration: transcript.totalDuration,
+    };
+  }
+
+  /**
+   * Translate segments in batches and pair each with its translation
+   */
+  async translateSegments(
+    segments: TranscriptSegment[],
+    targetLanguage: string,
+    sourceLanguage?: string,
+  ): Promise<{ segments: BilingualSegment[]; provider: string }> {
+    const translations: string[] = new Array(segments.length).fill('');
+    let provider = 'none';
+
+    const batches = buildTranslationBatches(
+      segments,
+      this.options.maxBatchCharacters,
+      this.options.maxBatchSegments,
+    );
+
+    for (const batch of batches) {
+      provider = await this.translateBatch(
+        segments,
+        batch,
+        translations,
+        targetLanguage,
+        sourceLanguage,
+      );
+    }
+
+    return {
+      segments: segments.map((segment, index) => ({
+        ...segment,
+        translatedText: translations[index],
+      })),
+      provider,
+    };
+  }
+
+  /**
+   * Translate one batch, bisecting it when line alignment is lost
+   */
+  private async translateBatch(
+    segments: TranscriptSegment[],
+    batch: number[],
+    translations: string[],
+    targetLanguage: string,
+    sourceLanguage?: string,
+  ): Promise<string> {
+    const lines = batch.map((index) => toSingleLine(segments[index].text));
+    const result = await this.translator.translate(
+      lines.join(BATCH_DELIMITER),
+      targetLanguage,
+      sourceLanguage,
+    );
+
+    // Some providers return HTML entities in translated text
+    const translatedLines = decodeHtmlEntities(result.translatedText)
+      .split(BATCH_DELIMITER)
+      .map((line) => line.trim());
+
+    if (batch.length === 1) {
+      translations[batch[0]] = translatedLines.join(' ').trim();
+      return result.provider;
+    }
+
+    if (translatedLines.length !== batch.length) {
+      const middle = Math.ceil(batch.length / 2);
+      await this.translateBatch(
+        segments,
+        batch.slice(0, middle),
+        translations,
+        targetLanguage,
+        sourceLanguage,
+      );
+      return this.translateBatch(
+        segments,
+        batch.slice(middle),
+        translations,
+        targetLanguage,
+        sourceLanguage,
+      );
+    }
+
+    batch.forEach((segmentIndex, i) => {
+      translations[segmentIndex] = translatedLines[i];
+    });
+    return result.provider;
+  }
+}
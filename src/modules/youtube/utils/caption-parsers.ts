@@ -0,0 +1,396 @@
+// Parsers for YouTube timedtext caption formats (json3, srv3, srv1)
+
+import type { CaptionFormat, TranscriptWord } from '../types/youtube.ts';
+
+/**
+ * Caption formats in the order they are tried
+ */
+export const CAPTION_FORMAT_FALLBACK_ORDER: CaptionFormat[] = [
+  'json3',
+  'srv3',
+  'srv1',
+];
+
+/**
+ * Parsed caption cue (seconds)
+ */
+export interface CaptionCue {
+  start: number;
+  duration: number;
+  text: string;
+  words?: TranscriptWord[];
+}
+
+/**
+ * Result of fetching a caption track with format fallback
+ */
+export interface CaptionFetchResult {
+  format: CaptionFormat;
+  cues: CaptionCue[];
+  totalDuration: number;
+  attempts: CaptionFetchAttempt[];
+}
+
+export interface CaptionFetchAttempt {
+  format: CaptionFormat;
+  status?: number;
+  error?: string;
+}
+
+/**
+ * json3 timedtext response
+ */
+interface Json3Response {
+  events?: Array<{
+    tStartMs?: number;
+    dDurationMs?: number;
+    segs?: Array<{
+      utf8?: string;
+      tOffsetMs?: number;
+    }>;
+  }>;
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: '\u00a0',
+};
+
+/**
+ * Decode HTML/XML entities. Caption XML frequently double-escapes entities
+ * (e.g. `&amp;#39;`), so decoding repeats until the text stops changing.
+ */
+export function decodeHtmlEntities(text: string): string {
+  let current = text;
+
+  for (let pass = 0; pass < 3; pass++) {
+    const decoded = current.replace(
+      /&(#x[0-9a-fA-F]+|#\d+|[a-zA-Z]+);/g,
+      (entity, body: string) => {
+        if (body[0] === '#') {
+          const code = body[1] === 'x' || body[1] === 'X'
+            ? parseInt(body.slice(2), 16)
+            : parseInt(body.slice(1), 10);
+          return Number.isFinite(code) && code > 0 && code <= 0x10ffff
+            ? String.fromCodePoint(code)
+            : entity;
+        }
+        return NAMED_ENTITIES[body.toLowerCase()] ?? entity;
+      },
+    );
+
+    if (decoded === current) break;
+    current = decoded;
+  }
+
+  return current;
+}
+
+/**
+ * Parse element attributes into a map
+ */
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const pattern = /([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(source)) !== null) {
+    attributes[match[1]] = match[2] ?? match[3] ?? '';
+  }
+
+  return attributes;
+}
+
+/**
+ * Formatting tags that can appear inside escaped caption text
+ */
+const FORMATTING_TAG_PATTERN = /<\/?(?:b|i|u|font)\b[^>]*>/gi;
+
+/**
+ * Convert caption markup to text: `<br>` becomes a line break, other tags
+ * are removed, entities are decoded and each line is trimmed
+ */
+function markupToText(markup: string): string {
+  const text = decodeHtmlEntities(
+    markup.replace(/<br\s*\/?>/gi, '\n').replace(/<[^>]+>/g, ''),
+  )
+    // Escaped formatting markup only becomes visible after decoding
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(FORMATTING_TAG_PATTERN, '');
+
+  return text
+    .split('\n')
+    .map((line) => line.replace(/[ \t\u00a0]+/g, ' ').trim())
+    .filter((line) => line.length > 0)
+    .join('\n');
+}
+
+function roundTime(seconds: number): number {
+  return Math.round(seconds * 1000) / 1000;
+}
+
+/**
+ * Parse the json3 format
+ */
+export function parseJson3(body: string): CaptionCue[] {
+  const data: Json3Response = JSON.parse(body);
+  if (!data || !Array.isArray(data.events)) {
+    throw new Error('Invalid json3 caption data');
+  }
+
+  const cues: CaptionCue[] = [];
+
+  for (const event of data.events) {
+    if (!event.segs || event.segs.length === 0) continue;
+
+    const text = event.segs.map((seg) => seg.utf8 || '').join('').trim();
+    if (!text) continue;
+
+    const startMs = event.tStartMs || 0;
+    const durationMs = event.dDurationMs || 0;
+    const cue: CaptionCue = {
+      start: roundTime(startMs / 1000),
+      duration: roundTime(durationMs / 1000),
+      text,
+    };
+
+    const words = parseJson3Words(event.segs, startMs, durationMs);
+    if (words.length > 0) {
+      cue.words = words;
+    }
+
+    cues.push(cue);
+  }
+
+  return cues;
+}
+
+/**
+ * Extract word timing from json3 `segs`. Auto-generated tracks split each
+ * event into one seg per word with a `tOffsetMs` relative to the event
+ * start; manual tracks use a single seg, which carries no word timing.
+ */
+function parseJson3Words(
+  segs: Array<{ utf8?: string; tOffsetMs?: number }>,
+  eventStartMs: number,
+  eventDurationMs: number,
+): TranscriptWord[] {
+  const hasOffsets = segs.some((seg) => seg.tOffsetMs !== undefined);
+  if (segs.length < 2 && !hasOffsets) return [];
+
+  const spans = segs
+    .map((seg) => ({
+      text: (seg.utf8 || '').replace(/\s+/g, ' ').trim(),
+      offsetMs: seg.tOffsetMs || 0,
+    }))
+    .filter((span) => span.text.length > 0);
+
+  return buildWords(spans, eventStartMs, eventDurationMs);
+}
+
+/**
+ * Turn offset spans into words; each word ends where the next one starts,
+ * and the last word ends with its cue
+ */
+function buildWords(
+  spans: Array<{ text: string; offsetMs: number }>,
+  cueStartMs: number,
+  cueDurationMs: number,
+): TranscriptWord[] {
+  const cueEndMs = cueStartMs + cueDurationMs;
+
+  return spans.map((span, index) => {
+    const startMs = cueStartMs + span.offsetMs;
+    const nextStartMs = index + 1 < spans.length
+      ? cueStartMs + spans[index + 1].offsetMs
+      : cueEndMs;
+
+    return {
+      text: span.text,
+      start: roundTime(startMs / 1000),
+      end: roundTime(Math.max(startMs, nextStartMs) / 1000),
+    };
+  });
+}
+
+/**
+ * Parse the srv3 format: `<p t="ms" d="ms">` paragraphs with optional
+ * `<s t="offset ms">` word spans
+ */
+export function parseSrv3(body: string): CaptionCue[] {
+  if (!/<timedtext[\s>]/i.test(body)) {
+    throw new Error('Invalid srv3 caption data');
+  }
+
+  const cues: CaptionCue[] = [];
+  const paragraphPattern = /<p\b([^>]*?)(?:\/>|>([\s\S]*?)<\/p>)/gi;
+  let match: RegExpExecArray | null;
+
+  while ((match = paragraphPattern.exec(body)) !== null) {
+    const attributes = parseAttributes(match[1]);
+    const content = match[2] || '';
+    const startMs = parseInt(attributes.t || '0', 10) || 0;
+    const durationMs = parseInt(attributes.d || '0', 10) || 0;
+
+    const text = markupToText(content);
+    if (!text) continue;
+
+    const cue: CaptionCue = {
+      start: roundTime(startMs / 1000),
+      duration: roundTime(durationMs / 1000),
+      text,
+    };
+
+    const words = parseSrv3Words(content, startMs, durationMs);
+    if (words.length > 0) {
+      cue.words = words;
+    }
+
+    cues.push(cue);
+  }
+
+  return cues;
+}
+
+/**
+ * Extract `<s t="...">` word spans from an srv3 paragraph
+ */
+function parseSrv3Words(
+  content: string,
+  paragraphStartMs: number,
+  paragraphDurationMs: number,
+): TranscriptWord[] {
+  const spans: Array<{ text: string; offsetMs: number }> = [];
+  const spanPattern = /<s\b([^>]*)>([\s\S]*?)<\/s>/gi;
+  let match: RegExpExecArray | null;
+
+  while ((match = spanPattern.exec(content)) !== null) {
+    const text = markupToText(match[2]).replace(/\n/g, ' ');
+    if (!text) continue;
+
+    const attributes = parseAttributes(match[1]);
+    spans.push({
+      text,
+      offsetMs: parseInt(attributes.t || '0', 10) || 0,
+    });
+  }
+
+  return buildWords(spans, paragraphStartMs, paragraphDurationMs);
+}
+
+/**
+ * Parse the srv1 format: `<text start="seconds" dur="seconds">` elements
+ */
+export function parseSrv1(body: string): CaptionCue[] {
+  if (!/<transcript[\s>]/i.test(body)) {
+    throw new Error('Invalid srv1 caption data');
+  }
+
+  const cues: CaptionCue[] = [];
+  const textPattern = /<text\b([^>]*?)(?:\/>|>([\s\S]*?)<\/text>)/gi;
+  let match: RegExpExecArray | null;
+
+  while ((match = textPattern.exec(body)) !== null) {
+    const attributes = parseAttributes(match[1]);
+    const text = markupToText(match[2] || '');
+    if (!text) continue;
+
+    cues.push({
+      start: roundTime(parseFloat(attributes.start || '0') || 0),
+      duration: roundTime(parseFloat(attributes.dur || '0') || 0),
+      text,
+    });
+  }
+
+  return cues;
+}
+
+/**
+ * Parse a caption body in the given format
+ */
+export function parseCaptionBody(
+  body: string,
+  format: CaptionFormat,
+): CaptionCue[] {
+  switch (format) {
+    case 'json3':
+      return parseJson3(body);
+    case 'srv3':
+      return parseSrv3(body);
+    case 'srv1':
+      return parseSrv1(body);
+  }
+}
+
+/**
+ * Compute the end time of the last cue
+ */
+export function getCaptionDuration(cues: CaptionCue[]): number {
+  return cues.reduce(
+    (max, cue) => Math.max(max, cue.start + cue.duration),
+    0,
+  );
+}
+
+/**
+ * Fetch a caption track, trying each format until one returns a non-empty,
+ * parseable body. Throws when every format fails.
+ */
+export async function fetchCaptionsWithFallback(
+  trackUrl: string,
+  init: RequestInit = {},
+  formats: CaptionFormat[] = CAPTION_FORMAT_FALLBACK_ORDER,
+): Promise<CaptionFetchResult> {
+  const attempts: CaptionFetchAttempt[] = [];
+
+  for (const format of formats) {
+    const url = new URL(trackUrl);
+    url.searchParams.set('fmt', format);
+
+    try {
+      const response = await fetch(url.toString(), init);
+      if (!response.ok) {
+        attempts.push({
+          format,
+          status: response.status,
+          error: `HTTP ${response.status}`,
+        });
+        continue;
+      }
+
+      const body = await response.text();
+      if (!body.trim()) {
+        attempts.push({ format, status: response.status, error: 'Empty body' });
+        continue;
+      }
+
+      const cues = parseCaptionBody(body, format);
+      if (cues.length === 0) {
+        attempts.push({ format, status: response.status, error: 'No cues' });
+        continue;
+      }
+
+      attempts.push({ format, status: response.status });
+      return {
+        format,
+        cues,
+        totalDuration: getCaptionDuration(cues),
+        attempts,
+      };
+    } catch (error: any) {
+      attempts.push({ format, error: (error as Error).message });
+    }
+  }
+
+  const error = new Error(
+    `Failed to fetch transcript in any format (${
+      attempts.map((a) => `${a.format}: ${a.error}`).join(', ')
+    })`,
+  );
+  (error as any).attempts = attempts;
+  throw error;
+}
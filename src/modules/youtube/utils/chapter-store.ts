@@ -0,0 +1,143 @@
+// Persistence helpers for video chapters
+
+import type {
+  ChapterSource,
+  TranscriptSegment,
+  VideoChapter,
+} from '../types/youtube.ts';
+
+/**
+ * Chapters stored for a video
+ */
+export interface StoredChapters {
+  source: ChapterSource;
+  language?: string;
+  chapters: VideoChapter[];
+}
+
+/**
+ * Load stored chapters for a video record, or null when none are stored
+ */
+export async function getStoredChapters(
+  supabase: any,
+  videoRecordId: string,
+): Promise<StoredChapters | null> {
+  const { data, error } = await supabase
+    .from('video_chapters')
+    .select('*')
+    .eq('video_id', videoRecordId)
+    .order('chapter_index', { ascending: true });
+
+  if (error) {
+    throw error;
+  }
+
+  if (!data || data.length === 0) {
+    return null;
+  }
+
+  return {
+    source: data[0].source,
+    language: data[0].language_code || undefined,
+    chapters: data.map((row: any) => {
+      const chapter: VideoChapter = {
+        index: row.chapter_index,
+        title: row.title,
+        start: Number(row.start_seconds),
+        end: Number(row.end_seconds),
+      };
+      if (row.segment_start_index !== null) {
+        chapter.segmentStartIndex = row.segment_start_index;
+        chapter.segmentEndIndex = row.segment_end_index;
+      }
+      return chapter;
+    }),
+  };
+}
+
+/**
+ * Replace the stored chapters of a video record
+ */
+export async function saveChapters(
+  supabase: any,
+  videoRecordId: string,
+  chapters: StoredChapters,
+): Promise<void> {
+  const { error: deleteError } = await supabase
+    .from('video_chapters')
+    .delete()
+    .eq('video_id', videoRecordId);
+
+  if (deleteError) {
+    throw deleteError;
+  }
+
+  if (chapters.chapters.length === 0) return;
+
+  const { error } = await supabase.from('video_chapters').insert(
+    chapters.chapters.map((chapter) => ({
+      video_id: videoRecordId,
+      chapter_index: chapter.index,
+      title: chapter.title,
+      start_seconds: chapter.start,
+      end_seconds: chapter.end,
+      source: chapters.source,
+      language_code: chapter.segmentStartIndex !== undefined
+        ? chapters.language
+        : null,
+      segment_start_index: chapter.segmentStartIndex ?? null,
+      segment_end_index: chapter.segmentEndIndex ?? null,
+    })),
+  );
+
+  if (error) {
+    throw error;
+  }
+}
+
+/**
+ * Load a stored transcript for a video record, optionally in a specific
+ * language (otherwise the first one stored)
+ */
+export async function getStoredTranscriptSegments(
+  supabase: any,
+  videoRecordId: string,
+  language?: string,
+): Promise<{ language: string; segments: TranscriptSegment[] } | null> {
+  let query = supabase
+    .from('video_transcripts')
+    .select('language_code, segments')
+    .eq('video_id', videoRecordId);
+
+  if (language) {
+    query = query.eq('language_code', language);
+  }
+
+  const { data, error } = await query
+    .order('created_at', { ascending: true })
+    .limit(1);
+
+  if (error) {
+    throw error;
+  }
+
+  const transcript = data?.[0];
+  return transcript
+    ? { language: transcript.language_code, segments: transcript.segments }
+    : null;
+}
+
+/**
+ * Attach the covered transcript segments to each chapter
+ */
+export function withChapterSegments(
+  chapters: VideoChapter[],
+  segments: TranscriptSegment[],
+): VideoChapter[] {
+  return chapters.map((chapter) => ({
+    ...chapter,
+    segments: chapter.segmentStartIndex !== undefined
+      ? segments.slice(chapter.segmentStartIndex, chapter.segmentEndIndex! + 1)
+      : [],
+  }));
+}
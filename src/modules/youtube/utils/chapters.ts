@@ -0,0 +1,301 @@
+// Chapter detection from video descriptions with AI topic segmentation fallback
+
+import type {
+  ChapterSource,
+  TranscriptSegment,
+  VideoChapter,
+} from '../types/youtube.ts';
+
+/**
+ * YouTube only shows description chapters when there are at least three,
+ * the first starts at 0:00 and each lasts at least ten seconds
+ */
+export const MIN_CHAPTER_COUNT = 3;
+export const MIN_CHAPTER_DURATION = 10;
+
+/**
+ * Character budget for the transcript outline sent to the AI provider
+ */
+export const DEFAULT_OUTLINE_MAX_CHARACTERS = 12000;
+
+/**
+ * Chapter title and time range before it is mapped onto transcript segments
+ */
+export interface ChapterBoundary {
+  title: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * Proposes chapters for a timestamped transcript outline. Entries are
+ * validated by `normalizeAIChapters`, so the raw model output can be passed
+ * through.
+ */
+export type ChapterSegmenter = (
+  outline: string,
+) => Promise<Array<{ title?: unknown; start?: unknown }>>;
+
+export interface DetectChaptersInput {
+  description?: string;
+  durationSeconds: number;
+  segments?: TranscriptSegment[];
+}
+
+const TIMESTAMP_PATTERN = /(?<![\d:])(?:(\d{1,2}):)?(\d{1,2}):([0-5]\d)(?![\d:])/;
+const TIMESTAMP_PATTERN_GLOBAL = new RegExp(
+  `[(\\[]?${TIMESTAMP_PATTERN.source}[)\\]]?`,
+  'g',
+);
+const TITLE_TRIM_PATTERN = /^[\s\-–—:|•·.,)\]]+|[\s\-–—:|•·,(\[]+$/g;
+
+/**
+ * Parse `m:ss`, `mm:ss` or `h:mm:ss` into seconds
+ */
+export function parseTimestamp(value: string): number | null {
+  const match = value.trim().match(TIMESTAMP_PATTERN);
+  if (!match || match[0] !== value.trim()) return null;
+
+  const hours = parseInt(match[1] || '0', 10);
+  const minutes = parseInt(match[2], 10);
+  const seconds = parseInt(match[3], 10);
+
+  return hours * 3600 + minutes * 60 + seconds;
+}
+
+/**
+ * Format seconds as `m:ss` or `h:mm:ss`
+ */
+export function formatTimestamp(seconds: number): string {
+  const total = Math.max(0, Math.floor(seconds));
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = String(total % 60).padStart(2, '0');
+
+  return hours > 0
+    ? `${hours}:${String(minutes).padStart(2, '0')}:${secs}`
+    : `${minutes}:${secs}`;
+}
+
+/**
+ * Fill in chapter end times: each chapter ends where the next one starts,
+ * the last one at the end of the video
+ */
+function withEndTimes(
+  chapters: Array<{ title: string; start: number }>,
+  durationSeconds: number,
+): ChapterBoundary[] {
+  return chapters.map((chapter, index) => ({
+    ...chapter,
+    end: index + 1 < chapters.length
+      ? chapters[index + 1].start
+      : Math.max(chapter.start, durationSeconds),
+  }));
+}
+
+/**
+ * Parse chapter timestamps from a video description, following YouTube's
+ * rules. Returns an empty list when the description does not define valid
+ * chapters.
+ */
+export function parseDescriptionChapters(
+  description: string | undefined,
+  durationSeconds: number,
+): ChapterBoundary[] {
+  if (!description) return [];
+
+  const chapters: Array<{ title: string; start: number }> = [];
+
+  for (const line of description.split(/\r?\n/)) {
+    const match = line.match(TIMESTAMP_PATTERN);
+    if (!match) continue;
+
+    const start = parseTimestamp(match[0])!;
+    const title = line
+      .replace(TIMESTAMP_PATTERN_GLOBAL, ' ')
+      .replace(/\s+/g, ' ')
+      .replace(TITLE_TRIM_PATTERN, '');
+
+    chapters.push({ title: title || `Chapter ${chapters.length + 1}`, start });
+  }
+
+  if (chapters.length < MIN_CHAPTER_COUNT || chapters[0].start !== 0) {
+    return [];
+  }
+
+  const boundaries = withEndTimes(chapters, durationSeconds);
+  const valid = boundaries.every((chapter, index) => {
+    const isLast = index === boundaries.length - 1;
+    // The last chapter can only be checked when the duration is known
+    if (isLast && durationSeconds <= chapter.start) return durationSeconds <= 0;
+    return chapter.end - chapter.start >= MIN_CHAPTER_DURATION;
+  });
+
+  return valid ? boundaries : [];
+}
+
+/**
+ * Condense a transcript into `[m:ss] text` lines for topic segmentation.
+ * Long transcripts are grouped into longer blocks and each block's text is
+ * truncated so the outline stays within `maxCharacters`.
+ */
+export function buildTranscriptOutline(
+  segments: TranscriptSegment[],
+  maxCharacters = DEFAULT_OUTLINE_MAX_CHARACTERS,
+): string {
+  const totalLength = segments.reduce(
+    (sum, segment) => sum + segment.text.length + 10,
+    0,
+  );
+  const groupSize = Math.max(1, Math.ceil(totalLength / maxCharacters));
+
+  const blocks: Array<{ start: number; text: string }> = [];
+  for (let i = 0; i < segments.length; i += groupSize) {
+    const group = segments.slice(i, i + groupSize);
+    const text = group
+      .map((segment) => segment.text.replace(/\s+/g, ' ').trim())
+      .filter(Boolean)
+      .join(' ');
+    if (text) blocks.push({ start: group[0].start, text });
+  }
+
+  const budget = Math.max(
+    20,
+    Math.floor(maxCharacters / Math.max(1, blocks.length)) - 10,
+  );
+
+  return blocks
+    .map((block) => {
+      const text = block.text.length > budget
+        ? `${block.text.slice(0, budget - 1).trimEnd()}…`
+        : block.text;
+      return `[${formatTimestamp(block.start)}] ${text}`;
+    })
+    .join('\n');
+}
+
+/**
+ * Validate chapters proposed by the AI provider: parse string timestamps,
+ * drop entries outside the video or without a title, sort them, start the
+ * first chapter at 0 and merge chapters shorter than the minimum length
+ */
+export function normalizeAIChapters(
+  raw: Array<{ title?: unknown; start?: unknown }>,
+  durationSeconds: number,
+): ChapterBoundary[] {
+  const candidates = raw
+    .map((entry) => {
+      const start = typeof entry.start === 'number'
+        ? entry.start
+        : typeof entry.start === 'string'
+        ? parseTimestamp(entry.start) ?? Number(entry.start)
+        : NaN;
+      const title = typeof entry.title === 'string'
+        ? entry.title.replace(/\s+/g, ' ').trim().slice(0, 100)
+        : '';
+      return { title, start: Math.floor(start) };
+    })
+    .filter((chapter) =>
+      chapter.title &&
+      Number.isFinite(chapter.start) &&
+      chapter.start >= 0 &&
+      (durationSeconds <= 0 || chapter.start < durationSeconds)
+    )
+    .sort((a, b) => a.start - b.start);
+
+  const chapters: Array<{ title: string; start: number }> = [];
+  for (const candidate of candidates) {
+    const previous = chapters[chapters.length - 1];
+    if (!previous) {
+      chapters.push({ ...candidate, start: 0 });
+    } else if (candidate.start - previous.start >= MIN_CHAPTER_DURATION) {
+      chapters.push(candidate);
+    }
+  }
+
+  // A final chapter too short to stand on its own is merged into the previous
+  const last = chapters[chapters.length - 1];
+  if (
+    chapters.length > 1 &&
+    durationSeconds > 0 &&
+    durationSeconds - last.start < MIN_CHAPTER_DURATION
+  ) {
+    chapters.pop();
+  }
+
+  return withEndTimes(chapters, durationSeconds);
+}
+
+/**
+ * Map chapters onto the transcript segments that start within them
+ */
+export function attachSegments(
+  boundaries: ChapterBoundary[],
+  segments: TranscriptSegment[] = [],
+): VideoChapter[] {
+  return boundaries.map((boundary, index) => {
+    const chapter: VideoChapter = {
+      index,
+      title: boundary.title,
+      start: boundary.start,
+      end: boundary.end,
+    };
+
+    const isLast = index === boundaries.length - 1;
+    let first = -1;
+    let last = -1;
+
+    segments.forEach((segment, segmentIndex) => {
+      const inChapter = segment.start >= boundary.start &&
+        (segment.start < boundary.end || isLast);
+      if (!inChapter) return;
+      if (first === -1) first = segmentIndex;
+      last = segmentIndex;
+    });
+
+    if (first !== -1) {
+      chapter.segmentStartIndex = first;
+      chapter.segmentEndIndex = last;
+    }
+
+    return chapter;
+  });
+}
+
+/**
+ * Detect chapters for a video: description timestamps first, then AI topic
+ * segmentation over the transcript when a segmenter is available. Returns
+ * null when neither source yields chapters.
+ */
+export async function detectChapters(
+  input: DetectChaptersInput,
+  segmenter?: ChapterSegmenter,
+): Promise<{ source: ChapterSource; chapters: VideoChapter[] } | null> {
+  const segments = input.segments || [];
+  const transcriptEnd = segments.reduce(
+    (max, segment) => Math.max(max, segment.start + segment.duration),
+    0,
+  );
+  const durationSeconds = input.durationSeconds > 0
+    ? input.durationSeconds
+    : transcriptEnd;
+
+  const fromDescription = parseDescriptionChapters(
+    input.description,
+    durationSeconds,
+  );
+  if (fromDescription.length > 0) {
+    return {
+      source: 'description',
+      chapters: attachSegments(fromDescription, segments),
+    };
+  }
+
+  if (!segmenter || segments.length === 0) return null;
+
+  const proposed = await segmenter(buildTranscriptOutline(segments));
+  const fromAI = normalizeAIChapters(proposed, durationSeconds);
+  if (fromAI.length < 2) return null;
+
+  return { source: 'ai', chapters: attachSegments(fromAI, segments) };
+}
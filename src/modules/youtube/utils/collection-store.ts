@@ -0,0 +1,149 @@
+// Persistence helpers for user video collections
+
+import type { CollectionVideo, VideoCollection } from '../types/youtube.ts';
+import { collectionProgress } from './collections.ts';
+
+/**
+ * Columns selected for collection rows
+ */
+export const COLLECTION_COLUMNS =
+  'id, user_id, name, description, is_shared, share_token, created_at, updated_at';
+
+/**
+ * Look up youtube_videos record IDs for YouTube video IDs, keeping their
+ * order. Videos that were never analyzed are returned as missing.
+ */
+export async function resolveVideoRecordIds(
+  supabase: any,
+  videoIds: string[],
+): Promise<{ recordIds: string[]; missing: string[] }> {
+  if (videoIds.length === 0) return { recordIds: [], missing: [] };
+
+  const { data, error } = await supabase
+    .from('youtube_videos')
+    .select('id, video_id')
+    .in('video_id', videoIds);
+
+  if (error) {
+    throw error;
+  }
+
+  const byVideoId = new Map<string, string>(
+    (data || []).map((row: any) => [row.video_id, row.id]),
+  );
+
+  return {
+    recordIds: videoIds
+      .filter((videoId) => byVideoId.has(videoId))
+      .map((videoId) => byVideoId.get(videoId)!),
+    missing: videoIds.filter((videoId) => !byVideoId.has(videoId)),
+  };
+}
+
+/**
+ * Replace the videos of a collection, in order
+ */
+export async function setCollectionVideos(
+  supabase: any,
+  collectionId: string,
+  recordIds: string[],
+): Promise<void> {
+  const { error } = await supabase.rpc('set_collection_items', {
+    p_collection_id: collectionId,
+    p_video_ids: recordIds,
+  });
+
+  if (error) {
+    throw error;
+  }
+}
+
+/**
+ * Build collection responses with the viewer's progress. Videos are only
+ * listed when includeVideos is set; progress always covers all of them.
+ */
+export async function loadCollections(
+  supabase: any,
+  rows: any[],
+  viewerId: string,
+  includeVideos = false,
+): Promise<VideoCollection[]> {
+  if (rows.length === 0) return [];
+
+  const { data: items, error: itemsError } = await supabase
+    .from('video_collection_items')
+    .select(
+      'collection_id, position, added_at, youtube_videos(id, video_id, title, channel_name, thumbnail_url, duration_seconds)',
+    )
+    .in('collection_id', rows.map((row) => row.id))
+    .order('position', { ascending: true });
+
+  if (itemsError) {
+    throw itemsError;
+  }
+
+  const recordIds = [
+    ...new Set<string>(
+      (items || []).map((item: any) => item.youtube_videos.id),
+    ),
+  ];
+  const history = new Map<string, { progress: number; completed: boolean }>();
+
+  if (recordIds.length > 0) {
+    const { data: historyRows, error: historyError } = await supabase
+      .from('user_video_history')
+      .select('video_id, progress_seconds, completed')
+      .eq('user_id', viewerId)
+      .in('video_id', recordIds);
+
+    if (historyError) {
+      throw historyError;
+    }
+
+    for (const row of historyRows || []) {
+      history.set(row.video_id, {
+        progress: row.progress_seconds,
+        completed: row.completed,
+      });
+    }
+  }
+
+  const videosByCollection = new Map<string, CollectionVideo[]>();
+  for (const item of items || []) {
+    const video = item.youtube_videos;
+    const watched = history.get(video.id);
+    const videos = videosByCollection.get(item.collection_id) || [];
+
+    videos.push({
+      videoId: video.video_id,
+      position: item.position,
+      title: video.title,
+      channelName: video.channel_name,
+      thumbnailUrl: video.thumbnail_url || undefined,
+      durationSeconds: video.duration_seconds || 0,
+      progressSeconds: watched?.progress ?? 0,
+      completed: watched?.completed ?? false,
+      addedAt: item.added_at,
+    });
+    videosByCollection.set(item.collection_id, videos);
+  }
+
+  return rows.map((row) => {
+    const videos = videosByCollection.get(row.id) || [];
+    const isOwner = row.user_id === viewerId;
+
+    return {
+      collectionId: row.id,
+      name: row.name,
+      description: row.description || undefined,
+      isShared: row.is_shared,
+      ...(isOwner && { shareToken: row.share_token }),
+      isOwner,
+      videoCount: videos.length,
+      progress: collectionProgress(videos),
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+      ...(includeVideos && { videos }),
+    };
+  });
+}
@@ -0,0 +1,115 @@
+// Validation and progress for user video collections
+
+import type { CollectionProgress } from '../types/youtube.ts';
+import { isVideoId } from './youtube-url.ts';
+
+/**
+ * Field limits, matching the video_collections constraints
+ */
+export const MAX_COLLECTION_NAME_LENGTH = 100;
+export const MAX_COLLECTION_DESCRIPTION_LENGTH = 1000;
+
+/**
+ * Videos allowed in one collection
+ */
+export const MAX_COLLECTION_VIDEOS = 500;
+
+/**
+ * Validate collection fields. Partial validation is used for updates, where
+ * every field is optional but at least one is required.
+ */
+export function validateCollectionFields(
+  data: any,
+  partial = false,
+): string[] {
+  const errors: string[] = [];
+
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    return ['Request body must be an object'];
+  }
+
+  if (!partial || data.name !== undefined) {
+    if (typeof data.name !== 'string' || data.name.trim().length === 0) {
+      errors.push('name is required');
+    } else if (data.name.trim().length > MAX_COLLECTION_NAME_LENGTH) {
+      errors.push(
+        `name must not exceed ${MAX_COLLECTION_NAME_LENGTH} characters`,
+      );
+    }
+  }
+
+  if (data.description !== undefined && data.description !== null) {
+    if (typeof data.description !== 'string') {
+      errors.push('description must be a string');
+    } else if (data.description.length > MAX_COLLECTION_DESCRIPTION_LENGTH) {
+      errors.push(
+        `description must not exceed ${MAX_COLLECTION_DESCRIPTION_LENGTH} characters`,
+      );
+    }
+  }
+
+  if (data.isShared !== undefined && typeof data.isShared !== 'boolean') {
+    errors.push('isShared must be a boolean');
+  }
+
+  if (data.videoIds !== undefined) {
+    if (!Array.isArray(data.videoIds)) {
+      errors.push('videoIds must be an array');
+    } else if (data.videoIds.length > MAX_COLLECTION_VIDEOS) {
+      errors.push(`maximum ${MAX_COLLECTION_VIDEOS} videos allowed`);
+    } else if (data.videoIds.some((id: any) => !isVideoId(id))) {
+      errors.push('all videoIds must be YouTube video IDs');
+    } else if (new Set(data.videoIds).size !== data.videoIds.length) {
+      errors.push('videoIds must not contain duplicates');
+    }
+  }
+
+  if (
+    partial &&
+    ['name', 'description', 'isShared', 'videoIds'].every(
+      (field) => data[field] === undefined,
+    )
+  ) {
+    errors.push('At least one field must be provided for update');
+  }
+
+  return errors;
+}
+
+/**
+ * Progress through a collection. Completed videos count in full; otherwise
+ * the stored progress counts up to the video's duration. Videos without a
+ * known duration (upcoming broadcasts) are left out of the totals.
+ */
+export function collectionProgress(
+  videos: Array<{
+    durationSeconds: number | null;
+    progressSeconds: number;
+    completed: boolean;
+  }>,
+): CollectionProgress {
+  let totalSeconds = 0;
+  let watchedSeconds = 0;
+  let completedVideos = 0;
+
+  for (const video of videos) {
+    if (video.completed) completedVideos++;
+
+    const duration = video.durationSeconds || 0;
+    if (duration <= 0) continue;
+
+    totalSeconds += duration;
+    watchedSeconds += video.completed
+      ? duration
+      : Math.min(Math.max(video.progressSeconds, 0), duration);
+  }
+
+  return {
+    totalSeconds,
+    watchedSeconds,
+    percentComplete: totalSeconds > 0
+      ? Math.round((watchedSeconds / totalSeconds) * 1000) / 10
+      : 0,
+    completedVideos,
+  };
+}
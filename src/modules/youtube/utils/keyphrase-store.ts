@@ -0,0 +1,112 @@
+// Persistence helpers for the per-transcript keyphrase index
+
+import type { TranscriptSegment, VideoKeyphrase } from '../types/youtube.ts';
+import {
+  extractCandidates,
+  Keyphrase,
+  MAX_INDEXED_KEYPHRASES,
+  MAX_KEYPHRASES,
+  rankKeyphrases,
+} from './keyphrases.ts';
+
+/**
+ * Extract and store the keyphrases of a transcript, updating the corpus
+ * document frequencies used for IDF. Stored scores rank against every
+ * stored transcript in the language, since transcripts are shared between
+ * users; vocabulary suggestions re-rank the stored terms against the
+ * requesting user's history. Returns the stored keyphrases.
+ */
+export async function indexTranscriptKeyphrases(
+  supabase: any,
+  transcriptId: string,
+  language: string,
+  segments: TranscriptSegment[],
+): Promise<Keyphrase[]> {
+  const candidates = extractCandidates(segments, language);
+  const terms = candidates.map((candidate) => candidate.term);
+
+  const { data: corpus, error: corpusError } = await supabase.rpc(
+    'get_term_document_frequencies',
+    { p_language_code: language, p_terms: terms },
+  );
+
+  if (corpusError) {
+    throw corpusError;
+  }
+
+  const keyphrases = rankKeyphrases(
+    candidates,
+    {
+      documentCount: corpus?.document_count ?? 0,
+      frequencies: corpus?.frequencies ?? {},
+    },
+    MAX_INDEXED_KEYPHRASES,
+  );
+
+  const { error } = await supabase.rpc('save_transcript_keyphrases', {
+    p_transcript_id: transcriptId,
+    p_terms: terms,
+    p_keyphrases: keyphrases.map((keyphrase, index) => ({
+      term: keyphrase.term,
+      kind: keyphrase.kind,
+      weight: keyphrase.weight,
+      score: keyphrase.score,
+      occurrences: keyphrase.count,
+      segment_positions: keyphrase.positions,
+      rank: index + 1,
+    })),
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  return keyphrases;
+}
+
+/**
+ * Load stored keyphrases for a video record, optionally in a specific
+ * language (otherwise those of the first transcript stored)
+ */
+export async function getStoredKeyphrases(
+  supabase: any,
+  videoRecordId: string,
+  language?: string,
+): Promise<{ language: string; keyphrases: VideoKeyphrase[] } | null> {
+  let query = supabase
+    .from('video_transcripts')
+    .select(
+      'language_code, segments, video_transcript_keyphrases(term, kind, score, occurrences, segment_positions, rank)',
+    )
+    .eq('video_id', videoRecordId);
+
+  if (language) {
+    query = query.eq('language_code', language);
+  }
+
+  const { data, error } = await query
+    .order('created_at', { ascending: true })
+    .limit(1);
+
+  if (error) {
+    throw error;
+  }
+
+  const transcript = data?.[0];
+  if (!transcript) return null;
+
+  const segments: TranscriptSegment[] = transcript.segments || [];
+  const keyphrases = [...(transcript.video_transcript_keyphrases || [])]
+    .sort((a: any, b: any) => a.rank - b.rank)
+    .slice(0, MAX_KEYPHRASES)
+    .map((row: any): VideoKeyphrase => ({
+      term: row.term,
+      kind: row.kind,
+      score: Number(row.score),
+      occurrences: row.occurrences,
+      segmentPositions: row.segment_positions,
+      firstStart: segments[row.segment_positions[0]]?.start,
+    }));
+
+  return { language: transcript.language_code, keyphrases };
+}
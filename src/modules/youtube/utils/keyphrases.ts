@@ -0,0 +1,206 @@
+// Offline keyword and key-phrase extraction (TF-IDF plus n-gram collocations)
+
+import type { TranscriptSegment } from '../types/youtube.ts';
+
+/**
+ * Keyphrases returned per transcript
+ */
+export const MAX_KEYPHRASES = 30;
+
+/**
+ * Keyphrases stored per transcript, so they can be re-ranked against a
+ * user's own history
+ */
+export const MAX_INDEXED_KEYPHRASES = 100;
+
+/**
+ * Longest phrase considered, in words
+ */
+export const MAX_NGRAM = 3;
+
+/**
+ * Phrases must occur at least this often to count as collocations
+ */
+export const MIN_PHRASE_COUNT = 2;
+
+/**
+ * Segment positions kept per term
+ */
+export const MAX_POSITIONS = 50;
+
+/**
+ * English function words. Other languages rely on IDF alone to push common
+ * words down.
+ */
+const ENGLISH_STOPWORDS = new Set(
+  `a about above after again against all also am an and any are as at be
+  because been before being below between both but by can could did do does
+  doing down during each even few for from further get gets getting go going
+  gonna got had has have having he her here hers herself him himself his how
+  i if in into is it its itself just know let like look make me might more
+  most much must my myself no nor not now of off oh ok okay on once one only
+  or other our ours ourselves out over own really right said same say see
+  she should so some such than that the their theirs them themselves then
+  there these they thing things think this those through to too um uh under
+  until up us very want was way we well were what when where which while who
+  whom why will with would yeah yes you your yours yourself yourselves`
+    .split(/\s+/),
+);
+
+/**
+ * Candidate term found in a transcript
+ */
+export interface KeyphraseCandidate {
+  term: string;
+  kind: 'word' | 'phrase';
+  count: number;
+  positions: number[]; // Segment indices, in order
+}
+
+/**
+ * Ranked keyphrase
+ */
+export interface Keyphrase extends KeyphraseCandidate {
+  weight: number; // Term frequency with the phrase length boost
+  score: number;
+}
+
+/**
+ * Corpus statistics for IDF
+ */
+export interface TermCorpusStats {
+  documentCount: number; // Transcripts indexed in the language
+  frequencies: Record<string, number>; // Transcripts containing each term
+}
+
+/**
+ * Split caption text into lowercase words. Bracketed annotations such as
+ * [Music] are dropped.
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .replace(/\[[^\]]*\]|\([^)]*\)/g, ' ')
+    .toLowerCase()
+    .replace(/’/g, "'")
+    .match(/[\p{L}\p{M}]+(?:'[\p{L}]+)*/gu) || [];
+}
+
+/**
+ * Whether a word can be a keyword or start or end a phrase
+ */
+function isContentWord(word: string, stopwords: Set<string>): boolean {
+  return word.length >= 3 && !stopwords.has(word) && !word.includes("'");
+}
+
+/**
+ * Collect candidate words and phrases with their counts and segment
+ * positions. Phrases never cross segment boundaries, must start and end
+ * with a content word, and are kept only when they recur and their words
+ * co-occur more often than chance (positive PMI).
+ */
+export function extractCandidates(
+  segments: TranscriptSegment[],
+  language: string,
+): KeyphraseCandidate[] {
+  const stopwords = language.startsWith('en')
+    ? ENGLISH_STOPWORDS
+    : new Set<string>();
+  const unigramCounts = new Map<string, number>();
+  const candidates = new Map<string, KeyphraseCandidate>();
+  let totalTokens = 0;
+
+  const add = (
+    term: string,
+    kind: KeyphraseCandidate['kind'],
+    index: number,
+  ) => {
+    const candidate = candidates.get(term) ??
+      { term, kind, count: 0, positions: [] };
+    candidate.count++;
+    if (
+      candidate.positions[candidate.positions.length - 1] !== index &&
+      candidate.positions.length < MAX_POSITIONS
+    ) {
+      candidate.positions.push(index);
+    }
+    candidates.set(term, candidate);
+  };
+
+  segments.forEach((segment, index) => {
+    const words = tokenize(segment.text);
+    totalTokens += words.length;
+
+    words.forEach((word, position) => {
+      unigramCounts.set(word, (unigramCounts.get(word) ?? 0) + 1);
+      if (!isContentWord(word, stopwords)) return;
+
+      add(word, 'word', index);
+
+      for (let n = 2; n <= MAX_NGRAM && position + n <= words.length; n++) {
+        const last = words[position + n - 1];
+        if (isContentWord(last, stopwords)) {
+          add(words.slice(position, position + n).join(' '), 'phrase', index);
+        }
+      }
+    });
+  });
+
+  return [...candidates.values()].filter((candidate) => {
+    if (candidate.kind === 'word') return true;
+    if (candidate.count < MIN_PHRASE_COUNT) return false;
+
+    // PMI of the phrase against its words occurring independently
+    const parts = candidate.term.split(' ');
+    const expected = parts.reduce(
+      (product, part) => product * (unigramCounts.get(part)! / totalTokens),
+      1,
+    );
+    return Math.log(candidate.count / totalTokens / expected) > 0;
+  });
+}
+
+/**
+ * Smoothed inverse document frequency. The transcript being indexed counts
+ * as a document even before its terms are stored.
+ */
+function inverseDocumentFrequency(
+  term: string,
+  corpus: TermCorpusStats,
+): number {
+  const documents = corpus.documentCount + 1;
+  const containing = (corpus.frequencies[term] ?? 0) + 1;
+  return Math.log((1 + documents) / (1 + containing)) + 1;
+}
+
+/**
+ * Rank candidates by TF-IDF. Phrases get a length boost since their counts
+ * are naturally lower than those of their words.
+ */
+export function rankKeyphrases(
+  candidates: KeyphraseCandidate[],
+  corpus: TermCorpusStats,
+  limit: number = MAX_KEYPHRASES,
+): Keyphrase[] {
+  const totalCount = candidates.reduce(
+    (sum, candidate) => sum + (candidate.kind === 'word' ? candidate.count : 0),
+    0,
+  );
+  if (totalCount === 0) return [];
+
+  return candidates
+    .map((candidate) => {
+      const boost = candidate.kind === 'phrase'
+        ? candidate.term.split(' ').length
+        : 1;
+      const weight = candidate.count / totalCount * boost;
+      return {
+        ...candidate,
+        weight: Math.round(weight * 1e6) / 1e6,
+        score: Math.round(
+          weight * inverseDocumentFrequency(candidate.term, corpus) * 1e6,
+        ) / 1e6,
+      };
+    })
+    .sort((a, b) => b.score - a.score || a.term.localeCompare(b.term))
+    .slice(0, limit);
+}
@@ -0,0 +1,113 @@
+// Live broadcast and premiere state of videos
+
+import type {
+  VideoLiveDetails,
+  VideoLiveState,
+  YouTubeAPIVideoItem,
+} from '../types/youtube.ts';
+
+/**
+ * How often running livestreams are checked for their end
+ */
+export const LIVE_RECHECK_MINUTES = 15;
+
+/**
+ * Upcoming premieres past their scheduled start are checked this often
+ */
+export const OVERDUE_RECHECK_MINUTES = 30;
+
+/**
+ * Live broadcast details from a videos.list item. Ended broadcasts report
+ * liveBroadcastContent 'none' but keep their liveStreamingDetails.
+ */
+export function resolveLiveDetails(
+  video: Pick<YouTubeAPIVideoItem, 'snippet' | 'liveStreamingDetails'>,
+): VideoLiveDetails {
+  const content = video.snippet?.liveBroadcastContent;
+  const details = video.liveStreamingDetails;
+
+  let state: VideoLiveState = 'none';
+  if (content === 'upcoming' || content === 'live') {
+    state = content;
+  } else if (details?.actualEndTime) {
+    state = 'ended';
+  }
+
+  const live: VideoLiveDetails = { state };
+  if (details?.scheduledStartTime) {
+    live.scheduledStartAt = details.scheduledStartTime;
+  }
+  if (details?.actualStartTime) live.actualStartAt = details.actualStartTime;
+  if (details?.actualEndTime) live.actualEndAt = details.actualEndTime;
+  if (state === 'live' && details?.concurrentViewers) {
+    live.concurrentViewers = parseInt(details.concurrentViewers, 10);
+  }
+
+  return live;
+}
+
+/**
+ * Whether the broadcast has not finished yet, so there is no duration or
+ * transcript
+ */
+export function isAwaitingBroadcast(
+  state: VideoLiveState | undefined,
+): boolean {
+  return state === 'upcoming' || state === 'live';
+}
+
+/**
+ * When the live watcher should look at the video again; null once the
+ * broadcast is over. Upcoming premieres are checked at their scheduled
+ * start, livestreams every LIVE_RECHECK_MINUTES.
+ */
+export function nextLiveCheckAt(
+  live: VideoLiveDetails,
+  now: Date = new Date(),
+): Date | null {
+  if (!isAwaitingBroadcast(live.state)) return null;
+
+  if (live.state === 'upcoming' && live.scheduledStartAt) {
+    const scheduled = new Date(live.scheduledStartAt);
+    if (scheduled.getTime() > now.getTime()) return scheduled;
+    return addMinutes(now, OVERDUE_RECHECK_MINUTES);
+  }
+
+  return addMinutes(now, LIVE_RECHECK_MINUTES);
+}
+
+/**
+ * youtube_videos columns for the live state
+ */
+export function toLiveStateColumns(
+  live: VideoLiveDetails,
+  now: Date = new Date(),
+): Record<string, any> {
+  return {
+    live_state: live.state,
+    scheduled_start_at: live.scheduledStartAt ?? null,
+    actual_start_at: live.actualStartAt ?? null,
+    actual_end_at: live.actualEndAt ?? null,
+    next_live_check_at: nextLiveCheckAt(live, now)?.toISOString() ?? null,
+  };
+}
+
+/**
+ * Seconds a client should wait before asking for the transcript again
+ */
+export function retryAfterSeconds(
+  nextCheckAt: string | Date | null | undefined,
+  now: Date = new Date(),
+): number {
+  const minimum = LIVE_RECHECK_MINUTES * 60;
+  if (!nextCheckAt) return minimum;
+
+  const seconds = Math.ceil(
+    (new Date(nextCheckAt).getTime() - now.getTime()) / 1000,
+  );
+  return Math.max(seconds, minimum);
+}
+
+function addMinutes(date: Date, minutes: number): Date {
+  return new Date(date.getTime() + minutes * 60 * 1000);
+}
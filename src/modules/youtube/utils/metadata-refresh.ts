@@ -0,0 +1,295 @@
+// Planning and change detection for the stale video metadata refresh
+
+import type {
+  FieldChange,
+  MetadataRefreshReport,
+  VideoAvailability,
+  VideoLiveState,
+  YouTubeVideoMetadata,
+} from '../types/youtube.ts';
+import { toLiveStateColumns } from './live-state.ts';
+import { isQuotaExhaustedError } from './quota-ledger.ts';
+import type { YouTubeAPIClient } from './youtube-api.ts';
+
+/**
+ * videos.list accepts up to 50 IDs per call and costs 1 quota unit per call
+ */
+export const REFRESH_BATCH_SIZE = 50;
+export const VIDEOS_LIST_QUOTA_COST = 1;
+
+/**
+ * Stored columns compared against fresh metadata
+ */
+export interface StoredVideoSnapshot {
+  video_id: string;
+  title: string;
+  duration_seconds: number;
+  view_count?: number | null;
+  like_count?: number | null;
+  comment_count?: number | null;
+  thumbnail_url?: string | null;
+  availability_status: VideoAvailability;
+  live_state?: VideoLiveState;
+}
+
+/**
+ * How much of the stale backlog a run may refresh
+ */
+export interface RefreshPlan {
+  batches: number;
+  maxVideos: number;
+  quotaRemaining: number;
+}
+
+/**
+ * Plan a run within the remaining daily budget. `requestedVideos` caps the
+ * run below what the budget would allow.
+ */
+export function planRefresh(
+  quotaBudget: number,
+  quotaUsed: number,
+  requestedVideos: number,
+): RefreshPlan {
+  const quotaRemaining = Math.max(0, quotaBudget - quotaUsed);
+  const affordableBatches = Math.floor(quotaRemaining / VIDEOS_LIST_QUOTA_COST);
+  const batches = Math.min(
+    affordableBatches,
+    Math.ceil(Math.max(0, requestedVideos) / REFRESH_BATCH_SIZE),
+  );
+
+  return {
+    batches,
+    maxVideos: Math.min(requestedVideos, batches * REFRESH_BATCH_SIZE),
+    quotaRemaining,
+  };
+}
+
+/**
+ * Split IDs into videos.list sized batches
+ */
+export function chunkVideoIds(
+  videoIds: string[],
+  size = REFRESH_BATCH_SIZE,
+): string[][] {
+  const batches: string[][] = [];
+  for (let i = 0; i < videoIds.length; i += size) {
+    batches.push(videoIds.slice(i, i + size));
+  }
+  return batches;
+}
+
+/**
+ * Thumbnail URL stored for a video, preferring the high resolution one
+ */
+function thumbnailUrl(metadata: YouTubeVideoMetadata): string | null {
+  return metadata.thumbnails.high?.url ||
+    metadata.thumbnails.medium?.url ||
+    metadata.thumbnails.default?.url ||
+    null;
+}
+
+/**
+ * Columns written when a video is seen in a refresh. Statistics the owner
+ * has hidden are left out so the stored value is kept. The live state is
+ * refreshed too, so ended broadcasts pick up their final duration.
+ */
+export function buildRefreshUpdate(
+  metadata: YouTubeVideoMetadata,
+): Record<string, any> {
+  return {
+    title: metadata.title,
+    duration_seconds: metadata.durationSeconds,
+    thumbnail_url: thumbnailUrl(metadata),
+    view_count: metadata.statistics?.viewCount,
+    like_count: metadata.statistics?.likeCount,
+    comment_count: metadata.statistics?.commentCount,
+    availability_status: 'available',
+    unavailable_since: null,
+    ...(metadata.live && toLiveStateColumns(metadata.live)),
+  };
+}
+
+/**
+ * Fields that differ between the stored row and fresh metadata, keyed by
+ * their API name. Missing statistics are not reported as a change to null,
+ * since owners can hide like counts at any time.
+ */
+export function diffVideoMetadata(
+  stored: StoredVideoSnapshot,
+  metadata: YouTubeVideoMetadata,
+): Record<string, FieldChange> {
+  const changes: Record<string, FieldChange> = {};
+  const compare = (
+    field: string,
+    from: string | number | null | undefined,
+    to: string | number | null | undefined,
+  ) => {
+    if (to === undefined || to === null) return;
+    if ((from ?? null) !== to) {
+      changes[field] = { from: from ?? null, to };
+    }
+  };
+
+  compare('title', stored.title, metadata.title);
+  compare(
+    'durationSeconds',
+    stored.duration_seconds,
+    metadata.durationSeconds,
+  );
+  compare('viewCount', stored.view_count, metadata.statistics?.viewCount);
+  compare('likeCount', stored.like_count, metadata.statistics?.likeCount);
+  compare(
+    'commentCount',
+    stored.comment_count,
+    metadata.statistics?.commentCount,
+  );
+  compare('thumbnailUrl', stored.thumbnail_url, thumbnailUrl(metadata));
+  compare('availability', stored.availability_status, 'available');
+  compare('liveState', stored.live_state, metadata.live?.state);
+
+  return changes;
+}
+
+/**
+ * YouTube calls made by a refresh
+ */
+export type RefreshClient = Pick<
+  YouTubeAPIClient,
+  'getVideosMetadata' | 'checkVideoAvailability'
+>;
+
+/**
+ * Refresh one batch of videos, recording outcomes in the report
+ */
+export async function refreshBatch(
+  supabase: any,
+  youtube: RefreshClient,
+  videoIds: string[],
+  report: MetadataRefreshReport,
+): Promise<void> {
+  const { data: rows, error: rowsError } = await supabase
+    .from('youtube_videos')
+    .select(
+      'video_id, title, duration_seconds, view_count, like_count, comment_count, thumbnail_url, availability_status, live_state',
+    )
+    .in('video_id', videoIds);
+
+  if (rowsError) {
+    throw rowsError;
+  }
+
+  const stored = new Map<string, StoredVideoSnapshot>(
+    (rows || []).map((row: StoredVideoSnapshot) => [row.video_id, row]),
+  );
+  const metadata = await youtube.getVideosMetadata(videoIds);
+  const now = new Date().toISOString();
+
+  for (const video of metadata) {
+    const row = stored.get(video.videoId);
+    if (!row) continue;
+
+    const changes = diffVideoMetadata(row, video);
+    const { error } = await supabase
+      .from('youtube_videos')
+      .update({ ...buildRefreshUpdate(video), last_refreshed_at: now })
+      .eq('video_id', video.videoId);
+
+    if (error) {
+      throw error;
+    }
+
+    report.checked++;
+    if (Object.keys(changes).length === 0) {
+      report.unchanged++;
+      continue;
+    }
+
+    report.updated++;
+    report.changes.push({ videoId: video.videoId, changes });
+    if (row.availability_status !== 'available') {
+      report.restored.push(video.videoId);
+    }
+  }
+
+  // Videos missing from the response are private or deleted
+  const returned = new Set(metadata.map((video) => video.videoId));
+  for (const videoId of videoIds.filter((id) => !returned.has(id))) {
+    const row = stored.get(videoId);
+    if (!row) continue;
+
+    let status: VideoAvailability;
+    try {
+      status = await youtube.checkVideoAvailability(videoId);
+    } catch (error: any) {
+      // Leave the video stale so the next run checks it again
+      console.error('Availability check failed:', videoId, error);
+      continue;
+    }
+
+    report.checked++;
+
+    if (status !== row.availability_status) {
+      const { error } = await supabase
+        .from('youtube_videos')
+        .update({
+          availability_status: status,
+          unavailable_since: status === 'available' ? null : now,
+        })
+        .eq('video_id', videoId);
+
+      if (error) {
+        throw error;
+      }
+
+      report.updated++;
+      report.changes.push({
+        videoId,
+        changes: {
+          availability: { from: row.availability_status, to: status },
+        },
+      });
+      if (status === 'available') {
+        report.restored.push(videoId);
+      } else if (row.availability_status === 'available') {
+        report.becameUnavailable.push({ videoId, status });
+      }
+    } else {
+      report.unchanged++;
+    }
+
+    await supabase.rpc('refresh_youtube_video_metadata', {
+      p_video_id: videoId,
+    });
+  }
+}
+
+/**
+ * Refresh videos batch by batch. Running out of quota ends the run early
+ * with budgetExhausted set; other errors propagate. afterBatch runs after
+ * every completed batch.
+ */
+export async function refreshInBatches(
+  supabase: any,
+  youtube: RefreshClient,
+  videoIds: string[],
+  report: MetadataRefreshReport,
+  quotaRemaining: number,
+  afterBatch?: () => Promise<void>,
+): Promise<void> {
+  for (const batch of chunkVideoIds(videoIds)) {
+    try {
+      await refreshBatch(supabase, youtube, batch, report);
+    } catch (error: any) {
+      if (isQuotaExhaustedError(error)) {
+        report.budgetExhausted = true;
+        break;
+      }
+      throw error;
+    } finally {
+      report.quotaUsed += VIDEOS_LIST_QUOTA_COST;
+      report.quotaRemaining = Math.max(0, quotaRemaining - report.quotaUsed);
+    }
+
+    await afterBatch?.();
+  }
+}
@@ -0,0 +1,242 @@
+// YouTube Data API quota ledger with soft and hard daily budgets
+
+import { YouTubeErrorCode } from '../types/youtube.ts';
+
+/**
+ * Data API operations made by the module
+ */
+export type YouTubeQuotaOperation =
+  | 'videos.list'
+  | 'playlistItems.list'
+  | 'channels.list'
+  | 'search.list';
+
+/**
+ * Unit cost per call, from the YouTube Data API quota calculator
+ */
+export const YOUTUBE_QUOTA_COSTS: Record<YouTubeQuotaOperation, number> = {
+  'videos.list': 1,
+  'playlistItems.list': 1,
+  'channels.list': 1,
+  'search.list': 100,
+};
+
+/**
+ * Default budget thresholds as a share of the daily quota
+ */
+export const DEFAULT_SOFT_LIMIT_PERCENT = 80;
+export const DEFAULT_HARD_LIMIT_PERCENT = 95;
+
+/**
+ * Above the soft limit only calls up to this cost are made
+ */
+export const SOFT_LIMIT_MAX_CALL_COST = 1;
+
+/**
+ * How long the ledger trusts its last known usage before reading it again
+ */
+export const USAGE_REFRESH_MS = 30_000;
+
+/**
+ * Daily quota budget in units
+ */
+export interface QuotaBudget {
+  dailyLimit: number;
+  softLimit: number;
+  hardLimit: number;
+}
+
+/**
+ * ok: normal operation. soft: prefer cached data and skip expensive calls.
+ * hard: no calls until the quota resets at midnight Pacific Time.
+ */
+export type QuotaLevel = 'ok' | 'soft' | 'hard';
+
+/**
+ * Outcome of a budget check before a call
+ */
+export interface QuotaDecision {
+  allowed: boolean;
+  level: QuotaLevel;
+  usedUnits: number;
+  cost: number;
+  preferCache: boolean;
+}
+
+/**
+ * Persistent usage storage, one total per quota day
+ */
+export interface QuotaStore {
+  getUsedUnits(): Promise<number>;
+  record(operation: YouTubeQuotaOperation, units: number): Promise<number>;
+}
+
+/**
+ * Build a budget from the daily quota and threshold percentages
+ */
+export function createQuotaBudget(
+  dailyLimit: number,
+  softLimitPercent = DEFAULT_SOFT_LIMIT_PERCENT,
+  hardLimitPercent = DEFAULT_HARD_LIMIT_PERCENT,
+): QuotaBudget {
+  const hardLimit = Math.floor((dailyLimit * hardLimitPercent) / 100);
+
+  return {
+    dailyLimit,
+    softLimit: Math.min(
+      Math.floor((dailyLimit * softLimitPercent) / 100),
+      hardLimit,
+    ),
+    hardLimit,
+  };
+}
+
+/**
+ * Budget level for the units used so far today
+ */
+export function getQuotaLevel(
+  usedUnits: number,
+  budget: QuotaBudget,
+): QuotaLevel {
+  if (usedUnits >= budget.hardLimit) return 'hard';
+  if (usedUnits >= budget.softLimit) return 'soft';
+  return 'ok';
+}
+
+/**
+ * Decide whether a call may be made. Calls that would cross the hard limit
+ * are refused; past the soft limit only cheap calls go through.
+ */
+export function decideQuota(
+  operation: YouTubeQuotaOperation,
+  usedUnits: number,
+  budget: QuotaBudget,
+): QuotaDecision {
+  const cost = YOUTUBE_QUOTA_COSTS[operation];
+  const level = getQuotaLevel(usedUnits, budget);
+  const allowed = usedUnits + cost <= budget.hardLimit &&
+    (level === 'ok' || cost <= SOFT_LIMIT_MAX_CALL_COST);
+
+  return {
+    allowed,
+    level,
+    usedUnits,
+    cost,
+    preferCache: level !== 'ok',
+  };
+}
+
+/**
+ * Ledger shared by every YouTubeAPIClient call made for one request
+ */
+export class YouTubeQuotaLedger {
+  private usedUnits = 0;
+  private loadedAt = 0;
+
+  constructor(
+    private store: QuotaStore,
+    readonly budget: QuotaBudget,
+    private now: () => number = Date.now,
+  ) {}
+
+  /**
+   * Units used today, read from the store when the cached value is old
+   */
+  async getUsedUnits(): Promise<number> {
+    if (this.now() - this.loadedAt > USAGE_REFRESH_MS) {
+      this.usedUnits = await this.store.getUsedUnits();
+      this.loadedAt = this.now();
+    }
+    return this.usedUnits;
+  }
+
+  /**
+   * Check the budget before a call
+   */
+  async check(operation: YouTubeQuotaOperation): Promise<QuotaDecision> {
+    return decideQuota(operation, await this.getUsedUnits(), this.budget);
+  }
+
+  /**
+   * Record a call that was made, whatever its outcome
+   */
+  async record(operation: YouTubeQuotaOperation): Promise<number> {
+    const cost = YOUTUBE_QUOTA_COSTS[operation];
+    this.usedUnits += cost;
+
+    try {
+      this.usedUnits = await this.store.record(operation, cost);
+      this.loadedAt = this.now();
+    } catch (error) {
+      // Keep the local estimate; losing a ledger write must not fail the call
+      console.error('Failed to record YouTube quota usage:', error);
+    }
+
+    return this.usedUnits;
+  }
+}
+
+/**
+ * Store backed by the youtube_quota_usage table
+ */
+export function createSupabaseQuotaStore(supabase: any): QuotaStore {
+  return {
+    async getUsedUnits() {
+      const { data, error } = await supabase.rpc('get_youtube_quota_usage');
+      if (error) throw error;
+
+      return (data || []).reduce(
+        (sum: number, row: { units: number }) => sum + row.units,
+        0,
+      );
+    },
+
+    async record(operation, units) {
+      const { data, error } = await supabase.rpc(
+        'record_youtube_quota_usage',
+        { p_operation: operation, p_units: units },
+      );
+      if (error) throw error;
+
+      return data;
+    },
+  };
+}
+
+/**
+ * Build a budget from environment settings
+ */
+export function createQuotaBudgetFromEnv(
+  getEnv: (key: string) => string | undefined,
+): QuotaBudget {
+  return createQuotaBudget(
+    parseInt(getEnv('YOUTUBE_API_QUOTA_PER_DAY') || '', 10) || 10000,
+    parseInt(getEnv('YOUTUBE_QUOTA_SOFT_LIMIT_PERCENT') || '', 10) ||
+      DEFAULT_SOFT_LIMIT_PERCENT,
+    parseInt(getEnv('YOUTUBE_QUOTA_HARD_LIMIT_PERCENT') || '', 10) ||
+      DEFAULT_HARD_LIMIT_PERCENT,
+  );
+}
+
+/**
+ * Build a ledger from environment settings
+ */
+export function createQuotaLedger(
+  supabase: any,
+  getEnv: (key: string) => string | undefined,
+): YouTubeQuotaLedger {
+  return new YouTubeQuotaLedger(
+    createSupabaseQuotaStore(supabase),
+    createQuotaBudgetFromEnv(getEnv),
+  );
+}
+
+/**
+ * Whether an error means no more Data API calls can be made today: YouTube
+ * refused for quota, or the ledger's hard budget was reached. AppErrors from
+ * createAppError carry the YouTubeErrorCode in `type`.
+ */
+export function isQuotaExhaustedError(error: any): boolean {
+  return error?.type === YouTubeErrorCode.API_QUOTA_EXCEEDED ||
+    error?.type === YouTubeErrorCode.QUOTA_BUDGET_EXCEEDED;
+}
@@ -0,0 +1,227 @@
+// Transcript readability metrics and CEFR difficulty estimation
+
+import type {
+  CEFRLevel,
+  FrequencyBandCoverage,
+  TranscriptReadability,
+  TranscriptSegment,
+} from '../types/youtube.ts';
+import { tokenize } from './keyphrases.ts';
+import { BAND_1_WORDS, BAND_2_WORDS } from './word-frequency.ts';
+
+/**
+ * CEFR levels, easiest first
+ */
+export const CEFR_LEVELS: CEFRLevel[] = ['A1', 'A2', 'B1', 'B2', 'C1', 'C2'];
+
+/**
+ * Window size for the moving-average type-token ratio. A plain ratio falls
+ * as transcripts get longer, which would make long videos look easier.
+ */
+export const MATTR_WINDOW = 50;
+
+/**
+ * Transcripts shorter than this get no level estimate
+ */
+export const MIN_WORDS_FOR_LEVEL = 50;
+
+/**
+ * Upper bounds of the difficulty score for each level but C2
+ */
+const LEVEL_THRESHOLDS = [0.2, 0.35, 0.5, 0.65, 0.8];
+
+/**
+ * Ranges mapped to 0-1 for each difficulty signal, from typical beginner
+ * material to native-speed lectures
+ */
+const RARITY_RANGE: [number, number] = [0.05, 0.3];
+const DIVERSITY_RANGE: [number, number] = [0.62, 0.82];
+const PACE_RANGE: [number, number] = [90, 190];
+
+/**
+ * Weights of the rarity, diversity and pace signals
+ */
+const SIGNAL_WEIGHTS = { rarity: 0.5, diversity: 0.3, pace: 0.2 };
+
+const CONTRACTION_SUFFIX = /(?:n't|'s|'re|'ll|'ve|'d|'m)$/;
+
+/**
+ * Seconds covered by at least one segment. Auto-generated captions overlap,
+ * so durations cannot simply be summed.
+ */
+export function speakingSeconds(segments: TranscriptSegment[]): number {
+  const intervals = segments
+    .filter((segment) => segment.duration > 0)
+    .map((segment) => [segment.start, segment.start + segment.duration])
+    .sort((a, b) => a[0] - b[0]);
+
+  let total = 0;
+  let end = -Infinity;
+  for (const [start, stop] of intervals) {
+    if (stop <= end) continue;
+    total += stop - Math.max(start, end);
+    end = stop;
+  }
+  return total;
+}
+
+/**
+ * Moving-average type-token ratio over windows of `window` words
+ */
+export function movingAverageTTR(
+  tokens: string[],
+  window: number = MATTR_WINDOW,
+): number {
+  if (tokens.length === 0) return 0;
+  if (tokens.length <= window) {
+    return new Set(tokens).size / tokens.length;
+  }
+
+  const counts = new Map<string, number>();
+  for (const token of tokens.slice(0, window)) {
+    counts.set(token, (counts.get(token) ?? 0) + 1);
+  }
+
+  let sum = counts.size;
+  for (let i = window; i < tokens.length; i++) {
+    const dropped = tokens[i - window];
+    const remaining = counts.get(dropped)! - 1;
+    if (remaining === 0) counts.delete(dropped);
+    else counts.set(dropped, remaining);
+    counts.set(tokens[i], (counts.get(tokens[i]) ?? 0) + 1);
+    sum += counts.size;
+  }
+
+  return sum / (tokens.length - window + 1) / window;
+}
+
+/**
+ * Candidate lemmas of an English word form, tried in order
+ */
+function lemmaCandidates(word: string): string[] {
+  const base = word.replace(CONTRACTION_SUFFIX, '');
+  const candidates = [word, base];
+
+  const rules: Array<[RegExp, string]> = [
+    [/ies$/, 'y'],
+    [/ied$/, 'y'],
+    [/es$/, ''],
+    [/s$/, ''],
+    [/ed$/, ''],
+    [/ed$/, 'e'],
+    [/ing$/, ''],
+    [/ing$/, 'e'],
+    [/ly$/, ''],
+    [/er$/, ''],
+    [/est$/, ''],
+  ];
+  for (const [suffix, replacement] of rules) {
+    if (!suffix.test(base)) continue;
+    const stem = base.replace(suffix, replacement);
+    candidates.push(stem);
+    // Doubled final consonant: stopped -> stop, running -> run
+    if (replacement === '' && /([^aeiou])\1$/.test(stem)) {
+      candidates.push(stem.slice(0, -1));
+    }
+  }
+
+  return candidates.filter((candidate) => candidate.length > 0);
+}
+
+/**
+ * Frequency band of an English word form: 1, 2, or null when off-list
+ */
+export function frequencyBand(word: string): 1 | 2 | null {
+  const candidates = lemmaCandidates(word);
+  if (candidates.some((candidate) => BAND_1_WORDS.has(candidate))) return 1;
+  if (candidates.some((candidate) => BAND_2_WORDS.has(candidate))) return 2;
+  return null;
+}
+
+/**
+ * Share of tokens in each frequency band
+ */
+export function frequencyBandCoverage(
+  tokens: string[],
+): FrequencyBandCoverage {
+  const counts = { band1: 0, band2: 0, offList: 0 };
+  for (const token of tokens) {
+    const band = frequencyBand(token);
+    if (band === 1) counts.band1++;
+    else if (band === 2) counts.band2++;
+    else counts.offList++;
+  }
+
+  const total = tokens.length || 1;
+  return {
+    band1: round(counts.band1 / total, 3),
+    band2: round(counts.band2 / total, 3),
+    offList: round(counts.offList / total, 3),
+  };
+}
+
+/**
+ * Combine vocabulary rarity, lexical diversity and speaking pace into a
+ * 0-1 difficulty score and map it to a CEFR level
+ */
+export function estimateCEFRLevel(signals: {
+  frequencyBands: FrequencyBandCoverage;
+  lexicalDiversity: number;
+  wordsPerMinute: number;
+}): { difficultyScore: number; cefrLevel: CEFRLevel } {
+  const rarity = signals.frequencyBands.band2 * 0.4 +
+    signals.frequencyBands.offList;
+  const score = SIGNAL_WEIGHTS.rarity * normalize(rarity, RARITY_RANGE) +
+    SIGNAL_WEIGHTS.diversity *
+      normalize(signals.lexicalDiversity, DIVERSITY_RANGE) +
+    SIGNAL_WEIGHTS.pace * normalize(signals.wordsPerMinute, PACE_RANGE);
+
+  const index = LEVEL_THRESHOLDS.findIndex((threshold) => score < threshold);
+  return {
+    difficultyScore: round(score, 3),
+    cefrLevel: CEFR_LEVELS[index === -1 ? CEFR_LEVELS.length - 1 : index],
+  };
+}
+
+/**
+ * Compute readability metrics from transcript segments. Frequency bands and
+ * the CEFR estimate are only available for English.
+ */
+export function computeReadability(
+  segments: TranscriptSegment[],
+  language: string,
+): Omit<TranscriptReadability, 'readingTimeMinutes'> {
+  const tokens = segments.flatMap((segment) => tokenize(segment.text));
+  const seconds = speakingSeconds(segments);
+  const wordsPerMinute = seconds > 0 ? tokens.length / (seconds / 60) : 0;
+  const lexicalDiversity = movingAverageTTR(tokens);
+
+  const frequencyBands = language.startsWith('en')
+    ? frequencyBandCoverage(tokens)
+    : null;
+  const canEstimate = frequencyBands !== null &&
+    tokens.length >= MIN_WORDS_FOR_LEVEL && seconds > 0;
+  const estimate = canEstimate
+    ? estimateCEFRLevel({ frequencyBands, lexicalDiversity, wordsPerMinute })
+    : null;
+
+  return {
+    language,
+    wordCount: tokens.length,
+    speakingSeconds: round(seconds, 2),
+    wordsPerMinute: round(wordsPerMinute, 1),
+    lexicalDiversity: round(lexicalDiversity, 3),
+    frequencyBands,
+    difficultyScore: estimate?.difficultyScore ?? null,
+    cefrLevel: estimate?.cefrLevel ?? null,
+  };
+}
+
+function normalize(value: number, [min, max]: [number, number]): number {
+  return Math.min(Math.max((value - min) / (max - min), 0), 1);
+}
+
+function round(value: number, digits: number): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
@@ -0,0 +1,222 @@
+// Subtitle rendering utilities for stored transcripts
+
+import type { SubtitleFormat, TranscriptSegment } from '../types/youtube.ts';
+
+/**
+ * Subtitle rendering options
+ */
+export interface SubtitleRenderOptions {
+  maxLineLength?: number; // Wrap cue text at this many characters (0 = no wrapping)
+  language?: string; // Used for the TTML xml:lang attribute
+}
+
+/**
+ * Content type and file extension for each supported format
+ */
+export const SUBTITLE_FORMATS: Record<
+  SubtitleFormat,
+  { contentType: string; extension: string }
+> = {
+  srt: { contentType: 'application/x-subrip; charset=utf-8', extension: 'srt' },
+  vtt: { contentType: 'text/vtt; charset=utf-8', extension: 'vtt' },
+  ttml: { contentType: 'application/ttml+xml; charset=utf-8', extension: 'ttml' },
+  txt: { contentType: 'text/plain; charset=utf-8', extension: 'txt' },
+};
+
+/**
+ * Check whether a value is a supported subtitle format
+ */
+export function isSubtitleFormat(value: unknown): value is SubtitleFormat {
+  return typeof value === 'string' && Object.hasOwn(SUBTITLE_FORMATS, value);
+}
+
+/**
+ * Format seconds as HH:MM:SS<separator>mmm
+ */
+function formatClockTime(seconds: number, separator: ',' | '.'): string {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor((totalMs % 3600000) / 60000);
+  const secs = Math.floor((totalMs % 60000) / 1000);
+  const ms = totalMs % 1000;
+
+  return `${pad(hours, 2)}:${pad(minutes, 2)}:${pad(secs, 2)}${separator}${
+    pad(ms, 3)
+  }`;
+}
+
+/**
+ * Format seconds as [HH:MM:SS] or [MM:SS] for plain text output
+ */
+function formatPlainTimestamp(seconds: number): string {
+  const total = Math.max(0, Math.floor(seconds));
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = total % 60;
+
+  return hours > 0
+    ? `${pad(hours, 2)}:${pad(minutes, 2)}:${pad(secs, 2)}`
+    : `${pad(minutes, 2)}:${pad(secs, 2)}`;
+}
+
+function pad(value: number, length: number): string {
+  return String(value).padStart(length, '0');
+}
+
+/**
+ * Wrap text into lines no longer than maxLineLength.
+ * Words longer than the limit are kept whole on their own line.
+ */
+export function wrapText(text: string, maxLineLength?: number): string[] {
+  const normalized = text.replace(/\s+/g, ' ').trim();
+  if (!normalized) return [];
+  if (!maxLineLength || maxLineLength <= 0) return [normalized];
+
+  const lines: string[] = [];
+  let current = '';
+
+  for (const word of normalized.split(' ')) {
+    if (!current) {
+      current = word;
+    } else if (current.length + 1 + word.length <= maxLineLength) {
+      current += ' ' + word;
+    } else {
+      lines.push(current);
+      current = word;
+    }
+  }
+
+  if (current) lines.push(current);
+  return lines;
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function escapeVtt(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
+/**
+ * Build cues with wrapped lines, dropping segments without text
+ */
+function buildCues(
+  segments: TranscriptSegment[],
+  maxLineLength?: number,
+): Array<{ start: number; end: number; lines: string[] }> {
+  return segments
+    .map((segment) => ({
+      start: segment.start,
+      end: segment.start + Math.max(0, segment.duration),
+      lines: wrapText(segment.text, maxLineLength),
+    }))
+    .filter((cue) => cue.lines.length > 0);
+}
+
+/**
+ * Render segments as SubRip (.srt)
+ */
+export function toSRT(
+  segments: TranscriptSegment[],
+  options: SubtitleRenderOptions = {},
+): string {
+  return buildCues(segments, options.maxLineLength)
+    .map((cue, index) =>
+      [
+        String(index + 1),
+        `${formatClockTime(cue.start, ',')} --> ${
+          formatClockTime(cue.end, ',')
+        }`,
+        ...cue.lines,
+      ].join('\n')
+    )
+    .join('\n\n') + '\n';
+}
+
+/**
+ * Render segments as WebVTT (.vtt)
+ */
+export function toWebVTT(
+  segments: TranscriptSegment[],
+  options: SubtitleRenderOptions = {},
+): string {
+  const cues = buildCues(segments, options.maxLineLength).map((cue) =>
+    [
+      `${formatClockTime(cue.start, '.')} --> ${
+        formatClockTime(cue.end, '.')
+      }`,
+      ...cue.lines.map(escapeVtt),
+    ].join('\n')
+  );
+
+  return ['WEBVTT', ...cues].join('\n\n') + '\n';
+}
+
+/**
+ * Render segments as Timed Text Markup Language (.ttml)
+ */
+export function toTTML(
+  segments: TranscriptSegment[],
+  options: SubtitleRenderOptions = {},
+): string {
+  const language = escapeXml(options.language || 'en');
+  const paragraphs = buildCues(segments, options.maxLineLength).map((cue) =>
+    `      <p begin="${formatClockTime(cue.start, '.')}" end="${
+      formatClockTime(cue.end, '.')
+    }">${cue.lines.map(escapeXml).join('<br/>')}</p>`
+  );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<tt xmlns="http://www.w3.org/ns/ttml" xml:lang="${language}">`,
+    '  <body>',
+    '    <div>',
+    ...paragraphs,
+    '    </div>',
+    '  </body>',
+    '</tt>',
+  ].join('\n') + '\n';
+}
+
+/**
+ * Render segments as timestamped plain text (.txt)
+ */
+export function toPlainText(
+  segments: TranscriptSegment[],
+  options: SubtitleRenderOptions = {},
+): string {
+  const lines = buildCues(segments, options.maxLineLength).map((cue) =>
+    `[${formatPlainTimestamp(cue.start)}] ${cue.lines.join('\n')}`
+  );
+
+  return lines.length > 0 ? lines.join('\n') + '\n' : '';
+}
+
+/**
+ * Render segments in the requested subtitle format
+ */
+export function renderSubtitles(
+  segments: TranscriptSegment[],
+  format: SubtitleFormat,
+  options: SubtitleRenderOptions = {},
+): string {
+  switch (format) {
+    case 'srt':
+      return toSRT(segments, options);
+    case 'vtt':
+      return toWebVTT(segments, options);
+    case 'ttml':
+      return toTTML(segments, options);
+    case 'txt':
+      return toPlainText(segments, options);
+  }
+}
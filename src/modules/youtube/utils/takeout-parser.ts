@@ -0,0 +1,384 @@
+// Google Takeout watch history parsing (watch-history.json and .html)
+
+import { parseYouTubeUrl } from './youtube-url.ts';
+
+/**
+ * Export formats Takeout offers for YouTube history
+ */
+export type TakeoutFormat = 'json' | 'html';
+
+/**
+ * One watch event from the export
+ */
+export interface TakeoutWatchEntry {
+  videoId: string;
+  watchedAt: string; // ISO 8601
+  title?: string;
+  channelName?: string;
+}
+
+/**
+ * Watch events of one video, merged
+ */
+export interface TakeoutVideo {
+  videoId: string;
+  firstWatchedAt: string;
+  lastWatchedAt: string;
+  watchCount: number;
+  title?: string;
+  channelName?: string;
+}
+
+/**
+ * Parsed export with counts of entries that were left out
+ */
+export interface TakeoutParseResult {
+  format: TakeoutFormat;
+  entries: TakeoutWatchEntry[];
+  skipped: {
+    ads: number; // Watched as an ad ("From Google Ads")
+    removed: number; // Video was removed or made private; no link left
+    invalid: number; // Unrecognized link or timestamp
+  };
+}
+
+const ADS_MARKER = 'From Google Ads';
+
+const MONTHS: Record<string, number> = {
+  jan: 0,
+  feb: 1,
+  mar: 2,
+  apr: 3,
+  may: 4,
+  jun: 5,
+  jul: 6,
+  aug: 7,
+  sep: 8,
+  sept: 8,
+  oct: 9,
+  nov: 10,
+  dec: 11,
+};
+
+/**
+ * UTC offsets in minutes for the zone abbreviations Takeout prints
+ */
+const ZONE_OFFSETS: Record<string, number> = {
+  UTC: 0,
+  GMT: 0,
+  WET: 0,
+  WEST: 60,
+  BST: 60,
+  CET: 60,
+  CEST: 120,
+  EET: 120,
+  EEST: 180,
+  MSK: 180,
+  IST: 330,
+  ICT: 420,
+  WIB: 420,
+  SGT: 480,
+  HKT: 480,
+  JST: 540,
+  KST: 540,
+  AEST: 600,
+  AEDT: 660,
+  NZST: 720,
+  NZDT: 780,
+  HST: -600,
+  AKST: -540,
+  AKDT: -480,
+  PST: -480,
+  PDT: -420,
+  MST: -420,
+  MDT: -360,
+  CST: -360,
+  CDT: -300,
+  EST: -300,
+  EDT: -240,
+  AST: -240,
+  ADT: -180,
+  NST: -210,
+  NDT: -150,
+  BRT: -180,
+};
+
+// "Jun 25, 2023, 8:15:30 PM EDT" (US) and "25 Jun 2023, 20:15:30 CEST" (UK/EU)
+const US_TIMESTAMP =
+  /^([A-Za-z]{3,4})\.? (\d{1,2}), (\d{4}),? (\d{1,2}):(\d{2}):(\d{2}) ?([AP]M) (\S+)$/i;
+const EU_TIMESTAMP =
+  /^(\d{1,2}) ([A-Za-z]{3,4})\.? (\d{4}),? (\d{1,2}):(\d{2}):(\d{2}) (\S+)$/;
+const GMT_OFFSET = /^(?:GMT|UTC)([+-])(\d{1,2})(?::?(\d{2}))?$/;
+
+/**
+ * Parse a Takeout export, detecting the format from its content when it is
+ * not given
+ */
+export function parseTakeoutFile(
+  content: string,
+  format?: TakeoutFormat,
+): TakeoutParseResult {
+  const detected = format ?? detectTakeoutFormat(content);
+  if (!detected) {
+    throw new Error('Unrecognized watch history file');
+  }
+
+  return detected === 'json'
+    ? parseTakeoutJson(content)
+    : parseTakeoutHtml(content);
+}
+
+/**
+ * Takeout format of a file from its first non-whitespace character
+ */
+export function detectTakeoutFormat(content: string): TakeoutFormat | null {
+  const start = content.replace(/^\uFEFF/, '').trimStart();
+  if (start.startsWith('[')) return 'json';
+  if (start.startsWith('<')) return 'html';
+  return null;
+}
+
+/**
+ * Parse watch-history.json
+ */
+export function parseTakeoutJson(content: string): TakeoutParseResult {
+  let items: any;
+  try {
+    items = JSON.parse(content.replace(/^\uFEFF/, ''));
+  } catch {
+    throw new Error('watch-history.json is not valid JSON');
+  }
+
+  if (!Array.isArray(items)) {
+    throw new Error('watch-history.json must contain an array of entries');
+  }
+
+  const result: TakeoutParseResult = {
+    format: 'json',
+    entries: [],
+    skipped: { ads: 0, removed: 0, invalid: 0 },
+  };
+
+  for (const item of items) {
+    if (!item || typeof item !== 'object') {
+      result.skipped.invalid++;
+      continue;
+    }
+
+    if (
+      Array.isArray(item.details) &&
+      item.details.some((detail: any) => detail?.name === ADS_MARKER)
+    ) {
+      result.skipped.ads++;
+      continue;
+    }
+
+    if (typeof item.titleUrl !== 'string') {
+      result.skipped.removed++;
+      continue;
+    }
+
+    const videoId = parseYouTubeUrl(item.titleUrl)?.videoId;
+    const time = typeof item.time === 'string' ? Date.parse(item.time) : NaN;
+    if (!videoId || Number.isNaN(time)) {
+      result.skipped.invalid++;
+      continue;
+    }
+
+    result.entries.push({
+      videoId,
+      watchedAt: new Date(time).toISOString(),
+      ...optionalText('title', stripWatchedPrefix(item.title)),
+      ...optionalText('channelName', item.subtitles?.[0]?.name),
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Parse watch-history.html. Timestamps are read in the English US and UK
+ * layouts; other export languages should use the JSON format.
+ */
+export function parseTakeoutHtml(content: string): TakeoutParseResult {
+  const result: TakeoutParseResult = {
+    format: 'html',
+    entries: [],
+    skipped: { ads: 0, removed: 0, invalid: 0 },
+  };
+
+  const cells = content.split(/<div class="outer-cell/).slice(1);
+  for (const cell of cells) {
+    if (cell.includes(ADS_MARKER)) {
+      result.skipped.ads++;
+      continue;
+    }
+
+    const body = cell.match(
+      /<div class="content-cell[^"]*mdl-typography--body-1">([\s\S]*?)<\/div>/,
+    )?.[1];
+    if (!body) {
+      result.skipped.invalid++;
+      continue;
+    }
+
+    const links = [...body.matchAll(/<a href="([^"]*)">([\s\S]*?)<\/a>/g)];
+    const videoLink = links.find((link) =>
+      parseYouTubeUrl(decodeEntities(link[1]))?.videoId
+    );
+    if (!videoLink) {
+      result.skipped.removed++;
+      continue;
+    }
+
+    const lines = body
+      .split(/<br\s*\/?>/)
+      .map((line) => normalizeSpaces(decodeEntities(stripTags(line))))
+      .filter(Boolean);
+    const watchedAt = parseTakeoutTimestamp(lines[lines.length - 1] || '');
+    if (!watchedAt) {
+      result.skipped.invalid++;
+      continue;
+    }
+
+    const channelLink = links.find((link) =>
+      link !== videoLink && /\/(?:channel|c|user|@)/.test(link[1])
+    );
+
+    result.entries.push({
+      videoId: parseYouTubeUrl(decodeEntities(videoLink[1]))!.videoId!,
+      watchedAt,
+      ...optionalText('title', decodeEntities(stripTags(videoLink[2]))),
+      ...optionalText(
+        'channelName',
+        channelLink && decodeEntities(stripTags(channelLink[2])),
+      ),
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Parse a timestamp printed in the HTML export to ISO 8601, or null
+ */
+export function parseTakeoutTimestamp(text: string): string | null {
+  const value = normalizeSpaces(text);
+
+  let year: number, month: number, day: number;
+  let hours: number, minutes: number, seconds: number;
+  let zone: string;
+
+  const us = value.match(US_TIMESTAMP);
+  const eu = us ? null : value.match(EU_TIMESTAMP);
+  if (us) {
+    month = MONTHS[us[1].toLowerCase()];
+    day = parseInt(us[2], 10);
+    year = parseInt(us[3], 10);
+    hours = parseInt(us[4], 10) % 12 + (us[7].toUpperCase() === 'PM' ? 12 : 0);
+    minutes = parseInt(us[5], 10);
+    seconds = parseInt(us[6], 10);
+    zone = us[8];
+  } else if (eu) {
+    day = parseInt(eu[1], 10);
+    month = MONTHS[eu[2].toLowerCase()];
+    year = parseInt(eu[3], 10);
+    hours = parseInt(eu[4], 10);
+    minutes = parseInt(eu[5], 10);
+    seconds = parseInt(eu[6], 10);
+    zone = eu[7];
+  } else {
+    return null;
+  }
+
+  const offset = zoneOffsetMinutes(zone);
+  if (month === undefined || offset === null) return null;
+
+  const utc = Date.UTC(year, month, day, hours, minutes, seconds) -
+    offset * 60 * 1000;
+  return Number.isNaN(utc) ? null : new Date(utc).toISOString();
+}
+
+/**
+ * Merge watch events per video, most recently watched first
+ */
+export function dedupeWatchEntries(
+  entries: TakeoutWatchEntry[],
+): TakeoutVideo[] {
+  const videos = new Map<string, TakeoutVideo>();
+
+  for (const entry of entries) {
+    const video = videos.get(entry.videoId);
+    if (!video) {
+      videos.set(entry.videoId, {
+        videoId: entry.videoId,
+        firstWatchedAt: entry.watchedAt,
+        lastWatchedAt: entry.watchedAt,
+        watchCount: 1,
+        ...optionalText('title', entry.title),
+        ...optionalText('channelName', entry.channelName),
+      });
+      continue;
+    }
+
+    video.watchCount++;
+    if (entry.watchedAt < video.firstWatchedAt) {
+      video.firstWatchedAt = entry.watchedAt;
+    }
+    if (entry.watchedAt > video.lastWatchedAt) {
+      video.lastWatchedAt = entry.watchedAt;
+      // Keep the title the video had most recently
+      if (entry.title) video.title = entry.title;
+      if (entry.channelName) video.channelName = entry.channelName;
+    }
+  }
+
+  return [...videos.values()].sort((a, b) =>
+    b.lastWatchedAt.localeCompare(a.lastWatchedAt)
+  );
+}
+
+function zoneOffsetMinutes(zone: string): number | null {
+  const upper = zone.toUpperCase();
+  if (upper in ZONE_OFFSETS) return ZONE_OFFSETS[upper];
+
+  const gmt = upper.match(GMT_OFFSET);
+  if (!gmt) return null;
+
+  const minutes = parseInt(gmt[2], 10) * 60 + parseInt(gmt[3] || '0', 10);
+  return gmt[1] === '-' ? -minutes : minutes;
+}
+
+function stripWatchedPrefix(title: unknown): string | undefined {
+  return typeof title === 'string'
+    ? title.replace(/^Watched\s+/, '')
+    : undefined;
+}
+
+function optionalText(
+  key: 'title' | 'channelName',
+  value: string | undefined,
+): Record<string, string> {
+  const text = value?.trim();
+  return text ? { [key]: text } : {};
+}
+
+function stripTags(html: string): string {
+  return html.replace(/<[^>]*>/g, '');
+}
+
+function normalizeSpaces(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&emsp;/g, ' ')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&#x27;|&apos;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+    .replace(/&amp;/g, '&');
+}
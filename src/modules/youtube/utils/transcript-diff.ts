@@ -0,0 +1,205 @@
+// Segment-level diffing between transcript versions and timestamp remapping
+
+import type {
+  RetimedSegment,
+  SegmentChange,
+  TranscriptDiff,
+  TranscriptDiffSummary,
+  TranscriptSegment,
+} from '../types/youtube.ts';
+
+/**
+ * Timing differences below this many seconds are treated as rounding noise
+ */
+export const RETIME_TOLERANCE_SECONDS = 0.05;
+
+/**
+ * Compare segment text ignoring case, whitespace and punctuation
+ */
+function normalizeText(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function toChange(segment: TranscriptSegment, index: number): SegmentChange {
+  return {
+    index,
+    start: segment.start,
+    duration: segment.duration,
+    text: segment.text,
+  };
+}
+
+/**
+ * Largest LCS table diffed exactly; beyond it the changed middle of the
+ * transcript is reported as removed and re-added
+ */
+export const MAX_DIFF_CELLS = 4_000_000;
+
+/**
+ * Diff two versions of a transcript. Segments are aligned by text with a
+ * longest common subsequence, so a single inserted line does not mark every
+ * following segment as changed.
+ */
+export function diffTranscripts(
+  previous: TranscriptSegment[],
+  next: TranscriptSegment[],
+): TranscriptDiff {
+  const oldTexts = previous.map((segment) => normalizeText(segment.text));
+  const newTexts = next.map((segment) => normalizeText(segment.text));
+
+  const diff: TranscriptDiff = {
+    added: [],
+    removed: [],
+    retimed: [],
+    unchanged: 0,
+  };
+
+  const match = (i: number, j: number) => {
+    const before = previous[i];
+    const after = next[j];
+    if (
+      Math.abs(before.start - after.start) > RETIME_TOLERANCE_SECONDS ||
+      Math.abs(before.duration - after.duration) > RETIME_TOLERANCE_SECONDS
+    ) {
+      diff.retimed.push({
+        oldIndex: i,
+        newIndex: j,
+        text: after.text,
+        before: { start: before.start, duration: before.duration },
+        after: { start: after.start, duration: after.duration },
+      });
+    } else {
+      diff.unchanged++;
+    }
+  };
+
+  // Caption fixes are usually local, so only the middle needs the LCS table
+  let prefix = 0;
+  while (
+    prefix < oldTexts.length && prefix < newTexts.length &&
+    oldTexts[prefix] === newTexts[prefix]
+  ) {
+    match(prefix, prefix);
+    prefix++;
+  }
+
+  let suffix = 0;
+  while (
+    suffix < oldTexts.length - prefix && suffix < newTexts.length - prefix &&
+    oldTexts[oldTexts.length - 1 - suffix] ===
+      newTexts[newTexts.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const oldEnd = oldTexts.length - suffix;
+  const newEnd = newTexts.length - suffix;
+  const rows = oldEnd - prefix;
+  const cols = newEnd - prefix;
+
+  if ((rows + 1) * (cols + 1) <= MAX_DIFF_CELLS) {
+    // lengths[r * (cols + 1) + c] = LCS length of the remaining middles
+    const lengths = new Uint32Array((rows + 1) * (cols + 1));
+    for (let r = rows - 1; r >= 0; r--) {
+      for (let c = cols - 1; c >= 0; c--) {
+        lengths[r * (cols + 1) + c] =
+          oldTexts[prefix + r] === newTexts[prefix + c]
+            ? lengths[(r + 1) * (cols + 1) + c + 1] + 1
+            : Math.max(
+              lengths[(r + 1) * (cols + 1) + c],
+              lengths[r * (cols + 1) + c + 1],
+            );
+      }
+    }
+
+    let r = 0;
+    let c = 0;
+    while (r < rows && c < cols) {
+      if (oldTexts[prefix + r] === newTexts[prefix + c]) {
+        match(prefix + r++, prefix + c++);
+      } else if (
+        lengths[(r + 1) * (cols + 1) + c] >= lengths[r * (cols + 1) + c + 1]
+      ) {
+        diff.removed.push(toChange(previous[prefix + r], prefix + r));
+        r++;
+      } else {
+        diff.added.push(toChange(next[prefix + c], prefix + c));
+        c++;
+      }
+    }
+    for (; r < rows; r++) {
+      diff.removed.push(toChange(previous[prefix + r], prefix + r));
+    }
+    for (; c < cols; c++) {
+      diff.added.push(toChange(next[prefix + c], prefix + c));
+    }
+  } else {
+    for (let i = prefix; i < oldEnd; i++) {
+      diff.removed.push(toChange(previous[i], i));
+    }
+    for (let j = prefix; j < newEnd; j++) {
+      diff.added.push(toChange(next[j], j));
+    }
+  }
+
+  for (let k = 0; k < suffix; k++) {
+    match(oldEnd + k, newEnd + k);
+  }
+
+  return diff;
+}
+
+/**
+ * Whether the new version differs from the previous one
+ */
+export function hasTranscriptChanges(diff: TranscriptDiff): boolean {
+  return diff.added.length > 0 || diff.removed.length > 0 ||
+    diff.retimed.length > 0;
+}
+
+/**
+ * Change counts for storage
+ */
+export function summarizeDiff(diff: TranscriptDiff): TranscriptDiffSummary {
+  return {
+    added: diff.added.length,
+    removed: diff.removed.length,
+    retimed: diff.retimed.length,
+    unchanged: diff.unchanged,
+  };
+}
+
+/**
+ * Remap a timestamp saved against the previous version. Timestamps inside a
+ * retimed segment keep their relative position in it; all others stay put,
+ * since the video timeline itself does not change.
+ */
+export function remapTimestamp(
+  timestamp: number,
+  retimed: RetimedSegment[],
+): number {
+  // Rolling captions overlap; the latest segment containing the timestamp wins
+  let match: RetimedSegment | undefined;
+  for (const segment of retimed) {
+    const { start, duration } = segment.before;
+    if (
+      timestamp >= start && timestamp < start + duration &&
+      (!match || start >= match.before.start)
+    ) {
+      match = segment;
+    }
+  }
+
+  if (!match) return timestamp;
+
+  const ratio = match.before.duration > 0
+    ? match.after.duration / match.before.duration
+    : 0;
+  const remapped = match.after.start +
+    (timestamp - match.before.start) * ratio;
+  return Math.round(remapped * 1000) / 1000;
+}
@@ -0,0 +1,369 @@
+// Sentence reconstruction for fragmented (auto-generated) caption segments
+
+import type { TranscriptSegment, TranscriptWord } from '../types/youtube.ts';
+
+/**
+ * Pause between words (seconds) that ends a sentence without punctuation
+ */
+export const DEFAULT_MAX_SENTENCE_PAUSE = 1.5;
+
+/**
+ * Longest sentence segment (seconds) before it is split at the next word
+ */
+export const DEFAULT_MAX_SENTENCE_DURATION = 15;
+
+/**
+ * Characters per chunk sent for punctuation restoration; chunks span several
+ * segments so the model sees enough context to place sentence boundaries
+ */
+export const DEFAULT_PUNCTUATION_CHUNK_CHARACTERS = 600;
+
+/**
+ * Characters per punctuation restorer call
+ */
+export const DEFAULT_PUNCTUATION_BATCH_CHARACTERS = 4000;
+
+/**
+ * Restores punctuation and casing for each chunk, returning the chunks in
+ * the same order. Words must not be added, removed or reordered.
+ */
+export type PunctuationRestorer = (chunks: string[]) => Promise<string[]>;
+
+export interface SentenceMergeOptions {
+  maxPause?: number;
+  maxDuration?: number;
+}
+
+export interface NormalizeTranscriptOptions extends SentenceMergeOptions {
+  dedupe?: boolean; // Remove rolling-caption overlaps (default true)
+  mergeSentences?: boolean; // Merge fragments into sentences (default true)
+  restorer?: PunctuationRestorer; // Restore punctuation before merging
+}
+
+/**
+ * Word with timing, flagged when the timing is interpolated from the
+ * segment rather than provided by the captions
+ */
+interface TimedToken extends TranscriptWord {
+  interpolated: boolean;
+}
+
+const SENTENCE_END_PATTERN = /[.!?…。！？]["'”’)\]]*$/;
+
+function roundTime(seconds: number): number {
+  return Math.round(seconds * 1000) / 1000;
+}
+
+function tokenize(text: string): string[] {
+  return text.split(/\s+/).filter((token) => token.length > 0);
+}
+
+/**
+ * Comparison key for a word: lower-cased letters and digits only
+ */
+function wordKey(token: string): string {
+  return token.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+}
+
+function segmentTokens(segment: TranscriptSegment): string[] {
+  return segment.words
+    ? segment.words.map((word) => word.text)
+    : tokenize(segment.text);
+}
+
+/**
+ * Length of the longest suffix of `previous` that is also a prefix of
+ * `current`
+ */
+function findOverlap(previous: string[], current: string[]): number {
+  const maxOverlap = Math.min(previous.length, current.length);
+
+  for (let size = maxOverlap; size > 0; size--) {
+    let matches = true;
+    for (let i = 0; i < size; i++) {
+      if (previous[previous.length - size + i] !== current[i]) {
+        matches = false;
+        break;
+      }
+    }
+    if (matches) return size;
+  }
+
+  return 0;
+}
+
+/**
+ * Remove text that auto-generated "rolling" captions repeat from the
+ * previous cue, drop cues left empty, and clamp cue durations that overlap
+ * the next cue.
+ *
+ * A single repeated word is only treated as overlap when it is the whole
+ * cue, so genuine repetitions ("that that") survive.
+ */
+export function dedupeRollingCaptions(
+  segments: TranscriptSegment[],
+): TranscriptSegment[] {
+  const result: TranscriptSegment[] = [];
+  let previousKeys: string[] = [];
+
+  for (const segment of segments) {
+    const tokens = segmentTokens(segment);
+    const keys = tokens.map(wordKey);
+    const overlap = findOverlap(previousKeys, keys);
+    previousKeys = keys;
+
+    if (overlap >= tokens.length) continue;
+
+    let deduped: TranscriptSegment = { ...segment };
+
+    if (overlap >= Math.min(2, tokens.length)) {
+      const end = segment.start + segment.duration;
+
+      if (segment.words) {
+        const words = segment.words.slice(overlap);
+        const start = Math.max(segment.start, words[0].start);
+        deduped = {
+          start,
+          duration: roundTime(Math.max(0, end - start)),
+          text: words.map((word) => word.text).join(' '),
+          words,
+        };
+      } else {
+        deduped = {
+          start: segment.start,
+          duration: segment.duration,
+          text: tokens.slice(overlap).join(' '),
+        };
+      }
+    }
+
+    const previous = result[result.length - 1];
+    if (previous && previous.start + previous.duration > deduped.start) {
+      previous.duration = roundTime(
+        Math.max(0, deduped.start - previous.start),
+      );
+    }
+
+    result.push(deduped);
+  }
+
+  return result;
+}
+
+/**
+ * Flatten segments into timed words. Segments without word timing spread
+ * their duration over their words in proportion to word length.
+ */
+function toTimedTokens(segments: TranscriptSegment[]): TimedToken[] {
+  const tokens: TimedToken[] = [];
+
+  for (const segment of segments) {
+    if (segment.words && segment.words.length > 0) {
+      for (const word of segment.words) {
+        tokens.push({ ...word, interpolated: false });
+      }
+      continue;
+    }
+
+    const words = tokenize(segment.text);
+    const totalWeight = words.reduce((sum, word) => sum + word.length + 1, 0);
+    let offset = 0;
+
+    for (const word of words) {
+      const weight = word.length + 1;
+      const start = segment.start + segment.duration * (offset / totalWeight);
+      offset += weight;
+      tokens.push({
+        text: word,
+        start: roundTime(start),
+        end: roundTime(
+          segment.start + segment.duration * (offset / totalWeight),
+        ),
+        interpolated: true,
+      });
+    }
+  }
+
+  return tokens;
+}
+
+function toSentenceSegment(tokens: TimedToken[]): TranscriptSegment {
+  const start = tokens[0].start;
+  const end = tokens[tokens.length - 1].end;
+  const segment: TranscriptSegment = {
+    start: roundTime(start),
+    duration: roundTime(Math.max(0, end - start)),
+    text: tokens.map((token) => token.text).join(' '),
+  };
+
+  if (tokens.every((token) => !token.interpolated)) {
+    segment.words = tokens.map(({ text, start, end }) => ({ text, start, end }));
+  }
+
+  return segment;
+}
+
+/**
+ * Merge caption fragments into sentence-level segments. A sentence ends at
+ * terminal punctuation, at a pause longer than `maxPause`, or before a word
+ * that would stretch it past `maxDuration`. Start and duration are
+ * recomputed from word timing.
+ */
+export function mergeIntoSentences(
+  segments: TranscriptSegment[],
+  options: SentenceMergeOptions = {},
+): TranscriptSegment[] {
+  const maxPause = options.maxPause ?? DEFAULT_MAX_SENTENCE_PAUSE;
+  const maxDuration = options.maxDuration ?? DEFAULT_MAX_SENTENCE_DURATION;
+  const tokens = toTimedTokens(segments);
+  const sentences: TranscriptSegment[] = [];
+  let current: TimedToken[] = [];
+
+  tokens.forEach((token, index) => {
+    if (
+      current.length > 0 && token.end - current[0].start > maxDuration
+    ) {
+      sentences.push(toSentenceSegment(current));
+      current = [];
+    }
+
+    current.push(token);
+
+    const next = tokens[index + 1];
+    if (
+      !next ||
+      SENTENCE_END_PATTERN.test(token.text) ||
+      next.start - token.end > maxPause
+    ) {
+      sentences.push(toSentenceSegment(current));
+      current = [];
+    }
+  });
+
+  return sentences;
+}
+
+/**
+ * Group segment indices into chunks of roughly `maxCharacters`
+ */
+function buildPunctuationChunks(
+  segments: TranscriptSegment[],
+  maxCharacters: number,
+): number[][] {
+  const chunks: number[][] = [];
+  let current: number[] = [];
+  let length = 0;
+
+  segments.forEach((segment, index) => {
+    if (!segment.text.trim()) return;
+
+    if (current.length > 0 && length + segment.text.length > maxCharacters) {
+      chunks.push(current);
+      current = [];
+      length = 0;
+    }
+
+    current.push(index);
+    length += segment.text.length + 1;
+  });
+
+  if (current.length > 0) chunks.push(current);
+
+  return chunks;
+}
+
+/**
+ * Replace the words of `text` with `replacements`, keeping its whitespace
+ * (including line breaks)
+ */
+function replaceTokens(text: string, replacements: string[]): string {
+  let index = 0;
+  return text.replace(/\S+/g, (token) => replacements[index++] ?? token);
+}
+
+/**
+ * Restore punctuation and casing through `restorer`, then realign the
+ * restored words onto the original segments. A chunk whose word count
+ * changed is left untouched, and a restored word is only accepted when it
+ * is the same word as the original apart from punctuation and case.
+ */
+export async function restorePunctuation(
+  segments: TranscriptSegment[],
+  restorer: PunctuationRestorer,
+  maxChunkCharacters = DEFAULT_PUNCTUATION_CHUNK_CHARACTERS,
+  maxBatchCharacters = DEFAULT_PUNCTUATION_BATCH_CHARACTERS,
+): Promise<TranscriptSegment[]> {
+  const result = segments.map((segment) => ({ ...segment }));
+  const chunks = buildPunctuationChunks(segments, maxChunkCharacters);
+  const chunkTexts = chunks.map((chunk) =>
+    chunk.map((index) => tokenize(segments[index].text).join(' ')).join(' ')
+  );
+
+  let batchStart = 0;
+  while (batchStart < chunks.length) {
+    let batchEnd = batchStart;
+    let length = 0;
+    while (
+      batchEnd < chunks.length &&
+      (batchEnd === batchStart ||
+        length + chunkTexts[batchEnd].length <= maxBatchCharacters)
+    ) {
+      length += chunkTexts[batchEnd].length;
+      batchEnd++;
+    }
+
+    const restored = await restorer(chunkTexts.slice(batchStart, batchEnd));
+
+    for (let i = batchStart; i < batchEnd; i++) {
+      const original = tokenize(chunkTexts[i]);
+      const punctuated = tokenize(restored[i - batchStart] || '');
+      if (punctuated.length !== original.length) continue;
+
+      let offset = 0;
+      for (const index of chunks[i]) {
+        const segment = result[index];
+        const tokens = tokenize(segment.text);
+        const replacements = tokens.map((token, j) => {
+          const candidate = punctuated[offset + j];
+          return wordKey(candidate) === wordKey(token) ? candidate : token;
+        });
+        offset += tokens.length;
+
+        segment.text = replaceTokens(segment.text, replacements);
+        if (segment.words && segment.words.length === tokens.length) {
+          segment.words = segment.words.map((word, j) => ({
+            ...word,
+            text: replacements[j],
+          }));
+        }
+      }
+    }
+
+    batchStart = batchEnd;
+  }
+
+  return result;
+}
+
+/**
+ * Normalize a transcript: dedupe rolling captions, optionally restore
+ * punctuation, then merge fragments into sentence-level segments
+ */
+export async function normalizeTranscript(
+  segments: TranscriptSegment[],
+  options: NormalizeTranscriptOptions = {},
+): Promise<TranscriptSegment[]> {
+  let normalized = options.dedupe === false
+    ? segments
+    : dedupeRollingCaptions(segments);
+
+  if (options.restorer) {
+    normalized = await restorePunctuation(normalized, options.restorer);
+  }
+
+  if (options.mergeSentences !== false) {
+    normalized = mergeIntoSentences(normalized, options);
+  }
+
+  return normalized;
+}
@@ -0,0 +1,125 @@
+// Pluggable transcript sources tried in a configured order
+
+import type {
+  CaptionFormat,
+  TranscriptLanguage,
+  TranscriptSegment,
+  TranscriptSourceName,
+} from '../types/youtube.ts';
+
+/**
+ * Source order used when TRANSCRIPT_SOURCES is not set
+ */
+export const DEFAULT_TRANSCRIPT_SOURCE_ORDER: TranscriptSourceName[] = [
+  'captions',
+  'asr',
+];
+
+/**
+ * Transcript produced by a source
+ */
+export interface SourcedTranscript {
+  source: TranscriptSourceName;
+  segments: TranscriptSegment[];
+  language: TranscriptLanguage;
+  totalDuration: number;
+  format?: CaptionFormat; // Captions only
+  model?: string; // Speech-to-text model, ASR only
+}
+
+/**
+ * A way of getting a transcript for a video. Returns null when the source
+ * has nothing for the video (e.g. no caption tracks) and throws when it
+ * fails.
+ */
+export interface TranscriptSource {
+  readonly name: TranscriptSourceName;
+  fetchTranscript(
+    videoId: string,
+    languageCode: string,
+  ): Promise<SourcedTranscript | null>;
+}
+
+/**
+ * Outcome of one source in a chain run
+ */
+export interface TranscriptSourceAttempt {
+  source: TranscriptSourceName;
+  outcome: 'empty' | 'failed';
+  error?: string;
+}
+
+/**
+ * Parse a comma-separated source order, dropping unknown names and
+ * duplicates
+ */
+export function parseTranscriptSourceOrder(
+  value?: string,
+): TranscriptSourceName[] {
+  if (!value?.trim()) return [...DEFAULT_TRANSCRIPT_SOURCE_ORDER];
+
+  const order: TranscriptSourceName[] = [];
+  for (const name of value.split(',').map((part) => part.trim())) {
+    if (
+      (DEFAULT_TRANSCRIPT_SOURCE_ORDER as string[]).includes(name) &&
+      !order.includes(name as TranscriptSourceName)
+    ) {
+      order.push(name as TranscriptSourceName);
+    }
+  }
+  return order;
+}
+
+/**
+ * Tries sources in order until one returns a transcript
+ */
+export class TranscriptSourceChain {
+  readonly sources: TranscriptSource[];
+
+  /**
+   * Sources that are not configured (undefined) are skipped
+   */
+  constructor(
+    available: Partial<Record<TranscriptSourceName, TranscriptSource>>,
+    order: TranscriptSourceName[] = DEFAULT_TRANSCRIPT_SOURCE_ORDER,
+  ) {
+    this.sources = order
+      .map((name) => available[name])
+      .filter((source): source is TranscriptSource => !!source);
+  }
+
+  /**
+   * Get a transcript from the first source that has one. When none does,
+   * the first source failure is rethrown with every attempt attached;
+   * if no source failed, "No transcripts available" is thrown.
+   */
+  async extract(
+    videoId: string,
+    languageCode: string,
+  ): Promise<SourcedTranscript> {
+    const attempts: TranscriptSourceAttempt[] = [];
+    let firstError: any;
+
+    for (const source of this.sources) {
+      try {
+        const transcript = await source.fetchTranscript(videoId, languageCode);
+        if (transcript && transcript.segments.length > 0) {
+          return transcript;
+        }
+        attempts.push({ source: source.name, outcome: 'empty' });
+      } catch (error: any) {
+        firstError = firstError ?? error;
+        attempts.push({
+          source: source.name,
+          outcome: 'failed',
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    const error = firstError ??
+      new Error('No transcripts available for this video');
+    error.attempts = attempts;
+    throw error;
+  }
+}
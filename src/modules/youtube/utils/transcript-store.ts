@@ -0,0 +1,416 @@
+// Persistence helpers for video_transcripts, their versions and the transcript extraction queue
+
+import type {
+  CaptionFormat,
+  RetimedSegment,
+  TranscriptDiffSummary,
+  TranscriptJobStatus,
+  TranscriptSegment,
+  TranscriptSourceName,
+} from '../types/youtube.ts';
+import {
+  diffTranscripts,
+  hasTranscriptChanges,
+  remapTimestamp,
+  summarizeDiff,
+} from './transcript-diff.ts';
+import { indexTranscriptKeyphrases } from './keyphrase-store.ts';
+import { transcriptUtils } from './youtube-transcript.ts';
+import type { SourcedTranscript } from './transcript-sources.ts';
+
+/**
+ * Attempts before a queued transcript job is marked as failed
+ */
+export const MAX_TRANSCRIPT_JOB_ATTEMPTS = 3;
+
+/**
+ * Transcript ready to be stored
+ */
+export interface TranscriptRecordInput {
+  language: string;
+  languageName: string;
+  isAutoGenerated: boolean;
+  segments: TranscriptSegment[];
+  totalDuration: number;
+  captionFormat?: CaptionFormat;
+  source?: TranscriptSourceName; // Defaults to captions
+  sourceModel?: string;
+}
+
+/**
+ * Map a transcript from a source to the stored shape
+ */
+export function toTranscriptRecordInput(
+  transcript: SourcedTranscript,
+): TranscriptRecordInput {
+  return {
+    language: transcript.language.code,
+    languageName: transcript.language.name,
+    isAutoGenerated: transcript.language.isAutoGenerated,
+    segments: transcript.segments,
+    totalDuration: transcript.totalDuration,
+    captionFormat: transcript.format,
+    source: transcript.source,
+    sourceModel: transcript.model,
+  };
+}
+
+/**
+ * Claimed transcript extraction job
+ */
+export interface TranscriptJob {
+  id: string;
+  video_record_id: string;
+  video_id: string; // YouTube video ID
+  language_code: string;
+  attempts: number;
+}
+
+/**
+ * Outcome of saving a transcript
+ */
+export interface TranscriptSaveResult {
+  version: number;
+  changed: boolean; // A new version was stored
+  diff?: TranscriptDiffSummary; // Present when an earlier version existed
+  remappedTimestamps: number;
+}
+
+/**
+ * Upsert a transcript for a video record. When the segments differ from the
+ * stored ones a new version is recorded, saved vocabulary and note
+ * timestamps are moved to follow retimed segments, and the keyphrase index
+ * and video readability are rebuilt.
+ */
+export async function saveTranscriptRecord(
+  supabase: any,
+  videoRecordId: string,
+  transcript: TranscriptRecordInput,
+): Promise<TranscriptSaveResult> {
+  const { data: existing, error: lookupError } = await supabase
+    .from('video_transcripts')
+    .select('id, segments, current_version')
+    .eq('video_id', videoRecordId)
+    .eq('language_code', transcript.language)
+    .maybeSingle();
+
+  if (lookupError) {
+    throw lookupError;
+  }
+
+  const diff = existing
+    ? diffTranscripts(existing.segments || [], transcript.segments)
+    : undefined;
+  const changed = !diff || hasTranscriptChanges(diff);
+  const version = existing
+    ? existing.current_version + (changed ? 1 : 0)
+    : 1;
+
+  const characterCount = transcript.segments.reduce(
+    (sum, segment) => sum + segment.text.length,
+    0,
+  );
+
+  const { data: saved, error } = await supabase
+    .from('video_transcripts')
+    .upsert(
+      {
+        video_id: videoRecordId,
+        language_code: transcript.language,
+        language_name: transcript.languageName,
+        is_auto_generated: transcript.isAutoGenerated,
+        is_translatable: true,
+        segments: transcript.segments,
+        total_duration_seconds: Math.ceil(transcript.totalDuration),
+        segment_count: transcript.segments.length,
+        character_count: characterCount,
+        caption_format: transcript.captionFormat,
+        source: transcript.source || 'captions',
+        source_model: transcript.sourceModel,
+        current_version: version,
+      },
+      {
+        onConflict: 'video_id,language_code',
+      },
+    )
+    .select('id')
+    .single();
+
+  if (error) {
+    throw error;
+  }
+
+  if (!changed) {
+    return {
+      version,
+      changed,
+      diff: diff && summarizeDiff(diff),
+      remappedTimestamps: 0,
+    };
+  }
+
+  const remappedTimestamps = diff && diff.retimed.length > 0
+    ? await remapSavedTimestamps(
+      supabase,
+      videoRecordId,
+      transcript.language,
+      diff.retimed,
+    )
+    : 0;
+
+  const { error: versionError } = await supabase
+    .from('video_transcript_versions')
+    .insert({
+      transcript_id: saved.id,
+      version,
+      segments: transcript.segments,
+      segment_count: transcript.segments.length,
+      source: transcript.source || 'captions',
+      source_model: transcript.sourceModel,
+      caption_format: transcript.captionFormat,
+      diff_summary: diff ? summarizeDiff(diff) : null,
+      remapped_timestamps: remappedTimestamps,
+    });
+
+  if (versionError) {
+    throw versionError;
+  }
+
+  // The keyphrase index is derived data; a failure must not lose the transcript
+  try {
+    await indexTranscriptKeyphrases(
+      supabase,
+      saved.id,
+      transcript.language,
+      transcript.segments,
+    );
+  } catch (error: any) {
+    console.error('Keyphrase indexing failed:', error);
+  }
+
+  try {
+    await saveVideoReadability(supabase, videoRecordId, transcript);
+  } catch (error: any) {
+    console.error('Readability scoring failed:', error);
+  }
+
+  return {
+    version,
+    changed,
+    diff: diff && summarizeDiff(diff),
+    remappedTimestamps,
+  };
+}
+
+/**
+ * Score the readability of a transcript and store it on the video. The
+ * metrics follow the first language scored for the video, so adding a
+ * translation does not change its level.
+ */
+async function saveVideoReadability(
+  supabase: any,
+  videoRecordId: string,
+  transcript: TranscriptRecordInput,
+): Promise<void> {
+  const { data: video, error: lookupError } = await supabase
+    .from('youtube_videos')
+    .select('readability')
+    .eq('id', videoRecordId)
+    .single();
+
+  if (lookupError) {
+    throw lookupError;
+  }
+
+  if (
+    video.readability && video.readability.language !== transcript.language
+  ) {
+    return;
+  }
+
+  const readability = transcriptUtils.calculateReadability(
+    transcript.segments,
+    transcript.language,
+  );
+
+  const { error } = await supabase
+    .from('youtube_videos')
+    .update({
+      readability,
+      cefr_level: readability.cefrLevel,
+      words_per_minute: readability.wordsPerMinute,
+      lexical_diversity: readability.lexicalDiversity,
+    })
+    .eq('id', videoRecordId);
+
+  if (error) {
+    throw error;
+  }
+}
+
+/**
+ * Move vocabulary and note timestamps saved against the retimed transcript
+ * language that fall inside retimed segments. Rows saved without a language
+ * are only moved when the video has no transcript in another language.
+ * Returns the number of rows updated.
+ */
+async function remapSavedTimestamps(
+  supabase: any,
+  videoRecordId: string,
+  language: string,
+  retimed: RetimedSegment[],
+): Promise<number> {
+  const { data: transcripts, error: languagesError } = await supabase
+    .from('video_transcripts')
+    .select('language_code')
+    .eq('video_id', videoRecordId);
+
+  if (languagesError) {
+    throw languagesError;
+  }
+
+  const includeUntagged = (transcripts || []).every(
+    (row: any) => row.language_code === language,
+  );
+
+  const [vocabulary, notes] = await Promise.all(
+    ['vocabulary_entries', 'video_notes'].map(async (table) => {
+      const { data, error } = await supabase
+        .from(table)
+        .select('id, timestamp')
+        .eq('video_id', videoRecordId)
+        .or(
+          includeUntagged
+            ? `transcript_language.eq.${language},transcript_language.is.null`
+            : `transcript_language.eq.${language}`,
+        )
+        .not('timestamp', 'is', null);
+
+      if (error) {
+        throw error;
+      }
+
+      const remaps: Array<{ id: string; timestamp: number }> = [];
+      for (const row of data || []) {
+        const timestamp = Number(row.timestamp);
+        const remapped = remapTimestamp(timestamp, retimed);
+        if (remapped !== timestamp) {
+          remaps.push({ id: row.id, timestamp: remapped });
+        }
+      }
+      return remaps;
+    }),
+  );
+
+  if (vocabulary.length === 0 && notes.length === 0) {
+    return 0;
+  }
+
+  const { data: count, error } = await supabase.rpc(
+    'apply_transcript_timestamp_remaps',
+    { p_vocabulary: vocabulary, p_notes: notes },
+  );
+
+  if (error) {
+    throw error;
+  }
+
+  return count ?? 0;
+}
+
+/**
+ * Queue transcript extraction for video records that have no transcript in
+ * the language yet. Existing jobs are left as they are. Returns the record
+ * IDs that were queued.
+ */
+export async function enqueueTranscriptJobs(
+  supabase: any,
+  videoRecordIds: string[],
+  language: string,
+  requestedBy?: string,
+): Promise<string[]> {
+  if (videoRecordIds.length === 0) return [];
+
+  const { data: existing, error: existingError } = await supabase
+    .from('video_transcripts')
+    .select('video_id')
+    .in('video_id', videoRecordIds)
+    .eq('language_code', language);
+
+  if (existingError) {
+    throw existingError;
+  }
+
+  const transcribed = new Set((existing || []).map((row: any) => row.video_id));
+  const pending = videoRecordIds.filter((id) => !transcribed.has(id));
+  if (pending.length === 0) return [];
+
+  const { error } = await supabase.from('transcript_extraction_queue').upsert(
+    pending.map((videoRecordId) => ({
+      video_id: videoRecordId,
+      language_code: language,
+      requested_by: requestedBy ?? null,
+    })),
+    {
+      onConflict: 'video_id,language_code',
+      ignoreDuplicates: true,
+    },
+  );
+
+  if (error) {
+    throw error;
+  }
+
+  return pending;
+}
+
+/**
+ * Claim up to `limit` pending jobs. Rows are locked with SKIP LOCKED, so
+ * concurrent workers never claim the same job.
+ */
+export async function claimTranscriptJobs(
+  supabase: any,
+  limit: number,
+): Promise<TranscriptJob[]> {
+  const { data, error } = await supabase.rpc('claim_transcript_jobs', {
+    p_limit: limit,
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  return data || [];
+}
+
+/**
+ * Record the outcome of a claimed job. Failed jobs go back to pending until
+ * they run out of attempts.
+ */
+export async function finishTranscriptJob(
+  supabase: any,
+  job: TranscriptJob,
+  errorMessage?: string,
+): Promise<TranscriptJobStatus> {
+  const status: TranscriptJobStatus = !errorMessage
+    ? 'completed'
+    : job.attempts >= MAX_TRANSCRIPT_JOB_ATTEMPTS
+    ? 'failed'
+    : 'pending';
+
+  const { error } = await supabase
+    .from('transcript_extraction_queue')
+    .update({
+      status,
+      last_error: errorMessage ?? null,
+      locked_at: null,
+      completed_at: status === 'completed' ? new Date().toISOString() : null,
+    })
+    .eq('id', job.id);
+
+  if (error) {
+    throw error;
+  }
+
+  return status;
+}
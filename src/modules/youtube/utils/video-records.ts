@@ -0,0 +1,61 @@
+// Mapping and persistence helpers for youtube_videos rows
+
+import type { YouTubeVideoMetadata } from '../types/youtube.ts';
+import { toLiveStateColumns } from './live-state.ts';
+
+/**
+ * Convert API metadata to a youtube_videos row
+ */
+export function toYouTubeVideoRow(
+  metadata: YouTubeVideoMetadata,
+): Record<string, any> {
+  return {
+    video_id: metadata.videoId,
+    title: metadata.title,
+    description: metadata.description,
+    channel_id: metadata.channelId,
+    channel_name: metadata.channelName,
+    published_at: metadata.publishedAt,
+    duration_seconds: metadata.durationSeconds,
+    thumbnail_url: metadata.thumbnails.high?.url ||
+      metadata.thumbnails.medium?.url ||
+      metadata.thumbnails.default?.url,
+    view_count: metadata.statistics?.viewCount,
+    like_count: metadata.statistics?.likeCount,
+    metadata: {
+      tags: metadata.tags,
+      categoryId: metadata.categoryId,
+      defaultLanguage: metadata.defaultLanguage,
+      defaultAudioLanguage: metadata.defaultAudioLanguage,
+    },
+    ...(metadata.live && toLiveStateColumns(metadata.live)),
+    last_refreshed_at: new Date().toISOString(),
+  };
+}
+
+/**
+ * Upsert videos into youtube_videos, returning a map of YouTube video ID to
+ * record ID
+ */
+export async function upsertVideos(
+  supabase: any,
+  videos: YouTubeVideoMetadata[],
+): Promise<Map<string, string>> {
+  const recordIds = new Map<string, string>();
+  if (videos.length === 0) return recordIds;
+
+  const { data, error } = await supabase
+    .from('youtube_videos')
+    .upsert(videos.map(toYouTubeVideoRow), { onConflict: 'video_id' })
+    .select('id, video_id');
+
+  if (error) {
+    throw error;
+  }
+
+  for (const row of data || []) {
+    recordIds.set(row.video_id, row.id);
+  }
+
+  return recordIds;
+}
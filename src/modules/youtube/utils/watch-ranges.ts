@@ -0,0 +1,173 @@
+// Watched ranges and resume positions from player heartbeats
+
+import type { WatchRange } from '../types/youtube.ts';
+
+/**
+ * Heartbeats further apart than this are not joined into one played span
+ */
+export const MAX_HEARTBEAT_GAP_SECONDS = 60;
+
+/**
+ * A heartbeat after this much silence starts a new viewing session
+ */
+export const SESSION_GAP_SECONDS = 30 * 60;
+
+/**
+ * Slack allowed between wall-clock time and player movement before a jump is
+ * treated as a seek
+ */
+export const SEEK_TOLERANCE_SECONDS = 2;
+
+/**
+ * Continuous playback is written at most this often. Heartbeats in between
+ * are skipped; the next write covers the span from the last stored position.
+ * A seek before that write loses at most this much of the played span.
+ */
+export const WRITE_INTERVAL_SECONDS = 15;
+
+/**
+ * Ranges closer than this are merged
+ */
+export const RANGE_MERGE_GAP_SECONDS = 1;
+
+/**
+ * Resume a little before the stored position so the viewer regains context
+ */
+export const RESUME_REWIND_SECONDS = 3;
+
+/**
+ * Share of the video after which it counts as finished
+ */
+export const COMPLETION_RATIO = 0.95;
+
+/**
+ * Stored heartbeat state of a history entry
+ */
+export interface WatchState {
+  positionSeconds: number | null;
+  playing: boolean;
+  lastHeartbeatAt: string | null;
+  ranges: WatchRange[];
+}
+
+/**
+ * Heartbeat as seen by the server
+ */
+export interface Heartbeat {
+  positionSeconds: number;
+  playing: boolean;
+  playbackRate: number;
+}
+
+/**
+ * Outcome of applying a heartbeat to the stored state
+ */
+export interface HeartbeatUpdate {
+  ranges: WatchRange[];
+  played: WatchRange | null; // Span played since the previous heartbeat
+  watchSeconds: number; // Playing time since the previous heartbeat
+  newSession: boolean;
+  shouldWrite: boolean;
+}
+
+/**
+ * Sort and merge overlapping or adjacent ranges
+ */
+export function mergeWatchRanges(ranges: WatchRange[]): WatchRange[] {
+  const sorted = ranges
+    .filter((range) => range.end > range.start)
+    .map((range) => ({ start: range.start, end: range.end }))
+    .sort((a, b) => a.start - b.start);
+
+  const merged: WatchRange[] = [];
+  for (const range of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end + RANGE_MERGE_GAP_SECONDS) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push(range);
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Distinct seconds covered by merged ranges
+ */
+export function watchedSeconds(ranges: WatchRange[]): number {
+  return roundSeconds(
+    ranges.reduce((total, range) => total + (range.end - range.start), 0),
+  );
+}
+
+/**
+ * Position a player should resume from. Finished videos start over.
+ */
+export function resumePosition(
+  positionSeconds: number,
+  durationSeconds?: number | null,
+): number {
+  if (
+    durationSeconds &&
+    positionSeconds >= durationSeconds * COMPLETION_RATIO
+  ) {
+    return 0;
+  }
+
+  return Math.max(0, Math.floor(positionSeconds - RESUME_REWIND_SECONDS));
+}
+
+/**
+ * Apply a heartbeat to the stored state. The player position moving forward
+ * no faster than the playback rate since the previous heartbeat counts as
+ * watched; anything else is a seek and only moves the position. Consecutive
+ * heartbeats extend the same range, so a viewing session stays a handful of
+ * ranges however often the player reports. Only new sessions, play/pause
+ * changes, seeks and playback past WRITE_INTERVAL_SECONDS need a write.
+ */
+export function applyHeartbeat(
+  state: WatchState,
+  heartbeat: Heartbeat,
+  now: Date = new Date(),
+): HeartbeatUpdate {
+  const elapsed = state.lastHeartbeatAt
+    ? (now.getTime() - new Date(state.lastHeartbeatAt).getTime()) / 1000
+    : Infinity;
+  const previous = state.positionSeconds;
+  const moved = previous === null ? 0 : heartbeat.positionSeconds - previous;
+
+  const continuous = previous !== null &&
+    (state.playing || heartbeat.playing) &&
+    elapsed <= MAX_HEARTBEAT_GAP_SECONDS &&
+    moved > 0 &&
+    moved <= elapsed * heartbeat.playbackRate + SEEK_TOLERANCE_SECONDS;
+
+  const played = continuous
+    ? {
+      start: roundSeconds(previous!),
+      end: roundSeconds(heartbeat.positionSeconds),
+    }
+    : null;
+  const ranges = played
+    ? mergeWatchRanges([...state.ranges, played])
+    : state.ranges;
+  const watchSeconds = continuous
+    ? roundSeconds(Math.min(elapsed, moved / heartbeat.playbackRate))
+    : 0;
+  const newSession = elapsed > SESSION_GAP_SECONDS;
+
+  return {
+    ranges,
+    played,
+    watchSeconds,
+    newSession,
+    shouldWrite: newSession ||
+      heartbeat.playing !== state.playing ||
+      (moved !== 0 && (!continuous || elapsed >= WRITE_INTERVAL_SECONDS)),
+  };
+}
+
+function roundSeconds(seconds: number): number {
+  return Math.round(seconds * 10) / 10;
+}
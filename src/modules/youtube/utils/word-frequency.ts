@@ -0,0 +1,113 @@
+// Compact English word-frequency bands used for vocabulary coverage
+
+/**
+ * Roughly the 500 most frequent English lemmas in speech
+ */
+export const BAND_1_WORDS = new Set(
+  `the be to of and a in that have i it for not on with he as you do at this
+  but his by from they we say her she or an will my one all would there their
+  what so up out if about who get which go me when make can like time no just
+  him know take people into year your good some could them see other than then
+  now look only come its over think also back after use two how our work first
+  well way even new want because any these give day most us thing man woman
+  child world life hand part place case week company system program question
+  government number night point home water room mother area money story fact
+  month lot right study book eye job word business issue side kind head house
+  service friend father power hour game line end member law car city community
+  name president team minute idea kid body information school face others
+  level office door health person art war history party result change morning
+  reason research girl guy moment air teacher force education foot boy age
+  policy everything process music market sense nation plan college interest
+  death experience effect class control care field development role effort
+  rate heart drug show leader light voice wife police mind price report
+  decision son view relationship town road arm difference value building
+  action model season society tax director position player record paper space
+  ground form event official matter center couple site project activity star
+  table need court oil situation cost industry figure street image phone data
+  picture practice piece land product doctor wall patient worker news test
+  movie north love support technology step baby computer type attention film
+  tree source organization hair window evidence population truth very many
+  much more little big small great old young long short high low large
+  different same important few public bad able last next early late hard real
+  best better sure free full special easy clear recent certain whole human
+  local true possible political social open red white black dark strong tell
+  ask call try feel leave put mean keep let begin seem help talk turn start
+  hear play run move live believe hold bring happen write provide sit stand
+  lose pay meet include continue set learn lead understand watch follow stop
+  create speak read allow add spend grow offer remember consider appear buy
+  wait serve die send expect build stay fall cut reach kill remain here where
+  why still again never always often today down off too around however already
+  yet maybe something nothing someone everyone anything each both every
+  another such own yes ok okay oh yeah hello thank thanks please sorry`
+    .split(/\s+/),
+);
+
+/**
+ * Common everyday vocabulary beyond band 1 (roughly the next 700 lemmas)
+ */
+export const BAND_2_WORDS = new Set(
+  `suggest raise pass sell require decide pull return explain hope develop
+  carry break receive agree hit produce eat cover catch draw choose cause
+  listen realize close involve increase win teach sing dance walk drive fly
+  swim sleep wake wear wash cook clean shut push throw kick join visit travel
+  arrive enter finish miss fill save share smile laugh cry shout answer check
+  count measure compare describe discuss prepare improve protect prove remove
+  replace shake shop skip sound taste touch train trust vote worry wonder wish
+  animal apple bag ball bank bed bird blood boat bottle box bread bridge
+  brother bus cake camera card cat chair cheese chicken church clock cloud
+  coat coffee color corner country cow cup dinner dish dog dress drink egg
+  engine evening farm fire fish floor flower food forest fruit garden gift
+  glass gold grass hat hill horse hospital hotel ice island jacket key kitchen
+  lake leg letter library lunch map meal meat milk moon mountain mouth neck
+  nose ocean orange page park pen pencil pet plane plant plate pocket rain
+  restaurant rice river rock roof salt sand sea seat sheep ship shirt shoe
+  shoulder sister skin sky snow soap sock song soup spoon sport stone store
+  sugar summer sun supermarket sweater tea teeth ticket toe tomato tooth toy
+  trousers uncle university vegetable village wind winter wood afternoon
+  airport aunt beach bedroom bike birthday blue brown bathroom breakfast brain
+  busy cheap cold cool cousin daughter dear delicious dirty dry empty
+  expensive famous fast favorite fine fresh friendly funny glad gray green
+  happy healthy heavy hot hungry ill lazy lovely lucky married modern nice
+  noisy poor pretty quick quiet ready rich sad safe sick slow soft strange
+  sweet tall terrible thin thirsty tired ugly warm wet wild wonderful wrong
+  yellow accept accident account address admit advice afraid aim alone along
+  amount angry announce anyway apart appearance apply approach argue arrange
+  article artist attack attempt audience available average avoid award aware
+  balance band base basic battle beat beauty behavior belong benefit birth
+  blame board bone border bottom brief bright budget burn button calm campaign
+  capital career careful cell challenge champion chance character charge chief
+  choice citizen claim climate coach collect comment commercial common
+  competition complete concern condition conference confirm connect contact
+  contain content contract contribute conversation copy correct crime crowd
+  culture current customer damage danger deal debate deep defend degree
+  deliver demand department depend design detail determine device direction
+  discover disease distance double doubt dream earn economy edge election
+  element emotion energy enjoy enormous environment equal escape especially
+  establish exactly example excellent exchange exercise exist expert express
+  extra factor fail fair familiar fashion fear feature final finally finger
+  focus foreign forget forward future gain gas general generation goal guess
+  guest habit handle hang hate hide highlight hole honest huge ignore imagine
+  impact income independent individual influence injury instead instruction
+  international introduce invite item judge knowledge lack language layer lie
+  limit link list lock loss machine main major manage manager master material
+  media medical memory mention message method middle military mix mistake mood
+  nature nearly necessary negative nervous normal note notice object obvious
+  occur opinion opportunity option order ordinary original pain pair
+  particular partner pattern peace perfect perform perhaps period permit
+  personal physical plenty plus popular positive pound prefer present press
+  pressure prevent previous private probably problem professional profit
+  progress promise proper property purpose quality quarter quite race range
+  rather reaction recognize reduce refer region regular release relax religion
+  rely remind rent repeat reply represent request resource respond response
+  rest review rise risk round rule safety sale sample scale scene science
+  score search secret section security select senior series serious several
+  shape shift sign signal similar simple simply single size skill slightly
+  solution solve somewhere sort speech speed spirit spread square staff stage
+  standard state statement station status steal stress structure style subject
+  succeed success suddenly suffer suit supply surface surprise survey tale
+  target task term text theory therefore throughout tiny title tone total tour
+  track trade tradition traffic trip trouble typical unit unless upon useful
+  usual variety various version victim wealth weapon weather weight whether
+  whose wide wise within without worth`
+    .split(/\s+/),
+);
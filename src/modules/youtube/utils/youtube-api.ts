@@ -5,11 +5,19 @@ import { Logger } from '@/logging';
 import { createAppError } from '@/shared-errors';
 import { cacheUtils } from '@/cache';
 import {
+  YouTubeAPIChannelListResponse,
+  YouTubeAPIPlaylistItemListResponse,
+  YouTubeAPISearchListResponse,
   YouTubeAPIVideoItem,
   YouTubeAPIVideoListResponse,
+  YouTubeChannelInfo,
+  VideoAvailability,
   YouTubeErrorCode,
   YouTubeVideoMetadata,
 } from '../types/youtube.ts';
+import { YouTubeQuotaLedger, YouTubeQuotaOperation } from './quota-ledger.ts';
+import { resolveLiveDetails } from './live-state.ts';
+import { parseYouTubeUrl } from './youtube-url.ts';
 
 const logger = new Logger({ service: 'youtube-api' });
 
@@ -17,10 +25,8 @@ const logger = new Logger({ service: 'youtube-api' });
  * YouTube API client configuration
  */
 const YOUTUBE_API_BASE_URL = 'https://www.googleapis.com/youtube/v3';
-const YOUTUBE_VIDEO_URL_PATTERNS = [
-  /(?:youtube\.com\/watch\?v=|youtu\.be\/|youtube\.com\/embed\/)([a-zA-Z0-9_-]{11})/,
-  /youtube\.com\/shorts\/([a-zA-Z0-9_-]{11})/,
-];
+const YOUTUBE_OEMBED_URL = 'https://www.youtube.com/oembed';
+const YOUTUBE_MAX_RESULTS_PER_PAGE = 50;
 
 /**
  * YouTube API client class
@@ -32,7 +38,7 @@ export class YouTubeAPIClient {
     ttl: environment.getYouTubeConfig().cacheTtlSeconds * 1000,
   });
 
-  constructor(apiKey?: string) {
+  constructor(apiKey?: string, private quotaLedger?: YouTubeQuotaLedger) {
     this.apiKey = apiKey || environment.getYouTubeConfig().apiKey;
     if (!this.apiKey) {
       throw new Error('YouTube API key is not configured');
@@ -40,33 +46,50 @@ export class YouTubeAPIClient {
   }
 
   /**
-   * Extract video ID from YouTube URL
+   * Client for one request that accounts every API call against its quota
+   * ledger. It shares this client's metadata cache.
    */
-  static extractVideoId(url: string): string | null {
-    try {
-      // Clean the URL
-      const cleanUrl = url.trim();
-
-      // Try each pattern
-      for (const pattern of YOUTUBE_VIDEO_URL_PATTERNS) {
-        const match = cleanUrl.match(pattern);
-        if (match && match[1]) {
-          return match[1];
-        }
-      }
+  withQuotaLedger(ledger: YouTubeQuotaLedger): YouTubeAPIClient {
+    const client = new YouTubeAPIClient(this.apiKey, ledger);
+    client.cache = this.cache;
+    return client;
+  }
 
-      // Check if it's already just a video ID
-      if (/^[a-zA-Z0-9_-]{11}$/.test(cleanUrl)) {
-        return cleanUrl;
+  /**
+   * Make a Data API call within the quota budget. Calls are recorded
+   * whatever their outcome, since YouTube charges failed requests too.
+   */
+  private async quotaFetch(
+    operation: YouTubeQuotaOperation,
+    url: string,
+    init?: RequestInit,
+  ): Promise<Response> {
+    if (this.quotaLedger) {
+      const decision = await this.quotaLedger.check(operation);
+      if (!decision.allowed) {
+        logger.warn('YouTube quota budget reached', { operation, ...decision });
+        throw createAppError(
+          YouTubeErrorCode.QUOTA_BUDGET_EXCEEDED,
+          'YouTube API quota budget reached. Please try again later.',
+          { operation, level: decision.level, usedUnits: decision.usedUnits },
+        );
       }
+    }
 
-      return null;
-    } catch (error: any) {
-      logger.error('Failed to extract video ID', error as Error, { url });
-      return null;
+    try {
+      return await fetch(url, init);
+    } finally {
+      await this.quotaLedger?.record(operation);
     }
   }
 
+  /**
+   * Extract video ID from YouTube URL
+   */
+  static extractVideoId(url: string): string | null {
+    return parseYouTubeUrl(url)?.videoId ?? null;
+  }
+
   /**
    * Parse ISO 8601 duration to seconds
    */
@@ -103,7 +126,7 @@ export class YouTubeAPIClient {
 
       // Build API request
       const params = new URLSearchParams({
-        part: 'snippet,contentDetails,statistics,status',
+        part: 'snippet,contentDetails,statistics,status,liveStreamingDetails',
         id: videoId,
         key: this.apiKey,
       });
@@ -113,7 +136,7 @@ export class YouTubeAPIClient {
       logger.info('Fetching YouTube video metadata', { videoId });
 
       // Make API request
-      const response = await fetch(url, {
+      const response = await this.quotaFetch('videos.list', url, {
         method: 'GET',
         headers: {
           'Accept': 'application/json',
@@ -204,6 +227,7 @@ export class YouTubeAPIClient {
       categoryId: snippet.categoryId,
       defaultLanguage: snippet.defaultLanguage,
       defaultAudioLanguage: snippet.defaultAudioLanguage,
+      live: resolveLiveDetails(video),
     };
   }
 
@@ -213,6 +237,7 @@ export class YouTubeAPIClient {
   private async handleAPIError(
     response: Response,
     videoId: string,
+    resource: 'video' | 'playlist' | 'channel' = 'video',
   ): Promise<never> {
     const errorBody = await response.text();
     let errorData: any;
@@ -246,6 +271,20 @@ export class YouTubeAPIClient {
     }
 
     if (response.status === 404) {
+      if (resource === 'playlist') {
+        throw createAppError(
+          YouTubeErrorCode.PLAYLIST_NOT_FOUND,
+          `Playlist ${videoId} not found`,
+          { playlistId: videoId },
+        );
+      }
+      if (resource === 'channel') {
+        throw createAppError(
+          YouTubeErrorCode.CHANNEL_NOT_FOUND,
+          `Channel ${videoId} not found`,
+          { channelId: videoId },
+        );
+      }
       throw createAppError(
         YouTubeErrorCode.VIDEO_NOT_FOUND,
         `Video ${videoId} not found`,
@@ -262,29 +301,213 @@ export class YouTubeAPIClient {
   }
 
   /**
-   * Batch get video metadata (for future use)
+   * Batch get video metadata (up to 50 videos per request). Private and
+   * deleted videos are missing from the result.
    */
   async getVideosMetadata(videoIds: string[]): Promise<YouTubeVideoMetadata[]> {
     if (videoIds.length === 0) return [];
-    if (videoIds.length > 50) {
+    if (videoIds.length > YOUTUBE_MAX_RESULTS_PER_PAGE) {
       throw new Error('Cannot fetch more than 50 videos at once');
     }
 
     const params = new URLSearchParams({
-      part: 'snippet,contentDetails,statistics,status',
+      part: 'snippet,contentDetails,statistics,status,liveStreamingDetails',
       id: videoIds.join(','),
       key: this.apiKey,
     });
 
     const url = `${YOUTUBE_API_BASE_URL}/videos?${params}`;
-    const response = await fetch(url);
+    const response = await this.quotaFetch('videos.list', url);
 
     if (!response.ok) {
       await this.handleAPIError(response, videoIds.join(','));
     }
 
     const data: YouTubeAPIVideoListResponse = await response.json();
-    return data.items.map((video) => this.transformVideoData(video));
+    return (data.items || [])
+      .filter((video) => video.snippet && video.contentDetails)
+      .map((video) => this.transformVideoData(video));
+  }
+
+  /**
+   * Get metadata for any number of videos, 50 per request
+   */
+  async getVideosMetadataBatched(
+    videoIds: string[],
+  ): Promise<YouTubeVideoMetadata[]> {
+    const results: YouTubeVideoMetadata[] = [];
+
+    for (let i = 0; i < videoIds.length; i += YOUTUBE_MAX_RESULTS_PER_PAGE) {
+      const batch = videoIds.slice(i, i + YOUTUBE_MAX_RESULTS_PER_PAGE);
+      results.push(...(await this.getVideosMetadata(batch)));
+    }
+
+    return results;
+  }
+
+  /**
+   * List the video IDs of a playlist in playlist order, paging through
+   * `playlistItems` until `maxVideos` are collected
+   */
+  async getPlaylistVideoIds(
+    playlistId: string,
+    maxVideos = 200,
+  ): Promise<string[]> {
+    const videoIds = new Set<string>();
+    let pageToken: string | undefined;
+
+    do {
+      const params = new URLSearchParams({
+        part: 'contentDetails',
+        playlistId,
+        maxResults: String(YOUTUBE_MAX_RESULTS_PER_PAGE),
+        key: this.apiKey,
+      });
+      if (pageToken) params.set('pageToken', pageToken);
+
+      const response = await this.quotaFetch(
+        'playlistItems.list',
+        `${YOUTUBE_API_BASE_URL}/playlistItems?${params}`,
+        { headers: { 'Accept': 'application/json' } },
+      );
+
+      if (!response.ok) {
+        await this.handleAPIError(response, playlistId, 'playlist');
+      }
+
+      const data: YouTubeAPIPlaylistItemListResponse = await response.json();
+      for (const item of data.items || []) {
+        const videoId = item.contentDetails?.videoId;
+        if (videoId) videoIds.add(videoId);
+      }
+
+      pageToken = data.nextPageToken;
+    } while (pageToken && videoIds.size < maxVideos);
+
+    logger.info('Listed playlist videos', {
+      playlistId,
+      count: videoIds.size,
+    });
+
+    return [...videoIds].slice(0, maxVideos);
+  }
+
+  /**
+   * Resolve a channel by ID or handle, including its uploads playlist
+   */
+  async getChannel(
+    channel: { channelId?: string; handle?: string },
+  ): Promise<YouTubeChannelInfo> {
+    const params = new URLSearchParams({
+      part: 'snippet,contentDetails',
+      key: this.apiKey,
+    });
+    if (channel.channelId) {
+      params.set('id', channel.channelId);
+    } else if (channel.handle) {
+      params.set('forHandle', channel.handle);
+    } else {
+      throw new Error('A channel ID or handle is required');
+    }
+
+    const identifier = channel.channelId || channel.handle!;
+    const response = await this.quotaFetch(
+      'channels.list',
+      `${YOUTUBE_API_BASE_URL}/channels?${params}`,
+      { headers: { 'Accept': 'application/json' } },
+    );
+
+    if (!response.ok) {
+      await this.handleAPIError(response, identifier, 'channel');
+    }
+
+    const data: YouTubeAPIChannelListResponse = await response.json();
+    const item = data.items?.[0];
+    if (!item) {
+      throw createAppError(
+        YouTubeErrorCode.CHANNEL_NOT_FOUND,
+        `Channel ${identifier} not found`,
+        { channel: identifier },
+      );
+    }
+
+    return {
+      channelId: item.id,
+      title: item.snippet?.title || '',
+      uploadsPlaylistId: item.contentDetails?.relatedPlaylists.uploads,
+    };
+  }
+
+  /**
+   * List a channel's video IDs through `search`, newest first. Costs 100
+   * quota units per page, so prefer the uploads playlist unless filtering
+   * by publish date.
+   */
+  async searchChannelVideoIds(
+    channelId: string,
+    options: { maxVideos?: number; publishedAfter?: string } = {},
+  ): Promise<string[]> {
+    const maxVideos = options.maxVideos ?? 200;
+    const videoIds = new Set<string>();
+    let pageToken: string | undefined;
+
+    do {
+      const params = new URLSearchParams({
+        part: 'id',
+        channelId,
+        type: 'video',
+        order: 'date',
+        maxResults: String(YOUTUBE_MAX_RESULTS_PER_PAGE),
+        key: this.apiKey,
+      });
+      if (options.publishedAfter) {
+        params.set('publishedAfter', options.publishedAfter);
+      }
+      if (pageToken) params.set('pageToken', pageToken);
+
+      const response = await this.quotaFetch(
+        'search.list',
+        `${YOUTUBE_API_BASE_URL}/search?${params}`,
+        { headers: { 'Accept': 'application/json' } },
+      );
+
+      if (!response.ok) {
+        await this.handleAPIError(response, channelId, 'channel');
+      }
+
+      const data: YouTubeAPISearchListResponse = await response.json();
+      for (const item of data.items || []) {
+        if (item.id.videoId) videoIds.add(item.id.videoId);
+      }
+
+      pageToken = data.nextPageToken;
+    } while (pageToken && videoIds.size < maxVideos);
+
+    return [...videoIds].slice(0, maxVideos);
+  }
+
+  /**
+   * Tell private and deleted videos apart. The Data API omits both from
+   * `videos` responses; oEmbed answers 401/403 for private videos and 404
+   * for deleted ones, and costs no quota.
+   */
+  async checkVideoAvailability(videoId: string): Promise<VideoAvailability> {
+    const params = new URLSearchParams({
+      url: `https://www.youtube.com/watch?v=${videoId}`,
+      format: 'json',
+    });
+
+    const response = await fetch(`${YOUTUBE_OEMBED_URL}?${params}`);
+
+    if (response.ok) return 'available';
+    if (response.status === 401 || response.status === 403) return 'private';
+    if (response.status === 400 || response.status === 404) return 'deleted';
+
+    throw createAppError(
+      YouTubeErrorCode.NETWORK_ERROR,
+      `Availability check failed with status ${response.status}`,
+      { videoId, status: response.status },
+    );
   }
 }
 
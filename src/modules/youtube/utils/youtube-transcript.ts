@@ -2,11 +2,19 @@
 
 import { Logger } from '@/logging';
 import { createAppError } from '@/errors';
-import type {
+import {
+  CaptionFormat,
   TranscriptLanguage,
+  TranscriptReadability,
   TranscriptSegment,
   YouTubeErrorCode,
 } from '../types/youtube';
+import { fetchCaptionsWithFallback } from './caption-parsers.ts';
+import { computeReadability } from './readability.ts';
+import type {
+  SourcedTranscript,
+  TranscriptSource,
+} from './transcript-sources.ts';
 
 const logger = new Logger({ service: 'youtube-transcript' });
 
@@ -15,28 +23,6 @@ const logger = new Logger({ service: 'youtube-transcript' });
  */
 const YOUTUBE_TRANSCRIPT_BASE_URL = 'https://www.youtube.com/api/timedtext';
 
-/**
- * YouTube transcript format types
- */
-enum TranscriptFormat {
-  XML = 'srv1', // Default XML format
-  JSON3 = 'json3', // JSON format with styling
-}
-
-/**
- * YouTube transcript API response (JSON3 format)
- */
-interface YouTubeTranscriptResponse {
-  wireMagic: string;
-  events: Array<{
-    tStartMs: number;
-    dDurationMs: number;
-    segs?: Array<{
-      utf8: string;
-    }>;
-  }>;
-}
-
 /**
  * YouTube page config regex patterns
  */
@@ -58,9 +44,12 @@ interface CaptionTrack {
 }
 
 /**
- * YouTube transcript extractor class
+ * YouTube transcript extractor class. Scrapes caption tracks from the watch
+ * page; serves as the `captions` transcript source.
  */
-export class YouTubeTranscriptExtractor {
+export class YouTubeTranscriptExtractor implements TranscriptSource {
+  readonly name = 'captions' as const;
+
   /**
    * Get available transcript languages for a video
    */
@@ -130,7 +119,34 @@ export class YouTubeTranscriptExtractor {
     segments: TranscriptSegment[];
     language: TranscriptLanguage;
     totalDuration: number;
+    format: CaptionFormat;
   }> {
+    const transcript = await this.fetchTranscript(videoId, languageCode);
+
+    if (!transcript) {
+      throw createAppError(
+        YouTubeErrorCode.API_ERROR,
+        'No transcripts available for this video',
+        { videoId },
+      );
+    }
+
+    return {
+      segments: transcript.segments,
+      language: transcript.language,
+      totalDuration: transcript.totalDuration,
+      format: transcript.format!,
+    };
+  }
+
+  /**
+   * Fetch captions in the specified language, or the first available one.
+   * Returns null when the video has no caption tracks.
+   */
+  async fetchTranscript(
+    videoId: string,
+    languageCode: string = 'en',
+  ): Promise<SourcedTranscript | null> {
     try {
       logger.info('Extracting transcript', { videoId, languageCode });
 
@@ -138,11 +154,7 @@ export class YouTubeTranscriptExtractor {
       const languages = await this.getAvailableLanguages(videoId);
 
       if (languages.length === 0) {
-        throw createAppError(
-          YouTubeErrorCode.API_ERROR,
-          'No transcripts available for this video',
-          { videoId },
-        );
+        return null;
       }
 
       // Find the requested language or fallback to first available
@@ -163,9 +175,11 @@ export class YouTubeTranscriptExtractor {
       );
 
       return {
+        source: 'captions',
         segments: transcript.segments,
         language: selectedLanguage,
         totalDuration: transcript.totalDuration,
+        format: transcript.format,
       };
     } catch (error: any) {
       if (error instanceof Error && error.name === 'AppError') {
@@ -186,7 +200,8 @@ export class YouTubeTranscriptExtractor {
   }
 
   /**
-   * Fetch transcript data from YouTube
+   * Fetch transcript data from YouTube, falling back from json3 to the
+   * srv3 and srv1 XML formats when a format fails or comes back empty
    */
   private async fetchTranscriptData(
     videoId: string,
@@ -194,12 +209,12 @@ export class YouTubeTranscriptExtractor {
   ): Promise<{
     segments: TranscriptSegment[];
     totalDuration: number;
+    format: CaptionFormat;
   }> {
-    // Build transcript API URL
+    // Build transcript API URL (fmt is set per attempt)
     const params = new URLSearchParams({
       v: videoId,
       lang: languageCode,
-      fmt: TranscriptFormat.JSON3,
       xorb: '2',
       xobt: '3',
       xovt: '3',
@@ -208,59 +223,46 @@ export class YouTubeTranscriptExtractor {
 
     const url = `${YOUTUBE_TRANSCRIPT_BASE_URL}?${params}`;
 
-    const response = await fetch(url, {
-      headers: {
-        'Accept': 'application/json',
-        'Accept-Language': 'en-US,en;q=0.9',
-        'User-Agent':
-          'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
-      },
-    });
-
-    if (!response.ok) {
-      if (response.status === 404) {
+    let result;
+    try {
+      result = await fetchCaptionsWithFallback(url, {
+        headers: {
+          'Accept-Language': 'en-US,en;q=0.9',
+          'User-Agent':
+            'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
+        },
+      });
+    } catch (error: any) {
+      const attempts: Array<{ status?: number }> = error.attempts || [];
+      if (
+        attempts.length > 0 &&
+        attempts.every((attempt) => attempt.status === 404)
+      ) {
         throw createAppError(
           YouTubeErrorCode.API_ERROR,
           'Transcript not found for the specified language',
           { videoId, languageCode },
         );
       }
-      throw new Error(`Transcript API error: ${response.status}`);
+      throw error;
     }
 
-    const data: YouTubeTranscriptResponse = await response.json();
-
-    // Parse transcript segments
-    const segments: TranscriptSegment[] = [];
-    let totalDuration = 0;
-
-    for (const event of data.events) {
-      if (event.segs && event.segs.length > 0) {
-        const text = event.segs.map((seg) => seg.utf8).join('');
-        const start = event.tStartMs / 1000; // Convert to seconds
-        const duration = event.dDurationMs / 1000; // Convert to seconds
-
-        segments.push({
-          start,
-          duration,
-          text: text.trim(),
-        });
-
-        const endTime = start + duration;
-        if (endTime > totalDuration) {
-          totalDuration = endTime;
-        }
-      }
-    }
+    const segments: TranscriptSegment[] = result.cues;
 
     logger.info('Transcript extracted successfully', {
       videoId,
       languageCode,
+      format: result.format,
+      attempts: result.attempts,
       segmentCount: segments.length,
-      totalDuration,
+      totalDuration: result.totalDuration,
     });
 
-    return { segments, totalDuration };
+    return {
+      segments,
+      totalDuration: result.totalDuration,
+      format: result.format,
+    };
   }
 
   /**
@@ -322,11 +324,13 @@ export const transcriptUtils = {
   },
 
   /**
-   * Merge consecutive segments with small gaps
+   * Merge consecutive segments with small gaps, optionally keeping each
+   * merged segment within a duration and character limit
    */
   mergeSegments(
     segments: TranscriptSegment[],
     maxGap: number = 0.5,
+    limits: { maxDuration?: number; maxCharacters?: number } = {},
   ): TranscriptSegment[] {
     if (segments.length === 0) return [];
 
@@ -336,11 +340,18 @@ export const transcriptUtils = {
     for (let i = 1; i < segments.length; i++) {
       const next = segments[i];
       const gap = next.start - (current.start + current.duration);
+      const withinLimits = (limits.maxDuration === undefined ||
+        next.start + next.duration - current.start <= limits.maxDuration) &&
+        (limits.maxCharacters === undefined ||
+          current.text.length + 1 + next.text.length <= limits.maxCharacters);
 
-      if (gap <= maxGap) {
+      if (gap <= maxGap && withinLimits) {
         // Merge segments
         current.duration = (next.start + next.duration) - current.start;
         current.text += ' ' + next.text;
+        if (current.words || next.words) {
+          current.words = [...(current.words || []), ...(next.words || [])];
+        }
       } else {
         // Save current and start new
         merged.push(current);
@@ -365,6 +376,19 @@ export const transcriptUtils = {
 
     return Math.ceil(totalWords / wordsPerMinute);
   },
+
+  /**
+   * Calculate readability metrics and estimated CEFR level for transcript
+   */
+  calculateReadability(
+    segments: TranscriptSegment[],
+    language: string,
+  ): TranscriptReadability {
+    return {
+      ...computeReadability(segments, language),
+      readingTimeMinutes: this.calculateReadingTime(segments),
+    };
+  },
 };
 
 // Export singleton instance
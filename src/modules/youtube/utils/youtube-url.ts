@@ -0,0 +1,199 @@
+// YouTube URL parsing for every link shape users paste
+
+/**
+ * Bare YouTube video ID
+ */
+export const VIDEO_ID_PATTERN = /^[a-zA-Z0-9_-]{11}$/;
+
+/**
+ * Playlist IDs (PL..., UU..., OLAK5uy_..., RD... mixes, WL, LL)
+ */
+export const PLAYLIST_ID_PATTERN = /^[a-zA-Z0-9_-]{2,64}$/;
+
+/**
+ * How the video or playlist was linked
+ */
+export type YouTubeUrlKind =
+  | 'id' // Bare video ID
+  | 'watch' // youtube.com/watch, youtu.be and music.youtube.com links
+  | 'shorts'
+  | 'live'
+  | 'embed' // /embed/, /v/ and /e/, including youtube-nocookie.com
+  | 'playlist'; // Playlist without a specific video
+
+/**
+ * Structured result of parsing a YouTube URL
+ */
+export interface ParsedYouTubeUrl {
+  kind: YouTubeUrlKind;
+  videoId?: string; // Absent for playlist links
+  startSeconds?: number; // From t=, start= or a #t= fragment
+  playlistId?: string;
+  index?: number; // 1-based position in the playlist
+}
+
+const VIDEO_HOSTS = /^(?:(?:www|m|music|gaming)\.)?youtube\.com$/;
+const NOCOOKIE_HOSTS = /^(?:www\.)?youtube-nocookie\.com$/;
+const SHORT_LINK_HOSTS = /^(?:www\.)?youtu\.be$/;
+
+/**
+ * Path prefixes followed by a video ID
+ */
+const VIDEO_PATH_KINDS: Record<string, YouTubeUrlKind> = {
+  shorts: 'shorts',
+  live: 'live',
+  embed: 'embed',
+  v: 'embed',
+  e: 'embed',
+};
+
+/**
+ * Whether a string is a bare YouTube video ID
+ */
+export function isVideoId(value: string): boolean {
+  return VIDEO_ID_PATTERN.test(value);
+}
+
+/**
+ * Parse a start offset as used in t= and start= parameters: plain seconds
+ * ("90", "90s") or unit groups ("1m30s", "1h2m3s"). Returns null when the
+ * value is not an offset.
+ */
+export function parseStartOffset(value: string): number | null {
+  const trimmed = value.trim().toLowerCase();
+  if (trimmed === '') return null;
+
+  if (/^\d+(?:\.\d+)?s?$/.test(trimmed)) {
+    return Math.floor(parseFloat(trimmed));
+  }
+
+  const match = trimmed.match(/^(?:(\d+)h)?(?:(\d+)m)?(?:(\d+)s)?$/);
+  if (!match) return null;
+
+  const [, hours, minutes, seconds] = match;
+  return parseInt(hours || '0', 10) * 3600 +
+    parseInt(minutes || '0', 10) * 60 +
+    parseInt(seconds || '0', 10);
+}
+
+/**
+ * Parse a YouTube video or playlist URL, or a bare video ID. URLs without
+ * a scheme are accepted. Returns null for anything that is not a YouTube
+ * link or carries a malformed ID.
+ */
+export function parseYouTubeUrl(input: string): ParsedYouTubeUrl | null {
+  const trimmed = input.trim();
+  if (isVideoId(trimmed)) {
+    return { kind: 'id', videoId: trimmed };
+  }
+
+  const hasScheme = /^[a-z][a-z0-9+.-]*:\/\//i.test(trimmed);
+  let url: URL;
+  try {
+    url = new URL(hasScheme ? trimmed : `https://${trimmed}`);
+  } catch {
+    return null;
+  }
+
+  if (!['http:', 'https:'].includes(url.protocol)) return null;
+
+  const host = url.hostname.toLowerCase();
+  const segments = url.pathname.split('/').filter(Boolean);
+
+  if (SHORT_LINK_HOSTS.test(host)) {
+    return withVideo('watch', segments[0], url);
+  }
+
+  if (!VIDEO_HOSTS.test(host) && !NOCOOKIE_HOSTS.test(host)) return null;
+
+  const [first, second] = segments;
+
+  // youtube.com/watch?v=..., also youtube.com/?v=...
+  if (first === 'watch' || (!first && url.searchParams.has('v'))) {
+    const videoId = url.searchParams.get('v');
+    return videoId === null
+      ? playlistOnly(url)
+      : withVideo('watch', videoId, url);
+  }
+
+  if (first === 'playlist') {
+    return playlistOnly(url);
+  }
+
+  // Old share links wrap the watch URL: /attribution_link?u=/watch%3Fv%3D...
+  if (first === 'attribution_link') {
+    const target = url.searchParams.get('u');
+    return target?.startsWith('/')
+      ? parseYouTubeUrl(`https://${host}${target}`)
+      : null;
+  }
+
+  if (first && VIDEO_PATH_KINDS[first] && second) {
+    // Embedded playlist player
+    if (first === 'embed' && second === 'videoseries') {
+      return playlistOnly(url);
+    }
+    return withVideo(VIDEO_PATH_KINDS[first], second, url);
+  }
+
+  return null;
+}
+
+/**
+ * Result for a link to a video, with any start offset and playlist context
+ */
+function withVideo(
+  kind: YouTubeUrlKind,
+  videoId: string | undefined,
+  url: URL,
+): ParsedYouTubeUrl | null {
+  if (!videoId || !isVideoId(videoId)) return null;
+
+  const playlist = readPlaylist(url);
+  if (playlist === null) return null;
+
+  const startSeconds = readStartSeconds(url);
+  return startSeconds === undefined
+    ? { kind, videoId, ...playlist }
+    : { kind, videoId, startSeconds, ...playlist };
+}
+
+/**
+ * Result for a link to a whole playlist
+ */
+function playlistOnly(url: URL): ParsedYouTubeUrl | null {
+  const playlist = readPlaylist(url);
+  if (!playlist?.playlistId) return null;
+  return { kind: 'playlist', ...playlist };
+}
+
+/**
+ * Start offset from the query or a #t= fragment. Invalid offsets are
+ * ignored rather than rejecting the link.
+ */
+function readStartSeconds(url: URL): number | undefined {
+  const fragment = new URLSearchParams(url.hash.replace(/^#/, ''));
+  const value = url.searchParams.get('t') ?? url.searchParams.get('start') ??
+    fragment.get('t');
+  if (value === null) return undefined;
+
+  const seconds = parseStartOffset(value);
+  return seconds === null ? undefined : seconds;
+}
+
+/**
+ * Playlist ID and index from the query. Returns null when list= is present
+ * but malformed.
+ */
+function readPlaylist(
+  url: URL,
+): Pick<ParsedYouTubeUrl, 'playlistId' | 'index'> | null {
+  const playlistId = url.searchParams.get('list');
+  if (playlistId === null) return {};
+  if (!PLAYLIST_ID_PATTERN.test(playlistId)) return null;
+
+  const index = parseInt(url.searchParams.get('index') || '', 10);
+  return Number.isInteger(index) && index > 0
+    ? { playlistId, index }
+    : { playlistId };
+}
@@ -36,6 +36,15 @@ const createEnvironmentSchema = (env: string) => {
     YOUTUBE_API_KEY: z.string().min(1, 'YOUTUBE_API_KEY is required'),
     YOUTUBE_API_QUOTA_PER_DAY: z.coerce.number().default(10000), // Default YouTube quota
     YOUTUBE_CACHE_TTL_SECONDS: z.coerce.number().default(86400), // 24 hours
+    YOUTUBE_REFRESH_QUOTA_BUDGET: z.coerce.number().default(500), // Daily units for metadata refresh
+    YOUTUBE_QUOTA_SOFT_LIMIT_PERCENT: z.coerce.number().min(0).max(100).default(80),
+    YOUTUBE_QUOTA_HARD_LIMIT_PERCENT: z.coerce.number().min(0).max(100).default(95),
+    TRANSCRIPT_SOURCES: z.string().default('captions,asr'), // Transcript source order
+    ASR_API_URL: z.string().url().optional(), // OpenAI-compatible speech-to-text server
+    ASR_API_KEY: z.string().optional(),
+    ASR_MODEL: z.string().default('whisper-1'),
+    ASR_AUDIO_URL_TEMPLATE: z.string().optional(), // Audio download URL with {videoId}
+    ASR_MAX_AUDIO_BYTES: z.coerce.number().default(26214400), // 25 MB
 
     // Translation API Configuration (for future use)
     GOOGLE_TRANSLATE_API_KEY: z.string().optional(),
@@ -169,6 +178,17 @@ export const environment = {
     apiKey: env.YOUTUBE_API_KEY,
     quotaPerDay: env.YOUTUBE_API_QUOTA_PER_DAY,
     cacheTtlSeconds: env.YOUTUBE_CACHE_TTL_SECONDS,
+    refreshQuotaBudget: env.YOUTUBE_REFRESH_QUOTA_BUDGET,
+    quotaSoftLimitPercent: env.YOUTUBE_QUOTA_SOFT_LIMIT_PERCENT,
+    quotaHardLimitPercent: env.YOUTUBE_QUOTA_HARD_LIMIT_PERCENT,
+    transcriptSources: env.TRANSCRIPT_SOURCES.split(',').map(source => source.trim()),
+    asr: {
+      apiUrl: env.ASR_API_URL,
+      apiKey: env.ASR_API_KEY,
+      model: env.ASR_MODEL,
+      audioUrlTemplate: env.ASR_AUDIO_URL_TEMPLATE,
+      maxAudioBytes: env.ASR_MAX_AUDIO_BYTES,
+    },
     rateLimits: {
       perMinute: env.YOUTUBE_RATE_LIMIT_PER_MINUTE,
       perHour: env.YOUTUBE_RATE_LIMIT_PER_HOUR,